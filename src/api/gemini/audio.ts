@@ -2,54 +2,25 @@
 //
 // SPDX-License-Identifier: Apache-2.0
 import { debugLogService } from '../../features/diagnostics';
+import { bytesToBase64, encodePcm16 } from '../../shared/utils/audioEncoding';
 import { getAi } from './client';
+import { TTS_MODEL_ID } from '../../core/config/app';
+import { executeRequest } from '../llm/executor';
+import { withModelFallback } from '../llm/models';
 
-const writeAscii = (view: DataView, offset: number, value: string) => {
-  for (let i = 0; i < value.length; i++) {
-    view.setUint8(offset + i, value.charCodeAt(i));
-  }
-};
-
-const bytesToBase64 = (bytes: Uint8Array): string => {
-  let binary = '';
-  const len = bytes.byteLength;
-  const chunkSize = 0x8000;
-  for (let i = 0; i < len; i += chunkSize) {
-    const chunk = bytes.subarray(i, Math.min(i + chunkSize, len));
-    binary += String.fromCharCode.apply(null, chunk as unknown as number[]);
-  }
-  return btoa(binary);
-};
-
-const pcm16ToWavBase64 = (base64Pcm: string, sampleRate = 24000, numChannels = 1): string => {
+const base64ToPcm16 = (base64Pcm: string): Int16Array => {
   const binaryString = atob(base64Pcm);
-  const len = binaryString.length;
-
-  const buffer = new ArrayBuffer(44 + len);
-  const view = new DataView(buffer);
-
-  writeAscii(view, 0, 'RIFF');
-  view.setUint32(4, 36 + len, true);
-  writeAscii(view, 8, 'WAVE');
-
-  writeAscii(view, 12, 'fmt ');
-  view.setUint32(16, 16, true);
-  view.setUint16(20, 1, true);
-  view.setUint16(22, numChannels, true);
-  view.setUint32(24, sampleRate, true);
-  view.setUint32(28, sampleRate * numChannels * 2, true);
-  view.setUint16(32, numChannels * 2, true);
-  view.setUint16(34, 16, true);
-
-  writeAscii(view, 36, 'data');
-  view.setUint32(40, len, true);
-
-  const bytes = new Uint8Array(buffer);
-  for (let i = 0; i < len; i++) {
-    bytes[44 + i] = binaryString.charCodeAt(i);
+  const bytes = new Uint8Array(binaryString.length - (binaryString.length % 2));
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
   }
+  return new Int16Array(bytes.buffer);
+};
 
-  return bytesToBase64(bytes);
+/** Gemini TTS returns raw 24 kHz PCM; encode it as Opus/WebM, or WAV where unsupported. */
+const encodeSpeechBase64 = async (base64Pcm: string, sampleRate = 24000): Promise<{ base64: string; mimeType: string }> => {
+  const encoded = await encodePcm16(base64ToPcm16(base64Pcm), sampleRate);
+  return { base64: bytesToBase64(encoded.bytes), mimeType: encoded.mimeType };
 };
 
 export interface GenerateSpeechResult {
@@ -58,27 +29,32 @@ export interface GenerateSpeechResult {
   error?: string;
 }
 
-export const generateSpeech = async (params: { text: string; voiceName?: string }): Promise<GenerateSpeechResult> => {
+export const generateSpeech = async (params: {
+  text: string;
+  voiceName?: string;
+  model?: string;
+  fallbackModels?: string[];
+}): Promise<GenerateSpeechResult> => {
   const ai = await getAi();
-  const model = 'gemini-2.5-flash-preview-tts';
+  const chain = [params.model || TTS_MODEL_ID, ...(params.fallbackModels || [])];
   const config = {
     responseModalities: ['AUDIO'],
     speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: params.voiceName || 'Kore' } } },
   };
-  const log = debugLogService.logRequest('generateSpeech', model, { text: params.text, config });
+  const log = debugLogService.logRequest('generateSpeech', chain[0], { text: params.text, config });
 
   try {
-    const result = await ai.models.generateContent({
+    const result = await withModelFallback(chain, model => executeRequest(() => ai.models.generateContent({
       model,
       contents: { parts: [{ text: params.text }] },
       config: config as any,
-    });
+    }), { model }));
     const c = result.candidates?.[0];
     const part = c?.content?.parts?.[0];
     if (part?.inlineData && part.inlineData.data) {
       log.complete({ audioBytes: part.inlineData.data.length });
-      const wavBase64 = pcm16ToWavBase64(part.inlineData.data);
-      return { audioBase64: wavBase64, mimeType: 'audio/wav' };
+      const encoded = await encodeSpeechBase64(part.inlineData.data);
+      return { audioBase64: encoded.base64, mimeType: encoded.mimeType };
     }
     const noAudioError = 'No audio data received from TTS';
     log.error(noAudioError);
@@ -1,8 +1,11 @@
 // Copyright 2025 Roni Tervo
 //
 // SPDX-License-Identifier: Apache-2.0
-import { GoogleGenAI } from '@google/genai';
+import { GoogleGenAI, type Caches, type Files, type Live, type Models } from '@google/genai';
 import { getApiKeyOrThrow } from '../../core/security/apiKeyStorage';
+import { createFakeGeminiClient } from './fakeClient';
+import { getGeminiBackendMode, loadActiveFixture, type GeminiFixture } from './fixtures';
+import { createRecordingGeminiClient } from './recordingClient';
 
 export class ApiError extends Error {
   status?: number;
@@ -16,12 +19,43 @@ export class ApiError extends Error {
   }
 }
 
-export const getAi = async () => {
+/** The part of the SDK the app uses; `GoogleGenAI`, the fixture fake or the recorder. */
+export interface GeminiClient {
+  models: Pick<Models, 'generateContent' | 'generateContentStream' | 'list'>;
+  files: Pick<Files, 'upload' | 'get' | 'delete'>;
+  live: Pick<Live, 'connect'>;
+  caches: Pick<Caches, 'create' | 'update' | 'delete'>;
+}
+
+let clientOverride: GeminiClient | null = null;
+// One fake per fixture, so replies are used up across calls.
+let fake: { fixture: GeminiFixture; client: GeminiClient } | null = null;
+
+/** Makes `getAi` return `client` (tests, scripted demos); null goes back to the configured backend. */
+export const setGeminiClientOverride = (client: GeminiClient | null) => {
+  clientOverride = client;
+};
+
+/**
+ * The Gemini client for the backend mode (see `fixtures.ts`): the real API,
+ * the fixture fake (no key needed) or the real API with recording.
+ */
+export const getAi = async (): Promise<GeminiClient> => {
+  if (clientOverride) return clientOverride;
+  const mode = getGeminiBackendMode();
+  if (mode === 'fake') {
+    const fixture = await loadActiveFixture();
+    if (!fake || fake.fixture !== fixture) fake = { fixture, client: createFakeGeminiClient(fixture) };
+    return fake.client;
+  }
+
+  let client: GeminiClient;
   try {
     const apiKey = await getApiKeyOrThrow();
-    return new GoogleGenAI({ apiKey });
+    client = new GoogleGenAI({ apiKey });
   } catch (e: any) {
     const message = e?.message || 'Missing API key';
     throw new ApiError(message, { code: 'MISSING_API_KEY' });
   }
+  return mode === 'record' ? createRecordingGeminiClient(client) : client;
 };
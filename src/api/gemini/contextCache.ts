@@ -0,0 +1,261 @@
+// Copyright 2025 Roni Tervo
+//
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * Explicit context caching of the stable start of a conversation.
+ *
+ * Responsibilities:
+ * - Keep one Gemini context cache per key (a conversation) holding the system
+ *   instruction, tools and the leading history turns
+ * - Reuse it while a request starts with the cached content; refresh its TTL
+ *   when it is about to expire, rebuild it once enough new turns follow it
+ * - Replace it when the system instruction, tools, model or the start of the
+ *   history change (prompt edits, bookmarks)
+ * - Keep recent cached and uncached request timings for the diagnostics panel
+ *
+ * With a full history window every turn drops the oldest messages, so nothing
+ * after the system instruction stays put; such conversations cache only the
+ * system instruction. Requests too small for a cache go out uncached, as do
+ * keys whose cache the API refused, until their system instruction changes.
+ */
+
+import type { Content } from '@google/genai';
+import { debugLogService } from '../../features/diagnostics';
+import { getAi, type GeminiClient } from './client';
+import { hashString } from '../../shared/utils/hash';
+
+export const CONTEXT_CACHE_TTL_SECONDS = 600;
+// Refreshed once less than this is left, so it cannot expire mid-request.
+const REFRESH_MARGIN_MS = 60_000;
+// New history contents after the cached ones before the cache is rebuilt to include them.
+const EXTEND_AFTER_CONTENTS = 10;
+// Smallest cache the API accepts; Pro models need more.
+const MIN_CACHE_TOKENS = 1024;
+const MIN_CACHE_TOKENS_PRO = 4096;
+const MAX_SAMPLES = 50;
+const STORAGE_KEY = 'maestro_context_cache';
+
+interface CacheEntry {
+  name: string;
+  model: string;
+  /** Hash of the system instruction and tools. */
+  baseHash: string;
+  /** Hashes of the cached history contents, in order. */
+  contentHashes: string[];
+  tokenCount: number;
+  expiresAt: number;
+  /** The history window moves every turn; only the system instruction is cached. */
+  sliding: boolean;
+}
+
+/** A live cache, as the diagnostics panel shows it. */
+export interface ContextCacheInfo {
+  key: string;
+  model: string;
+  tokenCount: number;
+  cachedContents: number;
+  expiresAt: number;
+}
+
+/** One streamed request, with or without a cache. */
+export interface ContextCacheSample {
+  at: number;
+  model: string;
+  cached: boolean;
+  promptTokens: number;
+  cachedTokens: number;
+  outputTokens: number;
+  /** Time spent creating or refreshing the cache before sending. */
+  setupMs: number;
+  firstChunkMs: number | null;
+  totalMs: number;
+}
+
+export interface CachedRequest {
+  contents: Content[];
+  config: Record<string, any>;
+  /** Set when the request reads from a cache. */
+  cacheName?: string;
+}
+
+const entries = new Map<string, CacheEntry>();
+// Keys whose cache creation was refused, with the base hash it was refused for.
+const declined = new Map<string, string>();
+let samples: ContextCacheSample[] = [];
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+export const subscribeContextCache = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const isContextCacheEnabled = (): boolean => {
+  try {
+    return window.localStorage.getItem(STORAGE_KEY) !== 'off';
+  } catch {
+    return true;
+  }
+};
+
+/** Turning caching off deletes the live caches, so they stop costing storage. */
+export const setContextCacheEnabled = (enabled: boolean) => {
+  try {
+    if (enabled) window.localStorage.removeItem(STORAGE_KEY);
+    else window.localStorage.setItem(STORAGE_KEY, 'off');
+  } catch { /* storage unavailable */ }
+  if (!enabled) [...entries.keys()].forEach(invalidateContextCache);
+  notify();
+};
+
+const hashJson = (value: unknown) => hashString(JSON.stringify(value ?? null));
+
+// Text only: inline media is counted by the API, not by its base64 length.
+const estimateTokens = (value: unknown) =>
+  Math.ceil(JSON.stringify(value, (k, v) => (k === 'inlineData' ? undefined : v)).length / 4);
+
+const startsWith = (list: string[], prefix: string[]) => prefix.every((hash, i) => list[i] === hash);
+
+// True when `next` is `previous` with contents dropped from the front. The first
+// content carries the summary preface, so it changes too and is left out.
+const isSlidWindow = (previous: string[], next: string[]) => {
+  for (let drop = 1; drop < previous.length - 1; drop++) {
+    if (previous.slice(drop + 1).every((hash, i) => next[i + 1] === hash)) return true;
+  }
+  return false;
+};
+
+/** Drops the key's cache and deletes it on the API side. */
+export const invalidateContextCache = (key: string) => {
+  const entry = entries.get(key);
+  if (!entry) return;
+  entries.delete(key);
+  getAi()
+    .then(ai => ai.caches.delete({ name: entry.name }))
+    .catch(() => { /* expires on its own */ });
+  notify();
+};
+
+const createCache = async (
+  ai: GeminiClient,
+  key: string,
+  model: string,
+  config: Record<string, any>,
+  contents: Content[],
+  entry: Omit<CacheEntry, 'name' | 'tokenCount' | 'expiresAt'>
+): Promise<CacheEntry | null> => {
+  const payload = { systemInstruction: config.systemInstruction, tools: config.tools, toolConfig: config.toolConfig, contents };
+  const minTokens = model.includes('pro') ? MIN_CACHE_TOKENS_PRO : MIN_CACHE_TOKENS;
+  if (estimateTokens(payload) < minTokens) return null;
+
+  const log = debugLogService.logRequest('cacheCreate', model, { key, contents: contents.length, ttlSeconds: CONTEXT_CACHE_TTL_SECONDS });
+  try {
+    const cache = await ai.caches.create({
+      model,
+      config: { ...payload, displayName: `maestro:${key}`, ttl: `${CONTEXT_CACHE_TTL_SECONDS}s` },
+    });
+    const created: CacheEntry = {
+      ...entry,
+      name: cache.name || '',
+      tokenCount: cache.usageMetadata?.totalTokenCount || 0,
+      expiresAt: cache.expireTime ? Date.parse(cache.expireTime) : Date.now() + CONTEXT_CACHE_TTL_SECONDS * 1000,
+    };
+    log.complete({ name: created.name, tokenCount: created.tokenCount });
+    return created.name ? created : null;
+  } catch (e: any) {
+    log.error(e);
+    // A refused cache (too small, unsupported model) stays refused; other failures may pass.
+    const status = Number(e?.status);
+    if (status === 400 || status === 403 || status === 404) declined.set(key, entry.baseHash);
+    return null;
+  }
+};
+
+const refreshCache = async (ai: GeminiClient, entry: CacheEntry) => {
+  const cache = await ai.caches.update({ name: entry.name, config: { ttl: `${CONTEXT_CACHE_TTL_SECONDS}s` } });
+  entry.expiresAt = cache.expireTime ? Date.parse(cache.expireTime) : Date.now() + CONTEXT_CACHE_TTL_SECONDS * 1000;
+};
+
+/**
+ * `contents` and `config` of a request with the system instruction, tools and
+ * leading history served from the key's cache when possible. The last content
+ * (the current turn) is never cached. Any cache failure returns the request
+ * unchanged, so caching can only cost a round trip, not the reply.
+ */
+export const applyContextCache = async (
+  ai: GeminiClient,
+  key: string,
+  model: string,
+  contents: Content[],
+  config: Record<string, any>
+): Promise<CachedRequest> => {
+  if (!isContextCacheEnabled()) return { contents, config };
+  const baseHash = hashJson([config.systemInstruction, config.tools, config.toolConfig]);
+  if (declined.get(key) === baseHash) return { contents, config };
+
+  const historyHashes = contents.slice(0, -1).map(hashJson);
+  const current = entries.get(key);
+  const sameBase = !!current && current.model === model && current.baseHash === baseHash;
+  const prefixMatches = sameBase && startsWith(historyHashes, current!.contentHashes);
+  const sliding = sameBase && (prefixMatches ? current!.sliding : isSlidWindow(current!.contentHashes, historyHashes));
+  const newContents = historyHashes.length - (current?.contentHashes.length || 0);
+
+  let entry = current;
+  try {
+    const stale = !current || !prefixMatches || current.expiresAt <= Date.now()
+      || (!sliding && newContents >= EXTEND_AFTER_CONTENTS);
+    if (stale) {
+      const cachedCount = sliding ? 0 : historyHashes.length;
+      entry = (await createCache(ai, key, model, config, contents.slice(0, cachedCount), {
+        model,
+        baseHash,
+        contentHashes: historyHashes.slice(0, cachedCount),
+        sliding,
+      })) ?? undefined;
+      invalidateContextCache(key);
+      if (entry) entries.set(key, entry);
+      notify();
+    } else if (current.expiresAt - Date.now() < REFRESH_MARGIN_MS) {
+      await refreshCache(ai, current);
+      notify();
+    }
+  } catch (e) {
+    console.warn('[ContextCache] Falling back to an uncached request:', e);
+    invalidateContextCache(key);
+    return { contents, config };
+  }
+  if (!entry) return { contents, config };
+
+  // The cache holds these; the API rejects them next to `cachedContent`.
+  const cachedConfig: Record<string, any> = { ...config, cachedContent: entry.name };
+  delete cachedConfig.systemInstruction;
+  delete cachedConfig.tools;
+  delete cachedConfig.toolConfig;
+  return { contents: contents.slice(entry.contentHashes.length), config: cachedConfig, cacheName: entry.name };
+};
+
+/** A request's cache went missing (expired, deleted, other backend). */
+export const isCacheMissingError = (e: any): boolean =>
+  Number(e?.status) === 404 || /cached ?content/i.test(String(e?.message || ''));
+
+export const recordContextCacheSample = (sample: ContextCacheSample) => {
+  samples = [...samples.slice(-(MAX_SAMPLES - 1)), sample];
+  notify();
+};
+
+export const getContextCacheSamples = (): ContextCacheSample[] => samples;
+
+export const clearContextCacheSamples = () => {
+  samples = [];
+  notify();
+};
+
+export const getContextCaches = (): ContextCacheInfo[] =>
+  [...entries.entries()].map(([key, entry]) => ({
+    key,
+    model: entry.model,
+    tokenCount: entry.tokenCount,
+    cachedContents: entry.contentHashes.length,
+    expiresAt: entry.expiresAt,
+  }));
@@ -0,0 +1,154 @@
+// Copyright 2025 Roni Tervo
+//
+// SPDX-License-Identifier: Apache-2.0
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it } from 'vitest';
+import type { LiveServerMessage } from '@google/genai';
+import { parseReplySuggestionsResponse } from '../../features/chat';
+import { createGeminiProvider } from '../llm/geminiProvider';
+import { getAi, setGeminiClientOverride } from './client';
+import { createFakeGeminiClient } from './fakeClient';
+import { checkFileStatuses, uploadMediaToFiles } from './files';
+import { parseGeminiFixture, type GeminiFixture } from './fixtures';
+import { generateGeminiResponse, streamGeminiResponse } from './generative';
+
+const MODEL = 'gemini-test';
+
+const reply = (text: string, extra: Record<string, unknown> = {}) => ({
+  candidates: [{ content: { role: 'model', parts: [{ text }] }, finishReason: 'STOP', index: 0 }],
+  ...extra,
+});
+
+const fixture = (data: Partial<GeminiFixture>): GeminiFixture =>
+  parseGeminiFixture(JSON.stringify({ version: 1, ...data }));
+
+const useFixture = (data: Partial<GeminiFixture>) => setGeminiClientOverride(createFakeGeminiClient(fixture(data)));
+
+describe('fake Gemini client', () => {
+  afterEach(() => { setGeminiClientOverride(null); });
+
+  it('replays generateContent replies in order and streams chunks to onText', async () => {
+    useFixture({
+      generateContent: [
+        { model: MODEL, responses: [reply('¡Hola!', { usageMetadata: { promptTokenCount: 12, totalTokenCount: 15 } })] },
+        { promptIncludes: 'gato', stream: true, responses: [reply('El '), reply('gato '), reply('duerme.')] },
+      ],
+    });
+
+    const whole = await generateGeminiResponse(MODEL, 'Saluda', []);
+    expect(whole.text).toBe('¡Hola!');
+    expect(whole.usageMetadata).toEqual({ promptTokenCount: 12, totalTokenCount: 15 });
+
+    const seen: string[] = [];
+    const streamed = await streamGeminiResponse(MODEL, 'Describe el gato', [], { onText: text => seen.push(text) });
+    expect(seen).toEqual(['El ', 'El gato ', 'El gato duerme.']);
+    expect(streamed.text).toBe('El gato duerme.');
+
+    // Both replies are used up now.
+    await expect(generateGeminiResponse(MODEL, 'Saluda', [])).rejects.toMatchObject({ code: 'FIXTURE_MISSING' });
+  });
+
+  it('fails with the recorded error', async () => {
+    useFixture({ generateContent: [{ responses: [], error: { status: 400, message: 'API key not valid' } }] });
+
+    await expect(generateGeminiResponse(MODEL, 'Saluda', [])).rejects.toMatchObject({ status: 400 });
+  });
+
+  it('parses reply suggestions out of a recorded aux reply', async () => {
+    const recorded = {
+      suggestions: [
+        { target: 'Quiero un café, por favor.', native: 'I would like a coffee, please.' },
+        { target: '¿Cuánto cuesta?', native: 'How much is it?' },
+      ],
+      reengagementSeconds: 45,
+      chatSummary: ' Ordering at a café. ',
+      globalProfile: 'Beginner; practises food vocabulary.',
+    };
+    useFixture({
+      generateContent: [{ responses: [reply(`\`\`\`json\n${JSON.stringify(recorded, null, 2)}\n\`\`\``)] }],
+    });
+
+    const response = await createGeminiProvider({}).generateText({ task: 'aux', model: MODEL, prompt: 'Suggest replies', history: [] });
+    const result = parseReplySuggestionsResponse(response.text || '');
+
+    expect(result).toEqual({
+      ok: true,
+      value: { ...recorded, chatSummary: 'Ordering at a café.' },
+    });
+  });
+
+  it('moves uploaded files through their recorded states', async () => {
+    useFixture({
+      files: [
+        { mimeType: 'image/png', states: ['PROCESSING', 'ACTIVE'] },
+        { states: ['PROCESSING', 'FAILED'] },
+      ],
+    });
+    const ai = await getAi();
+
+    const uploaded = await uploadMediaToFiles('data:image/png;base64,iVBORw0K', 'image/png', 'card');
+    expect(uploaded).toEqual({ uri: 'fake://files/fake-1', mimeType: 'image/png' });
+    expect(await checkFileStatuses([uploaded.uri])).toEqual({ [uploaded.uri]: { deleted: false, active: true } });
+
+    await expect(uploadMediaToFiles('data:audio/webm;base64,GkXf', 'audio/webm;codecs=opus')).rejects.toThrow('File processing failed');
+    expect((await ai.files.get({ name: 'files/fake-2' })).state).toBe('FAILED');
+
+    await ai.files.delete({ name: 'files/fake-1' });
+    expect(await checkFileStatuses([uploaded.uri])).toEqual({ [uploaded.uri]: { deleted: true, active: false } });
+  });
+
+  it('plays a scripted Live turn once audio is sent', async () => {
+    useFixture({
+      live: [{
+        model: MODEL,
+        turns: [{
+          after: 'input',
+          intervalMs: 1,
+          messages: [
+            { serverContent: { inputTranscription: { text: 'Hola' } } },
+            { audioMs: 100 },
+            { serverContent: { outputTranscription: { text: 'Hola, ¿qué tal?' } } },
+            { serverContent: { turnComplete: true } },
+          ],
+        }],
+        closeAfter: true,
+      }],
+    });
+    const ai = await getAi();
+    const messages: LiveServerMessage[] = [];
+    let opened = false;
+
+    let onClose = () => {};
+    const closed = new Promise<void>(resolve => { onClose = resolve; });
+
+    const session = await ai.live.connect({
+      model: MODEL,
+      callbacks: {
+        onopen: () => { opened = true; },
+        onmessage: message => { messages.push(message); },
+        onclose: () => onClose(),
+      },
+    });
+    // Nothing plays before the learner speaks.
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(messages).toHaveLength(0);
+    session.sendRealtimeInput({ audio: { data: 'AAAA', mimeType: 'audio/pcm;rate=16000' } });
+    await closed;
+
+    expect(opened).toBe(true);
+    expect(messages[0].serverContent?.inputTranscription?.text).toBe('Hola');
+    const audio = messages[1].serverContent?.modelTurn?.parts?.[0]?.inlineData;
+    expect(audio?.mimeType).toBe('audio/pcm;rate=24000');
+    expect(atob(audio?.data || '')).toHaveLength(24000 * 0.1 * 2);
+    expect(messages[2].serverContent?.outputTranscription?.text).toBe('Hola, ¿qué tal?');
+    expect(messages[3].serverContent?.turnComplete).toBe(true);
+    expect(messages).toHaveLength(4);
+  });
+
+  it('fails live.connect when no session is left', async () => {
+    useFixture({});
+    const ai = await getAi();
+
+    await expect(ai.live.connect({ model: MODEL, callbacks: { onmessage: () => {} } })).rejects.toMatchObject({ code: 'FIXTURE_MISSING' });
+  });
+});
@@ -0,0 +1,217 @@
+// Copyright 2025 Roni Tervo
+//
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * Fake Gemini client that replays a fixture instead of calling the API.
+ *
+ * Responsibilities:
+ * - Answer `generateContent` / `generateContentStream` with the next matching
+ *   recorded reply, or fail with its recorded error
+ * - Walk uploaded files through their fixture states (`PROCESSING` → `ACTIVE`)
+ * - Play scripted Live sessions: transcriptions, audio chunks and `turnComplete`
+ *   messages, turn by turn as the app sends input
+ * - Hand out context caches that only track their expiry
+ *
+ * Requests nothing in the fixture answers fail with a `FIXTURE_MISSING`
+ * ApiError, which is not retried.
+ */
+
+import {
+  GenerateContentResponse,
+  type CachedContent,
+  LiveServerMessage,
+  type File as GeminiFile,
+  type GenerateContentParameters,
+  type LiveConnectParameters,
+  type Model,
+  type Pager,
+  type Session,
+} from '@google/genai';
+import { ApiError, type GeminiClient } from './client';
+import { requestText, type FixtureFile, type FixtureGenerateExchange, type FixtureLiveSession, type GeminiFixture } from './fixtures';
+
+const STREAM_CHUNK_DELAY_MS = 30;
+const LIVE_MESSAGE_INTERVAL_MS = 20;
+const LIVE_OUTPUT_SAMPLE_RATE = 24000;
+
+const missing = (what: string) => new ApiError(`No fixture for ${what}`, { code: 'FIXTURE_MISSING' });
+
+const toResponse = (json: Record<string, unknown>) => Object.assign(new GenerateContentResponse(), json);
+
+const DEFAULT_CACHE_TTL_SECONDS = 3600;
+
+const expireTimeFor = (ttl: string | undefined) =>
+  new Date(Date.now() + (parseInt(ttl || '', 10) || DEFAULT_CACHE_TTL_SECONDS) * 1000).toISOString();
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const silentAudioMessage = (ms: number): Record<string, unknown> => {
+  const bytes = new Uint8Array(Math.round((ms / 1000) * LIVE_OUTPUT_SAMPLE_RATE) * 2);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return {
+    serverContent: {
+      modelTurn: { parts: [{ inlineData: { mimeType: `audio/pcm;rate=${LIVE_OUTPUT_SAMPLE_RATE}`, data: btoa(binary) } }] },
+    },
+  };
+};
+
+const toLiveMessage = (json: Record<string, unknown>) =>
+  Object.assign(new LiveServerMessage(), typeof json.audioMs === 'number' ? silentAudioMessage(json.audioMs) : json);
+
+export const createFakeGeminiClient = (fixture: GeminiFixture): GeminiClient => {
+  const usedExchanges = new Set<number>();
+  const usedLiveSessions = new Set<number>();
+  const uploads = new Map<string, { file: FixtureFile; reads: number; mimeType: string }>();
+  let nextFileIndex = 0;
+  const caches = new Map<string, CachedContent>();
+  let nextCacheIndex = 0;
+
+  const takeExchange = (params: GenerateContentParameters, stream: boolean): FixtureGenerateExchange => {
+    const text = requestText(params.contents);
+    const index = fixture.generateContent.findIndex((e, i) =>
+      !usedExchanges.has(i)
+      && (e.stream === undefined || e.stream === stream)
+      && (!e.model || e.model === params.model)
+      && (!e.promptIncludes || text.includes(e.promptIncludes)));
+    if (index === -1) throw missing(`${stream ? 'generateContentStream' : 'generateContent'} on ${params.model}`);
+    const exchange = fixture.generateContent[index];
+    if (!exchange.repeat) usedExchanges.add(index);
+    if (exchange.error) throw new ApiError(exchange.error.message, { status: exchange.error.status });
+    return exchange;
+  };
+
+  const fileState = (name: string): GeminiFile => {
+    const upload = uploads.get(name);
+    if (!upload) throw new ApiError(`File ${name} not found`, { status: 404 });
+    const states = upload.file.states.length ? upload.file.states : ['ACTIVE'];
+    const state = states[Math.min(upload.reads, states.length - 1)];
+    upload.reads++;
+    return { name, uri: `fake://${name}`, mimeType: upload.mimeType, state } as GeminiFile;
+  };
+
+  const connectLive = async (params: LiveConnectParameters): Promise<Session> => {
+    const index = fixture.live.findIndex((s, i) => !usedLiveSessions.has(i) && (!s.model || s.model === params.model));
+    if (index === -1) throw missing(`live.connect on ${params.model}`);
+    usedLiveSessions.add(index);
+    const script: FixtureLiveSession = fixture.live[index];
+    const callbacks = params.callbacks;
+    const timers = new Set<ReturnType<typeof setTimeout>>();
+    let turnIndex = 0;
+    let playing = false;
+    let closed = false;
+
+    const schedule = (ms: number, run: () => void) => {
+      const timer = setTimeout(() => {
+        timers.delete(timer);
+        if (!closed) run();
+      }, ms);
+      timers.add(timer);
+    };
+
+    const close = (reason = '') => {
+      if (closed) return;
+      closed = true;
+      timers.forEach(clearTimeout);
+      timers.clear();
+      callbacks?.onclose?.({ code: 1000, reason, wasClean: true } as CloseEvent);
+    };
+
+    const trigger = (kind: 'open' | 'input' | 'clientContent') => {
+      const turn = script.turns[turnIndex];
+      if (closed || playing || !turn || turn.after !== kind) return;
+      playing = true;
+      const interval = turn.intervalMs ?? LIVE_MESSAGE_INTERVAL_MS;
+      let at = turn.delayMs || 0;
+      turn.messages.forEach(json => {
+        schedule(at, () => callbacks?.onmessage?.(toLiveMessage(json)));
+        at += interval;
+      });
+      schedule(at, () => {
+        playing = false;
+        turnIndex++;
+        if (turnIndex >= script.turns.length && script.closeAfter) close();
+      });
+    };
+
+    const session = {
+      sendRealtimeInput: (input: { media?: unknown; audio?: unknown; video?: unknown; text?: unknown }) => {
+        if (input?.media || input?.audio || input?.video || input?.text) trigger('input');
+      },
+      sendClientContent: () => trigger('clientContent'),
+      sendToolResponse: () => {},
+      close: () => close(),
+    };
+
+    callbacks?.onopen?.();
+    schedule(0, () => trigger('open'));
+    return session as unknown as Session;
+  };
+
+  return {
+    models: {
+      generateContent: async (params) => toResponse(takeExchange(params, false).responses[0] || {}),
+
+      generateContentStream: async (params) => {
+        const { responses } = takeExchange(params, true);
+        const signal = params.config?.abortSignal;
+        return (async function* () {
+          for (const chunk of responses) {
+            await sleep(STREAM_CHUNK_DELAY_MS);
+            if (signal?.aborted) throw new DOMException('The operation was aborted', 'AbortError');
+            yield toResponse(chunk);
+          }
+        })();
+      },
+
+      list: async () => {
+        const models = (fixture.models || []) as Model[];
+        return {
+          async *[Symbol.asyncIterator]() { yield* models; },
+        } as unknown as Pager<Model>;
+      },
+    },
+
+    files: {
+      upload: async (params) => {
+        const file = fixture.files[nextFileIndex] || { states: ['ACTIVE'] };
+        const name = `files/fake-${++nextFileIndex}`;
+        const mimeType = params.config?.mimeType || file.mimeType || 'application/octet-stream';
+        uploads.set(name, { file, reads: 0, mimeType });
+        return fileState(name);
+      },
+      get: async (params) => fileState(params.name),
+      delete: async (params) => {
+        uploads.delete(params.name);
+        return {};
+      },
+    },
+
+    live: { connect: connectLive },
+
+    caches: {
+      create: async (params) => {
+        const cache: CachedContent = {
+          name: `cachedContents/fake-${++nextCacheIndex}`,
+          model: params.model,
+          displayName: params.config?.displayName,
+          expireTime: expireTimeFor(params.config?.ttl),
+          // Roughly four characters per token, like the real count for text.
+          usageMetadata: { totalTokenCount: Math.ceil(JSON.stringify([params.config?.systemInstruction, params.config?.contents]).length / 4) },
+        };
+        caches.set(cache.name!, cache);
+        return cache;
+      },
+      update: async (params) => {
+        const cache = caches.get(params.name);
+        if (!cache) throw new ApiError(`CachedContent ${params.name} not found`, { status: 404 });
+        cache.expireTime = expireTimeFor(params.config?.ttl);
+        return cache;
+      },
+      delete: async (params) => {
+        caches.delete(params.name);
+        return {};
+      },
+    },
+  };
+};
@@ -3,6 +3,7 @@
 // SPDX-License-Identifier: Apache-2.0
 import { debugLogService } from '../../features/diagnostics';
 import { getAi } from './client';
+import { executeRequest } from '../llm/executor';
 
 /**
  * Normalizes a MIME type to avoid encoding issues with parameters.
@@ -149,10 +150,10 @@ export const uploadMediaToFiles = async (
   });
 
   try {
-    const uploadResult = await ai.files.upload({
+    const uploadResult = await executeRequest(() => ai.files.upload({
       file,
       config: { displayName, mimeType: normalizedMimeType },
-    });
+    }), { model: 'Files API' });
     if (!uploadResult) {
       throw new Error('Upload failed: missing result');
     }
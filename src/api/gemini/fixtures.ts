@@ -0,0 +1,182 @@
+// Copyright 2025 Roni Tervo
+//
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * Gemini fixtures: recorded or hand-written API traffic for offline runs.
+ *
+ * Responsibilities:
+ * - Describe fixture files: `generateContent` replies (whole or streamed),
+ *   Files API state sequences, model lists and scripted Live sessions
+ * - Keep the backend mode (`real`, `fake`, `record`) and the active fixture
+ * - Collect what record mode captures into a fixture that can be downloaded
+ *
+ * Responses are stored as the API's JSON (`candidates`, `usageMetadata`,
+ * `serverContent`...), so recorded sessions replay unchanged.
+ */
+
+import { getGeminiFixtureDB, setGeminiFixtureDB } from '../../core/db/assets';
+
+export type GeminiBackendMode = 'real' | 'fake' | 'record';
+
+export interface FixtureError {
+  status: number;
+  message: string;
+}
+
+/** One `generateContent` / `generateContentStream` call. */
+export interface FixtureGenerateExchange {
+  /** Only answers requests to this model when set. */
+  model?: string;
+  /** Only answers requests whose text contains this when set. */
+  promptIncludes?: string;
+  /** Answers streamed requests (`responses` are the chunks) rather than whole ones. */
+  stream?: boolean;
+  /** The reply, or the stream's chunks in order. */
+  responses: Record<string, unknown>[];
+  /** Fail with this instead of answering. */
+  error?: FixtureError;
+  /** Answer every matching request instead of only the next one. */
+  repeat?: boolean;
+  /** Start of the request text, for people reading the fixture. */
+  note?: string;
+}
+
+/** An uploaded file; `files.get` walks through `states`, then stays on the last. */
+export interface FixtureFile {
+  mimeType?: string;
+  states: ('PROCESSING' | 'ACTIVE' | 'FAILED')[];
+}
+
+/**
+ * One server turn of a Live session. It starts once the trigger happened:
+ * the connection opening, the first audio or image sent since the previous
+ * turn, or a `sendClientContent` call.
+ */
+export interface FixtureLiveTurn {
+  after: 'open' | 'input' | 'clientContent';
+  /** Wait before the first message. */
+  delayMs?: number;
+  /** Gap between messages; defaults to 20 ms. */
+  intervalMs?: number;
+  /**
+   * `LiveServerMessage` JSON. `{ "audioMs": n }` stands for n ms of silent
+   * 24 kHz model audio, for scripts written by hand.
+   */
+  messages: Record<string, unknown>[];
+}
+
+export interface FixtureLiveSession {
+  model?: string;
+  turns: FixtureLiveTurn[];
+  /** Close the session after the last turn. */
+  closeAfter?: boolean;
+}
+
+export interface GeminiFixture {
+  version: 1;
+  name?: string;
+  generateContent: FixtureGenerateExchange[];
+  /** Matched to uploads in order. */
+  files: FixtureFile[];
+  /** Matched to `live.connect` calls in order (or by model). */
+  live: FixtureLiveSession[];
+  /** `models.list` result; `{ name, displayName, supportedActions }`. */
+  models?: Record<string, unknown>[];
+}
+
+export const createEmptyFixture = (name?: string): GeminiFixture => ({
+  version: 1,
+  name,
+  generateContent: [],
+  files: [],
+  live: [],
+});
+
+/** Throws on anything that is not a version 1 fixture. */
+export const parseGeminiFixture = (json: string): GeminiFixture => {
+  const data = JSON.parse(json);
+  if (!data || data.version !== 1) throw new Error('Not a Gemini fixture (expected "version": 1)');
+  return { ...createEmptyFixture(), ...data };
+};
+
+const BACKEND_STORAGE_KEY = 'maestro_gemini_backend';
+const BACKEND_QUERY_PARAM = 'gemini';
+
+const isMode = (value: unknown): value is GeminiBackendMode =>
+  value === 'real' || value === 'fake' || value === 'record';
+
+/** `?gemini=fake|record|real` wins and is remembered; otherwise the stored mode, else `real`. */
+export const getGeminiBackendMode = (): GeminiBackendMode => {
+  if (typeof window === 'undefined') return 'real';
+  try {
+    const fromQuery = new URLSearchParams(window.location.search).get(BACKEND_QUERY_PARAM);
+    if (isMode(fromQuery)) {
+      window.localStorage.setItem(BACKEND_STORAGE_KEY, fromQuery);
+      return fromQuery;
+    }
+    const stored = window.localStorage.getItem(BACKEND_STORAGE_KEY);
+    return isMode(stored) ? stored : 'real';
+  } catch {
+    return 'real';
+  }
+};
+
+export const setGeminiBackendMode = (mode: GeminiBackendMode) => {
+  try {
+    if (mode === 'real') window.localStorage.removeItem(BACKEND_STORAGE_KEY);
+    else window.localStorage.setItem(BACKEND_STORAGE_KEY, mode);
+  } catch { /* storage unavailable */ }
+};
+
+let activeFixture: GeminiFixture | null = null;
+
+/** The fixture fake mode replays; kept in IndexedDB so it survives reloads. */
+export const loadActiveFixture = async (): Promise<GeminiFixture> => {
+  if (!activeFixture) {
+    const stored = (await getGeminiFixtureDB().catch(() => null)) as GeminiFixture | null;
+    activeFixture = stored || createEmptyFixture();
+  }
+  return activeFixture;
+};
+
+export const setActiveFixture = async (fixture: GeminiFixture, options?: { persist?: boolean }) => {
+  activeFixture = fixture;
+  if (options?.persist !== false) await setGeminiFixtureDB(fixture);
+};
+
+let recording: GeminiFixture = createEmptyFixture('recording');
+const recordingListeners = new Set<(fixture: GeminiFixture) => void>();
+
+/** Record mode appends through this; listeners see every change. */
+export const updateRecording = (update: (fixture: GeminiFixture) => void) => {
+  update(recording);
+  recordingListeners.forEach(listener => listener(recording));
+};
+
+export const getRecording = (): GeminiFixture => recording;
+
+export const clearRecording = () => {
+  recording = createEmptyFixture('recording');
+  recordingListeners.forEach(listener => listener(recording));
+};
+
+export const subscribeRecording = (listener: (fixture: GeminiFixture) => void): (() => void) => {
+  recordingListeners.add(listener);
+  return () => { recordingListeners.delete(listener); };
+};
+
+/** Plain JSON of an SDK response object (drops the raw HTTP response). */
+export const toFixtureJson = (value: unknown): Record<string, unknown> => {
+  const json = JSON.parse(JSON.stringify(value ?? {}));
+  delete json.sdkHttpResponse;
+  return json;
+};
+
+/** The text of the last user turn of `contents`, for matching and notes. */
+export const requestText = (contents: unknown): string => {
+  const list = Array.isArray(contents) ? contents : [contents];
+  const last: any = list[list.length - 1];
+  if (typeof last === 'string') return last;
+  const parts: any[] = Array.isArray(last?.parts) ? last.parts : [];
+  return parts.map(p => (typeof p?.text === 'string' ? p.text : '')).join('\n');
+};
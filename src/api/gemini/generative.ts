@@ -3,9 +3,37 @@
 // SPDX-License-Identifier: Apache-2.0
 import { debugLogService } from '../../features/diagnostics';
 import { ApiError, getAi } from './client';
+import { getMediaDataUrlDB, isMediaId } from '../../core/db/media';
+import { AUX_TEXT_MODEL_ID } from '../../core/config/app';
+import { executeRequest } from '../llm/executor';
+import {
+  applyContextCache,
+  invalidateContextCache,
+  isCacheMissingError,
+  recordContextCacheSample,
+  type CachedRequest,
+} from './contextCache';
 
-export const generateGeminiResponse = async (
-  modelName: string,
+// Inline images may be given as data URLs or as media store ids.
+export const resolveInlineImage = async (value?: string): Promise<string | undefined> =>
+  isMediaId(value) ? (await getMediaDataUrlDB(value)) ?? undefined : value;
+
+// Redact inlineData from debug logs to prevent logging large base64 payloads
+const redactInlineData = (obj: any): any => {
+  if (!obj || typeof obj !== 'object') return obj;
+  if (Array.isArray(obj)) return obj.map(redactInlineData);
+  const result: any = {};
+  for (const key of Object.keys(obj)) {
+    if (key === 'inlineData') {
+      result[key] = '[REDACTED]';
+    } else {
+      result[key] = redactInlineData(obj[key]);
+    }
+  }
+  return result;
+};
+
+const buildGeminiRequest = async (
   userPrompt: string,
   history: any[],
   systemInstruction?: string,
@@ -15,18 +43,18 @@ export const generateGeminiResponse = async (
   useGoogleSearch?: boolean,
   configOverrides?: any
 ) => {
-  const ai = await getAi();
   const contents: any[] = [];
 
-  history.forEach(h => {
+  for (const h of history) {
     const parts: any[] = [];
     const textContent = h.rawAssistantResponse || h.text;
     if (textContent) parts.push({ text: textContent });
 
     if (h.imageFileUri) {
       parts.push({ fileData: { fileUri: h.imageFileUri, mimeType: h.imageMimeType || 'image/jpeg' } });
-    } else if (h.imageUrl && h.imageMimeType) {
-      const b64 = h.imageUrl.split(',')[1];
+    } else if ((h.imageUrl || h.imageMediaId) && h.imageMimeType) {
+      const imageUrl = await resolveInlineImage(h.imageUrl || h.imageMediaId);
+      const b64 = imageUrl?.split(',')[1];
       if (b64) parts.push({ inlineData: { data: b64, mimeType: h.imageMimeType } });
     }
 
@@ -34,13 +62,14 @@ export const generateGeminiResponse = async (
       const role = h.role === 'assistant' ? 'model' : 'user';
       contents.push({ role, parts });
     }
-  });
+  }
 
   const currentParts: any[] = [{ text: userPrompt }];
+  const currentImage = imageFileUri ? undefined : await resolveInlineImage(imageBase64);
   if (imageFileUri) {
     currentParts.push({ fileData: { fileUri: imageFileUri, mimeType: imageMimeType || 'image/jpeg' } });
-  } else if (imageBase64 && imageMimeType) {
-    const b64 = imageBase64.split(',')[1];
+  } else if (currentImage && imageMimeType) {
+    const b64 = currentImage.split(',')[1];
     if (b64) currentParts.push({ inlineData: { data: b64, mimeType: imageMimeType } });
   }
 
@@ -53,58 +82,175 @@ export const generateGeminiResponse = async (
     config.tools = [{ googleSearch: {} }];
   }
 
-  // Redact inlineData from debug logs to prevent logging large base64 payloads
-  const redactInlineData = (obj: any): any => {
-    if (!obj || typeof obj !== 'object') return obj;
-    if (Array.isArray(obj)) return obj.map(redactInlineData);
-    const result: any = {};
-    for (const key of Object.keys(obj)) {
-      if (key === 'inlineData') {
-        result[key] = '[REDACTED]';
-      } else {
-        result[key] = redactInlineData(obj[key]);
-      }
-    }
-    return result;
-  };
-  const redactedContents = redactInlineData(contents);
+  return { contents, config };
+};
+
+// Keeps SDK errors' status so the executor can classify them.
+const toApiError = (e: any, fallback: string) =>
+  e instanceof ApiError ? e : new ApiError(e?.message || fallback, { status: e?.status || 500, code: e?.code });
 
-  const log = debugLogService.logRequest('generateContent', modelName, { contents: redactedContents, config });
+// A blocked prompt or a reply stopped for safety comes back as an empty success.
+const safetyBlockReason = (result: any): string | undefined => {
+  const blockReason = result?.promptFeedback?.blockReason;
+  if (blockReason) return blockReason;
+  const finishReason = result?.candidates?.[0]?.finishReason;
+  return !result?.text && (finishReason === 'SAFETY' || finishReason === 'PROHIBITED_CONTENT') ? finishReason : undefined;
+};
+
+export const generateGeminiResponse = async (
+  modelName: string,
+  userPrompt: string,
+  history: any[],
+  systemInstruction?: string,
+  imageBase64?: string,
+  imageMimeType?: string,
+  imageFileUri?: string,
+  useGoogleSearch?: boolean,
+  configOverrides?: any
+) => {
+  const ai = await getAi();
+  const { contents, config } = await buildGeminiRequest(
+    userPrompt, history, systemInstruction, imageBase64, imageMimeType, imageFileUri, useGoogleSearch, configOverrides
+  );
+
+  const log = debugLogService.logRequest('generateContent', modelName, { contents: redactInlineData(contents), config });
 
   try {
-    const result = await ai.models.generateContent({
+    const result = await executeRequest(() => ai.models.generateContent({
       model: modelName,
       contents,
       config,
-    });
+    }), { model: modelName });
+    const blockReason = safetyBlockReason(result);
+    if (blockReason) throw new ApiError(`Response blocked: ${blockReason}`, { code: 'SAFETY' });
     log.complete({ text: result.text, usage: result.usageMetadata });
     return {
       text: result.text,
       candidates: result.candidates,
       usageMetadata: result.usageMetadata,
+      model: modelName,
     };
   } catch (e: any) {
     console.error('Gemini API Error:', e);
     log.error(e);
-    throw new ApiError(e.message || 'Gemini API failed', { status: e.status || 500, code: e.code });
+    throw toApiError(e, 'Gemini API failed');
   }
 };
 
-export const translateText = async (text: string, from: string, to: string) => {
+/**
+ * Same request as `generateGeminiResponse`, read with `generateContentStream`.
+ * `onText` gets the whole text received so far after every chunk. Aborting
+ * `abortSignal` ends the stream with an `ABORTED` ApiError.
+ */
+export const streamGeminiResponse = async (
+  modelName: string,
+  userPrompt: string,
+  history: any[],
+  stream: { onText: (text: string) => void; abortSignal?: AbortSignal },
+  systemInstruction?: string,
+  imageBase64?: string,
+  imageMimeType?: string,
+  imageFileUri?: string,
+  useGoogleSearch?: boolean,
+  configOverrides?: any,
+  cacheKey?: string
+): Promise<{ text: string; candidates?: any[]; usageMetadata?: any; model: string }> => {
+  const ai = await getAi();
+  const request = await buildGeminiRequest(
+    userPrompt, history, systemInstruction, imageBase64, imageMimeType, imageFileUri, useGoogleSearch, configOverrides
+  );
+  const startedAt = Date.now();
+  const { contents, config, cacheName }: CachedRequest = cacheKey
+    ? await applyContextCache(ai, cacheKey, modelName, request.contents, request.config)
+    : request;
+  const sentAt = Date.now();
+  const log = debugLogService.logRequest('generateContentStream', modelName, { contents: redactInlineData(contents), config });
+  if (stream.abortSignal) config.abortSignal = stream.abortSignal;
+
+  let text = '';
+  let candidates: any[] | undefined;
+  let usageMetadata: any;
+  let promptFeedback: any;
+  let firstChunkAt: number | null = null;
+  const readStream = async () => {
+    text = '';
+    candidates = undefined;
+    usageMetadata = undefined;
+    const chunks = await ai.models.generateContentStream({
+      model: modelName,
+      contents,
+      config,
+    });
+    for await (const chunk of chunks) {
+      if (stream.abortSignal?.aborted) break;
+      const delta = chunk.text;
+      // Grounding metadata and usage arrive on the later chunks.
+      if (chunk.candidates?.[0]?.groundingMetadata || !candidates) candidates = chunk.candidates;
+      if (chunk.usageMetadata) usageMetadata = chunk.usageMetadata;
+      if (chunk.promptFeedback) promptFeedback = chunk.promptFeedback;
+      if (delta) {
+        firstChunkAt ??= Date.now();
+        text += delta;
+        stream.onText(text);
+      }
+    }
+  };
+  try {
+    // Once text has reached the caller a retry would replay it, so only failures before the first chunk retry.
+    await executeRequest(readStream, { model: modelName, signal: stream.abortSignal, canRetry: () => !text });
+    if (stream.abortSignal?.aborted) throw new ApiError('Request cancelled', { code: 'ABORTED' });
+    const blockReason = safetyBlockReason({ text, candidates, promptFeedback });
+    if (blockReason) throw new ApiError(`Response blocked: ${blockReason}`, { code: 'SAFETY' });
+    log.complete({ text, usage: usageMetadata });
+    if (cacheKey) {
+      recordContextCacheSample({
+        at: startedAt,
+        model: modelName,
+        cached: !!cacheName,
+        promptTokens: usageMetadata?.promptTokenCount || 0,
+        cachedTokens: usageMetadata?.cachedContentTokenCount || 0,
+        outputTokens: Math.max(0, (usageMetadata?.totalTokenCount || 0) - (usageMetadata?.promptTokenCount || 0)),
+        setupMs: sentAt - startedAt,
+        firstChunkMs: firstChunkAt === null ? null : firstChunkAt - sentAt,
+        totalMs: Date.now() - sentAt,
+      });
+    }
+    return { text, candidates, usageMetadata, model: modelName };
+  } catch (e: any) {
+    if (stream.abortSignal?.aborted) {
+      log.error('cancelled');
+      throw e instanceof ApiError ? e : new ApiError('Request cancelled', { code: 'ABORTED' });
+    }
+    log.error(e);
+    // An expired or deleted cache: drop it and send the whole request once.
+    if (cacheName && cacheKey && !text && isCacheMissingError(e)) {
+      invalidateContextCache(cacheKey);
+      return streamGeminiResponse(
+        modelName, userPrompt, history, stream, systemInstruction, imageBase64, imageMimeType, imageFileUri, useGoogleSearch, configOverrides
+      );
+    }
+    console.error('Gemini API Error:', e);
+    throw toApiError(e, 'Gemini API failed');
+  }
+};
+
+export const translationPrompt = (text: string, from: string, to: string) =>
+  `Translate the following text from ${from} to ${to}. Return ONLY the translation. Text: "${text}"`;
+
+export const translateText = async (text: string, from: string, to: string, model: string = AUX_TEXT_MODEL_ID) => {
   const ai = await getAi();
-  const prompt = `Translate the following text from ${from} to ${to}. Return ONLY the translation. Text: "${text}"`;
-  const model = 'gemini-3-flash-preview';
+  const prompt = translationPrompt(text, from, to);
   const log = debugLogService.logRequest('translateText', model, { prompt });
 
   try {
-    const result = await ai.models.generateContent({
+    const result = await executeRequest(() => ai.models.generateContent({
       model,
       contents: prompt,
-    });
-    log.complete({ text: result.text });
-    return { translatedText: result.text || '' };
+    }), { model });
+    log.complete({ text: result.text, usage: result.usageMetadata });
+    return { translatedText: result.text || '', usageMetadata: result.usageMetadata, model };
   } catch (e: any) {
     log.error(e);
-    throw new ApiError(e.message || 'Translation failed', { status: e.status || 500, code: e.code });
+    throw toApiError(e, 'Translation failed');
   }
 };
@@ -1,7 +1,7 @@
 // Copyright 2025 Roni Tervo
 //
 // SPDX-License-Identifier: Apache-2.0
-export { ApiError, getAi } from './client';
+export { ApiError, getAi, setGeminiClientOverride, type GeminiClient } from './client';
 export { generateGeminiResponse, translateText } from './generative';
 export {
   uploadMediaToFiles,
@@ -11,3 +11,35 @@ export {
 } from './files';
 export { generateImage } from './vision';
 export { generateSpeech } from './audio';
+export { listGeminiModels, type GeminiModelInfo } from './models';
+export {
+  applyContextCache,
+  invalidateContextCache,
+  isContextCacheEnabled,
+  setContextCacheEnabled,
+  getContextCaches,
+  getContextCacheSamples,
+  clearContextCacheSamples,
+  subscribeContextCache,
+  CONTEXT_CACHE_TTL_SECONDS,
+  type ContextCacheInfo,
+  type ContextCacheSample,
+} from './contextCache';
+export { createFakeGeminiClient } from './fakeClient';
+export { createRecordingGeminiClient } from './recordingClient';
+export {
+  createEmptyFixture,
+  parseGeminiFixture,
+  getGeminiBackendMode,
+  setGeminiBackendMode,
+  loadActiveFixture,
+  setActiveFixture,
+  getRecording,
+  clearRecording,
+  type GeminiBackendMode,
+  type GeminiFixture,
+  type FixtureGenerateExchange,
+  type FixtureFile,
+  type FixtureLiveSession,
+  type FixtureLiveTurn,
+} from './fixtures';
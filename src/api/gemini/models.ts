@@ -0,0 +1,32 @@
+// Copyright 2025 Roni Tervo
+//
+// SPDX-License-Identifier: Apache-2.0
+import { debugLogService } from '../../features/diagnostics';
+import { getAi } from './client';
+
+export interface GeminiModelInfo {
+  /** Id without the `models/` prefix, as passed to requests. */
+  id: string;
+  displayName: string;
+  /** API methods the model serves, e.g. `generateContent`, `bidiGenerateContent`. */
+  actions: string[];
+}
+
+/** All models the API key can use (`GET /models`, every page). */
+export const listGeminiModels = async (): Promise<GeminiModelInfo[]> => {
+  const ai = await getAi();
+  const log = debugLogService.logRequest('listModels', '', {});
+  try {
+    const models: GeminiModelInfo[] = [];
+    const pager = await ai.models.list({ config: { pageSize: 100 } });
+    for await (const m of pager) {
+      const id = String(m.name || '').replace(/^models\//, '');
+      if (id) models.push({ id, displayName: m.displayName || id, actions: m.supportedActions || [] });
+    }
+    log.complete({ count: models.length });
+    return models.sort((a, b) => a.id.localeCompare(b.id));
+  } catch (e) {
+    log.error(e);
+    throw e;
+  }
+};
@@ -0,0 +1,161 @@
+// Copyright 2025 Roni Tervo
+//
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * Record mode: the real Gemini client, with every exchange copied into the
+ * recording fixture (see `fixtures.ts`) so the session can be replayed offline.
+ *
+ * Responsibilities:
+ * - Capture `generateContent` replies, stream chunks and errors in call order
+ * - Capture the states uploaded files go through
+ * - Capture Live sessions as turns: the server messages after each input burst
+ */
+
+import type { LiveConnectParameters, LiveServerMessage, Model, Pager } from '@google/genai';
+import type { GeminiClient } from './client';
+import {
+  requestText,
+  toFixtureJson,
+  updateRecording,
+  type FixtureError,
+  type FixtureFile,
+  type FixtureGenerateExchange,
+  type FixtureLiveSession,
+  type FixtureLiveTurn,
+} from './fixtures';
+
+const NOTE_LENGTH = 120;
+
+const toFixtureError = (e: any): FixtureError => ({
+  status: Number(e?.status) || 500,
+  message: String(e?.message || e),
+});
+
+const recordExchange = (exchange: FixtureGenerateExchange) =>
+  updateRecording(fixture => { fixture.generateContent.push(exchange); });
+
+export const createRecordingGeminiClient = (real: GeminiClient): GeminiClient => {
+  const fileRecords = new Map<string, FixtureFile>();
+
+  const recordFileState = (file: { name?: string; state?: string; mimeType?: string }) => {
+    if (!file?.name || !file.state) return;
+    const record = fileRecords.get(file.name);
+    const state = file.state as FixtureFile['states'][number];
+    if (!record) {
+      const created: FixtureFile = { mimeType: file.mimeType, states: [state] };
+      fileRecords.set(file.name, created);
+      updateRecording(fixture => { fixture.files.push(created); });
+    } else if (record.states[record.states.length - 1] !== state) {
+      updateRecording(() => { record.states.push(state); });
+    }
+  };
+
+  const connectLive = async (params: LiveConnectParameters) => {
+    const session: FixtureLiveSession = { model: params.model, turns: [] };
+    updateRecording(fixture => { fixture.live.push(session); });
+    let current: FixtureLiveTurn | null = null;
+    // A server turn lasts until `turnComplete`; input sent after it opens the next one.
+    let turnOpen = false;
+    let trigger: FixtureLiveTurn['after'] | null = null;
+    let lastAt = Date.now();
+
+    const onmessage = (msg: LiveServerMessage) => {
+      const now = Date.now();
+      updateRecording(() => {
+        if (!current || !turnOpen) {
+          current = { after: trigger || (session.turns.length === 0 ? 'open' : 'input'), delayMs: now - lastAt, messages: [] };
+          session.turns.push(current);
+          trigger = null;
+        }
+        current.messages.push(toFixtureJson(msg));
+      });
+      turnOpen = !msg.serverContent?.turnComplete;
+      lastAt = now;
+      params.callbacks?.onmessage?.(msg);
+    };
+
+    const markInput = (kind: FixtureLiveTurn['after']) => {
+      if (turnOpen || trigger) return;
+      trigger = kind;
+      lastAt = Date.now();
+    };
+
+    const liveSession = await real.live.connect({ ...params, callbacks: { ...params.callbacks, onmessage } });
+    const sendRealtimeInput = liveSession.sendRealtimeInput.bind(liveSession);
+    const sendClientContent = liveSession.sendClientContent.bind(liveSession);
+    liveSession.sendRealtimeInput = (input) => {
+      markInput('input');
+      sendRealtimeInput(input);
+    };
+    liveSession.sendClientContent = (content) => {
+      markInput('clientContent');
+      sendClientContent(content);
+    };
+    return liveSession;
+  };
+
+  return {
+    models: {
+      generateContent: async (params) => {
+        const note = requestText(params.contents).slice(0, NOTE_LENGTH);
+        try {
+          const response = await real.models.generateContent(params);
+          recordExchange({ model: params.model, stream: false, note, responses: [toFixtureJson(response)] });
+          return response;
+        } catch (e) {
+          recordExchange({ model: params.model, stream: false, note, responses: [], error: toFixtureError(e) });
+          throw e;
+        }
+      },
+
+      generateContentStream: async (params) => {
+        const exchange: FixtureGenerateExchange = {
+          model: params.model,
+          stream: true,
+          note: requestText(params.contents).slice(0, NOTE_LENGTH),
+          responses: [],
+        };
+        let stream;
+        try {
+          stream = await real.models.generateContentStream(params);
+        } catch (e) {
+          recordExchange({ ...exchange, error: toFixtureError(e) });
+          throw e;
+        }
+        recordExchange(exchange);
+        return (async function* () {
+          for await (const chunk of stream) {
+            updateRecording(() => { exchange.responses.push(toFixtureJson(chunk)); });
+            yield chunk;
+          }
+        })();
+      },
+
+      list: async (params) => {
+        const models: Model[] = [];
+        for await (const model of await real.models.list(params)) models.push(model);
+        updateRecording(fixture => { fixture.models = models.map(toFixtureJson); });
+        return { async *[Symbol.asyncIterator]() { yield* models; } } as unknown as Pager<Model>;
+      },
+    },
+
+    files: {
+      upload: async (params) => {
+        const file = await real.files.upload(params);
+        recordFileState(file);
+        return file;
+      },
+      get: async (params) => {
+        const file = await real.files.get(params);
+        recordFileState(file);
+        return file;
+      },
+      delete: (params) => real.files.delete(params),
+    },
+
+    live: { connect: connectLive },
+
+    // The fake makes its own caches, so there is nothing to record.
+    caches: real.caches,
+  };
+};
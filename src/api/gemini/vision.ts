@@ -2,7 +2,25 @@
 //
 // SPDX-License-Identifier: Apache-2.0
 import { debugLogService } from '../../features/diagnostics';
-import { getAi } from './client';
+import { ApiError, getAi } from './client';
+import { IMAGE_MODEL_ID } from '../../core/config/app';
+import { executeRequest } from '../llm/executor';
+import { withModelFallback } from '../llm/models';
+
+// The first non-empty inline image of the reply, as a data URL.
+const findImage = (candidates: any[]) => {
+  for (const c of candidates) {
+    for (const part of c.content?.parts || []) {
+      const inlineData = part.inlineData;
+      if (inlineData && inlineData.mimeType?.startsWith('image/')) {
+        if (typeof inlineData.data === 'string' && inlineData.data.trim() !== '') {
+          return { base64Image: `data:${inlineData.mimeType};base64,${inlineData.data}`, mimeType: inlineData.mimeType as string };
+        }
+      }
+    }
+  }
+  return null;
+};
 
 export const generateImage = async (params: {
   prompt?: string;
@@ -12,6 +30,8 @@ export const generateImage = async (params: {
   systemInstruction?: string;
   maestroAvatarUri?: string;
   maestroAvatarMimeType?: string;
+  model?: string;
+  fallbackModels?: string[];
 }) => {
   const ai = await getAi();
   const { prompt, latestMessageText, history, systemInstruction, maestroAvatarUri, maestroAvatarMimeType } = params;
@@ -82,33 +102,25 @@ export const generateImage = async (params: {
     contents.push({ role, parts: currentParts });
   }
 
-  const model = 'gemini-2.5-flash-image';
+  const chain = [params.model || IMAGE_MODEL_ID, ...(params.fallbackModels || [])];
   const config = { responseModalities: ['IMAGE'], systemInstruction };
-  const log = debugLogService.logRequest('generateImage', model, { contents, config });
+  const log = debugLogService.logRequest('generateImage', chain[0], { contents, config });
 
   try {
-    const result = await ai.models.generateContent({
-      model,
-      contents,
-      config: config as any,
-    });
-
-    log.complete({ candidates: result.candidates?.length });
+    // A reply without an image is usually a fluke, so it is retried like a transient error.
+    const image = await withModelFallback(chain, model => executeRequest(async () => {
+      const result = await ai.models.generateContent({
+        model,
+        contents,
+        config: config as any,
+      });
+      const found = findImage(result.candidates || []);
+      if (!found) throw new ApiError('No image generated', { code: 'EMPTY_RESPONSE' });
+      return { ...found, usageMetadata: result.usageMetadata, model };
+    }, { model }));
 
-    const candidates = result.candidates || [];
-    for (const c of candidates) {
-      for (const part of c.content?.parts || []) {
-        const inlineData = part.inlineData;
-        if (inlineData && inlineData.mimeType?.startsWith('image/')) {
-          if (typeof inlineData.data === 'string' && inlineData.data.trim() !== '') {
-            return { base64Image: `data:${inlineData.mimeType};base64,${inlineData.data}`, mimeType: inlineData.mimeType };
-          }
-        }
-      }
-    }
-    // No valid image found in response
-    log.error(new Error('No image generated'));
-    return { error: 'No image generated' };
+    log.complete({ mimeType: image.mimeType, model: image.model, usage: image.usageMetadata });
+    return image;
   } catch (e: any) {
     log.error(e);
     return { error: e.message };
@@ -0,0 +1,206 @@
+// Copyright 2025 Roni Tervo
+//
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * Shared request executor for model calls.
+ *
+ * Responsibilities:
+ * - Classify failures (quota, rate limit, server, safety block, network...)
+ * - Retry the transient ones with jittered exponential backoff, honouring
+ *   `Retry-After` / `retryDelay` hints
+ * - Keep a per-model cooldown after rate limiting, so parallel calls wait
+ *   instead of piling on, and report it for the "rate limited" banner
+ */
+
+import type { ModelCooldown } from '../../core/types';
+import { ApiError } from '../gemini/client';
+
+export type ApiErrorKind =
+  | 'quota'
+  | 'rate-limit'
+  | 'server'
+  | 'safety'
+  | 'network'
+  | 'empty'
+  | 'auth'
+  | 'invalid'
+  | 'cancelled'
+  | 'unknown';
+
+export interface ApiErrorClass {
+  kind: ApiErrorKind;
+  retryable: boolean;
+  /** Server-suggested wait before the next attempt. */
+  retryAfterMs?: number;
+}
+
+export interface ExecuteRequestOptions {
+  /** Cooldown key; the model id, or a service name like `files`. */
+  model: string;
+  maxAttempts?: number;
+  signal?: AbortSignal;
+  /** Checked before each retry; streams return false once output was delivered. */
+  canRetry?: () => boolean;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const BASE_DELAY_MS = 1000;
+const MAX_BACKOFF_MS = 16000;
+/** Longer waits are not sat out: the call fails and the cooldown stays visible. */
+const MAX_WAIT_MS = 60000;
+
+const SERVER_STATUSES = new Set([500, 502, 503, 504]);
+
+/** `Retry-After` as seconds or an HTTP date, in ms from now. */
+export const parseRetryAfter = (value: string | null | undefined): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value.trim());
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+// Gemini puts RetryInfo into the error body: "retryDelay": "23s" or "Please retry in 23.4s".
+const parseRetryDelayFromMessage = (message: string): number | undefined => {
+  const match = /"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/.exec(message) || /retry in (\d+(?:\.\d+)?)\s*s/i.exec(message);
+  return match ? Math.ceil(Number(match[1]) * 1000) : undefined;
+};
+
+export const classifyApiError = (error: unknown): ApiErrorClass => {
+  const e = error as any;
+  const status = Number(e?.status) || undefined;
+  const code = String(e?.code || '');
+  const message = String(e?.message || e || '');
+  const retryAfterMs = typeof e?.cooldownSuggestSeconds === 'number'
+    ? e.cooldownSuggestSeconds * 1000
+    : parseRetryDelayFromMessage(message);
+
+  if (code === 'ABORTED' || e?.name === 'AbortError') return { kind: 'cancelled', retryable: false };
+  if (code === 'SAFETY' || /\b(SAFETY|PROHIBITED_CONTENT|blockReason)\b/.test(message)) {
+    return { kind: 'safety', retryable: false };
+  }
+  if (status === 429 || code === 'RATE_LIMITED' || /RESOURCE_EXHAUSTED/.test(message)) {
+    // Daily or billing quota does not come back within a retry window.
+    if (/per ?day|daily|billing|limit: 0\b/i.test(message)) return { kind: 'quota', retryable: false, retryAfterMs };
+    return { kind: 'rate-limit', retryable: true, retryAfterMs };
+  }
+  if (status && SERVER_STATUSES.has(status)) return { kind: 'server', retryable: true, retryAfterMs };
+  if (code === 'EMPTY_RESPONSE') return { kind: 'empty', retryable: true };
+  if (status === 401 || status === 403 || code === 'MISSING_API_KEY' || code === 'PROVIDER_NOT_CONFIGURED') {
+    return { kind: 'auth', retryable: false };
+  }
+  if (status === 400 || status === 404 || status === 413) return { kind: 'invalid', retryable: false };
+  if (code === 'NETWORK' || e instanceof TypeError || /network|failed to fetch|fetch failed|load failed|ECONN|ETIMEDOUT/i.test(message)) {
+    return { kind: 'network', retryable: true };
+  }
+  return { kind: 'unknown', retryable: false };
+};
+
+/** Full-jitter exponential backoff: a random wait in the upper half of the window. */
+export const backoffDelayMs = (attempt: number): number => {
+  const window = Math.min(MAX_BACKOFF_MS, BASE_DELAY_MS * 2 ** attempt);
+  return Math.round(window / 2 + Math.random() * (window / 2));
+};
+
+const cooldowns = new Map<string, ModelCooldown>();
+const listeners = new Set<(cooldowns: ModelCooldown[]) => void>();
+
+const notifyCooldowns = () => {
+  const snapshot = getModelCooldowns();
+  listeners.forEach(listener => listener(snapshot));
+};
+
+const setCooldown = (model: string, until: number, attempt: number) => {
+  cooldowns.set(model, { model, until, attempt });
+  notifyCooldowns();
+};
+
+const clearCooldown = (model: string) => {
+  if (cooldowns.delete(model)) notifyCooldowns();
+};
+
+/** Models that are cooling down right now. */
+export const getModelCooldowns = (): ModelCooldown[] => {
+  const now = Date.now();
+  return [...cooldowns.values()].filter(c => c.until > now);
+};
+
+export const subscribeModelCooldowns = (listener: (cooldowns: ModelCooldown[]) => void): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(new ApiError('Request cancelled', { code: 'ABORTED' }));
+    return;
+  }
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new ApiError('Request cancelled', { code: 'ABORTED' }));
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+const rateLimitedError = (model: string, waitMs: number, cause?: unknown) => {
+  const seconds = Math.ceil(waitMs / 1000);
+  return new ApiError(
+    (cause as Error)?.message || `Rate limited on ${model}; try again in ${seconds}s`,
+    { status: 429, code: 'RATE_LIMITED', cooldownSuggestSeconds: seconds }
+  );
+};
+
+/**
+ * Runs `run`, retrying transient failures. Rate limiting puts `model` on a
+ * cooldown that other calls to it wait out first. Rejects with the last error;
+ * rate-limit failures carry `cooldownSuggestSeconds`.
+ */
+export const executeRequest = async <T>(run: () => Promise<T>, options: ExecuteRequestOptions): Promise<T> => {
+  const { model, signal, canRetry } = options;
+  const maxAttempts = Math.max(1, options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS);
+
+  const pending = cooldowns.get(model);
+  if (pending && pending.until > Date.now()) {
+    const remaining = pending.until - Date.now();
+    if (remaining > MAX_WAIT_MS) throw rateLimitedError(model, remaining);
+    await wait(remaining, signal);
+  }
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const result = await run();
+      clearCooldown(model);
+      return result;
+    } catch (error) {
+      const { kind, retryable, retryAfterMs } = classifyApiError(error);
+      const delay = retryAfterMs ?? backoffDelayMs(attempt);
+      const rateLimited = kind === 'rate-limit' || kind === 'quota';
+      const willRetry = retryable
+        && attempt + 1 < maxAttempts
+        && delay <= MAX_WAIT_MS
+        && !signal?.aborted
+        && (!canRetry || canRetry());
+
+      // Later calls to the model wait this out even when this one gives up.
+      if (rateLimited) setCooldown(model, Date.now() + delay, willRetry ? attempt + 2 : 0);
+      if (!willRetry) {
+        if (rateLimited && !(error instanceof ApiError && error.cooldownSuggestSeconds)) {
+          throw rateLimitedError(model, delay, error);
+        }
+        throw error;
+      }
+
+      console.warn(`[executeRequest] ${model}: ${kind} error on attempt ${attempt + 1}/${maxAttempts}, retrying in ${delay}ms`);
+      try {
+        await wait(delay, signal);
+      } finally {
+        const cooldown = cooldowns.get(model);
+        if (cooldown?.attempt) setCooldown(model, cooldown.until, 0);
+      }
+    }
+  }
+};
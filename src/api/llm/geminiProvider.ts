@@ -0,0 +1,85 @@
+// Copyright 2025 Roni Tervo
+//
+// SPDX-License-Identifier: Apache-2.0
+import type { ModelSettings } from '../../core/types';
+import { generateGeminiResponse, streamGeminiResponse, translateText } from '../gemini/generative';
+import { generateImage } from '../gemini/vision';
+import { generateSpeech } from '../gemini/audio';
+import { modelChain, withModelFallback } from './models';
+import type { GenerateTextParams, LlmCapability, LlmProvider } from './provider';
+
+export const GEMINI_CAPABILITIES: ReadonlySet<LlmCapability> = new Set<LlmCapability>([
+  'text', 'translate', 'image', 'tts', 'live', 'files', 'search',
+]);
+
+const configFor = (params: GenerateTextParams) => {
+  if (params.jsonSchema) {
+    return { ...params.config, responseMimeType: 'application/json', responseJsonSchema: params.jsonSchema };
+  }
+  return params.jsonResponse ? { ...params.config, responseMimeType: 'application/json' } : params.config;
+};
+
+/**
+ * Gemini through the `@google/genai` SDK; the reference backend. Each call
+ * walks the task's model chain from `models` until a model is available.
+ */
+export const createGeminiProvider = (models: Partial<ModelSettings> | undefined): LlmProvider => {
+  const chainFor = (params: GenerateTextParams) =>
+    params.model ? [params.model] : modelChain(models, params.task === 'aux' ? 'aux' : 'chat');
+
+  return {
+    id: 'gemini',
+    capabilities: GEMINI_CAPABILITIES,
+
+    generateText: (params) => withModelFallback(chainFor(params), model => generateGeminiResponse(
+      model,
+      params.prompt,
+      params.history,
+      params.systemInstruction,
+      params.imageBase64,
+      params.imageMimeType,
+      params.imageFileUri,
+      params.useGoogleSearch,
+      configFor(params)
+    )),
+
+    streamText: (params, handlers) => {
+      // Only fall back before the first chunk; the caller has shown it already.
+      let delivered = false;
+      const onText = (text: string) => {
+        delivered = true;
+        handlers.onText(text);
+      };
+      return withModelFallback(chainFor(params), model => streamGeminiResponse(
+        model,
+        params.prompt,
+        params.history,
+        { onText, abortSignal: handlers.signal },
+        params.systemInstruction,
+        params.imageBase64,
+        params.imageMimeType,
+        params.imageFileUri,
+        params.useGoogleSearch,
+        configFor(params),
+        params.cacheKey
+      ), () => !delivered);
+    },
+
+    translate: (text, from, to) =>
+      withModelFallback(modelChain(models, 'translate'), model => translateText(text, from, to, model)),
+
+    generateImage: async (params) => {
+      const [model, ...fallbackModels] = params.model ? [params.model] : modelChain(models, 'image');
+      const result = await generateImage({ ...params, model, fallbackModels });
+      if ('base64Image' in result && result.base64Image && result.mimeType) {
+        return { base64Image: result.base64Image, mimeType: result.mimeType, usageMetadata: result.usageMetadata, model: result.model };
+      }
+      return { error: ('error' in result && result.error) || 'No image generated' };
+    },
+
+    generateSpeech: (params) => {
+      const [model, ...fallbackModels] = params.model ? [params.model] : modelChain(models, 'tts');
+      return generateSpeech({ ...params, model, fallbackModels });
+    },
+  };
+};
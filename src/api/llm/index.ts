@@ -0,0 +1,102 @@
+// Copyright 2025 Roni Tervo
+//
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * Picks the generation backend from `settings.llm`, with the Gemini models
+ * from `settings.models`.
+ *
+ * Callers pass the current settings (`getLlmProvider(settings.llm, settings.models)`)
+ * rather than reading the store here, so the api layer stays free of app state.
+ */
+
+import type { LlmSettings, ModelSettings } from '../../core/types';
+import { ApiError } from '../gemini/client';
+import { getGeminiBackendMode } from '../gemini/fixtures';
+import { createOpenAiCompatibleProvider, OPENAI_COMPATIBLE_CAPABILITIES } from '../openai/chat';
+import { createGeminiProvider, GEMINI_CAPABILITIES } from './geminiProvider';
+import type { LlmCapability, LlmProvider } from './provider';
+
+export type {
+  LlmCapability,
+  LlmTask,
+  LlmHistoryItem,
+  LlmProvider,
+  LlmUsage,
+  JsonSchema,
+  GenerateTextParams,
+  GenerateTextResult,
+  TextStreamHandlers,
+  TranslateResult,
+  GenerateImageParams,
+  GenerateImageResult,
+  GenerateSpeechParams,
+  GenerateSpeechResult,
+} from './provider';
+export { createGeminiProvider } from './geminiProvider';
+export type { GeminiModelInfo } from '../gemini/models';
+export {
+  DEFAULT_MODEL_SETTINGS,
+  MODEL_TASKS,
+  getGeminiModelList,
+  isModelUnavailableError,
+  markModelMissing,
+  modelChain,
+  modelsForTask,
+  noteLiveSessionClosed,
+  pickAvailableModel,
+  resolveModelSettings,
+  withModelFallback,
+} from './models';
+export {
+  classifyApiError,
+  executeRequest,
+  getModelCooldowns,
+  parseRetryAfter,
+  subscribeModelCooldowns,
+} from './executor';
+export type { ApiErrorClass, ApiErrorKind, ExecuteRequestOptions } from './executor';
+
+export const DEFAULT_LLM_SETTINGS: LlmSettings = {
+  provider: 'gemini',
+  openAiCompatible: {
+    baseUrl: 'http://localhost:11434/v1',
+    model: '',
+    sendImages: false,
+  },
+};
+
+export const resolveLlmSettings = (settings: LlmSettings | undefined): LlmSettings => ({
+  ...DEFAULT_LLM_SETTINGS,
+  ...(settings || {}),
+  openAiCompatible: { ...DEFAULT_LLM_SETTINGS.openAiCompatible, ...(settings?.openAiCompatible || {}) },
+});
+
+let cached: { key: string; provider: LlmProvider } | null = null;
+
+/** `models` only applies to Gemini; an OpenAI-compatible server uses its configured model. */
+export const getLlmProvider = (settings: LlmSettings | undefined, models?: Partial<ModelSettings>): LlmProvider => {
+  const resolved = resolveLlmSettings(settings);
+  if (resolved.provider !== 'openai-compatible') {
+    const key = `gemini:${JSON.stringify(models || {})}`;
+    if (!cached || cached.key !== key) cached = { key, provider: createGeminiProvider(models) };
+    return cached.provider;
+  }
+  const key = JSON.stringify(resolved.openAiCompatible);
+  if (!cached || cached.key !== key) {
+    cached = { key, provider: createOpenAiCompatibleProvider(resolved.openAiCompatible) };
+  }
+  return cached.provider;
+};
+
+/** Whether the configured backend offers `capability`; for gating UI without building a provider. */
+export const providerSupports = (settings: LlmSettings | undefined, capability: LlmCapability): boolean =>
+  (resolveLlmSettings(settings).provider === 'openai-compatible' ? OPENAI_COMPATIBLE_CAPABILITIES : GEMINI_CAPABILITIES)
+    .has(capability);
+
+/** Whether the configured backend talks to Gemini, i.e. needs the Gemini API key; the fixture fake needs none. */
+export const usesGeminiKey = (settings: LlmSettings | undefined): boolean =>
+  resolveLlmSettings(settings).provider === 'gemini' && getGeminiBackendMode() !== 'fake';
+
+/** Whether `error` ends a request the caller cancelled through its abort signal. */
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof ApiError && error.code === 'ABORTED';
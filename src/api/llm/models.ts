@@ -0,0 +1,145 @@
+// Copyright 2025 Roni Tervo
+//
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * Per-task Gemini model choice.
+ *
+ * Responsibilities:
+ * - Resolve `settings.models` into a chain per task: the chosen model, then its fallbacks
+ * - Run a request down the chain while models turn out unavailable, and remember
+ *   the missing ones (retired, not enabled for the key) for the rest of the session
+ * - Fetch the model list from the models API and cache it for the settings panel
+ */
+
+import {
+  AUX_TEXT_MODEL_ID,
+  DEFAULT_TEXT_MODEL_ID,
+  IMAGE_FALLBACK_MODEL_IDS,
+  IMAGE_MODEL_ID,
+  LIVE_AUDIO_FALLBACK_MODEL_IDS,
+  LIVE_AUDIO_MODEL_ID,
+  TEXT_FALLBACK_MODEL_IDS,
+  TTS_FALLBACK_MODEL_IDS,
+  TTS_MODEL_ID,
+} from '../../core/config/app';
+import { getGeminiModelListDB, setGeminiModelListDB } from '../../core/db/assets';
+import type { ModelSettings, ModelTask } from '../../core/types';
+import { listGeminiModels, type GeminiModelInfo } from '../gemini/models';
+import { classifyApiError } from './executor';
+
+export const MODEL_TASKS: ModelTask[] = ['chat', 'aux', 'translate', 'image', 'tts', 'live'];
+
+export const DEFAULT_MODEL_SETTINGS: ModelSettings = {
+  chat: { model: DEFAULT_TEXT_MODEL_ID, fallbacks: TEXT_FALLBACK_MODEL_IDS },
+  aux: { model: AUX_TEXT_MODEL_ID, fallbacks: TEXT_FALLBACK_MODEL_IDS },
+  translate: { model: AUX_TEXT_MODEL_ID, fallbacks: TEXT_FALLBACK_MODEL_IDS },
+  image: { model: IMAGE_MODEL_ID, fallbacks: IMAGE_FALLBACK_MODEL_IDS },
+  tts: { model: TTS_MODEL_ID, fallbacks: TTS_FALLBACK_MODEL_IDS },
+  live: { model: LIVE_AUDIO_MODEL_ID, fallbacks: LIVE_AUDIO_FALLBACK_MODEL_IDS },
+};
+
+export const resolveModelSettings = (settings: Partial<ModelSettings> | undefined): ModelSettings => {
+  const resolved = { ...DEFAULT_MODEL_SETTINGS };
+  MODEL_TASKS.forEach(task => {
+    const choice = settings?.[task];
+    if (!choice) return;
+    resolved[task] = {
+      model: choice.model?.trim() || DEFAULT_MODEL_SETTINGS[task].model,
+      fallbacks: Array.isArray(choice.fallbacks) ? choice.fallbacks : DEFAULT_MODEL_SETTINGS[task].fallbacks,
+    };
+  });
+  return resolved;
+};
+
+/** The chosen model of `task` followed by its fallbacks, without blanks or repeats. */
+export const modelChain = (settings: Partial<ModelSettings> | undefined, task: ModelTask): string[] => {
+  const { model, fallbacks } = resolveModelSettings(settings)[task];
+  return [...new Set([model, ...fallbacks].map(id => id.trim()).filter(Boolean))];
+};
+
+// Models the API reported missing this session; skipped until reload.
+const missingModels = new Set<string>();
+
+const isModelMissingError = (error: unknown): boolean => {
+  const e = error as any;
+  const message = String(e?.message || e || '');
+  return Number(e?.status) === 404
+    || /\bNOT_FOUND\b|is not found|not supported for|does not exist|no longer available/i.test(message);
+};
+
+/** Whether the error says `model` itself cannot serve (missing, unsupported, out of quota) rather than the request being bad. */
+export const isModelUnavailableError = (error: unknown): boolean => {
+  const { kind } = classifyApiError(error);
+  if (kind === 'quota' || kind === 'rate-limit') return true;
+  return isModelMissingError(error);
+};
+
+export const markModelMissing = (model: string) => {
+  missingModels.add(model);
+};
+
+/** First model of `chain` not known to be missing; the head of the chain when all are. */
+export const pickAvailableModel = (chain: string[]): string =>
+  chain.find(model => !missingModels.has(model)) || chain[0];
+
+/**
+ * Live sessions cannot fall back mid-connection; when the server closes one
+ * because its model is missing, the next session starts on the fallback.
+ */
+export const noteLiveSessionClosed = (model: string, reason: string | undefined) => {
+  if (reason && isModelMissingError({ message: reason })) {
+    console.warn(`[noteLiveSessionClosed] ${model} is unavailable; later sessions use the next fallback`);
+    markModelMissing(model);
+  }
+};
+
+/**
+ * Calls `run` with each model of `chain` in turn while the previous one is
+ * unavailable. `canFallBack` is checked before moving on; streams return false
+ * once output was delivered. Rejects with the last error.
+ */
+export const withModelFallback = async <T>(
+  chain: string[],
+  run: (model: string) => Promise<T>,
+  canFallBack?: () => boolean
+): Promise<T> => {
+  const candidates = chain.filter(model => !missingModels.has(model));
+  if (candidates.length === 0) candidates.push(chain[0]);
+
+  for (let i = 0; ; i++) {
+    const model = candidates[i];
+    try {
+      return await run(model);
+    } catch (error) {
+      if (!isModelUnavailableError(error)) throw error;
+      if (isModelMissingError(error)) markModelMissing(model);
+      const next = candidates[i + 1];
+      if (!next || (canFallBack && !canFallBack())) throw error;
+      console.warn(`[withModelFallback] ${model} is unavailable, falling back to ${next}:`, (error as Error)?.message || error);
+    }
+  }
+};
+
+/** Refetch the list once it is older than this. */
+const MODEL_LIST_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+/** The Gemini model list, from the cache while it is fresh; `refresh` always refetches. */
+export const getGeminiModelList = async (options?: { refresh?: boolean }): Promise<GeminiModelInfo[]> => {
+  if (!options?.refresh) {
+    const cached = await getGeminiModelListDB().catch(() => null);
+    if (cached && Date.now() - cached.fetchedAt < MODEL_LIST_MAX_AGE_MS) return cached.models;
+  }
+  const models = await listGeminiModels();
+  await setGeminiModelListDB({ models, fetchedAt: Date.now() }).catch(() => {});
+  return models;
+};
+
+/** The models of `list` suited to `task`, judged by served methods and naming. */
+export const modelsForTask = (list: GeminiModelInfo[], task: ModelTask): GeminiModelInfo[] => list.filter(m => {
+  const id = m.id.toLowerCase();
+  if (task === 'live') return m.actions.includes('bidiGenerateContent');
+  if (!m.actions.includes('generateContent')) return false;
+  if (task === 'image') return id.includes('image');
+  if (task === 'tts') return id.includes('tts');
+  return id.startsWith('gemini') && !/image|tts|audio|embedding|live/.test(id);
+});
@@ -0,0 +1,145 @@
+// Copyright 2025 Roni Tervo
+//
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * The interface every generation backend implements.
+ *
+ * Responsibilities:
+ * - Describe text generation (whole or streamed), translation, image generation
+ *   and TTS in backend-neutral terms (history items, inline images, JSON replies)
+ * - Advertise what a backend can do, so the UI can switch features off
+ *   instead of failing on use
+ */
+
+import type { LlmProviderId } from '../../core/types';
+
+/**
+ * - `text`/`translate`: chat replies, suggestions, translations
+ * - `image`: image generation
+ * - `tts`: one-shot speech synthesis
+ * - `live`: real-time audio sessions (Gemini Live)
+ * - `files`: uploaded media referenced by URI (Gemini Files API)
+ * - `search`: grounding with web search
+ */
+export type LlmCapability = 'text' | 'translate' | 'image' | 'tts' | 'live' | 'files' | 'search';
+
+/** Which configured model (`settings.models`) a request uses when it names none. */
+export type LlmTask = 'chat' | 'aux';
+
+export interface LlmHistoryItem {
+  role: 'user' | 'assistant';
+  text?: string;
+  rawAssistantResponse?: string;
+  imageFileUri?: string;
+  imageMimeType?: string;
+  imageUrl?: string;
+  imageMediaId?: string;
+}
+
+/** The subset of JSON Schema both Gemini (`responseJsonSchema`) and OpenAI (`json_schema`) accept. */
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+}
+
+export interface GenerateTextParams {
+  task?: LlmTask;
+  /** Overrides the task's configured model and its fallbacks. */
+  model?: string;
+  prompt: string;
+  history: LlmHistoryItem[];
+  systemInstruction?: string;
+  /** Current image as a data URL or media store id. */
+  imageBase64?: string;
+  imageMimeType?: string;
+  /** Current image as an uploaded file; only with the `files` capability. */
+  imageFileUri?: string;
+  useGoogleSearch?: boolean;
+  /** Ask for a JSON object as the reply. */
+  jsonResponse?: boolean;
+  /** Constrain the JSON reply to this schema; implies `jsonResponse`. */
+  jsonSchema?: JsonSchema;
+  /** Backend-specific request options, passed through as is. */
+  config?: Record<string, unknown>;
+  /**
+   * Keep the system instruction and leading history in a context cache under
+   * this key (one per conversation) and send only the rest; Gemini streaming only.
+   */
+  cacheKey?: string;
+}
+
+export interface LlmUsage {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+  totalTokenCount?: number;
+  /** Part of the prompt read from a Gemini context cache. */
+  cachedContentTokenCount?: number;
+}
+
+export interface GenerateTextResult {
+  text?: string;
+  /** Gemini candidates (grounding metadata); absent for other backends. */
+  candidates?: any[];
+  usageMetadata?: LlmUsage;
+  /** The model that answered, for usage accounting. */
+  model?: string;
+}
+
+export interface TranslateResult {
+  translatedText: string;
+  usageMetadata?: LlmUsage;
+  model?: string;
+}
+
+export interface TextStreamHandlers {
+  /** Called with the whole text received so far after every chunk. */
+  onText: (text: string) => void;
+  /** Aborting ends the stream with an `ABORTED` ApiError. */
+  signal?: AbortSignal;
+}
+
+export interface GenerateImageParams {
+  prompt?: string;
+  history?: any[];
+  latestMessageText?: string;
+  latestMessageRole?: 'user' | 'assistant';
+  systemInstruction?: string;
+  maestroAvatarUri?: string;
+  maestroAvatarMimeType?: string;
+  /** Overrides the configured image model and its fallbacks. */
+  model?: string;
+}
+
+export type GenerateImageResult =
+  | { base64Image: string; mimeType: string; usageMetadata?: LlmUsage; model?: string }
+  | { error: string };
+
+export interface GenerateSpeechParams {
+  text: string;
+  voiceName?: string;
+  /** Overrides the configured TTS model and its fallbacks. */
+  model?: string;
+}
+
+export interface GenerateSpeechResult {
+  audioBase64: string;
+  mimeType: string;
+  error?: string;
+}
+
+export interface LlmProvider {
+  id: LlmProviderId;
+  capabilities: ReadonlySet<LlmCapability>;
+  generateText: (params: GenerateTextParams) => Promise<GenerateTextResult>;
+  /** Like `generateText`, reporting text as it arrives; resolves with the complete result. */
+  streamText: (params: GenerateTextParams, handlers: TextStreamHandlers) => Promise<GenerateTextResult>;
+  translate: (text: string, from: string, to: string) => Promise<TranslateResult>;
+  /** Present only with the `image` capability. */
+  generateImage?: (params: GenerateImageParams) => Promise<GenerateImageResult>;
+  /** Present only with the `tts` capability. */
+  generateSpeech?: (params: GenerateSpeechParams) => Promise<GenerateSpeechResult>;
+}
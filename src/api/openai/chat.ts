@@ -0,0 +1,249 @@
+// Copyright 2025 Roni Tervo
+//
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * OpenAI-compatible chat-completions backend (OpenAI, Ollama, llama.cpp,
+ * LM Studio, vLLM...).
+ *
+ * Responsibilities:
+ * - Map history, system instruction and the current image onto `messages`
+ * - POST `/chat/completions`, whole or streamed, and map the reply and usage back
+ * - Offer text and translation only; Gemini-only features report themselves missing
+ */
+
+import { debugLogService } from '../../features/diagnostics';
+import { loadOpenAiCompatibleKey } from '../../core/security/openAiCompatibleKey';
+import type { LlmSettings } from '../../core/types';
+import { ApiError } from '../gemini/client';
+import { resolveInlineImage, translationPrompt } from '../gemini/generative';
+import { executeRequest, parseRetryAfter } from '../llm/executor';
+import type {
+  GenerateTextParams,
+  GenerateTextResult,
+  LlmCapability,
+  LlmProvider,
+  LlmUsage,
+  TextStreamHandlers,
+} from '../llm/provider';
+
+export const OPENAI_COMPATIBLE_CAPABILITIES: ReadonlySet<LlmCapability> = new Set<LlmCapability>(['text', 'translate']);
+
+type ContentPart = { type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } };
+
+interface ChatCompletionMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string | ContentPart[];
+}
+
+export const chatCompletionsUrl = (baseUrl: string) => `${baseUrl.trim().replace(/\/+$/, '')}/chat/completions`;
+
+const toMessages = async (
+  params: GenerateTextParams,
+  sendImages: boolean
+): Promise<ChatCompletionMessage[]> => {
+  const messages: ChatCompletionMessage[] = [];
+  if (params.systemInstruction) messages.push({ role: 'system', content: params.systemInstruction });
+
+  for (const h of params.history) {
+    // Uploaded files (Gemini URIs) mean nothing to this server; only the text goes along.
+    const text = h.rawAssistantResponse || h.text;
+    if (text) messages.push({ role: h.role === 'assistant' ? 'assistant' : 'user', content: text });
+  }
+
+  const current: ContentPart[] = [{ type: 'text', text: params.prompt }];
+  if (sendImages && params.imageMimeType?.startsWith('image/')) {
+    const url = await resolveInlineImage(params.imageBase64);
+    if (url) current.push({ type: 'image_url', image_url: { url } });
+  }
+  messages.push({ role: 'user', content: current.length === 1 ? params.prompt : current });
+  return messages;
+};
+
+// Drops image payloads from debug logs.
+const redactMessages = (messages: ChatCompletionMessage[]) => messages.map(m => (
+  typeof m.content === 'string'
+    ? m
+    : { ...m, content: m.content.map(part => (part.type === 'image_url' ? { type: 'image_url', image_url: { url: '[REDACTED]' } } : part)) }
+));
+
+const toUsage = (usage: any): LlmUsage | undefined => (usage ? {
+  promptTokenCount: usage.prompt_tokens,
+  candidatesTokenCount: usage.completion_tokens,
+  totalTokenCount: usage.total_tokens,
+} : undefined);
+
+const cancelled = () => new ApiError('Request cancelled', { code: 'ABORTED' });
+
+// Sends the request and turns transport and HTTP failures into ApiErrors.
+const sendChatCompletion = async (
+  settings: LlmSettings['openAiCompatible'],
+  body: Record<string, unknown>,
+  log: ReturnType<typeof debugLogService.logRequest>,
+  signal?: AbortSignal
+): Promise<Response> => {
+  if (!settings.baseUrl.trim() || !body.model) {
+    const error = new ApiError('The OpenAI-compatible server has no URL or model configured', { code: 'PROVIDER_NOT_CONFIGURED' });
+    log.error(error);
+    throw error;
+  }
+
+  const apiKey = await loadOpenAiCompatibleKey();
+  const post = async () => {
+    let response: Response;
+    try {
+      response = await fetch(chatCompletionsUrl(settings.baseUrl), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify(body),
+        signal,
+      });
+    } catch (e: any) {
+      if (signal?.aborted) throw cancelled();
+      throw new ApiError(`Could not reach ${settings.baseUrl}: ${e?.message || e}`, { code: 'NETWORK' });
+    }
+
+    if (!response.ok) {
+      let payload: any = null;
+      try { payload = await response.json(); } catch { /* non-JSON error page */ }
+      const message = payload?.error?.message || `${response.status} ${response.statusText}`;
+      const retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'));
+      throw new ApiError(message, {
+        status: response.status,
+        code: payload?.error?.code || payload?.error?.type,
+        cooldownSuggestSeconds: retryAfterMs === undefined ? undefined : Math.ceil(retryAfterMs / 1000),
+      });
+    }
+    return response;
+  };
+
+  try {
+    return await executeRequest(post, { model: String(body.model), signal });
+  } catch (e: any) {
+    log.error(e?.code === 'ABORTED' ? 'cancelled' : { status: e?.status, message: e?.message });
+    throw e;
+  }
+};
+
+const logChatCompletion = (body: Record<string, unknown>, logType: string) =>
+  debugLogService.logRequest(logType, String(body.model || ''), {
+    ...body,
+    messages: redactMessages(body.messages as ChatCompletionMessage[]),
+  });
+
+const postChatCompletion = async (
+  settings: LlmSettings['openAiCompatible'],
+  body: Record<string, unknown>,
+  logType: string
+): Promise<GenerateTextResult> => {
+  const log = logChatCompletion(body, logType);
+  const response = await sendChatCompletion(settings, body, log);
+
+  let payload: any = null;
+  try { payload = await response.json(); } catch { /* empty body */ }
+  const text = payload?.choices?.[0]?.message?.content;
+  const result: GenerateTextResult = {
+    text: typeof text === 'string' ? text : '',
+    usageMetadata: toUsage(payload?.usage),
+    model: String(body.model),
+  };
+  log.complete({ text: result.text, usage: result.usageMetadata });
+  return result;
+};
+
+// Reads `stream: true` server-sent events: `data: {choices:[{delta}]}` lines up to `data: [DONE]`.
+const streamChatCompletion = async (
+  settings: LlmSettings['openAiCompatible'],
+  body: Record<string, unknown>,
+  handlers: TextStreamHandlers
+): Promise<GenerateTextResult> => {
+  const streamBody = { ...body, stream: true, stream_options: { include_usage: true } };
+  const log = logChatCompletion(streamBody, 'chatCompletionsStream');
+  const response = await sendChatCompletion(settings, streamBody, log, handlers.signal);
+  const reader = response.body?.getReader();
+  if (!reader) {
+    const error = new ApiError('The server returned no response body', { code: 'FORMAT' });
+    log.error(error);
+    throw error;
+  }
+
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let text = '';
+  let usage: LlmUsage | undefined;
+  let done = false;
+  try {
+    while (!done) {
+      const chunk = await reader.read();
+      if (chunk.done) break;
+      buffer += decoder.decode(chunk.value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      for (const raw of lines) {
+        const line = raw.trim();
+        if (!line.startsWith('data:')) continue;
+        const data = line.slice(5).trim();
+        if (data === '[DONE]') { done = true; break; }
+        let event: any;
+        try { event = JSON.parse(data); } catch { continue; }
+        if (event?.usage) usage = toUsage(event.usage);
+        const delta = event?.choices?.[0]?.delta?.content;
+        if (typeof delta === 'string' && delta) {
+          text += delta;
+          handlers.onText(text);
+        }
+      }
+    }
+  } catch (e: any) {
+    if (handlers.signal?.aborted) {
+      log.error('cancelled');
+      throw cancelled();
+    }
+    log.error(e);
+    throw new ApiError(`Stream from ${settings.baseUrl} broke off: ${e?.message || e}`, { code: 'NETWORK' });
+  } finally {
+    reader.releaseLock();
+  }
+  if (handlers.signal?.aborted) {
+    log.error('cancelled');
+    throw cancelled();
+  }
+
+  log.complete({ text, usage });
+  return { text, usageMetadata: usage, model: String(body.model) };
+};
+
+const responseFormat = (params: GenerateTextParams) => {
+  if (params.jsonSchema) return { type: 'json_schema', json_schema: { name: 'reply', schema: params.jsonSchema } };
+  return params.jsonResponse ? { type: 'json_object' } : undefined;
+};
+
+const toRequestBody = async (params: GenerateTextParams, settings: LlmSettings['openAiCompatible']) => {
+  const format = responseFormat(params);
+  return {
+    model: params.model || settings.model,
+    messages: await toMessages(params, settings.sendImages),
+    ...(format ? { response_format: format } : {}),
+  };
+};
+
+export const createOpenAiCompatibleProvider = (settings: LlmSettings['openAiCompatible']): LlmProvider => ({
+  id: 'openai-compatible',
+  capabilities: OPENAI_COMPATIBLE_CAPABILITIES,
+
+  generateText: async (params) =>
+    postChatCompletion(settings, await toRequestBody(params, settings), 'chatCompletions'),
+
+  streamText: async (params, handlers) =>
+    streamChatCompletion(settings, await toRequestBody(params, settings), handlers),
+
+  translate: async (text, from, to) => {
+    const result = await postChatCompletion(settings, {
+      model: settings.model,
+      messages: [{ role: 'user', content: translationPrompt(text, from, to) }],
+    }, 'translateText');
+    return { translatedText: result.text || '', usageMetadata: result.usageMetadata, model: result.model };
+  },
+});
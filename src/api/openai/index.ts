@@ -0,0 +1,9 @@
+// Copyright 2025 Roni Tervo
+//
+// SPDX-License-Identifier: Apache-2.0
+export {
+  createOpenAiCompatibleProvider,
+  chatCompletionsUrl,
+  OPENAI_COMPATIBLE_CAPABILITIES,
+} from './chat';
+export { listOpenAiCompatibleModels, modelsUrl } from './models';
@@ -0,0 +1,29 @@
+// Copyright 2025 Roni Tervo
+//
+// SPDX-License-Identifier: Apache-2.0
+import { loadOpenAiCompatibleKey } from '../../core/security/openAiCompatibleKey';
+import { ApiError } from '../gemini/client';
+
+export const modelsUrl = (baseUrl: string) => `${baseUrl.trim().replace(/\/+$/, '')}/models`;
+
+/**
+ * Model ids served at `baseUrl` (`GET /models`). Doubles as the connection
+ * test in the provider panel; `apiKey` overrides the stored key for unsaved drafts.
+ */
+export const listOpenAiCompatibleModels = async (baseUrl: string, apiKey?: string | null): Promise<string[]> => {
+  if (!baseUrl.trim()) throw new ApiError('No server URL configured', { code: 'PROVIDER_NOT_CONFIGURED' });
+  const key = apiKey === undefined ? await loadOpenAiCompatibleKey() : apiKey;
+  let response: Response;
+  try {
+    response = await fetch(modelsUrl(baseUrl), { headers: key ? { Authorization: `Bearer ${key}` } : {} });
+  } catch (e: any) {
+    throw new ApiError(`Could not reach ${baseUrl}: ${e?.message || e}`, { code: 'NETWORK' });
+  }
+  let payload: any = null;
+  try { payload = await response.json(); } catch { /* non-JSON error page */ }
+  if (!response.ok) {
+    throw new ApiError(payload?.error?.message || `${response.status} ${response.statusText}`, { status: response.status });
+  }
+  const data: any[] = Array.isArray(payload?.data) ? payload.data : [];
+  return data.map(m => String(m?.id || '')).filter(Boolean).sort();
+};
@@ -16,25 +16,28 @@
 import React, { useEffect, useCallback, useRef, useMemo, useState } from 'react';
 
 // --- Features Components ---
-import { ChatInterface } from '../features/chat';
-import { Header, useSmartReengagement } from '../features/session';
+import { ChatInterface, ReadOnlyTabBanner, UndoToast } from '../features/chat';
+import { Header, useAutoSnapshots, useSmartReengagement } from '../features/session';
 import { DebugLogPanel } from '../features/diagnostics';
+import { StoragePanel, StorageWarningBanner, useStorageMonitor } from '../features/storage';
+import { SearchPanel } from '../features/search';
+import { SyncPanel, useSync } from '../features/sync';
+import { ModelsPanel, RateLimitBanner, useModelCooldowns } from '../features/models';
+import { UsagePanel, UsageBudgetBanner, useUsageBudget } from '../features/usage';
+import { usesGeminiKey } from '../api/llm';
 import { VisualContextVideo } from '../features/vision';
 import ApiKeyGate from '../features/session/components/ApiKeyGate';
 
 // --- Hooks ---
-import { useAppInitialization, useMaestroActivityStage, useIdleReengagement } from './hooks';
+import { useAppInitialization, useMaestroActivityStage, useIdleReengagement, useDbMigrationProgress } from './hooks';
 
-import { useTutorConversation, useSuggestions, useChatPersistence } from '../features/chat';
+import { useTutorConversation, useSuggestions, useChatPersistence, useTabWriterLock, useUndoShortcuts } from '../features/chat';
 import { useSpeechOrchestrator, useAutoSendOnSilence, useSuggestionModeAutoRestart } from '../features/speech';
 import { useCameraManager } from '../features/vision';
 import { useLiveSessionController } from '../features/live';
 import { MAX_VISIBLE_MESSAGES_DEFAULT, useMaestroStore } from '../store';
 
 // --- Feature Hooks ---
-// --- Services ---
-import { setChatMetaDB } from '../features/chat';
-
 // --- Config ---
 import { IMAGE_GEN_CAMERA_ID } from '../core/config/app';
 import { selectNonReengagementBusy } from '../store/slices/uiSlice';
@@ -70,6 +73,8 @@ const App: React.FC = () => {
   const removeActivityToken = useMaestroStore(state => state.removeActivityToken);
   const isBlockingActivity = useMaestroStore(selectNonReengagementBusy);
   const setLastFetchedSuggestionsFor = useMaestroStore(state => state.setLastFetchedSuggestionsFor);
+  const editMessage = useMaestroStore(state => state.editMessage);
+  const setHistoryBookmark = useMaestroStore(state => state.setHistoryBookmark);
 
   const {
     t,
@@ -84,8 +89,6 @@ const App: React.FC = () => {
     setMessages,
     getHistoryRespectingBookmark,
     computeMaxMessagesForArray,
-    upsertMessageTtsCache,
-    upsertSuggestionTtsCache,
     replySuggestions,
     setReplySuggestions,
   } = useAppInitialization({
@@ -104,7 +107,9 @@ const App: React.FC = () => {
   } = useApiKey();
 
   const [isApiKeyGateOpen, setIsApiKeyGateOpen] = useState(false);
-  const showApiKeyGate = !hasApiKey || isApiKeyGateOpen;
+  // A non-Gemini text backend runs without the Gemini key; speech features ask for it on use.
+  const requiresApiKey = !hasApiKey && usesGeminiKey(settings.llm);
+  const showApiKeyGate = requiresApiKey || isApiKeyGateOpen;
 
   const settingsRef = useMemo(() => createSmartRef(useMaestroStore.getState, state => state.settings), []);
   const selectedLanguagePairRef = useMemo(() => createSmartRef(useMaestroStore.getState, selectSelectedLanguagePair), []);
@@ -112,6 +117,8 @@ const App: React.FC = () => {
   const lastFetchedSuggestionsForRef = useMemo(() => createSmartRef(useMaestroStore.getState, state => state.lastFetchedSuggestionsFor), []);
 
   useChatPersistence();
+  useTabWriterLock();
+  useUndoShortcuts();
 
   // --- Hardware ---
   const {
@@ -144,6 +151,19 @@ const App: React.FC = () => {
 
   const setTransitioningImageId = useMaestroStore(state => state.setTransitioningImageId);
   const setShowDebugLogs = useMaestroStore(state => state.setShowDebugLogs);
+  const showStoragePanel = useMaestroStore(state => state.showStoragePanel);
+  const setShowStoragePanel = useMaestroStore(state => state.setShowStoragePanel);
+  const showUsagePanel = useMaestroStore(state => state.showUsagePanel);
+  const setShowUsagePanel = useMaestroStore(state => state.setShowUsagePanel);
+  const showSearchPanel = useMaestroStore(state => state.showSearchPanel);
+  const setShowSearchPanel = useMaestroStore(state => state.setShowSearchPanel);
+  const closeSearchPanel = useCallback(() => setShowSearchPanel(false), [setShowSearchPanel]);
+  const showSyncPanel = useMaestroStore(state => state.showSyncPanel);
+  const setShowSyncPanel = useMaestroStore(state => state.setShowSyncPanel);
+  const closeSyncPanel = useCallback(() => setShowSyncPanel(false), [setShowSyncPanel]);
+  const showModelsPanel = useMaestroStore(state => state.showModelsPanel);
+  const setShowModelsPanel = useMaestroStore(state => state.setShowModelsPanel);
+  const closeModelsPanel = useCallback(() => setShowModelsPanel(false), [setShowModelsPanel]);
   const setAttachedImage = useMaestroStore(state => state.setAttachedImage);
 
   // --- Refs ---
@@ -176,8 +196,6 @@ const App: React.FC = () => {
     speakMessage,
     speakWrapper,
   } = useSpeechOrchestrator({
-    upsertMessageTtsCache,
-    upsertSuggestionTtsCache,
     setMessages,
   });
   
@@ -187,6 +205,7 @@ const App: React.FC = () => {
     isSendingRef,
     handleSendMessageInternal,
     handleSendMessageInternalRef,
+    cancelSend,
     handleCreateSuggestion,
     handleSuggestionInteraction,
     setMaestroActivityStage,
@@ -303,6 +322,14 @@ const App: React.FC = () => {
     removeActivityToken,
   });
 
+  const migrationProgress = useDbMigrationProgress();
+
+  useStorageMonitor();
+  useAutoSnapshots();
+  useSync();
+  useModelCooldowns();
+  useUsageBudget();
+
   useIdleReengagement({
     selectedLanguagePair,
     isBlockingActivity,
@@ -340,6 +367,12 @@ const App: React.FC = () => {
     setAttachedImage(base64, mimeType);
   }, [setAttachedImage]);
 
+  // Stopping a reply also silences the lines already queued for speech.
+  const handleCancelSend = useCallback(() => {
+    cancelSend();
+    stopSpeaking();
+  }, [cancelSend, stopSpeaking]);
+
   const handleDeleteMessage = useCallback((messageId: string) => {
     deleteMessage(messageId);
   }, [deleteMessage]);
@@ -478,7 +511,6 @@ const App: React.FC = () => {
     getHistoryRespectingBookmark,
     computeMaxMessagesForArray,
     fetchAndSetReplySuggestions,
-    upsertMessageTtsCache,
     liveVideoStream,
     setLiveVideoStream,
     visualContextVideoRef,
@@ -517,12 +549,24 @@ const App: React.FC = () => {
     );
   }
 
-  if (isLoadingHistory && settings.selectedLanguagePairId) {
+  if ((isLoadingHistory && settings.selectedLanguagePairId) || migrationProgress) {
     return (
       <div className="flex h-screen w-full items-center justify-center bg-slate-50">
         <div className="text-center">
           <SmallSpinner className="w-8 h-8 text-gray-500 block mx-auto" />
           <p className="mt-2 text-gray-600">{t('chat.loadingHistory')}</p>
+          {migrationProgress && (
+            <p className="mt-1 text-xs text-gray-500">
+              {migrationProgress.phase === 'error'
+                ? t('db.migrationFailed', { step: migrationProgress.description })
+                : t('db.migrating', {
+                    step: migrationProgress.description,
+                    current: migrationProgress.stepIndex + 1,
+                    total: migrationProgress.stepCount,
+                    percent: Math.round(migrationProgress.fraction * 100),
+                  })}
+            </p>
+          )}
         </div>
       </div>
     );
@@ -538,10 +582,20 @@ const App: React.FC = () => {
         hasApiKey={hasApiKey}
       />
       {showDebugLogs && <DebugLogPanel onClose={() => setShowDebugLogs(false)} />}
+      <StorageWarningBanner />
+      <UsageBudgetBanner />
+      <ReadOnlyTabBanner />
+      <RateLimitBanner />
+      <UndoToast />
+      {showStoragePanel && <StoragePanel onClose={() => setShowStoragePanel(false)} />}
+      {showUsagePanel && <UsagePanel onClose={() => setShowUsagePanel(false)} />}
+      {showSearchPanel && <SearchPanel onClose={closeSearchPanel} />}
+      {showSyncPanel && <SyncPanel onClose={closeSyncPanel} />}
+      {showModelsPanel && <ModelsPanel onClose={closeModelsPanel} />}
       <VisualContextVideo videoRef={visualContextVideoRef} />
       <ApiKeyGate
         isOpen={showApiKeyGate}
-        isBlocking={!hasApiKey}
+        isBlocking={requiresApiKey}
         hasKey={hasApiKey}
         maskedKey={maskedApiKey}
         error={apiKeyError}
@@ -557,18 +611,10 @@ const App: React.FC = () => {
         <main className="flex-1 flex flex-col bg-slate-50">
           <ChatInterface
             onSendMessage={handleSendMessageInternalRef.current || handleSendMessageInternal}
+            onCancelSend={handleCancelSend}
             onDeleteMessage={handleDeleteMessage}
-            updateMessage={updateMessage}
-            onBookmarkAt={(id) => {
-              setSettings(prev => {
-                const next = { ...prev, historyBookmarkMessageId: id };
-                return next;
-              });
-              const pairId = settingsRef.current.selectedLanguagePairId;
-              if (pairId) {
-                (async () => { try { await setChatMetaDB(pairId, { bookmarkMessageId: id }); } catch (e) { console.error(`[App] Failed to persist bookmark for pairId=${pairId}, messageId=${id}:`, e); } })();
-              }
-            }}
+            updateMessage={editMessage}
+            onBookmarkAt={setHistoryBookmark}
             onChangeMaxVisibleMessages={(n) => {
               const clamped = Math.max(1, Math.min(100, Math.floor(n || MAX_VISIBLE_MESSAGES_DEFAULT)));
               setSettings(prev => { 
@@ -29,3 +29,4 @@ export { useAppAssets } from './useAppAssets';
 export { useAppInitialization } from './useAppInitialization';
 export { useMaestroActivityStage } from './useMaestroActivityStage';
 export { useIdleReengagement } from './useIdleReengagement';
+export { useDbMigrationProgress } from './useDbMigrationProgress';
@@ -17,7 +17,7 @@ import { useMaestroStore } from '../../store';
 import { useAppLifecycle } from './useAppLifecycle';
 import { useAppAssets } from './useAppAssets';
 import { useAppTranslations } from '../../shared/hooks/useAppTranslations';
-import { selectSelectedLanguagePair } from '../../store/slices/settingsSlice';
+import { selectSelectedLanguagePair, selectActiveThreadId } from '../../store/slices/settingsSlice';
 
 export interface UseAppInitializationConfig {
   maestroAvatarUriRef: MutableRefObject<string | null>;
@@ -51,17 +51,18 @@ export const useAppInitialization = ({
   const updateSetting = useMaestroStore(state => state.updateSetting);
   const setSettings = useMaestroStore(state => state.setSettings);
   const loadHistoryForPair = useMaestroStore(state => state.loadHistoryForPair);
+  const loadThreadsForPair = useMaestroStore(state => state.loadThreadsForPair);
+  const activeThreadId = useMaestroStore(selectActiveThreadId);
   const addMessage = useMaestroStore(state => state.addMessage);
   const updateMessage = useMaestroStore(state => state.updateMessage);
   const deleteMessage = useMaestroStore(state => state.deleteMessage);
   const setMessages = useMaestroStore(state => state.setMessages);
   const getHistoryRespectingBookmark = useMaestroStore(state => state.getHistoryRespectingBookmark);
   const computeMaxMessagesForArray = useMaestroStore(state => state.computeMaxMessagesForArray);
-  const upsertMessageTtsCache = useMaestroStore(state => state.upsertMessageTtsCache);
-  const upsertSuggestionTtsCache = useMaestroStore(state => state.upsertSuggestionTtsCache);
   const setReplySuggestions = useMaestroStore(state => state.setReplySuggestions);
 
   const prevPairIdRef = useRef<string | null>(null);
+  const prevThreadIdRef = useRef<string | null>(null);
 
   useEffect(() => {
     if (!useMaestroStore.getState().isSettingsLoaded) {
@@ -71,11 +72,15 @@ export const useAppInitialization = ({
 
   useEffect(() => {
     const pairId = settings.selectedLanguagePairId;
-    if (pairId && pairId !== prevPairIdRef.current) {
+    if (!pairId || !activeThreadId) return;
+    const pairChanged = pairId !== prevPairIdRef.current;
+    if (pairChanged || activeThreadId !== prevThreadIdRef.current) {
       prevPairIdRef.current = pairId;
-      loadHistoryForPair(pairId, t);
+      prevThreadIdRef.current = activeThreadId;
+      loadHistoryForPair(pairId, t, activeThreadId);
+      if (pairChanged) loadThreadsForPair(pairId);
     }
-  }, [settings.selectedLanguagePairId, loadHistoryForPair, t]);
+  }, [settings.selectedLanguagePairId, activeThreadId, loadHistoryForPair, loadThreadsForPair, t]);
 
   return {
     t,
@@ -90,8 +95,6 @@ export const useAppInitialization = ({
     setMessages,
     getHistoryRespectingBookmark,
     computeMaxMessagesForArray,
-    upsertMessageTtsCache,
-    upsertSuggestionTtsCache,
     replySuggestions,
     setReplySuggestions,
   };
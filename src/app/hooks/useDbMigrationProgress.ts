@@ -0,0 +1,25 @@
+// Copyright 2025 Roni Tervo
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * useDbMigrationProgress - Exposes the IndexedDB migration currently running, if any.
+ *
+ * Returns null when no migration is in progress (or the last step finished).
+ */
+
+import { useEffect, useState } from 'react';
+import { subscribeToMigrationProgress, type MigrationProgress } from '../../core/db';
+
+export const useDbMigrationProgress = (): MigrationProgress | null => {
+  const [progress, setProgress] = useState<MigrationProgress | null>(null);
+
+  useEffect(() => {
+    return subscribeToMigrationProgress((next) => {
+      const isLastStepDone = next.phase === 'done' && next.stepIndex === next.stepCount - 1;
+      setProgress(isLastStepDone ? null : next);
+    });
+  }, []);
+
+  return progress;
+};
+
+export default useDbMigrationProgress;
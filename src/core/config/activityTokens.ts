@@ -18,6 +18,7 @@ export type TokenCategory = typeof TOKEN_CATEGORY[keyof typeof TOKEN_CATEGORY];
 export const TOKEN_SUBTYPE = {
   // TTS
   SPEAK: 'speak',
+  CACHE_LOOKUP: 'cache-lookup',
 
   // STT
   LISTEN: 'listen',
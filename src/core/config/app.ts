@@ -2,6 +2,17 @@
 export const APP_TITLE_KEY = "app.title";
 export const LOCAL_STORAGE_SETTINGS_KEY = "maestro_settings_local_v2";
 export const DEFAULT_TEXT_MODEL_ID = "gemini-3-flash-preview";
+/** Suggestions, summaries and translations. */
+export const AUX_TEXT_MODEL_ID = "gemini-3-flash-preview";
+export const IMAGE_MODEL_ID = "gemini-2.5-flash-image";
+export const TTS_MODEL_ID = "gemini-2.5-flash-preview-tts";
+/** Native-audio model behind live conversation, live STT and live TTS. */
+export const LIVE_AUDIO_MODEL_ID = "gemini-2.5-flash-native-audio-preview-12-2025";
+/** Default fallbacks per model kind, tried in order when the chosen model is unavailable. */
+export const TEXT_FALLBACK_MODEL_IDS = ["gemini-2.5-flash", "gemini-2.5-flash-lite"];
+export const IMAGE_FALLBACK_MODEL_IDS = ["gemini-3-pro-image-preview"];
+export const TTS_FALLBACK_MODEL_IDS = ["gemini-2.5-pro-preview-tts"];
+export const LIVE_AUDIO_FALLBACK_MODEL_IDS = ["gemini-2.5-flash-native-audio-preview-09-2025"];
 export const IMAGE_GEN_CAMERA_ID = "image-gen-camera";
 export const MAX_MEDIA_TO_KEEP = 10;
 
@@ -5,6 +5,8 @@ import { openDB, ASSETS_STORE } from './index';
 
 const LOADING_GIFS_KEY = 'loadingGifs';
 const MAESTRO_PROFILE_KEY = 'maestroProfileImage';
+const GEMINI_MODELS_KEY = 'geminiModels';
+const GEMINI_FIXTURE_KEY = 'geminiFixture';
 
 export type MaestroProfileAsset = {
   dataUrl?: string;
@@ -35,6 +37,57 @@ export async function setLoadingGifsDB(gifs: string[]): Promise<void> {
   });
 }
 
+/** The Gemini model list as last fetched from the models API. */
+export type GeminiModelListAsset = {
+  models: { id: string; displayName: string; actions: string[] }[];
+  fetchedAt: number;
+};
+
+export async function getGeminiModelListDB(): Promise<GeminiModelListAsset | null> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(ASSETS_STORE, 'readonly');
+    const st = tx.objectStore(ASSETS_STORE);
+    const req = st.get(GEMINI_MODELS_KEY);
+    req.onerror = () => reject(new Error('Error reading model list from DB'));
+    req.onsuccess = () => resolve(req.result ? (req.result.value as GeminiModelListAsset) : null);
+  });
+}
+
+export async function setGeminiModelListDB(list: GeminiModelListAsset): Promise<void> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(ASSETS_STORE, 'readwrite');
+    const st = tx.objectStore(ASSETS_STORE);
+    const req = st.put({ key: GEMINI_MODELS_KEY, value: list });
+    req.onerror = () => reject(new Error('Error saving model list to DB'));
+    req.onsuccess = () => resolve();
+  });
+}
+
+/** The fixture the fake Gemini backend replays; its shape is owned by `api/gemini/fixtures.ts`. */
+export async function getGeminiFixtureDB(): Promise<unknown | null> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(ASSETS_STORE, 'readonly');
+    const st = tx.objectStore(ASSETS_STORE);
+    const req = st.get(GEMINI_FIXTURE_KEY);
+    req.onerror = () => reject(new Error('Error reading Gemini fixture from DB'));
+    req.onsuccess = () => resolve(req.result ? req.result.value : null);
+  });
+}
+
+export async function setGeminiFixtureDB(fixture: unknown): Promise<void> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(ASSETS_STORE, 'readwrite');
+    const st = tx.objectStore(ASSETS_STORE);
+    const req = st.put({ key: GEMINI_FIXTURE_KEY, value: fixture });
+    req.onerror = () => reject(new Error('Error saving Gemini fixture to DB'));
+    req.onsuccess = () => resolve();
+  });
+}
+
 export async function getMaestroProfileImageDB(): Promise<MaestroProfileAsset | null> {
   const db = await openDB();
   return new Promise((resolve, reject) => {
@@ -1,38 +1,72 @@
 // Copyright 2025 Roni Tervo
 //
 // SPDX-License-Identifier: Apache-2.0
-export const DB_NAME = 'GeminiLanguageTutorDB';
-export const DB_VERSION = 7;
-export const STORE_NAME = 'chatHistories';
-export const META_STORE = 'chatMetas';
-export const GLOBAL_PROFILE_STORE = 'globalProfile';
-export const SETTINGS_STORE = 'appSettings';
-export const ASSETS_STORE = 'appAssets';
+import { DB_NAME } from './stores';
+import { DB_MIGRATIONS, LATEST_DB_VERSION, runMigrations, type DbMigration, type MigrationProgress } from './migrations';
 
-export const openDB = (): Promise<IDBDatabase> => {
+export * from './stores';
+export {
+  DB_MIGRATIONS,
+  subscribeToMigrationProgress,
+  getMigrationBackupsFromDB,
+  requestToPromise,
+  forEachCursor,
+} from './migrations';
+export type {
+  DbMigration,
+  MigrationContext,
+  MigrationProgress,
+  MigrationPhase,
+  MigrationBackupRecord,
+  MigrationBackupItem,
+} from './migrations';
+
+export const DB_VERSION = LATEST_DB_VERSION;
+
+export interface OpenDatabaseOptions {
+  /** Defaults to the global `indexedDB`; pass e.g. fake-indexeddb's factory in tests. */
+  factory?: IDBFactory;
+  name?: string;
+  version?: number;
+  migrations?: DbMigration[];
+  onProgress?: (progress: MigrationProgress) => void;
+}
+
+export const openDatabase = ({
+  factory = indexedDB,
+  name = DB_NAME,
+  version = DB_VERSION,
+  migrations = DB_MIGRATIONS,
+  onProgress,
+}: OpenDatabaseOptions = {}): Promise<IDBDatabase> => {
   return new Promise((resolve, reject) => {
-    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    const request = factory.open(name, version);
 
-    request.onerror = () => reject(new Error('Error opening IndexedDB'));
-    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error || new Error('Error opening IndexedDB'));
+    request.onsuccess = () => {
+      const db = request.result;
+      // Let a newer tab upgrade the schema instead of being blocked by this connection.
+      db.onversionchange = () => db.close();
+      resolve(db);
+    };
 
     request.onupgradeneeded = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
-      if (!db.objectStoreNames.contains(STORE_NAME)) {
-        db.createObjectStore(STORE_NAME, { keyPath: 'pairId' });
-      }
-      if (!db.objectStoreNames.contains(META_STORE)) {
-        db.createObjectStore(META_STORE, { keyPath: 'pairId' });
-      }
-      if (!db.objectStoreNames.contains(GLOBAL_PROFILE_STORE)) {
-        db.createObjectStore(GLOBAL_PROFILE_STORE, { keyPath: 'key' });
-      }
-      if (!db.objectStoreNames.contains(SETTINGS_STORE)) {
-        db.createObjectStore(SETTINGS_STORE, { keyPath: 'key' });
-      }
-      if (!db.objectStoreNames.contains(ASSETS_STORE)) {
-        db.createObjectStore(ASSETS_STORE, { keyPath: 'key' });
-      }
+      const db = request.result;
+      const tx = request.transaction;
+      if (!tx) return;
+      runMigrations({
+        db,
+        tx,
+        oldVersion: event.oldVersion,
+        newVersion: event.newVersion ?? version,
+        migrations,
+        onProgress,
+      }).catch((error) => {
+        console.error('IndexedDB migration failed', error);
+        try { tx.abort(); } catch { /* already finished */ }
+      });
     };
   });
-};
\ No newline at end of file
+};
+
+export const openDB = (): Promise<IDBDatabase> => openDatabase();
@@ -0,0 +1,252 @@
+// Copyright 2025 Roni Tervo
+//
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * Content-addressed media store.
+ *
+ * Responsibilities:
+ * - Store image/video/audio payloads once as Blobs keyed by their SHA-256 hash
+ * - Track how many persisted messages reference each blob (`refCount`)
+ * - Delete blobs whose last reference goes away, and reconcile drifted counts
+ * - Convert between data URLs (what the UI and API layers use) and Blobs
+ *
+ * Reference counts are only changed inside transactions that also write the
+ * referencing records, so a crash can never leave a message pointing at a
+ * deleted blob. Hashing is async, so callers prepare `MediaInput`s before
+ * opening their transaction and then call `applyMediaRefDeltas` inside it.
+ */
+
+import { openDB, MEDIA_STORE, MESSAGES_STORE } from './index';
+
+export const MEDIA_ID_PREFIX = 'sha256-';
+
+export interface MediaRecord {
+  id: string;
+  blob: Blob;
+  mimeType: string;
+  size: number;
+  refCount: number;
+  createdAt: number;
+}
+
+/** A blob ready to be stored, prepared outside of any transaction. */
+export interface MediaInput {
+  id: string;
+  blob: Blob;
+  mimeType: string;
+}
+
+export const isMediaId = (value: unknown): value is string =>
+  typeof value === 'string' && value.startsWith(MEDIA_ID_PREFIX);
+
+export const hashBlob = async (blob: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  const hex = Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+  return `${MEDIA_ID_PREFIX}${hex}`;
+};
+
+export const dataUrlToBlob = (dataUrl: string, fallbackMime?: string): Blob | null => {
+  const match = /^data:([^;,]*)(;base64)?,/i.exec(dataUrl);
+  if (!match) return null;
+  const mimeType = match[1] || fallbackMime || 'application/octet-stream';
+  const payload = dataUrl.slice(match[0].length);
+  try {
+    if (!match[2]) return new Blob([decodeURIComponent(payload)], { type: mimeType });
+    const binary = atob(payload);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return new Blob([bytes], { type: mimeType });
+  } catch {
+    return null;
+  }
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result || ''));
+    reader.onerror = () => reject(reader.error || new Error('Error reading media blob'));
+    reader.readAsDataURL(blob);
+  });
+
+// Messages are re-saved whenever any field changes; remembering recent hashes
+// avoids re-hashing the same multi-megabyte data URL on every save.
+const MAX_HASH_MEMO = 64;
+const hashMemo = new Map<string, string>();
+
+/** Decodes and hashes a data URL. Returns null for anything that is not a data URL. */
+export const prepareMediaFromDataUrl = async (dataUrl: string, mimeType?: string): Promise<MediaInput | null> => {
+  if (typeof dataUrl !== 'string' || !dataUrl.startsWith('data:')) return null;
+  const blob = dataUrlToBlob(dataUrl, mimeType);
+  if (!blob) return null;
+  let id = hashMemo.get(dataUrl);
+  if (!id) {
+    // crypto.subtle is missing in insecure contexts (e.g. dev server over a LAN IP).
+    try { id = await hashBlob(blob); } catch { return null; }
+    hashMemo.set(dataUrl, id);
+    if (hashMemo.size > MAX_HASH_MEMO) hashMemo.delete(hashMemo.keys().next().value as string);
+  }
+  return { id, blob, mimeType: mimeType || blob.type };
+};
+
+/**
+ * Adjusts reference counts inside a caller-owned readwrite transaction that
+ * includes MEDIA_STORE. Positive deltas for unknown ids create the record from
+ * `inputs`; records whose count drops to zero are deleted.
+ */
+export const applyMediaRefDeltas = (
+  store: IDBObjectStore,
+  deltas: Map<string, number>,
+  inputs: Map<string, MediaInput>
+): void => {
+  deltas.forEach((delta, id) => {
+    if (delta === 0) return;
+    const req = store.get(id);
+    req.onsuccess = () => {
+      const existing = req.result as MediaRecord | undefined;
+      if (existing) {
+        const refCount = existing.refCount + delta;
+        if (refCount <= 0) store.delete(id);
+        else store.put({ ...existing, refCount });
+        return;
+      }
+      const input = inputs.get(id);
+      if (!input || delta < 0) return;
+      const record: MediaRecord = {
+        id,
+        blob: input.blob,
+        mimeType: input.mimeType,
+        size: input.blob.size,
+        refCount: delta,
+        createdAt: Date.now(),
+      };
+      store.put(record);
+    };
+  });
+};
+
+/** Accumulates `sign` for every id into `deltas`. */
+export const addMediaRefDeltas = (deltas: Map<string, number>, ids: readonly string[] | undefined, sign: 1 | -1) => {
+  (ids || []).forEach(id => deltas.set(id, (deltas.get(id) || 0) + sign));
+};
+
+/**
+ * Stores blobs with zero references so records written afterwards can point at
+ * them by id (e.g. messages from a backup archive). Unused ones are removed by
+ * the next `collectMediaGarbageDB`.
+ */
+export const stageMediaDB = async (inputs: readonly MediaInput[]): Promise<void> => {
+  if (inputs.length === 0) return;
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(MEDIA_STORE, 'readwrite');
+    const store = tx.objectStore(MEDIA_STORE);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(new Error('Error staging media in DB'));
+    inputs.forEach(input => {
+      const req = store.get(input.id);
+      req.onsuccess = () => {
+        if (req.result) return;
+        const record: MediaRecord = {
+          id: input.id,
+          blob: input.blob,
+          mimeType: input.mimeType,
+          size: input.blob.size,
+          refCount: 0,
+          createdAt: Date.now(),
+        };
+        store.put(record);
+      };
+    });
+  });
+};
+
+export const getMediaRecordsDB = async (ids: readonly string[]): Promise<Map<string, MediaRecord>> => {
+  const out = new Map<string, MediaRecord>();
+  const unique = Array.from(new Set(ids.filter(isMediaId)));
+  if (unique.length === 0) return out;
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(MEDIA_STORE, 'readonly');
+    const store = tx.objectStore(MEDIA_STORE);
+    tx.oncomplete = () => resolve(out);
+    tx.onerror = () => reject(new Error('Error reading media from DB'));
+    unique.forEach(id => {
+      const req = store.get(id);
+      req.onsuccess = () => { if (req.result) out.set(id, req.result as MediaRecord); };
+    });
+  });
+};
+
+/** Size and type of every stored blob, for storage accounting. Blob contents are not read. */
+export const getMediaSizesDB = async (): Promise<Map<string, { size: number; mimeType: string }>> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(MEDIA_STORE, 'readonly');
+    const out = new Map<string, { size: number; mimeType: string }>();
+    const cursorReq = tx.objectStore(MEDIA_STORE).openCursor();
+    cursorReq.onerror = () => reject(new Error('Error listing media sizes'));
+    cursorReq.onsuccess = () => {
+      const cursor = cursorReq.result;
+      if (!cursor) { resolve(out); return; }
+      const rec = cursor.value as MediaRecord;
+      out.set(rec.id, { size: rec.size ?? rec.blob?.size ?? 0, mimeType: rec.mimeType || '' });
+      cursor.continue();
+    };
+  });
+};
+
+/** Resolves media ids to data URLs. Ids without a stored blob are left out. */
+export const getMediaDataUrlsDB = async (ids: readonly string[]): Promise<Map<string, string>> => {
+  const records = await getMediaRecordsDB(ids);
+  const out = new Map<string, string>();
+  for (const [id, record] of records) {
+    try {
+      const dataUrl = await blobToDataUrl(record.blob);
+      out.set(id, dataUrl);
+      hashMemo.set(dataUrl, id);
+    } catch (e) {
+      console.warn('Failed to read media blob', id, e);
+    }
+  }
+  while (hashMemo.size > MAX_HASH_MEMO) hashMemo.delete(hashMemo.keys().next().value as string);
+  return out;
+};
+
+export const getMediaDataUrlDB = async (id: string): Promise<string | null> => {
+  if (!isMediaId(id)) return null;
+  return (await getMediaDataUrlsDB([id])).get(id) ?? null;
+};
+
+/**
+ * Recounts references from the `mediaIds` index of the messages store, fixes
+ * drifted counts and deletes unreferenced blobs. Returns the number deleted.
+ */
+export const collectMediaGarbageDB = async (): Promise<number> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction([MEDIA_STORE, MESSAGES_STORE], 'readwrite');
+    const media = tx.objectStore(MEDIA_STORE);
+    const refs = tx.objectStore(MESSAGES_STORE).index('mediaIds');
+    let deleted = 0;
+    tx.oncomplete = () => resolve(deleted);
+    tx.onerror = () => reject(new Error('Error collecting unreferenced media'));
+    const cursorReq = media.openCursor();
+    cursorReq.onsuccess = () => {
+      const cursor = cursorReq.result;
+      if (!cursor) return;
+      const record = cursor.value as MediaRecord;
+      const countReq = refs.count(IDBKeyRange.only(record.id));
+      countReq.onsuccess = () => {
+        const count = countReq.result;
+        if (count === 0) {
+          media.delete(record.id);
+          deleted++;
+        } else if (count !== record.refCount) {
+          media.put({ ...record, refCount: count });
+        }
+      };
+      cursor.continue();
+    };
+  });
+};
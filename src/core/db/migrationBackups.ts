@@ -0,0 +1,44 @@
+// Copyright 2025 Roni Tervo
+//
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * Safety backups taken before destructive migration steps.
+ *
+ * Responsibilities:
+ * - List the backups (headers only) for the storage panel
+ * - Delete a backup on request
+ * - Drop backups once they have outlived `MIGRATION_BACKUP_RETENTION_MS`;
+ *   a step that went wrong shows up well within that time
+ *
+ * The copies themselves are never read here: deleting goes by key range.
+ */
+
+import { MIGRATION_BACKUPS_STORE, MIGRATION_BACKUP_ITEMS_STORE, openDB } from './index';
+import { deleteMigrationBackupInTx, getMigrationBackupsFromDB, type MigrationBackupRecord } from './migrations';
+
+export const MIGRATION_BACKUP_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+/** Safety backups, newest first. */
+export const listMigrationBackupsDB = async (): Promise<MigrationBackupRecord[]> =>
+  getMigrationBackupsFromDB(await openDB());
+
+const deleteBackups = async (ids: string[]): Promise<void> => {
+  if (ids.length === 0) return;
+  const db = await openDB();
+  if (!db.objectStoreNames.contains(MIGRATION_BACKUP_ITEMS_STORE)) return;
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction([MIGRATION_BACKUPS_STORE, MIGRATION_BACKUP_ITEMS_STORE], 'readwrite');
+    ids.forEach(id => deleteMigrationBackupInTx(tx, id));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(new Error('Error deleting migration backup'));
+  });
+};
+
+export const deleteMigrationBackupDB = (id: string): Promise<void> => deleteBackups([id]);
+
+/** Deletes backups older than the retention period. Resolves to the number deleted. */
+export const dropExpiredMigrationBackupsDB = async (now = Date.now()): Promise<number> => {
+  const expired = (await listMigrationBackupsDB()).filter(backup => now - backup.createdAt > MIGRATION_BACKUP_RETENTION_MS);
+  await deleteBackups(expired.map(backup => backup.id));
+  return expired.length;
+};
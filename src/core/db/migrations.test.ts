@@ -0,0 +1,127 @@
+// Copyright 2025 Roni Tervo
+//
+// SPDX-License-Identifier: Apache-2.0
+import 'fake-indexeddb/auto';
+import { describe, expect, it } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import type { ChatMessage, ChatThread } from '../types';
+import { openDatabase, forEachCursor, getMigrationBackupsFromDB, DB_VERSION } from './index';
+import { LEGACY_HISTORY_STORE, MESSAGES_STORE, MIGRATION_BACKUP_ITEMS_STORE, THREADS_STORE } from './stores';
+import type { MigrationBackupItem, MigrationProgress } from './migrations';
+
+const DB = 'migration-test';
+
+// The v6 schema: one `{ pairId, messages }` record per pair in the legacy store.
+const seedV6 = async (factory: IDBFactory, records: { pairId: string; messages: unknown[] }[]) => {
+  const db = await new Promise<IDBDatabase>((resolve, reject) => {
+    const request = factory.open(DB, 6);
+    request.onupgradeneeded = () => request.result.createObjectStore(LEGACY_HISTORY_STORE, { keyPath: 'pairId' });
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  const tx = db.transaction(LEGACY_HISTORY_STORE, 'readwrite');
+  records.forEach(record => tx.objectStore(LEGACY_HISTORY_STORE).put(record));
+  await new Promise(resolve => { tx.oncomplete = resolve; });
+  db.close();
+};
+
+interface MessageRow {
+  id: string;
+  threadId: string;
+  pairId: string;
+  order: number;
+  timestamp: number;
+  searchTerms?: string[];
+  message: ChatMessage;
+}
+
+const readAll = async <T>(db: IDBDatabase, store: string): Promise<T[]> => {
+  const rows: T[] = [];
+  await forEachCursor(db.transaction(store, 'readonly').objectStore(store).openCursor(), cursor => rows.push(cursor.value));
+  return rows;
+};
+
+describe('DB migrations', () => {
+  it('upgrades a v6 database through the registry', async () => {
+    const factory = new IDBFactory();
+    await seedV6(factory, [
+      {
+        pairId: 'es-en',
+        messages: [
+          { id: 'm1', role: 'user', text: 'Hola', timestamp: 100 },
+          { id: 'm2', role: 'assistant', rawAssistantResponse: 'Hola, ¿qué tal?', timestamp: 200 },
+        ],
+      },
+    ]);
+
+    const progress: MigrationProgress[] = [];
+    const db = await openDatabase({ factory, name: DB, onProgress: p => progress.push(p) });
+
+    expect(db.version).toBe(DB_VERSION);
+    expect(db.objectStoreNames.contains(LEGACY_HISTORY_STORE)).toBe(false);
+
+    const messages = (await readAll<MessageRow>(db, MESSAGES_STORE)).sort((a, b) => a.order - b.order);
+    expect(messages.map(m => [m.id, m.threadId, m.pairId, m.order, m.timestamp])).toEqual([
+      ['m1', 'es-en', 'es-en', 0, 100],
+      ['m2', 'es-en', 'es-en', 1, 200],
+    ]);
+    expect(messages[1].message.rawAssistantResponse).toBe('Hola, ¿qué tal?');
+    expect(messages[0].searchTerms).toContain('hola');
+
+    const threads = await readAll<ChatThread>(db, THREADS_STORE);
+    expect(threads.map(t => [t.id, t.pairId])).toEqual([['es-en', 'es-en']]);
+
+    // One step per version from 7, each finishing; v9 backs up first.
+    const done = progress.filter(p => p.phase === 'done').map(p => p.version);
+    expect(done).toEqual(Array.from({ length: DB_VERSION - 6 }, (_, i) => 7 + i));
+    expect(progress.some(p => p.phase === 'error')).toBe(false);
+    const v9 = progress.filter(p => p.version === 9).map(p => p.phase);
+    expect(v9[0]).toBe('backup');
+    expect(v9).toContain('upgrade');
+
+    const backups = await getMigrationBackupsFromDB(db);
+    expect(backups).toHaveLength(1);
+    expect(backups[0].version).toBe(9);
+    expect(backups[0].records).toBe(1);
+    expect(backups[0].bytes).toBeGreaterThan(0);
+    const items = await readAll<MigrationBackupItem>(db, MIGRATION_BACKUP_ITEMS_STORE);
+    expect(items).toEqual([
+      expect.objectContaining({
+        backupId: backups[0].id,
+        store: LEGACY_HISTORY_STORE,
+        value: expect.objectContaining({ pairId: 'es-en', messages: expect.arrayContaining([expect.objectContaining({ id: 'm1' })]) }),
+      }),
+    ]);
+    db.close();
+  });
+
+  it('keeps the newest two backups and deletes the copies of older ones', async () => {
+    const factory = new IDBFactory();
+    await seedV6(factory, [{ pairId: 'es-en', messages: [] }]);
+    const step = (version: number) => ({
+      version,
+      description: `Step ${version}`,
+      destructive: true,
+      backupStores: [LEGACY_HISTORY_STORE],
+      upgrade: async () => {},
+    });
+    const db = await openDatabase({ factory, name: DB, version: 9, migrations: [step(7), step(8), step(9)] });
+
+    const backups = await getMigrationBackupsFromDB(db);
+    expect(backups.map(b => b.version)).toEqual([9, 8]);
+    const items = await readAll<MigrationBackupItem>(db, MIGRATION_BACKUP_ITEMS_STORE);
+    expect(new Set(items.map(item => item.backupId))).toEqual(new Set(backups.map(b => b.id)));
+    db.close();
+  });
+
+  it('takes no safety backup for a fresh database', async () => {
+    const factory = new IDBFactory();
+    const progress: MigrationProgress[] = [];
+    const db = await openDatabase({ factory, name: DB, onProgress: p => progress.push(p) });
+
+    expect(db.version).toBe(DB_VERSION);
+    expect(progress.some(p => p.phase === 'backup')).toBe(false);
+    expect(await getMigrationBackupsFromDB(db)).toEqual([]);
+    db.close();
+  });
+});
@@ -0,0 +1,438 @@
+// Copyright 2025 Roni Tervo
+//
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * IndexedDB migration registry and runner.
+ *
+ * Each step upgrades the database to `version` and runs inside the
+ * `versionchange` transaction opened by `openDatabase`. Steps must only await
+ * IndexedDB requests (via `requestToPromise` / `forEachCursor`); awaiting
+ * anything else (fetch, crypto, timers) lets the transaction auto-commit.
+ *
+ * Steps flagged `destructive` get a copy of their `backupStores` written to
+ * MIGRATION_BACKUP_ITEMS_STORE first, record by record, so data can be
+ * recovered if a step turns out to be wrong after it has committed. The copies
+ * are listed and deleted through `migrationBackups.ts`.
+ */
+
+import {
+  ASSETS_STORE,
+  GLOBAL_PROFILE_STORE,
+  LEGACY_HISTORY_STORE,
+  MEDIA_STORE,
+  MESSAGES_STORE,
+  META_STORE,
+  MIGRATION_BACKUPS_STORE,
+  MIGRATION_BACKUP_ITEMS_STORE,
+  SETTINGS_STORE,
+  SYNC_RECORDS_STORE,
+  SYNC_STATE_STORE,
+  THREADS_STORE,
+  TTS_CACHE_STORE,
+  USAGE_STORE,
+  pairIdFromThreadId,
+} from './stores';
+import { ttsRecordFromEntry, type TtsAudioRecord } from './ttsCache';
+import { searchTermsOf } from './searchTerms';
+
+export interface MigrationContext {
+  db: IDBDatabase;
+  tx: IDBTransaction;
+  /** Version the database had before this upgrade started (0 for a fresh database). */
+  oldVersion: number;
+  /** Reports progress of the current step as a fraction in [0, 1]. */
+  report: (fraction: number, detail?: string) => void;
+}
+
+export interface DbMigration {
+  version: number;
+  description: string;
+  destructive?: boolean;
+  backupStores?: string[];
+  upgrade: (ctx: MigrationContext) => Promise<void>;
+}
+
+export type MigrationPhase = 'backup' | 'upgrade' | 'done' | 'error';
+
+export interface MigrationProgress {
+  phase: MigrationPhase;
+  version: number;
+  description: string;
+  stepIndex: number;
+  stepCount: number;
+  /** Progress of the current step in [0, 1]. */
+  fraction: number;
+  detail?: string;
+}
+
+/** Header of a safety backup; the copied records are `MigrationBackupItem`s. */
+export interface MigrationBackupRecord {
+  id: string;
+  version: number;
+  description: string;
+  createdAt: number;
+  /** Records copied, over all backed-up stores. */
+  records: number;
+  /** Approximate size of the copies (serialized length). */
+  bytes: number;
+}
+
+export interface MigrationBackupItem {
+  id: string;
+  backupId: string;
+  /** Store the record was copied from. */
+  store: string;
+  value: unknown;
+}
+
+const MAX_MIGRATION_BACKUPS = 2;
+
+type ProgressListener = (progress: MigrationProgress) => void;
+const progressListeners = new Set<ProgressListener>();
+
+export const subscribeToMigrationProgress = (listener: ProgressListener): (() => void) => {
+  progressListeners.add(listener);
+  return () => { progressListeners.delete(listener); };
+};
+
+export const requestToPromise = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error || new Error('IndexedDB request failed'));
+  });
+
+export const forEachCursor = (
+  req: IDBRequest<IDBCursorWithValue | null>,
+  visit: (cursor: IDBCursorWithValue) => void
+): Promise<void> =>
+  new Promise((resolve, reject) => {
+    req.onerror = () => reject(req.error || new Error('IndexedDB cursor failed'));
+    req.onsuccess = () => {
+      const cursor = req.result;
+      if (!cursor) { resolve(); return; }
+      visit(cursor);
+      cursor.continue();
+    };
+  });
+
+const ensureStore = (db: IDBDatabase, name: string, options: IDBObjectStoreParameters) => {
+  if (!db.objectStoreNames.contains(name)) db.createObjectStore(name, options);
+};
+
+// ============================================================
+// REGISTRY
+// ============================================================
+
+export const DB_MIGRATIONS: DbMigration[] = [
+  {
+    version: 7,
+    description: 'Create base stores',
+    upgrade: async ({ db }) => {
+      ensureStore(db, META_STORE, { keyPath: 'pairId' });
+      ensureStore(db, GLOBAL_PROFILE_STORE, { keyPath: 'key' });
+      ensureStore(db, SETTINGS_STORE, { keyPath: 'key' });
+      ensureStore(db, ASSETS_STORE, { keyPath: 'key' });
+    },
+  },
+  {
+    version: 8,
+    description: 'Conversation threads',
+    upgrade: async ({ db, tx, report }) => {
+      if (!db.objectStoreNames.contains(THREADS_STORE)) {
+        const threads = db.createObjectStore(THREADS_STORE, { keyPath: 'id' });
+        threads.createIndex('pairId', 'pairId', { unique: false });
+      }
+      if (!db.objectStoreNames.contains(LEGACY_HISTORY_STORE)) return;
+      // Every existing per-pair history becomes the default thread of that pair.
+      const threads = tx.objectStore(THREADS_STORE);
+      const now = Date.now();
+      await forEachCursor(tx.objectStore(LEGACY_HISTORY_STORE).openCursor(), cursor => {
+        const pairId = (cursor.value as any)?.pairId;
+        if (typeof pairId === 'string') {
+          threads.put({ id: pairId, pairId, name: '', createdAt: now, updatedAt: now });
+        }
+      });
+      report(1);
+    },
+  },
+  {
+    version: 9,
+    description: 'Store chat messages individually',
+    destructive: true,
+    backupStores: [LEGACY_HISTORY_STORE],
+    upgrade: async ({ db, tx, report }) => {
+      if (!db.objectStoreNames.contains(MESSAGES_STORE)) {
+        const messages = db.createObjectStore(MESSAGES_STORE, { keyPath: 'id' });
+        messages.createIndex('pairId', 'pairId', { unique: false });
+        messages.createIndex('timestamp', 'timestamp', { unique: false });
+        messages.createIndex('threadId', 'threadId', { unique: false });
+        messages.createIndex('threadOrder', ['threadId', 'order'], { unique: false });
+      }
+      if (!db.objectStoreNames.contains(LEGACY_HISTORY_STORE)) return;
+      const legacy = tx.objectStore(LEGACY_HISTORY_STORE);
+      const messages = tx.objectStore(MESSAGES_STORE);
+      const total = await requestToPromise(legacy.count());
+      let done = 0;
+      await forEachCursor(legacy.openCursor(), cursor => {
+        const threadId = (cursor.value as any)?.pairId;
+        const list = (cursor.value as any)?.messages;
+        if (typeof threadId === 'string' && Array.isArray(list)) {
+          const pairId = pairIdFromThreadId(threadId);
+          list.forEach((message: any, order: number) => {
+            if (!message || typeof message.id !== 'string') return;
+            messages.put({ id: message.id, threadId, pairId, order, timestamp: message.timestamp || 0, message });
+          });
+        }
+        done++;
+        report(total > 0 ? done / total : 1, threadId);
+      });
+      db.deleteObjectStore(LEGACY_HISTORY_STORE);
+    },
+  },
+  {
+    version: 10,
+    description: 'Content-addressed media store',
+    // Hashing cannot run inside the upgrade transaction, so records that embed data
+    // URLs are only flagged with `inlineMedia`; compactInlineMediaDB moves them later.
+    upgrade: async ({ db, tx, report }) => {
+      if (!db.objectStoreNames.contains(MEDIA_STORE)) {
+        db.createObjectStore(MEDIA_STORE, { keyPath: 'id' });
+      }
+      const messages = tx.objectStore(MESSAGES_STORE);
+      if (!messages.indexNames.contains('mediaIds')) {
+        messages.createIndex('mediaIds', 'mediaIds', { unique: false, multiEntry: true });
+      }
+      if (!messages.indexNames.contains('inlineMedia')) {
+        messages.createIndex('inlineMedia', 'inlineMedia', { unique: false });
+      }
+      const total = await requestToPromise(messages.count());
+      let done = 0;
+      await forEachCursor(messages.openCursor(), cursor => {
+        const message = (cursor.value as any)?.message;
+        const hasImage = typeof message?.imageUrl === 'string' && message.imageUrl.startsWith('data:');
+        const hasRecording = typeof message?.recordedUtterance?.dataUrl === 'string' && !!message.recordedUtterance.dataUrl;
+        if (hasImage || hasRecording) cursor.update({ ...cursor.value, inlineMedia: 1 });
+        done++;
+        if (done % 200 === 0) report(done / total);
+      });
+    },
+  },
+  {
+    version: 11,
+    description: 'Shared TTS audio cache',
+    // Entries move within the upgrade transaction, so the copy and the removal from
+    // messages commit together. A phrase cached on many messages is stored once,
+    // keeping the most recently updated clip.
+    upgrade: async ({ db, tx, report }) => {
+      if (!db.objectStoreNames.contains(TTS_CACHE_STORE)) {
+        const cache = db.createObjectStore(TTS_CACHE_STORE, { keyPath: 'key' });
+        cache.createIndex('lastUsedAt', 'lastUsedAt', { unique: false });
+      }
+      const cache = tx.objectStore(TTS_CACHE_STORE);
+      const messages = tx.objectStore(MESSAGES_STORE);
+      const written = new Map<string, number>();
+      const moveEntries = (entries: unknown): boolean => {
+        if (!Array.isArray(entries)) return false;
+        entries.forEach(entry => {
+          const record: TtsAudioRecord | null = ttsRecordFromEntry(entry);
+          if (!record || (written.get(record.key) ?? -1) >= record.lastUsedAt) return;
+          written.set(record.key, record.lastUsedAt);
+          cache.put(record);
+        });
+        return true;
+      };
+      const total = await requestToPromise(messages.count());
+      let done = 0;
+      await forEachCursor(messages.openCursor(), cursor => {
+        const message = (cursor.value as any)?.message;
+        if (message && typeof message === 'object') {
+          let changed = moveEntries(message.ttsAudioCache);
+          const suggestions = Array.isArray(message.replySuggestions)
+            ? message.replySuggestions.map((suggestion: any) => {
+                if (!moveEntries(suggestion?.ttsAudioCache)) return suggestion;
+                changed = true;
+                const { ttsAudioCache: _moved, ...rest } = suggestion;
+                return rest;
+              })
+            : message.replySuggestions;
+          if (changed) {
+            const { ttsAudioCache: _moved, ...rest } = message;
+            cursor.update({ ...cursor.value, message: { ...rest, ...(suggestions ? { replySuggestions: suggestions } : {}) } });
+          }
+        }
+        done++;
+        if (done % 200 === 0) report(done / total);
+      });
+    },
+  },
+  {
+    version: 12,
+    description: 'Full-text search index',
+    // Terms live on each message record behind a multiEntry index (like `mediaIds`),
+    // so every later write of a message keeps its index entries current.
+    upgrade: async ({ tx, report }) => {
+      const messages = tx.objectStore(MESSAGES_STORE);
+      if (!messages.indexNames.contains('searchTerms')) {
+        messages.createIndex('searchTerms', 'searchTerms', { unique: false, multiEntry: true });
+      }
+      const total = await requestToPromise(messages.count());
+      let done = 0;
+      await forEachCursor(messages.openCursor(), cursor => {
+        const record = cursor.value as any;
+        if (record?.message && typeof record.message === 'object') {
+          const terms = searchTermsOf(record.message);
+          if (terms.length > 0) cursor.update({ ...record, searchTerms: terms });
+        }
+        done++;
+        if (done % 200 === 0) report(done / total);
+      });
+    },
+  },
+  {
+    version: 13,
+    description: 'Multi-device sync bookkeeping',
+    // Kept in the app database so a reset also forgets what was synced,
+    // instead of reading the wiped records as deletions to push.
+    upgrade: async ({ db }) => {
+      ensureStore(db, SYNC_RECORDS_STORE, { keyPath: 'key' });
+      ensureStore(db, SYNC_STATE_STORE, { keyPath: 'key' });
+    },
+  },
+  {
+    version: 14,
+    description: 'Token usage accounting',
+    upgrade: async ({ db }) => {
+      if (!db.objectStoreNames.contains(USAGE_STORE)) {
+        const usage = db.createObjectStore(USAGE_STORE, { keyPath: 'key' });
+        usage.createIndex('day', 'day', { unique: false });
+      }
+    },
+  },
+];
+
+export const LATEST_DB_VERSION = DB_MIGRATIONS[DB_MIGRATIONS.length - 1].version;
+
+// ============================================================
+// RUNNER
+// ============================================================
+
+/** Throws if versions are not strictly increasing; the registry must stay ordered. */
+export const assertMigrationRegistry = (migrations: DbMigration[]) => {
+  for (let i = 1; i < migrations.length; i++) {
+    if (migrations[i].version <= migrations[i - 1].version) {
+      throw new Error(`Migration registry out of order at version ${migrations[i].version}`);
+    }
+  }
+};
+
+// Steps of one upgrade can share a millisecond; the later version is the newer backup.
+const newestFirst = (a: MigrationBackupRecord, b: MigrationBackupRecord) =>
+  b.createdAt - a.createdAt || b.version - a.version;
+
+const backupItemRange = (backupId: string) => IDBKeyRange.bound(`${backupId}#`, `${backupId}#\uffff`);
+
+/** Deletes a backup's header and copied records inside `tx`, without reading them. */
+export const deleteMigrationBackupInTx = (tx: IDBTransaction, backupId: string) => {
+  tx.objectStore(MIGRATION_BACKUPS_STORE).delete(backupId);
+  tx.objectStore(MIGRATION_BACKUP_ITEMS_STORE).delete(backupItemRange(backupId));
+};
+
+// Copies record by record, so only one legacy record (with its inline media) is in memory at a time.
+const writeSafetyBackup = async (db: IDBDatabase, tx: IDBTransaction, step: DbMigration) => {
+  const storeNames = (step.backupStores || []).filter(name => db.objectStoreNames.contains(name));
+  if (storeNames.length === 0) return;
+  ensureStore(db, MIGRATION_BACKUPS_STORE, { keyPath: 'id' });
+  ensureStore(db, MIGRATION_BACKUP_ITEMS_STORE, { keyPath: 'id' });
+  const createdAt = Date.now();
+  const backupId = `v${step.version}-${createdAt}`;
+  const items = tx.objectStore(MIGRATION_BACKUP_ITEMS_STORE);
+  let records = 0;
+  let bytes = 0;
+  for (const name of storeNames) {
+    await forEachCursor(tx.objectStore(name).openCursor(), cursor => {
+      const item: MigrationBackupItem = {
+        id: `${backupId}#${String(records).padStart(8, '0')}`,
+        backupId,
+        store: name,
+        value: cursor.value,
+      };
+      items.put(item);
+      records++;
+      try { bytes += JSON.stringify(cursor.value).length; } catch { /* unsized */ }
+    });
+  }
+  const backups = tx.objectStore(MIGRATION_BACKUPS_STORE);
+  const record: MigrationBackupRecord = {
+    id: backupId,
+    version: step.version,
+    description: step.description,
+    createdAt,
+    records,
+    bytes,
+  };
+  await requestToPromise(backups.put(record));
+
+  // Headers are small; the copies they describe are never loaded here.
+  const existing: MigrationBackupRecord[] = await requestToPromise(backups.getAll());
+  existing
+    .sort(newestFirst)
+    .slice(MAX_MIGRATION_BACKUPS)
+    .forEach(old => deleteMigrationBackupInTx(tx, old.id));
+};
+
+export interface RunMigrationsParams {
+  db: IDBDatabase;
+  tx: IDBTransaction;
+  oldVersion: number;
+  newVersion: number;
+  migrations?: DbMigration[];
+  onProgress?: ProgressListener;
+}
+
+export const runMigrations = async ({
+  db,
+  tx,
+  oldVersion,
+  newVersion,
+  migrations = DB_MIGRATIONS,
+  onProgress,
+}: RunMigrationsParams): Promise<void> => {
+  assertMigrationRegistry(migrations);
+  const steps = migrations.filter(m => m.version > oldVersion && m.version <= newVersion);
+
+  const emit = (progress: MigrationProgress) => {
+    try { onProgress?.(progress); } catch { /* ignore listener errors */ }
+    progressListeners.forEach(listener => { try { listener(progress); } catch { /* ignore */ } });
+  };
+
+  for (let i = 0; i < steps.length; i++) {
+    const step = steps[i];
+    const base = { version: step.version, description: step.description, stepIndex: i, stepCount: steps.length };
+    try {
+      // Fresh databases have nothing to lose, so only back up existing data.
+      if (step.destructive && oldVersion > 0) {
+        emit({ ...base, phase: 'backup', fraction: 0 });
+        await writeSafetyBackup(db, tx, step);
+      }
+      emit({ ...base, phase: 'upgrade', fraction: 0 });
+      await step.upgrade({
+        db,
+        tx,
+        oldVersion,
+        report: (fraction, detail) => emit({ ...base, phase: 'upgrade', fraction: Math.max(0, Math.min(1, fraction)), detail }),
+      });
+      emit({ ...base, phase: 'done', fraction: 1 });
+    } catch (error) {
+      emit({ ...base, phase: 'error', fraction: 0, detail: error instanceof Error ? error.message : String(error) });
+      throw error;
+    }
+  }
+};
+
+/** Lists safety backups taken before destructive migration steps, newest first. */
+export const getMigrationBackupsFromDB = async (db: IDBDatabase): Promise<MigrationBackupRecord[]> => {
+  if (!db.objectStoreNames.contains(MIGRATION_BACKUPS_STORE)) return [];
+  const tx = db.transaction(MIGRATION_BACKUPS_STORE, 'readonly');
+  const rows: MigrationBackupRecord[] = await requestToPromise(tx.objectStore(MIGRATION_BACKUPS_STORE).getAll());
+  return rows.sort(newestFirst);
+};
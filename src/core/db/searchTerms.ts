@@ -0,0 +1,126 @@
+// Copyright 2025 Roni Tervo
+//
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * Search terms for the full-text message index.
+ *
+ * Responsibilities:
+ * - Fold text for matching: lowercase, and accents dropped for Latin, Greek
+ *   and Cyrillic letters ("Tren" matches "trén")
+ * - Split folded text into index terms; scripts written without spaces
+ *   (Chinese, Japanese, Thai) are indexed as single characters and bigrams
+ * - List the searchable fields of a message and derive its term list, which
+ *   is stored on each message record behind the multiEntry `searchTerms` index
+ *
+ * Synchronous and dependency-free so the DB migration can backfill terms
+ * inside the upgrade transaction.
+ */
+
+import type { ChatMessage } from '../types';
+
+export type SearchField = 'text' | 'translation' | 'summary' | 'transcript';
+
+export interface SearchableText {
+  field: SearchField;
+  text: string;
+}
+
+export const MIN_SEARCH_TERM_LENGTH = 2;
+const MAX_SEARCH_TERM_LENGTH = 32;
+export const MAX_SEARCH_TERMS_PER_MESSAGE = 500;
+
+const WORD_RE = /[\p{L}\p{N}]+/gu;
+const UNSPACED_RE = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}\p{Script=Lao}\p{Script=Khmer}\p{Script=Myanmar}]/u;
+const ACCENTED_SCRIPT_RE = /[\p{Script=Latin}\p{Script=Greek}\p{Script=Cyrillic}]/u;
+const MARKS_RE = /\p{M}+/gu;
+
+const foldChar = (ch: string): string => {
+  const lower = ch.toLowerCase();
+  return ACCENTED_SCRIPT_RE.test(ch) ? lower.normalize('NFD').replace(MARKS_RE, '') : lower;
+};
+
+/**
+ * Folded text plus, for every folded UTF-16 unit, the offset of the original
+ * character it came from (for highlighting matches in the original text).
+ */
+export const foldSearchTextWithOffsets = (text: string): { folded: string; offsets: number[] } => {
+  const source = text.normalize('NFC');
+  let folded = '';
+  const offsets: number[] = [];
+  let offset = 0;
+  for (const ch of source) {
+    const out = foldChar(ch);
+    folded += out;
+    for (let i = 0; i < out.length; i++) offsets.push(offset);
+    offset += ch.length;
+  }
+  return { folded, offsets };
+};
+
+export const foldSearchText = (text: string): string => foldSearchTextWithOffsets(text).folded;
+
+/** Terms from unspaced scripts are 1-2 character n-grams and match exactly, not by prefix. */
+export const isUnspacedTerm = (term: string) => UNSPACED_RE.test(term);
+
+const isUnspaced = (ch: string) => UNSPACED_RE.test(ch);
+
+/** Unique terms of `text`, in order of first appearance. */
+export const tokenizeSearchText = (text: string): string[] => {
+  const terms = new Set<string>();
+  for (const match of foldSearchText(text).matchAll(WORD_RE)) {
+    let run = '';
+    let runUnspaced = false;
+    const flush = () => {
+      if (!run) return;
+      if (runUnspaced) {
+        const chars = Array.from(run);
+        chars.forEach((ch, i) => {
+          terms.add(ch);
+          if (i + 1 < chars.length) terms.add(ch + chars[i + 1]);
+        });
+      } else if (run.length >= MIN_SEARCH_TERM_LENGTH) {
+        terms.add(run.slice(0, MAX_SEARCH_TERM_LENGTH));
+      }
+      run = '';
+    };
+    for (const ch of match[0]) {
+      const unspaced = isUnspaced(ch);
+      if (run && unspaced !== runUnspaced) flush();
+      runUnspaced = unspaced;
+      run += ch;
+    }
+    flush();
+  }
+  return Array.from(terms);
+};
+
+/** Only real conversation turns are searchable. */
+const isSearchableMessage = (message: ChatMessage) => message.role === 'user' || message.role === 'assistant';
+
+export const searchableTextsOf = (message: ChatMessage): SearchableText[] => {
+  if (!message || !isSearchableMessage(message)) return [];
+  const out: SearchableText[] = [];
+  const push = (field: SearchField, text: unknown) => {
+    if (typeof text === 'string' && text.trim()) out.push({ field, text });
+  };
+  push('text', message.text);
+  (message.translations || []).forEach(line => {
+    push('translation', line?.target);
+    push('translation', line?.native);
+  });
+  push('summary', message.chatSummary);
+  push('transcript', message.recordedUtterance?.transcript);
+  return out;
+};
+
+/** Index terms of a message; empty for messages that are not searchable. */
+export const searchTermsOf = (message: ChatMessage): string[] => {
+  const terms = new Set<string>();
+  for (const { text } of searchableTextsOf(message)) {
+    for (const term of tokenizeSearchText(text)) {
+      terms.add(term);
+      if (terms.size >= MAX_SEARCH_TERMS_PER_MESSAGE) return Array.from(terms);
+    }
+  }
+  return Array.from(terms);
+};
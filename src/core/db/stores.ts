@@ -0,0 +1,33 @@
+// Copyright 2025 Roni Tervo
+//
+// SPDX-License-Identifier: Apache-2.0
+export const DB_NAME = 'GeminiLanguageTutorDB';
+// Pre-v9 store holding one `{ pairId, messages }` array per thread; migrated into MESSAGES_STORE.
+export const LEGACY_HISTORY_STORE = 'chatHistories';
+// One record per message: `{ id, threadId, pairId, order, timestamp, mediaIds, message }`.
+export const MESSAGES_STORE = 'chatMessages';
+// Metas are keyed by thread id (stored in the legacy `pairId` field).
+// The default thread of a pair reuses the pair id, so pre-thread records map onto it.
+export const META_STORE = 'chatMetas';
+export const THREADS_STORE = 'chatThreads';
+export const GLOBAL_PROFILE_STORE = 'globalProfile';
+export const SETTINGS_STORE = 'appSettings';
+export const ASSETS_STORE = 'appAssets';
+// Content-addressed media blobs referenced from messages by `sha256-<hex>` id.
+export const MEDIA_STORE = 'mediaBlobs';
+// Synthesized speech shared by all messages, keyed by `computeTtsCacheKey`; evicted least recently used first.
+export const TTS_CACHE_STORE = 'ttsAudio';
+// Copies of records taken right before a destructive migration step: one header per
+// backup here, the copied records in MIGRATION_BACKUP_ITEMS_STORE keyed `<backupId>#<seq>`.
+export const MIGRATION_BACKUPS_STORE = 'migrationBackups';
+export const MIGRATION_BACKUP_ITEMS_STORE = 'migrationBackupItems';
+// Sync shadow: hash and clock of every record as last exchanged with the sync server.
+export const SYNC_RECORDS_STORE = 'syncRecords';
+// Sync bookkeeping (device id, changeset sequence, per-device pull cursor), keyed by `key`.
+export const SYNC_STATE_STORE = 'syncState';
+// Token counts summed per day, language pair, request category and model; see `core/db/usage.ts`.
+export const USAGE_STORE = 'tokenUsage';
+
+export const THREAD_ID_SEPARATOR = '::';
+
+export const pairIdFromThreadId = (threadId: string): string => threadId.split(THREAD_ID_SEPARATOR)[0];
@@ -0,0 +1,242 @@
+// Copyright 2025 Roni Tervo
+//
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * Shared TTS audio cache.
+ *
+ * Responsibilities:
+ * - Store synthesized speech once per `computeTtsCacheKey` (provider, voice,
+ *   language, text) as a Blob, however many messages say the same phrase
+ * - Track last use and evict least recently used clips beyond the entry and
+ *   byte limits
+ * - Count hits and misses for the current session
+ *
+ * Before DB version 11 audio lived in `ttsAudioCache` arrays on messages and
+ * reply suggestions; the migration moved those entries here. Such arrays can
+ * still arrive through imports of old backups and are read as a fallback.
+ */
+
+import type { TtsAudioCacheEntry, TtsProvider } from '../types';
+import { openDB, TTS_CACHE_STORE } from './index';
+import { blobToDataUrl, dataUrlToBlob } from './media';
+
+export const MAX_TTS_CACHE_ENTRIES = 3000;
+export const MAX_TTS_CACHE_BYTES = 200 * 1024 * 1024;
+/** Longer clips are played but not cached. */
+export const MAX_TTS_CLIP_BYTES = 8 * 1024 * 1024;
+
+export interface TtsAudioRecord {
+  key: string;
+  blob: Blob;
+  mimeType: string;
+  size: number;
+  langCode: string;
+  provider: TtsProvider;
+  voiceName?: string;
+  createdAt: number;
+  lastUsedAt: number;
+  hits: number;
+}
+
+export interface TtsCacheStats {
+  hits: number;
+  misses: number;
+  writes: number;
+  evictions: number;
+}
+
+export interface TtsCacheSummary {
+  entries: number;
+  bytes: number;
+}
+
+const stats: TtsCacheStats = { hits: 0, misses: 0, writes: 0, evictions: 0 };
+
+/** Hit/miss counters since the app started. */
+export const getTtsCacheStats = (): TtsCacheStats => ({ ...stats });
+
+/**
+ * Builds a record from a legacy per-message entry. Synchronous so the DB
+ * migration can use it inside the upgrade transaction.
+ */
+export const ttsRecordFromEntry = (entry: TtsAudioCacheEntry): TtsAudioRecord | null => {
+  if (!entry || typeof entry.key !== 'string' || !entry.key) return null;
+  if (typeof entry.audioDataUrl !== 'string' || !entry.audioDataUrl.startsWith('data:')) return null;
+  const blob = dataUrlToBlob(entry.audioDataUrl, 'audio/wav');
+  if (!blob || blob.size === 0) return null;
+  const updatedAt = entry.updatedAt || Date.now();
+  return {
+    key: entry.key,
+    blob,
+    mimeType: blob.type,
+    size: blob.size,
+    langCode: entry.langCode,
+    provider: entry.provider,
+    voiceName: entry.voiceName,
+    createdAt: updatedAt,
+    lastUsedAt: updatedAt,
+    hits: 0,
+  };
+};
+
+/** Audio for `key` as a data URL; marks the clip as used and counts the hit or miss. */
+export const getTtsAudioDB = async (key: string): Promise<string | null> => {
+  if (!key) return null;
+  const db = await openDB();
+  const record = await new Promise<TtsAudioRecord | null>((resolve, reject) => {
+    const tx = db.transaction(TTS_CACHE_STORE, 'readwrite');
+    const store = tx.objectStore(TTS_CACHE_STORE);
+    const req = store.get(key);
+    let found: TtsAudioRecord | null = null;
+    req.onsuccess = () => {
+      found = (req.result as TtsAudioRecord | undefined) || null;
+      if (found) store.put({ ...found, lastUsedAt: Date.now(), hits: (found.hits || 0) + 1 });
+    };
+    tx.oncomplete = () => resolve(found);
+    tx.onerror = () => reject(new Error('Error reading TTS cache'));
+  });
+  if (!record) {
+    stats.misses++;
+    return null;
+  }
+  stats.hits++;
+  try {
+    return await blobToDataUrl(record.blob);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Looks up several keys without touching last use or the counters (exports,
+ * diagnostics). Keys without audio are left out.
+ */
+export const peekTtsAudioDB = async (keys: readonly string[]): Promise<Map<string, TtsAudioRecord>> => {
+  const unique = Array.from(new Set(keys.filter(Boolean)));
+  const out = new Map<string, TtsAudioRecord>();
+  if (unique.length === 0) return out;
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(TTS_CACHE_STORE, 'readonly');
+    const store = tx.objectStore(TTS_CACHE_STORE);
+    unique.forEach(key => {
+      const req = store.get(key);
+      req.onsuccess = () => { if (req.result) out.set(key, req.result as TtsAudioRecord); };
+    });
+    tx.oncomplete = () => resolve(out);
+    tx.onerror = () => reject(new Error('Error reading TTS cache'));
+  });
+};
+
+/** Every stored clip, for backups. */
+export const getAllTtsAudioDB = async (): Promise<TtsAudioRecord[]> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const req = db.transaction(TTS_CACHE_STORE, 'readonly').objectStore(TTS_CACHE_STORE).getAll();
+    req.onsuccess = () => resolve((req.result as TtsAudioRecord[]) || []);
+    req.onerror = () => reject(new Error('Error listing TTS cache'));
+  });
+};
+
+/**
+ * Stores clips, keeping an existing record when it was used more recently,
+ * then applies the LRU limits.
+ */
+export const putTtsAudioRecordsDB = async (records: readonly TtsAudioRecord[]): Promise<void> => {
+  if (records.length === 0) return;
+  const db = await openDB();
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(TTS_CACHE_STORE, 'readwrite');
+    const store = tx.objectStore(TTS_CACHE_STORE);
+    records.forEach(record => {
+      const req = store.get(record.key);
+      req.onsuccess = () => {
+        const existing = req.result as TtsAudioRecord | undefined;
+        if (existing && existing.lastUsedAt >= record.lastUsedAt) return;
+        store.put(existing ? { ...record, createdAt: existing.createdAt, hits: existing.hits || 0 } : record);
+        stats.writes++;
+      };
+    });
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(new Error('Error writing TTS cache'));
+  });
+  await enforceTtsCacheLimitsDB();
+};
+
+/** Stores freshly synthesized (or legacy) audio under its cache key. */
+export const putTtsAudioDB = async (entry: TtsAudioCacheEntry): Promise<void> => {
+  const record = ttsRecordFromEntry({ ...entry, updatedAt: Date.now() });
+  if (record && record.size <= MAX_TTS_CLIP_BYTES) await putTtsAudioRecordsDB([record]);
+};
+
+/**
+ * Deletes the least recently used clips until both limits hold. Returns the
+ * number deleted.
+ */
+export const enforceTtsCacheLimitsDB = async (
+  maxEntries = MAX_TTS_CACHE_ENTRIES,
+  maxBytes = MAX_TTS_CACHE_BYTES
+): Promise<number> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(TTS_CACHE_STORE, 'readwrite');
+    const cursorReq = tx.objectStore(TTS_CACHE_STORE).index('lastUsedAt').openCursor(null, 'prev');
+    let count = 0;
+    let bytes = 0;
+    let deleted = 0;
+    tx.oncomplete = () => {
+      stats.evictions += deleted;
+      resolve(deleted);
+    };
+    tx.onerror = () => reject(new Error('Error evicting TTS cache'));
+    cursorReq.onsuccess = () => {
+      const cursor = cursorReq.result;
+      if (!cursor) return;
+      const record = cursor.value as TtsAudioRecord;
+      count++;
+      bytes += record.size || 0;
+      if (count > maxEntries || bytes > maxBytes) {
+        cursor.delete();
+        deleted++;
+      }
+      cursor.continue();
+    };
+  });
+};
+
+/** Deletes clips not used since `cutoff` (epoch ms). Returns the number deleted. */
+export const deleteTtsAudioUnusedSinceDB = async (cutoff: number): Promise<number> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(TTS_CACHE_STORE, 'readwrite');
+    const cursorReq = tx.objectStore(TTS_CACHE_STORE).index('lastUsedAt').openCursor(IDBKeyRange.upperBound(cutoff, true));
+    let deleted = 0;
+    tx.oncomplete = () => resolve(deleted);
+    tx.onerror = () => reject(new Error('Error deleting old TTS audio'));
+    cursorReq.onsuccess = () => {
+      const cursor = cursorReq.result;
+      if (!cursor) return;
+      cursor.delete();
+      deleted++;
+      cursor.continue();
+    };
+  });
+};
+
+/** Number and total size of stored clips. Blob contents are not read. */
+export const getTtsCacheSummaryDB = async (): Promise<TtsCacheSummary> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(TTS_CACHE_STORE, 'readonly');
+    const cursorReq = tx.objectStore(TTS_CACHE_STORE).openCursor();
+    const summary: TtsCacheSummary = { entries: 0, bytes: 0 };
+    cursorReq.onerror = () => reject(new Error('Error summarizing TTS cache'));
+    cursorReq.onsuccess = () => {
+      const cursor = cursorReq.result;
+      if (!cursor) { resolve(summary); return; }
+      summary.entries++;
+      summary.bytes += (cursor.value as TtsAudioRecord).size || 0;
+      cursor.continue();
+    };
+  });
+};
@@ -0,0 +1,92 @@
+// Copyright 2025 Roni Tervo
+//
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * Token usage counters.
+ *
+ * Responsibilities:
+ * - Sum requests, tokens and estimated cost per local day, language pair,
+ *   request category and model (one record per combination)
+ * - Read the records of a day range for the usage screen and budget checks
+ *
+ * Counters only ever grow; individual requests are not kept.
+ */
+
+import type { UsageCategory } from '../types';
+import { openDB, USAGE_STORE } from './index';
+
+export interface UsageRecord {
+  /** `${day}|${pairId}|${category}|${model}` */
+  key: string;
+  /** Local calendar day, `YYYY-MM-DD`. */
+  day: string;
+  /** Empty when no language pair was selected. */
+  pairId: string;
+  category: UsageCategory;
+  model: string;
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  /** Estimated with the prices known when each request was counted. */
+  costUsd: number;
+}
+
+export type UsageIncrement = Omit<UsageRecord, 'key' | 'requests'>;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/** Local calendar day of `date` as `YYYY-MM-DD`; sorts like the date. */
+export const toUsageDay = (date: Date = new Date()): string =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+export const usageRecordKey = (entry: Pick<UsageRecord, 'day' | 'pairId' | 'category' | 'model'>) =>
+  `${entry.day}|${entry.pairId}|${entry.category}|${entry.model}`;
+
+/** Adds one request to its counter record. */
+export const addUsageDB = async (increment: UsageIncrement): Promise<void> => {
+  const db = await openDB();
+  const key = usageRecordKey(increment);
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(USAGE_STORE, 'readwrite');
+    const store = tx.objectStore(USAGE_STORE);
+    const req = store.get(key);
+    req.onsuccess = () => {
+      const existing = req.result as UsageRecord | undefined;
+      store.put({
+        ...increment,
+        key,
+        requests: (existing?.requests || 0) + 1,
+        inputTokens: (existing?.inputTokens || 0) + increment.inputTokens,
+        outputTokens: (existing?.outputTokens || 0) + increment.outputTokens,
+        totalTokens: (existing?.totalTokens || 0) + increment.totalTokens,
+        costUsd: (existing?.costUsd || 0) + increment.costUsd,
+      } satisfies UsageRecord);
+    };
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(new Error('Error writing token usage'));
+  });
+};
+
+/** Records of the days from `fromDay` on (inclusive). */
+export const getUsageSinceDB = async (fromDay: string): Promise<UsageRecord[]> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const req = db.transaction(USAGE_STORE, 'readonly')
+      .objectStore(USAGE_STORE)
+      .index('day')
+      .getAll(IDBKeyRange.lowerBound(fromDay));
+    req.onsuccess = () => resolve((req.result as UsageRecord[]) || []);
+    req.onerror = () => reject(new Error('Error reading token usage'));
+  });
+};
+
+export const clearUsageDB = async (): Promise<void> => {
+  const db = await openDB();
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(USAGE_STORE, 'readwrite');
+    tx.objectStore(USAGE_STORE).clear();
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(new Error('Error clearing token usage'));
+  });
+};
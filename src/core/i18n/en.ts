@@ -8,6 +8,22 @@ export const enTranslations: Record<string, string> = {
   
   // Header
   "header.targetLanguageTitle": "Current Target Language: {language}",
+
+  // Conversation threads
+  "threads.switch": "Switch conversation thread",
+  "threads.defaultName": "Main conversation",
+  "threads.untitled": "Untitled thread",
+  "threads.new": "New thread",
+  "threads.namePlaceholder": "Thread name...",
+  "threads.rename": "Rename",
+  "threads.archive": "Archive",
+  "threads.unarchive": "Unarchive",
+  "threads.delete": "Delete",
+  "threads.deleteConfirm": "Delete the thread \"{name}\" and all of its messages?",
+  "threads.save": "Save",
+  "threads.cancel": "Cancel",
+  "threads.showArchived": "Archived ({count})",
+  "threads.hideArchived": "Hide archived",
   
   // Start page (used)
   "startPage.clickToStart": "Click the plane",
@@ -16,6 +32,252 @@ export const enTranslations: Record<string, string> = {
   "startPage.maestroAvatar": "Maestro avatar",
   "startPage.addMaestroAvatar": "Add Maestro avatar",
   "startPage.loadSuccess": "Successfully loaded and replaced {count} chat sessions!",
+  "startPage.mergeSuccess": "Merged the backup into {count} language pairs.",
+  "backupImport.title": "Import backup",
+  "backupImport.modeMerge": "Merge with chats on this device",
+  "backupImport.modeReplace": "Replace all chats on this device",
+  "backupImport.replaceWarning": "All chats on this device will be replaced by the backup.",
+  "backupImport.noPairs": "This backup contains no chats.",
+  "backupImport.pairStats": "This device: {local} messages · Backup: {imported} · New: {new}",
+  "backupImport.lastActivity": "Last message on this device: {local} · in backup: {imported}",
+  "backupImport.never": "never",
+  "backupImport.strategy.merge": "Merge",
+  "backupImport.strategy.keepLocal": "Keep this device",
+  "backupImport.strategy.keepImported": "Use backup",
+  "backupImport.confirm": "Import",
+  "backupImport.cancel": "Cancel",
+  "backupCrypto.encryptHint": "Protect the backup with a passphrase, or leave it empty to save without encryption. A forgotten passphrase cannot be recovered.",
+  "backupCrypto.decryptTitle": "Encrypted backup",
+  "backupCrypto.decryptHint": "Enter the passphrase this backup was saved with.",
+  "backupCrypto.passphrase": "Passphrase",
+  "backupCrypto.confirmPassphrase": "Repeat passphrase",
+  "backupCrypto.mismatch": "The passphrases do not match.",
+  "backupCrypto.saveEncrypted": "Save encrypted",
+  "backupCrypto.unlock": "Unlock",
+  "backupCrypto.wrongPassphrase": "Wrong passphrase, or the file has been modified since it was saved.",
+  "backupCrypto.corrupt": "This encrypted backup is damaged and cannot be opened.",
+  "exportDialog.title": "Export chats",
+  "exportDialog.formatLabel": "Format",
+  "exportDialog.format.backup": "Backup (can be imported again)",
+  "exportDialog.format.markdown": "Transcript (Markdown)",
+  "exportDialog.format.html": "Transcript (HTML)",
+  "exportDialog.format.tsv": "Bilingual table (TSV)",
+  "exportDialog.format.anki": "Anki flashcards",
+  "exportDialog.ankiSourcesLabel": "Cards from",
+  "exportDialog.ankiSource.line": "Maestro's lines",
+  "exportDialog.ankiSource.suggestion": "Reply suggestions",
+  "exportDialog.next": "Next",
+  "exportDialog.pairsLabel": "Language pairs",
+  "exportDialog.dateRangeLabel": "Date range",
+  "exportDialog.dateRangeHint": "Leave empty to export all messages.",
+  "exportDialog.from": "From",
+  "exportDialog.to": "To",
+  "exportDialog.invalidRange": "The start date is after the end date.",
+  "exportDialog.includeMedia": "Include images and videos",
+  "exportDialog.includeAudio": "Include voice recordings and audio",
+  "exportDialog.export": "Export",
+  "exportDialog.nothingSelected": "No messages match the selected pairs and dates.",
+  "exportDialog.transcriptTitle": "Maestro transcript",
+  "exportDialog.exportedAt": "Exported {date}",
+  "exportDialog.speakerUser": "Student",
+  "exportDialog.speakerAssistant": "Maestro",
+  "exportDialog.image": "Image",
+  "exportDialog.recording": "Recording",
+  "exportDialog.column.date": "Date",
+  "exportDialog.column.pair": "Language pair",
+  "exportDialog.column.thread": "Thread",
+  "exportDialog.column.speaker": "Speaker",
+  "exportDialog.column.target": "Target language",
+  "exportDialog.column.native": "Translation",
+  "ankiExport.title": "Anki flashcards",
+  "ankiExport.summary": "{selected} of {total} cards selected · {missing} without audio",
+  "ankiExport.selectAll": "Select all",
+  "ankiExport.selectWithAudio": "Only with audio",
+  "ankiExport.selectNone": "Select none",
+  "ankiExport.noAudio": "No audio",
+  "ankiExport.empty": "No lines match the selected pairs and dates.",
+  "ankiExport.missingHint": "Cards without audio are tagged \"missing-audio\". Play those lines once in the chat to cache their audio.",
+  "storage.title": "Storage",
+  "storage.close": "Close",
+  "storage.usage": "{used} of {quota} used",
+  "storage.persisted": "Persistent storage: on",
+  "storage.notPersisted": "Persistent storage: off (the browser may clear data when space is low)",
+  "storage.requestPersist": "Make persistent",
+  "storage.estimateUnavailable": "This browser does not report storage usage.",
+  "storage.writeFailed": "Saving chat history failed. Free up space to keep new messages.",
+  "storage.breakdownLabel": "Chat data",
+  "storage.pair": "Language pair",
+  "storage.kind.images": "Images",
+  "storage.kind.tts": "Speech cache",
+  "storage.kind.recordings": "Recordings",
+  "storage.kind.text": "Text",
+  "storage.sharedTts": "Shared speech cache: {entries} clips, {size}",
+  "storage.snapshots": "Snapshots: {count}, {size}",
+  "storage.migrationBackup": "Copy of your chats from before the {date} upgrade: {size}",
+  "storage.deleteMigrationBackup": "Delete the pre-upgrade copy",
+  "storage.sharedTtsStats": "This session: {hits} replays from cache, {misses} synthesized",
+  "storage.rulesLabel": "Cleanup rules",
+  "storage.rule.ttsMaxAge": "Remove cached speech not played for (days)",
+  "storage.rule.keepRecordings": "Keep only the newest recordings per pair",
+  "storage.rule.days": "Days",
+  "storage.rule.count": "Recordings",
+  "storage.rule.dailySnapshots": "Daily snapshots to keep",
+  "storage.rule.eventSnapshots": "Snapshots before reset, import or restore to keep",
+  "storage.rule.snapshotMedia": "Newest snapshots that include images and audio",
+  "storage.rule.snapshotCount": "Snapshots",
+  "storage.rule.autoEvict": "Clean up automatically when storage runs low",
+  "storage.rulesHint": "Messages, translations and images are never removed. Speech is synthesized again when replayed.",
+  "storage.cleanUp": "Clean up now",
+  "storage.cleanupResult": "Removed {tts} cached speech clips, {recordings} recordings and {snapshots} snapshots.",
+  "storage.banner.warning": "Storage is almost full.",
+  "storage.banner.critical": "Storage is full. New messages may not be saved.",
+  "storage.banner.writeFailed": "Chat history could not be saved.",
+  "storage.banner.manage": "Manage storage",
+  "search.title": "Search chats",
+  "search.open": "Search chats",
+  "search.close": "Close",
+  "search.placeholder": "Search messages, translations and summaries",
+  "search.allPairs": "All language pairs",
+  "search.currentPair": "This language pair",
+  "search.minChars": "Type at least two letters.",
+  "search.searching": "Searching...",
+  "search.noResults": "No messages found.",
+  "search.resultCount": "{count} messages found",
+  "search.truncated": "Many messages match. Add words to narrow the search.",
+  "search.field.translation": "Translation",
+  "search.field.summary": "Summary",
+  "search.field.transcript": "Recording",
+  "search.notFound": "This message could not be opened. It may have been deleted.",
+  "snapshots.open": "Restore a snapshot",
+  "snapshots.title": "Automatic snapshots",
+  "snapshots.subtitle": "Kept on this device: one a day, and one before every reset, import or restore.",
+  "snapshots.close": "Close",
+  "snapshots.empty": "No snapshots yet. The first one is taken shortly after the app starts.",
+  "snapshots.stats": "{messages} messages in {pairs} language pairs · {size}",
+  "snapshots.textOnly": "Text only: images and audio are kept in the newest snapshots.",
+  "snapshots.reason.daily": "Daily",
+  "snapshots.reason.before-reset": "Before reset",
+  "snapshots.reason.before-import": "Before import",
+  "snapshots.reason.before-restore": "Before restore",
+  "snapshots.reason.manual": "Manual",
+  "snapshots.restore": "Restore",
+  "snapshots.replaceWarning": "All chats on this device will be replaced.",
+  "snapshots.confirmRestore": "Replace chats",
+  "snapshots.cancel": "Cancel",
+  "snapshots.delete": "Delete snapshot",
+  "snapshots.takeNow": "Take snapshot now",
+  "snapshots.restored": "Chats restored from the snapshot.",
+  "snapshots.readError": "This snapshot could not be read.",
+  "sync.title": "Sync",
+  "sync.subtitle": "Keep chats, profile and settings in step across devices through a WebDAV folder.",
+  "sync.close": "Close",
+  "sync.enabled": "Sync this device",
+  "sync.url": "WebDAV folder URL",
+  "sync.username": "Username",
+  "sync.password": "Password",
+  "sync.interval": "Sync every",
+  "sync.intervalMinutes": "{minutes} minutes",
+  "sync.test": "Test connection",
+  "sync.testOk": "Connected. The folder is ready for sync.",
+  "sync.syncNow": "Sync now",
+  "sync.save": "Save",
+  "sync.phase.disabled": "Sync is off",
+  "sync.phase.idle": "Sync is on",
+  "sync.phase.syncing": "Syncing…",
+  "sync.phase.error": "Sync failed",
+  "sync.lastSynced": "last synced {time}",
+  "sync.lastResult": "Last run: {pushed} changes sent, {pulled} received.",
+  "sync.error.NOT_CONFIGURED": "Enter the URL of a WebDAV folder.",
+  "sync.error.AUTH": "The server rejected the username or password.",
+  "sync.error.NETWORK": "The server could not be reached. Check the URL and that it allows requests from this app (CORS).",
+  "sync.error.HTTP": "The server returned an error: {detail}",
+  "sync.error.FORMAT": "The folder contains data this app cannot read: {detail}",
+  "tabs.readOnly": "This language pair is open in another tab. Changes made here are not saved.",
+  "tabs.useHere": "Use here",
+  "chat.suggestion.remove": "Remove suggestion",
+  "undo.undo": "Undo",
+  "undo.redo": "Redo",
+  "undo.undoShortcut": "Undo (Ctrl+Z)",
+  "undo.redoShortcut": "Redo (Ctrl+Shift+Z)",
+  "undo.dismiss": "Dismiss",
+  "undo.toast.done": "{action}",
+  "undo.toast.undone": "Undone: {action}",
+  "undo.action.deleteMessage": "Message deleted",
+  "undo.action.editMessage": "Message edited",
+  "undo.action.moveBookmark": "Bookmark moved",
+  "undo.action.editProfile": "Profile updated",
+  "undo.action.removeSuggestion": "Suggestion removed",
+  "llm.title": "Model provider",
+  "llm.subtitle": "Choose which service writes the replies.",
+  "llm.close": "Close",
+  "llm.provider.gemini": "Gemini",
+  "llm.provider.openai-compatible": "OpenAI-compatible",
+  "llm.baseUrl": "Server URL",
+  "llm.model": "Model",
+  "llm.apiKey": "API key",
+  "llm.apiKeyOptional": "Optional for local servers",
+  "llm.sendImages": "Send images (vision models only)",
+  "llm.test": "Test connection",
+  "llm.testOk": "Connected. {count} models available.",
+  "llm.save": "Save",
+  "llm.unavailableTitle": "Not available with this provider:",
+  "llm.unavailable.image": "Image generation",
+  "llm.imageGenUnavailable": "Image generation needs the Gemini provider",
+  "llm.unavailable.live": "Live conversation",
+  "llm.unavailable.search": "Google Search grounding",
+  "llm.unavailable.files": "Images and video from earlier messages",
+  "llm.speechNote": "Spoken replies, speech recognition and live sessions still use Gemini and need the Gemini API key.",
+  "chat.stopReply": "Stop reply",
+  "chat.replyStopped": "Reply stopped.",
+  "llm.taskModels.title": "Gemini models",
+  "llm.taskModels.hint": "The model for each task, then fallbacks (comma-separated) tried in order when it is retired, not enabled for your key or out of quota.",
+  "llm.taskModels.refresh": "Refresh list",
+  "llm.taskModels.reset": "Reset",
+  "llm.taskModels.fallbacks": "Fallback models",
+  "llm.taskModels.fallbacksPlaceholder": "Fallbacks, e.g. gemini-2.5-flash, gemini-2.5-flash-lite",
+  "llm.taskModels.task.chat": "Replies",
+  "llm.taskModels.task.aux": "Suggestions and summaries",
+  "llm.taskModels.task.translate": "Translations",
+  "llm.taskModels.task.image": "Image generation",
+  "llm.taskModels.task.tts": "Speech synthesis",
+  "llm.taskModels.task.live": "Live audio (conversation, speech recognition, spoken replies)",
+  "llm.rateLimited.retrying": "{model} is rate limited, retrying in {seconds}s",
+  "llm.rateLimited.paused": "{model} is rate limited, available again in {seconds}s",
+  "usage.title": "Usage and budget",
+  "usage.close": "Close",
+  "usage.estimateNote": "Costs are estimates from list prices; your bill may differ.",
+  "usage.today": "Today",
+  "usage.thisMonth": "This month",
+  "usage.tokenSummary": "Today {todayTokens} tokens in {todayRequests} requests; this month {monthTokens} tokens in {monthRequests} requests.",
+  "usage.chartLabel": "Tokens, last 30 days",
+  "usage.category.response": "Replies",
+  "usage.category.suggestions": "Suggestions",
+  "usage.category.image": "Images",
+  "usage.category.tts": "Speech",
+  "usage.category.live": "Live sessions",
+  "usage.category.stt": "Speech recognition",
+  "usage.category.other": "Other",
+  "usage.byPairLabel": "This month by language pair",
+  "usage.pair": "Language pair",
+  "usage.tokens": "Tokens",
+  "usage.cost": "Cost",
+  "usage.noPair": "(none)",
+  "usage.budgetLabel": "Budget",
+  "usage.dailyLimit": "Daily limit",
+  "usage.monthlyLimit": "Monthly limit",
+  "usage.onExceeded": "When exceeded",
+  "usage.onExceeded.warn": "Warn only",
+  "usage.onExceeded.disable": "Turn off images and live",
+  "usage.budgetHint": "Image generation and live sessions cost the most. Limits apply to this device only.",
+  "usage.period.daily": "daily",
+  "usage.period.monthly": "monthly",
+  "usage.exceeded.warn": "The {period} budget is used up.",
+  "usage.exceeded.disabled": "The {period} budget is used up. Image generation and live sessions are off.",
+  "usage.banner.manage": "Usage",
+  "usage.clear": "Clear history",
+  "usage.clearConfirm": "Delete all counted usage on this device? Budgets start again from zero.",
+  "usage.imageGenOverBudget": "Image generation is off: the usage budget is used up",
+  "backupCrypto.unsupported": "This encrypted backup cannot be opened here. Encryption requires a secure (https) connection and a current app version.",
   "startPage.loadError": "Error loading chats. The file might be corrupted or in the wrong format.",
   "startPage.noChatsToSave": "There are no chat histories to save.",
   "startPage.saveError": "Error saving chats. Check the console for more details.",
@@ -51,6 +313,10 @@ export const enTranslations: Record<string, string> = {
   // Chat - general
   "chat.thinking": "Thinking...",
   "chat.loadingHistory": "Loading chat history...",
+  "chat.history.loadOlder": "Load older messages",
+  "chat.history.loadingOlder": "Loading older messages...",
+  "db.migrating": "Upgrading local data ({current}/{total}): {step} {percent}%",
+  "db.migrationFailed": "Upgrading local data failed at \"{step}\". Your data was left unchanged.",
   "chat.loadingSuggestions": "Loading suggestions...",
   "chat.suggestionsAriaLabel": "Reply suggestions",
   "chat.attachImageFromFile": "Attach file",
@@ -0,0 +1,95 @@
+// Copyright 2025 Roni Tervo
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * OpenAI-Compatible Provider Key Storage
+ *
+ * Stores the API key for an OpenAI-compatible chat-completions server locally.
+ * - Native (Capacitor): Secure Storage (Keychain/Keystore)
+ * - Web: localStorage fallback
+ *
+ * Local servers (Ollama, llama.cpp) usually need no key. The base URL and model
+ * live in AppSettings; only the key is kept here.
+ */
+
+import { Capacitor } from '@capacitor/core';
+import { SecureStorage } from '@aparajita/capacitor-secure-storage';
+
+const OPENAI_KEY_STORAGE_KEY = 'maestro.openAiCompatibleKey.v1';
+
+let cachedKey: string | null | undefined = undefined;
+
+const isNative = Capacitor.isNativePlatform();
+const safeWindow = () => (typeof window !== 'undefined' ? window : undefined);
+
+const readLocalStorage = (): string | null => {
+  try {
+    const win = safeWindow();
+    if (!win?.localStorage) return null;
+    const value = win.localStorage.getItem(OPENAI_KEY_STORAGE_KEY);
+    return value ? value : null;
+  } catch {
+    return null;
+  }
+};
+
+const writeLocalStorage = (value: string) => {
+  try {
+    const win = safeWindow();
+    if (!win?.localStorage) return;
+    win.localStorage.setItem(OPENAI_KEY_STORAGE_KEY, value);
+  } catch {
+    // ignore
+  }
+};
+
+const removeLocalStorage = () => {
+  try {
+    const win = safeWindow();
+    if (!win?.localStorage) return;
+    win.localStorage.removeItem(OPENAI_KEY_STORAGE_KEY);
+  } catch {
+    // ignore
+  }
+};
+
+export const loadOpenAiCompatibleKey = async (): Promise<string | null> => {
+  if (cachedKey !== undefined) return cachedKey;
+  let value: string | null = null;
+  if (isNative) {
+    try {
+      const stored = await SecureStorage.getItem(OPENAI_KEY_STORAGE_KEY);
+      value = typeof stored === 'string' && stored ? stored : null;
+    } catch {
+      value = null;
+    }
+  } else {
+    value = readLocalStorage();
+  }
+  cachedKey = value;
+  return cachedKey;
+};
+
+export const setOpenAiCompatibleKey = async (value: string): Promise<void> => {
+  cachedKey = value || null;
+  if (!value) {
+    await clearOpenAiCompatibleKey();
+    return;
+  }
+  if (isNative) {
+    try {
+      await SecureStorage.setItem(OPENAI_KEY_STORAGE_KEY, value);
+    } catch {
+      throw new Error('Secure storage unavailable');
+    }
+  } else {
+    writeLocalStorage(value);
+  }
+};
+
+export const clearOpenAiCompatibleKey = async (): Promise<void> => {
+  cachedKey = null;
+  if (isNative) {
+    try { await SecureStorage.removeItem(OPENAI_KEY_STORAGE_KEY); } catch { /* ignore */ }
+  }
+  removeLocalStorage();
+};
@@ -0,0 +1,95 @@
+// Copyright 2025 Roni Tervo
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * Sync Credential Storage
+ *
+ * Stores the password for the user's sync server (WebDAV folder) locally.
+ * - Native (Capacitor): Secure Storage (Keychain/Keystore)
+ * - Web: localStorage fallback
+ *
+ * The server URL and username live in AppSettings; only the password is kept here
+ * so it never ends up in backups or in the synced settings.
+ */
+
+import { Capacitor } from '@capacitor/core';
+import { SecureStorage } from '@aparajita/capacitor-secure-storage';
+
+const SYNC_PASSWORD_STORAGE_KEY = 'maestro.syncPassword.v1';
+
+let cachedPassword: string | null | undefined = undefined;
+
+const isNative = Capacitor.isNativePlatform();
+const safeWindow = () => (typeof window !== 'undefined' ? window : undefined);
+
+const readLocalStorage = (): string | null => {
+  try {
+    const win = safeWindow();
+    if (!win?.localStorage) return null;
+    const value = win.localStorage.getItem(SYNC_PASSWORD_STORAGE_KEY);
+    return value ? value : null;
+  } catch {
+    return null;
+  }
+};
+
+const writeLocalStorage = (value: string) => {
+  try {
+    const win = safeWindow();
+    if (!win?.localStorage) return;
+    win.localStorage.setItem(SYNC_PASSWORD_STORAGE_KEY, value);
+  } catch {
+    // ignore
+  }
+};
+
+const removeLocalStorage = () => {
+  try {
+    const win = safeWindow();
+    if (!win?.localStorage) return;
+    win.localStorage.removeItem(SYNC_PASSWORD_STORAGE_KEY);
+  } catch {
+    // ignore
+  }
+};
+
+export const loadSyncPassword = async (): Promise<string | null> => {
+  if (cachedPassword !== undefined) return cachedPassword;
+  let value: string | null = null;
+  if (isNative) {
+    try {
+      const stored = await SecureStorage.getItem(SYNC_PASSWORD_STORAGE_KEY);
+      value = typeof stored === 'string' && stored ? stored : null;
+    } catch {
+      value = null;
+    }
+  } else {
+    value = readLocalStorage();
+  }
+  cachedPassword = value;
+  return cachedPassword;
+};
+
+export const setSyncPassword = async (value: string): Promise<void> => {
+  cachedPassword = value || null;
+  if (!value) {
+    await clearSyncPassword();
+    return;
+  }
+  if (isNative) {
+    try {
+      await SecureStorage.setItem(SYNC_PASSWORD_STORAGE_KEY, value);
+    } catch {
+      throw new Error('Secure storage unavailable');
+    }
+  } else {
+    writeLocalStorage(value);
+  }
+};
+
+export const clearSyncPassword = async (): Promise<void> => {
+  cachedPassword = null;
+  if (isNative) {
+    try { await SecureStorage.removeItem(SYNC_PASSWORD_STORAGE_KEY); } catch { /* ignore */ }
+  }
+  removeLocalStorage();
+};
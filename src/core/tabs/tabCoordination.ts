@@ -0,0 +1,229 @@
+// Copyright 2025 Roni Tervo
+//
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * Coordination between app instances open in several tabs of the same origin.
+ *
+ * Responsibilities:
+ * - Exclusive resources (Gemini Live sockets, the microphone, a sync run, the
+ *   daily snapshot) held
+ *   by one tab at a time through Web Locks, shared inside a tab by ref count
+ * - The per-pair history writer lock: held while it lasts, queued otherwise,
+ *   and stealable on request
+ * - A BroadcastChannel for change notifications between tabs
+ *
+ * Where Web Locks or BroadcastChannel are missing (old WebViews) every
+ * instance behaves as if it were the only one.
+ */
+
+export type TabResource = 'live' | 'mic' | 'sync' | 'snapshot';
+
+export type TabMessage =
+  | { type: 'history-saved'; threadId: string; pairId: string }
+  | { type: 'threads-changed'; pairId: string };
+
+const LOCK_PREFIX = 'maestro';
+const CHANNEL_NAME = 'maestro-tabs';
+
+/** Identifies this instance in broadcasts. */
+export const TAB_ID = Math.random().toString(36).slice(2, 10);
+
+export class TabResourceBusyError extends Error {
+  resource: TabResource;
+  constructor(resource: TabResource) {
+    super(resource === 'mic'
+      ? 'The microphone is in use in another tab of this app'
+      : resource === 'live'
+        ? 'A live session is running in another tab of this app'
+        : resource === 'sync'
+          ? 'Another tab of this app is already syncing'
+          : 'Another tab of this app is taking a snapshot');
+    this.name = 'TabResourceBusyError';
+    this.resource = resource;
+  }
+}
+
+const getLocks = (): LockManager | null =>
+  (typeof navigator !== 'undefined' && navigator.locks) ? navigator.locks : null;
+
+export const isTabCoordinationSupported = (): boolean => !!getLocks();
+
+// ============================================================
+// SHARED RESOURCES
+// ============================================================
+
+interface HeldResource {
+  count: number;
+  release: () => void;
+}
+
+const heldResources = new Map<TabResource, HeldResource>();
+const pendingClaims = new Map<TabResource, Promise<HeldResource | null>>();
+
+const requestResourceLock = (resource: TabResource): Promise<HeldResource | null> => {
+  const locks = getLocks();
+  if (!locks) return Promise.resolve({ count: 0, release: () => {} });
+  return new Promise(resolve => {
+    locks.request(`${LOCK_PREFIX}-${resource}`, { ifAvailable: true }, lock => {
+      if (!lock) {
+        resolve(null);
+        return undefined;
+      }
+      // The lock is held until this promise settles.
+      return new Promise<void>(release => resolve({ count: 0, release }));
+    }).catch(() => resolve(null));
+  });
+};
+
+/**
+ * Claims `resource` for this tab without waiting. Returns a release function,
+ * or null when another tab holds it. Claims inside one tab stack: the lock is
+ * let go when the last claim is released.
+ */
+export const claimTabResource = async (resource: TabResource): Promise<(() => void) | null> => {
+  let held = heldResources.get(resource);
+  if (!held) {
+    let pending = pendingClaims.get(resource);
+    if (!pending) {
+      pending = requestResourceLock(resource);
+      pendingClaims.set(resource, pending);
+      pending.finally(() => pendingClaims.delete(resource));
+    }
+    const acquired = await pending;
+    if (!acquired) return null;
+    held = heldResources.get(resource) || acquired;
+    heldResources.set(resource, held);
+  }
+  held.count += 1;
+  let released = false;
+  const entry = held;
+  return () => {
+    if (released) return;
+    released = true;
+    entry.count -= 1;
+    if (entry.count <= 0 && heldResources.get(resource) === entry) {
+      heldResources.delete(resource);
+      entry.release();
+    }
+  };
+};
+
+/**
+ * Claims several resources at once. Throws TabResourceBusyError (releasing
+ * whatever it got) when another tab holds one of them.
+ */
+export const claimTabResources = async (resources: TabResource[]): Promise<() => void> => {
+  const releases: Array<() => void> = [];
+  const releaseAll = () => releases.splice(0).forEach(release => release());
+  for (const resource of resources) {
+    const release = await claimTabResource(resource);
+    if (!release) {
+      releaseAll();
+      throw new TabResourceBusyError(resource);
+    }
+    releases.push(release);
+  }
+  return releaseAll;
+};
+
+// ============================================================
+// WRITER LOCK
+// ============================================================
+
+export interface WriterLockHandle {
+  release: () => void;
+}
+
+/**
+ * Requests the history writer lock of a language pair and keeps it until
+ * released or stolen. `onChange(true)` fires when this tab becomes the writer,
+ * `onChange(false)` when it has to wait (another tab holds it) or lost it to a
+ * steal; a tab that lost the lock queues for it again.
+ */
+export const holdWriterLock = (
+  pairId: string,
+  onChange: (isWriter: boolean) => void,
+  opts?: { steal?: boolean }
+): WriterLockHandle => {
+  const locks = getLocks();
+  if (!locks) {
+    onChange(true);
+    return { release: () => {} };
+  }
+  const name = `${LOCK_PREFIX}-writer:${pairId}`;
+  let disposed = false;
+  let releaseHeld: (() => void) | null = null;
+  let abort: AbortController | null = null;
+
+  const hold = () => new Promise<void>(resolve => {
+    releaseHeld = resolve;
+    if (disposed) resolve();
+    else onChange(true);
+  });
+
+  // Settles when the lock is let go: released by us (disposed) or stolen (rejects).
+  const onLost = () => {
+    if (disposed) return;
+    releaseHeld = null;
+    onChange(false);
+    queue();
+  };
+
+  const queue = () => {
+    if (disposed) return;
+    abort = new AbortController();
+    locks.request(name, { signal: abort.signal }, hold).then(onLost, onLost);
+  };
+
+  if (opts?.steal) {
+    locks.request(name, { steal: true }, hold).then(onLost, onLost);
+  } else {
+    locks.request(name, { ifAvailable: true }, lock => (lock ? hold() : null)).then(result => {
+      if (disposed) return;
+      // `null` from the callback means another tab holds the lock.
+      if (result === null) {
+        onChange(false);
+        queue();
+      } else {
+        onLost();
+      }
+    }, onLost);
+  }
+
+  return {
+    release: () => {
+      disposed = true;
+      abort?.abort();
+      releaseHeld?.();
+    },
+  };
+};
+
+// ============================================================
+// BROADCASTS
+// ============================================================
+
+let channel: BroadcastChannel | null | undefined;
+
+const getChannel = (): BroadcastChannel | null => {
+  if (channel !== undefined) return channel;
+  channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+  return channel;
+};
+
+export const broadcastTabMessage = (message: TabMessage) => {
+  try { getChannel()?.postMessage({ ...message, from: TAB_ID }); } catch { /* ignore */ }
+};
+
+/** Subscribes to messages from other tabs; returns the unsubscribe function. */
+export const onTabMessage = (handler: (message: TabMessage) => void): (() => void) => {
+  const ch = getChannel();
+  if (!ch) return () => {};
+  const listener = (event: MessageEvent) => {
+    const data = event.data as (TabMessage & { from?: string }) | null;
+    if (!data || data.from === TAB_ID) return;
+    handler(data);
+  };
+  ch.addEventListener('message', listener);
+  return () => ch.removeEventListener('message', listener);
+};
@@ -18,6 +18,8 @@ export interface ChatMessage {
   imageUrl?: string;
   imageMimeType?: string;
   imageFileUri?: string;
+  /** Media store id of `imageUrl`; persisted records keep only this reference */
+  imageMediaId?: string;
   /** Optimized (lower res) image for local storage to reduce DB size */
   storageOptimizedImageUrl?: string;
   /** MIME type of the storage-optimized image */
@@ -47,6 +49,8 @@ export interface SpeechPart {
 
 export interface RecordedUtterance {
   dataUrl: string;
+  /** Media store id of `dataUrl`; persisted records keep only this reference */
+  mediaId?: string;
   provider: SttProvider;
   langCode?: string;
   transcript?: string;
@@ -110,6 +114,91 @@ export interface AppSettings {
   historyBookmarkMessageId?: string | null;
   maxVisibleMessages?: number;
   loadingGifs?: string[] | null;
+  /** Active conversation thread per language pair id. Missing entries fall back to the pair's default thread. */
+  selectedThreadIds?: Record<string, string>;
+  /** Storage eviction rules; missing means the defaults in the storage feature. */
+  storage?: StorageSettings;
+  /** Multi-device sync target; the password is kept in secure storage, not here. */
+  sync?: SyncSettings;
+  /** Backend for text, translation, image and speech generation; missing means Gemini. */
+  llm?: LlmSettings;
+  /** Model per task with fallbacks; missing tasks use the built-in defaults (Gemini only). */
+  models?: Partial<ModelSettings>;
+  /** Spending limits on estimated API cost; missing means no limits. */
+  usageBudget?: UsageBudgetSettings;
+}
+
+export interface StorageSettings {
+  /** Drop cached TTS audio not refreshed for this many days; null = keep. */
+  ttsMaxAgeDays: number | null;
+  /** Keep only the newest N voice recordings per language pair; null = keep all. */
+  keepRecordingsPerPair: number | null;
+  /** Automatic snapshots kept: daily ones, and ones taken before a reset, import or restore. */
+  keepDailySnapshots: number;
+  keepEventSnapshots: number;
+  /** Newest snapshots that also keep images, recordings and TTS audio; the rest are text only. */
+  snapshotMediaCopies: number;
+  /** Apply the rules automatically when storage runs low. */
+  autoEvict: boolean;
+}
+
+export interface SyncSettings {
+  enabled: boolean;
+  /** WebDAV folder URL, e.g. `https://cloud.example.com/remote.php/dav/files/me/maestro/`. */
+  url: string;
+  username: string;
+  /** Minutes between background syncs while the app is open. */
+  intervalMinutes: number;
+}
+
+export type LlmProviderId = 'gemini' | 'openai-compatible';
+
+export interface LlmSettings {
+  provider: LlmProviderId;
+  /** Chat-completions endpoint; the API key (optional for local servers) is kept in secure storage. */
+  openAiCompatible: {
+    /** Base URL up to `/v1`, e.g. `http://localhost:11434/v1` for Ollama. */
+    baseUrl: string;
+    model: string;
+    /** Send images to the model; only for vision-capable models. */
+    sendImages: boolean;
+  };
+}
+
+/**
+ * What a Gemini model is chosen for: `chat` replies, `aux` suggestions and
+ * summaries, `translate`, `image` generation, one-shot `tts` and `live` audio
+ * sessions (live conversation, live STT and live TTS).
+ */
+export type ModelTask = 'chat' | 'aux' | 'translate' | 'image' | 'tts' | 'live';
+
+export interface ModelChoice {
+  model: string;
+  /** Tried in order when `model` is unavailable (retired, not enabled for the key, out of quota). */
+  fallbacks: string[];
+}
+
+export type ModelSettings = Record<ModelTask, ModelChoice>;
+
+/** What a model request was for, as counted in token usage. */
+export type UsageCategory = 'response' | 'suggestions' | 'image' | 'tts' | 'live' | 'stt' | 'other';
+
+export interface UsageBudgetSettings {
+  /** Estimated USD per calendar day; null = no limit. */
+  dailyLimitUsd: number | null;
+  /** Estimated USD per calendar month; null = no limit. */
+  monthlyLimitUsd: number | null;
+  /** `warn` only shows a banner; `disable` also switches off image generation and live sessions. */
+  onExceeded: 'warn' | 'disable';
+}
+
+/** A model (or service) paused after rate limiting; see `api/llm/executor`. */
+export interface ModelCooldown {
+  model: string;
+  /** Epoch ms when calls to the model may start again. */
+  until: number;
+  /** The attempt that is waiting (1-based), 0 while no call is waiting. */
+  attempt: number;
 }
 
 export interface GroundingChunk {
@@ -153,6 +242,20 @@ export interface SpeechCacheDetails {
 
 export type MaestroActivityStage = 'idle' | 'observing_low' | 'observing_medium' | 'observing_high' | 'typing' | 'speaking' | 'listening';
 
+/**
+ * A named conversation within a language pair. The default thread of a pair
+ * uses the pair id as its thread id, so histories stored before threads existed
+ * remain addressable without rewriting them.
+ */
+export interface ChatThread {
+  id: string;
+  pairId: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  archived?: boolean;
+}
+
 export interface ChatMeta {
   bookmarkMessageId?: string | null;
   profileFingerprint?: string;
@@ -18,10 +18,12 @@ import { ALL_LANGUAGES } from '../../../core/config/languages';
 import { getPrimaryCode } from '../../../shared/utils/languageUtils';
 
 const BOOKMARK_SHOW_ABOVE_CHUNK_SIZE = 100;
+const MESSAGE_HIGHLIGHT_MS = 2000;
 const isRealChatMessage = (m: ChatMessage) => (m.role === 'user' || m.role === 'assistant') && !m.thinking;
 
 interface ChatInterfaceProps {
   onSendMessage: (text: string, imageBase64?: string, imageMimeType?: string) => Promise<boolean>;
+  onCancelSend: () => void;
   onDeleteMessage: (messageId: string) => void;
   onBookmarkAt: (messageId: string | null) => void;
   updateMessage?: (messageId: string, updates: Partial<ChatMessage>) => void;
@@ -70,7 +72,8 @@ const ChatInterface: React.FC<ChatInterfaceProps> = (props) => {
     onToggleSuggestionMode,
     onCreateSuggestion,
     onBookmarkAt,
-    onSendMessage
+    onSendMessage,
+    onCancelSend
   } = props;
 
   const { t } = useAppTranslations();
@@ -87,6 +90,11 @@ const ChatInterface: React.FC<ChatInterfaceProps> = (props) => {
   const transitioningImageId = useMaestroStore(state => state.transitioningImageId);
   const speakingUtteranceText = useMaestroStore(selectSpeakingUtteranceText);
   const imageLoadDurations = useMaestroStore(state => state.imageLoadDurations);
+  const hasOlderMessages = useMaestroStore(state => state.hasOlderMessages);
+  const isLoadingOlderMessages = useMaestroStore(state => state.isLoadingOlderMessages);
+  const loadOlderMessages = useMaestroStore(state => state.loadOlderMessages);
+  const messageJumpTarget = useMaestroStore(state => state.messageJumpTarget);
+  const clearMessageJump = useMaestroStore(state => state.clearMessageJump);
 
   const isSuggestionMode = settings.isSuggestionMode;
   const speakNativeLang = settings.tts.speakNative;
@@ -334,6 +342,38 @@ const ChatInterface: React.FC<ChatInterfaceProps> = (props) => {
     }
   }, [bookmarkViewMode, bookmarkAboveChunkIndex, bookmarkInfo.hiddenCount]);
 
+  // Jump requests (from search): reveal the message if it is hidden above the
+  // bookmark, then scroll to it and highlight it briefly.
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  useEffect(() => {
+    if (!messageJumpTarget) return;
+    const { messageId } = messageJumpTarget;
+    const hiddenIdx = bookmarkInfo.pre.findIndex(m => m.id === messageId);
+    if (hiddenIdx >= 0) {
+      const chunkIndex = Math.floor((bookmarkInfo.hiddenCount - 1 - hiddenIdx) / BOOKMARK_SHOW_ABOVE_CHUNK_SIZE);
+      if (bookmarkViewMode !== 'above' || bookmarkAboveChunkIndex !== chunkIndex) {
+        setBookmarkViewMode('above');
+        setBookmarkAboveChunkIndex(chunkIndex);
+        return;
+      }
+    } else if (bookmarkViewMode === 'above') {
+      setBookmarkViewMode('below');
+      return;
+    }
+    const frame = requestAnimationFrame(() => {
+      bubbleWrapperRefs.current.get(messageId)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      setHighlightedMessageId(messageId);
+      clearMessageJump();
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [messageJumpTarget, bookmarkInfo, bookmarkViewMode, bookmarkAboveChunkIndex, bubbleWrapperRefs, clearMessageJump]);
+
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    const timer = window.setTimeout(() => setHighlightedMessageId(null), MESSAGE_HIGHLIGHT_MS);
+    return () => window.clearTimeout(timer);
+  }, [highlightedMessageId]);
+
   let messagesToRender = messages;
   let hiddenCount = bookmarkInfo.hiddenCount;
   let bookmarkChunkMeta: {
@@ -507,6 +547,21 @@ const ChatInterface: React.FC<ChatInterfaceProps> = (props) => {
         onPointerUp={handleSwipePointerUp}
         onPointerCancel={handleSwipePointerCancel}
       >
+       {hasOlderMessages && (
+         !bookmarkInfo.hasBookmark
+         || hiddenCount === 0
+         || (bookmarkViewMode === 'above' && bookmarkChunkMeta && bookmarkChunkMeta.chunkIndex >= bookmarkChunkMeta.chunkCount - 1)
+       ) && (
+         <div className="flex justify-center my-1">
+           <button
+             className="px-3 py-1 rounded bg-white hover:bg-gray-100 text-slate-700 text-xs border border-slate-300 disabled:opacity-50"
+             onClick={() => { loadOlderMessages(); }}
+             disabled={isLoadingOlderMessages}
+           >
+             {isLoadingOlderMessages ? t('chat.history.loadingOlder') : t('chat.history.loadOlder')}
+           </button>
+         </div>
+       )}
        {bookmarkInfo.hasBookmark && hiddenCount > 0 && (
          <div
            className="my-1 px-2 py-1 bg-slate-200 border border-slate-300 rounded flex items-center gap-2"
@@ -595,6 +650,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = (props) => {
           return (
              <div
               key={msg.id}
+              className={highlightedMessageId === msg.id ? 'rounded-xl ring-2 ring-amber-400 ring-offset-2' : undefined}
               style={{ touchAction: 'pan-y', position: 'relative' }}
               onPointerDown={openTrayForId === msg.id ? undefined : (canBeDeleted ? (e) => handleSwipePointerDown(e, msg.id, isUser) : undefined)}
             >
@@ -793,6 +849,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = (props) => {
                 <InputArea
                     onSttToggle={onSttToggle}
                     onSendMessage={onSendMessage}
+                    onCancelSend={onCancelSend}
                     onUserInputActivity={onUserInputActivity}
                     onStartLiveSession={onStartLiveSession}
                     onStopLiveSession={onStopLiveSession}
@@ -564,7 +564,8 @@ const ChatMessageBubble: React.FC<ChatMessageBubbleProps> = React.memo(({
 
   const applyFocusedImageStyles = isFocusedMode && (isImageSuccessfullyDisplayed || message.isGeneratingImage || isFileSuccessfullyDisplayed || isVideoSuccessfullyDisplayed || isAudioSuccessfullyDisplayed);
   
-  if (message.thinking && !message.isGeneratingImage) {
+  // A streaming reply leaves the placeholder once its first line is complete.
+  if (message.thinking && !message.isGeneratingImage && !message.translations?.length) {
     return (
       <div className="flex justify-start mb-3 animate-pulse">
         <div className="bg-gray-200 rounded-lg p-3 max-w-xl">
@@ -1021,6 +1022,9 @@ const ChatMessageBubble: React.FC<ChatMessageBubbleProps> = React.memo(({
                        )}
                      </div>
                    )})}
+                   {isAssistant && message.thinking && (
+                     <p className="mt-2 text-sm text-gray-400 animate-pulse">{t('chat.thinking')}</p>
+                   )}
                    {isAssistant && (!message.translations || message.translations.length === 0) && message.rawAssistantResponse && (
                      (() => {
                        const isCurrentlySpeakingRaw = message.rawAssistantResponse && speakingUtteranceText === message.rawAssistantResponse.replace(/\*/g, '');
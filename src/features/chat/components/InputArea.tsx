@@ -1,15 +1,16 @@
 import React, { useRef, useState, useEffect, useCallback, useMemo } from 'react';
 import { ALL_LANGUAGES } from '../../../core/config/languages';
-import { IconXMark, IconUndo, IconCheck, IconSend, IconPlus } from '../../../shared/ui/Icons';
+import { IconXMark, IconUndo, IconCheck, IconSend, IconPlus, IconStop } from '../../../shared/ui/Icons';
 import { SmallSpinner } from '../../../shared/ui/SmallSpinner';
 import { LanguageSelectorGlobe } from '../../session';
-import { useMaestroStore } from '../../../store';
+import { useMaestroStore, selectExpensiveFeaturesBlocked } from '../../../store';
 import { useAppTranslations } from '../../../shared/hooks/useAppTranslations';
 import { useLanguageSelection } from '../../session';
 import { selectTargetLanguageDef, selectNativeLanguageDef } from '../../../store/slices/settingsSlice';
 import { selectIsListening, selectIsSending, selectIsSpeaking, selectIsCreatingSuggestion } from '../../../store/slices/uiSlice';
 import { TOKEN_CATEGORY, TOKEN_SUBTYPE, type TokenSubtype } from '../../../core/config/activityTokens';
 import { IMAGE_GEN_CAMERA_ID } from '../../../core/config/app';
+import { providerSupports } from '../../../api/llm';
 import MediaAttachments from './input/MediaAttachments';
 import Composer from './input/Composer';
 import AudioControls from './input/AudioControls';
@@ -19,6 +20,7 @@ import SessionControls from '../../session/components/SessionControls';
 interface InputAreaProps {
   onSttToggle: () => void;
   onSendMessage: (text: string, imageBase64?: string, imageMimeType?: string) => Promise<boolean>;
+  onCancelSend: () => void;
   onUserInputActivity: () => void;
   onStartLiveSession: () => Promise<void> | void;
   onStopLiveSession: () => void;
@@ -32,6 +34,7 @@ interface InputAreaProps {
 const InputArea: React.FC<InputAreaProps> = ({
   onSttToggle,
   onSendMessage,
+  onCancelSend,
   onUserInputActivity,
   onStartLiveSession,
   onStopLiveSession,
@@ -102,7 +105,9 @@ const InputArea: React.FC<InputAreaProps> = ({
   const isSttSupported = microphoneApiAvailable;
   const sendWithSnapshotEnabled = settings.sendWithSnapshotEnabled;
   const useVisualContextForReengagementEnabled = settings.smartReengagement.useVisualContext;
-  const imageGenerationModeEnabled = settings.imageGenerationModeEnabled;
+  const isOverBudget = useMaestroStore(selectExpensiveFeaturesBlocked);
+  const isImageGenerationAvailable = providerSupports(settings.llm, 'image') && !isOverBudget;
+  const imageGenerationModeEnabled = isImageGenerationAvailable && settings.imageGenerationModeEnabled;
   const selectedCameraId = settings.selectedCameraId;
   const isImageGenCameraSelected = selectedCameraId === IMAGE_GEN_CAMERA_ID;
 
@@ -613,6 +618,8 @@ const InputArea: React.FC<InputAreaProps> = ({
                 sendWithSnapshotEnabled={sendWithSnapshotEnabled}
                 useVisualContextForReengagementEnabled={useVisualContextForReengagementEnabled}
                 imageGenerationModeEnabled={imageGenerationModeEnabled}
+                isImageGenerationAvailable={isImageGenerationAvailable}
+                imageGenerationUnavailableTitle={isOverBudget ? t('usage.imageGenOverBudget') : t('llm.imageGenUnavailable')}
                 onSelectCamera={handleSelectCamera}
                 onToggleSendWithSnapshot={onToggleSendWithSnapshot}
                 onToggleUseVisualContextForReengagement={onToggleUseVisualContextForReengagement}
@@ -636,21 +643,33 @@ const InputArea: React.FC<InputAreaProps> = ({
                   onSetAttachedImage={onSetAttachedImage}
                   onUserInputActivity={onUserInputActivity}
                 />
-                <button
-                  type="button"
-                  onClick={handleSend}
-                  className={`p-2 rounded-full focus:outline-none focus:ring-2 transition-colors disabled:opacity-50 shadow-sm ${sendButtonStyle}`}
-                  disabled={isSending || ((!inputText.trim() && !attachedImageBase64) && !languageSelectionOpen) || isSpeaking || (isSuggestionMode && isCreatingSuggestion)}
-                  aria-label={
-                    isSuggestionMode
-                      ? (isCreatingSuggestion ? t('chat.suggestion.creating') : t('chat.suggestion.createAction'))
-                      : (sendPrep && sendPrep.active ? (sendPrep.label || t('chat.sendPrep.finalizing')) : t('chat.sendMessage'))
-                  }
-                >
-                  {isSuggestionMode
-                    ? (isCreatingSuggestion ? <SmallSpinner className="w-5 h-5" /> : <IconPlus className="w-5 h-5" />)
-                    : (sendPrep && sendPrep.active ? <SmallSpinner className="w-5 h-5" /> : <IconSend className="w-5 h-5" />)}
-                </button>
+                {isSending && !isSuggestionMode ? (
+                  <button
+                    type="button"
+                    onClick={onCancelSend}
+                    className={`p-2 rounded-full focus:outline-none focus:ring-2 transition-colors shadow-sm ${sendButtonStyle}`}
+                    aria-label={t('chat.stopReply')}
+                    title={t('chat.stopReply')}
+                  >
+                    {sendPrep && sendPrep.active ? <SmallSpinner className="w-5 h-5" /> : <IconStop className="w-5 h-5" />}
+                  </button>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={handleSend}
+                    className={`p-2 rounded-full focus:outline-none focus:ring-2 transition-colors disabled:opacity-50 shadow-sm ${sendButtonStyle}`}
+                    disabled={isSending || ((!inputText.trim() && !attachedImageBase64) && !languageSelectionOpen) || isSpeaking || (isSuggestionMode && isCreatingSuggestion)}
+                    aria-label={
+                      isSuggestionMode
+                        ? (isCreatingSuggestion ? t('chat.suggestion.creating') : t('chat.suggestion.createAction'))
+                        : t('chat.sendMessage')
+                    }
+                  >
+                    {isSuggestionMode
+                      ? (isCreatingSuggestion ? <SmallSpinner className="w-5 h-5" /> : <IconPlus className="w-5 h-5" />)
+                      : <IconSend className="w-5 h-5" />}
+                  </button>
+                )}
               </div>
             </div>
           </div>
@@ -667,6 +686,7 @@ const InputArea: React.FC<InputAreaProps> = ({
                 liveVideoStream={liveVideoStream}
                 liveSessionState={liveSessionState}
                 liveSessionError={liveSessionError}
+                isLiveSessionAvailable={providerSupports(settings.llm, 'live') && !isOverBudget}
                 onStartLiveSession={onStartLiveSession}
                 onStopLiveSession={onStopLiveSession}
                 onRemoveAttachment={removeAttachedImage}
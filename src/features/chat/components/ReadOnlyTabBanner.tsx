@@ -0,0 +1,34 @@
+// Copyright 2025 Roni Tervo
+//
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * ReadOnlyTabBanner - Shown while another tab writes the chats of this language pair.
+ *
+ * Responsibilities:
+ * - Explain that this tab follows the other one and does not save
+ * - Move the writer lock here on request
+ */
+import React from 'react';
+import { useAppTranslations } from '../../../shared/hooks/useAppTranslations';
+import { useMaestroStore } from '../../../store';
+import { takeOverWriterLock } from '../hooks/useTabWriterLock';
+
+const ReadOnlyTabBanner: React.FC = () => {
+  const { t } = useAppTranslations();
+  const isReadOnlyTab = useMaestroStore(state => state.isReadOnlyTab);
+  if (!isReadOnlyTab) return null;
+
+  return (
+    <div
+      role="status"
+      className="fixed top-28 left-1/2 -translate-x-1/2 z-40 flex items-center gap-3 max-w-[90vw] px-4 py-2 rounded-full shadow-sm text-sm text-white bg-slate-700/95"
+    >
+      <span>{t('tabs.readOnly')}</span>
+      <button onClick={takeOverWriterLock} className="underline whitespace-nowrap">
+        {t('tabs.useHere')}
+      </button>
+    </div>
+  );
+};
+
+export default ReadOnlyTabBanner;
@@ -2,7 +2,7 @@
 import React, { useState, useEffect } from 'react';
 import { ReplySuggestion } from '../../../core/types';
 import { TranslationReplacements } from '../../../core/i18n/index';
-import { IconTranslate } from '../../../shared/ui/Icons';
+import { IconTranslate, IconXMark } from '../../../shared/ui/Icons';
 import { SmallSpinner } from '../../../shared/ui/SmallSpinner';
 import { useMaestroStore } from '../../../store';
 import { selectReplySuggestions } from '../../../store/slices/chatSlice';
@@ -28,6 +28,7 @@ const SuggestionsList: React.FC<SuggestionsListProps> = ({
   const isSpeaking = useMaestroStore(selectIsSpeaking);
   const settings = useMaestroStore(selectSettings);
   const isSuggestionMode = settings.isSuggestionMode;
+  const removeReplySuggestion = useMaestroStore(state => state.removeReplySuggestion);
   const microphoneApiAvailable = useMaestroStore(state => state.microphoneApiAvailable);
   const isSttSupported = microphoneApiAvailable;
 
@@ -97,8 +98,8 @@ const SuggestionsList: React.FC<SuggestionsListProps> = ({
               <span className="inline-block px-3 py-1.5 text-gray-500 italic" style={{ fontSize: '2.8cqw' }}>{t('chat.loadingSuggestions')}</span>
             )}
             {!isLoadingSuggestions && replySuggestions.map((suggestion, index) => (
+            <span key={index} className="relative inline-block group">
             <button
-                key={index}
                 onClick={(e) => { e.stopPropagation(); handleSuggestionBubbleClick(suggestion); }}
                 className={`inline-block px-3 py-1.5 rounded-full transition-colors text-gray-700 bg-gray-200 hover:bg-gray-300 ${doubleClickedSuggestionTarget === suggestion.target ? 'focus:outline-none focus:ring-2 focus:ring-sky-400' : 'focus:outline-none focus:ring-2 focus:ring-blue-400'}`}
                 style={{ fontSize: '3.1cqw' }}
@@ -108,6 +109,15 @@ const SuggestionsList: React.FC<SuggestionsListProps> = ({
             >
                 {suggestion.target}
             </button>
+            <button
+                onClick={(e) => { e.stopPropagation(); removeReplySuggestion(suggestion); }}
+                className="absolute -top-1.5 -right-1.5 hidden group-hover:flex group-focus-within:flex items-center justify-center w-4 h-4 rounded-full bg-gray-500 text-white hover:bg-gray-600"
+                title={t('chat.suggestion.remove')}
+                aria-label={t('chat.suggestion.remove')}
+            >
+                <IconXMark className="w-3 h-3" />
+            </button>
+            </span>
             ))}
             {!isLoadingSuggestions && isSttSupported && replySuggestions.length > 0 && (
                 <button
@@ -0,0 +1,54 @@
+// Copyright 2025 Roni Tervo
+//
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * UndoToast - Offers Undo right after a destructive action, Redo after an undo.
+ *
+ * Responsibilities:
+ * - Name the action that was just done or undone
+ * - Undo or redo it on click; hide after a few seconds
+ */
+import React, { useEffect } from 'react';
+import { useAppTranslations } from '../../../shared/hooks/useAppTranslations';
+import { IconXMark } from '../../../shared/ui/Icons';
+import { useMaestroStore } from '../../../store';
+
+const TOAST_DURATION_MS = 6000;
+
+const UndoToast: React.FC = () => {
+  const { t } = useAppTranslations();
+  const toast = useMaestroStore(state => state.undoToast);
+  const undo = useMaestroStore(state => state.undo);
+  const redo = useMaestroStore(state => state.redo);
+  const dismissUndoToast = useMaestroStore(state => state.dismissUndoToast);
+
+  useEffect(() => {
+    if (!toast) return;
+    const timer = window.setTimeout(dismissUndoToast, TOAST_DURATION_MS);
+    return () => window.clearTimeout(timer);
+  }, [toast, dismissUndoToast]);
+
+  if (!toast) return null;
+  const isUndone = toast.kind === 'undone';
+
+  return (
+    <div
+      role="status"
+      className="fixed bottom-28 left-1/2 -translate-x-1/2 z-40 flex items-center gap-3 max-w-[90vw] px-4 py-2 rounded-full shadow-md text-sm text-white bg-slate-800/95"
+    >
+      <span>{t(isUndone ? 'undo.toast.undone' : 'undo.toast.done', { action: t(toast.label) })}</span>
+      <button
+        onClick={() => { (isUndone ? redo : undo)(); }}
+        className="font-semibold text-sky-300 hover:text-sky-200 whitespace-nowrap"
+        title={t(isUndone ? 'undo.redoShortcut' : 'undo.undoShortcut')}
+      >
+        {t(isUndone ? 'undo.redo' : 'undo.undo')}
+      </button>
+      <button onClick={dismissUndoToast} className="text-slate-400 hover:text-white" aria-label={t('undo.dismiss')}>
+        <IconXMark className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
+
+export default UndoToast;
@@ -6,6 +6,7 @@ import { useMaestroStore } from '../../../../store';
 import { selectIsSending } from '../../../../store/slices/uiSlice';
 import { TOKEN_CATEGORY, TOKEN_SUBTYPE } from '../../../../core/config/activityTokens';
 import { parseLanguagePairId } from '../../../../shared/utils/languageUtils';
+import { claimTabResources } from '../../../../core/tabs/tabCoordination';
 
 interface AudioControlsProps {
   t: (key: string, replacements?: TranslationReplacements) => string;
@@ -59,6 +60,7 @@ const AudioControls: React.FC<AudioControlsProps> = ({
   const audioNoteChunksRef = useRef<BlobPart[]>([]);
   const audioNoteStreamRef = useRef<MediaStream | null>(null);
   const audioNoteTokenRef = useRef<string | null>(null);
+  const releaseMicClaimRef = useRef<(() => void) | null>(null);
   const micHoldTimerRef = useRef<number | null>(null);
   const micHoldActiveRef = useRef<boolean>(false);
 
@@ -70,7 +72,14 @@ const AudioControls: React.FC<AudioControlsProps> = ({
 
   const startAudioNoteRecording = useCallback(async () => {
     if (isRecordingAudioNote || isSttGloballyEnabled) return;
+    const releaseMicClaim = () => {
+      releaseMicClaimRef.current?.();
+      releaseMicClaimRef.current = null;
+    };
     try {
+      // Another tab of the app may be recording or running a live session.
+      releaseMicClaimRef.current = await claimTabResources(['mic']);
+
       // EXPLICIT PERMISSION REQUEST:
       // We request the stream and await it. If the user sees a prompt,
       // this await will pause execution until they Allow or Deny.
@@ -90,6 +99,7 @@ const AudioControls: React.FC<AudioControlsProps> = ({
         const chunks = audioNoteChunksRef.current;
         audioNoteChunksRef.current = [];
         if (audioNoteStreamRef.current) { try { audioNoteStreamRef.current.getTracks().forEach(t => t.stop()); } catch {} audioNoteStreamRef.current = null; }
+        releaseMicClaim();
         if (audioNoteTokenRef.current) {
           endUiTask(audioNoteTokenRef.current);
           audioNoteTokenRef.current = null;
@@ -103,6 +113,7 @@ const AudioControls: React.FC<AudioControlsProps> = ({
       rec.onerror = () => {
         try { audioNoteStreamRef.current?.getTracks()?.forEach(t => t.stop()); } catch {}
         audioNoteStreamRef.current = null;
+        releaseMicClaim();
         setIsRecordingAudioNote(false);
         if (audioNoteTokenRef.current) {
           endUiTask(audioNoteTokenRef.current);
@@ -116,7 +127,8 @@ const AudioControls: React.FC<AudioControlsProps> = ({
       setIsRecordingAudioNote(true);
     } catch (e) {
       console.error('Failed to start audio note recording:', e);
-      // User denied permission or system error
+      // User denied permission, the mic is busy in another tab, or system error
+      releaseMicClaim();
       setIsRecordingAudioNote(false);
       micHoldActiveRef.current = false;
     }
@@ -188,6 +200,8 @@ const AudioControls: React.FC<AudioControlsProps> = ({
         try { audioNoteStreamRef.current.getTracks().forEach(t => t.stop()); } catch {}
         audioNoteStreamRef.current = null;
       }
+      releaseMicClaimRef.current?.();
+      releaseMicClaimRef.current = null;
       // End UI token if still active
       if (audioNoteTokenRef.current) {
         endUiTask(audioNoteTokenRef.current);
@@ -18,6 +18,8 @@ interface CameraControlsProps {
   sendWithSnapshotEnabled: boolean;
   useVisualContextForReengagementEnabled: boolean;
   imageGenerationModeEnabled: boolean;
+  isImageGenerationAvailable: boolean;
+  imageGenerationUnavailableTitle: string;
   onSelectCamera: (deviceId: string) => void;
   onToggleSendWithSnapshot: () => void;
   onToggleUseVisualContextForReengagement: () => void;
@@ -39,6 +41,8 @@ const CameraControls: React.FC<CameraControlsProps> = ({
   sendWithSnapshotEnabled,
   useVisualContextForReengagementEnabled,
   imageGenerationModeEnabled,
+  isImageGenerationAvailable,
+  imageGenerationUnavailableTitle,
   onSelectCamera,
   onToggleSendWithSnapshot,
   onToggleUseVisualContextForReengagement,
@@ -95,8 +99,9 @@ const CameraControls: React.FC<CameraControlsProps> = ({
               <button
                 type="button"
                 onClick={onToggleImageGenerationMode}
-                className={`p-1.5 ml-1 rounded-full transition-colors ${imageGenerationModeEnabled ? (isSuggestionMode ? 'bg-white text-purple-700' : 'bg-white text-purple-700') : (isSuggestionMode ? 'text-gray-700 hover:bg-black/10' : 'text-blue-100 hover:bg-blue-400/80')}`}
-                title={t('chat.bookIcon.toggleImageGen')}
+                disabled={!isImageGenerationAvailable}
+                className={`p-1.5 ml-1 rounded-full transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${imageGenerationModeEnabled ? (isSuggestionMode ? 'bg-white text-purple-700' : 'bg-white text-purple-700') : (isSuggestionMode ? 'text-gray-700 hover:bg-black/10' : 'text-blue-100 hover:bg-blue-400/80')}`}
+                title={isImageGenerationAvailable ? t('chat.bookIcon.toggleImageGen') : imageGenerationUnavailableTitle}
               >
                 <IconBookOpen className="w-4 h-4" />
               </button>
@@ -17,6 +17,8 @@ interface MediaAttachmentsProps {
   liveVideoStream: MediaStream | null;
   liveSessionState: LiveSessionState;
   liveSessionError: string | null;
+  /** False when the model provider has no live audio; hides the start button. */
+  isLiveSessionAvailable: boolean;
   onStartLiveSession: () => Promise<void> | void;
   onStopLiveSession: () => void;
   onRemoveAttachment: () => void;
@@ -37,6 +39,7 @@ const MediaAttachments: React.FC<MediaAttachmentsProps> = ({
   liveVideoStream,
   liveSessionState,
   liveSessionError,
+  isLiveSessionAvailable,
   onStartLiveSession,
   onStopLiveSession,
   onRemoveAttachment,
@@ -303,13 +306,15 @@ const MediaAttachments: React.FC<MediaAttachmentsProps> = ({
               muted
               className="h-24 w-full object-cover rounded pointer-events-none"
             />
-            <LiveSessionControls
-              t={t}
-              liveSessionState={liveSessionState}
-              isSuggestionMode={isSuggestionMode}
-              onStartLiveSession={onStartLiveSession}
-              onStopLiveSession={onStopLiveSession}
-            />
+            {(isLiveSessionAvailable || liveSessionState !== 'idle') && (
+              <LiveSessionControls
+                t={t}
+                liveSessionState={liveSessionState}
+                isSuggestionMode={isSuggestionMode}
+                onStartLiveSession={onStartLiveSession}
+                onStopLiveSession={onStopLiveSession}
+              />
+            )}
             <div className="absolute inset-0 flex items-center justify-center bg-black/20 group-hover:bg-black/40 transition-colors">
               {liveSessionActive ? (
                 <div className="flex items-center gap-2 px-3 py-1 rounded-full bg-red-600/80 text-white uppercase text-xs font-semibold tracking-wide">
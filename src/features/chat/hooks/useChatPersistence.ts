@@ -3,31 +3,55 @@
 // SPDX-License-Identifier: Apache-2.0
 /**
  * useChatPersistence - Handles autosave and bookmark management.
+ * Also runs a one-off background pass that moves legacy inline media into the
+ * media store and collects unreferenced blobs.
+ * Skips all writes while another tab holds the writer lock of the pair.
  */
 
 import { useEffect } from 'react';
 import { shallow } from 'zustand/shallow';
-import { safeSaveChatHistoryDB, setChatMetaDB } from '../services/chatHistory';
+import { safeSaveChatHistoryDB, setChatMetaDB, compactInlineMediaDB } from '../services/chatHistory';
+import { collectMediaGarbageDB } from '../../../core/db/media';
+import { broadcastTabMessage } from '../../../core/tabs/tabCoordination';
 import { setAppSettingsDB } from '../../session/services/settings';
 import { isRealChatMessage } from '../../../shared/utils/common';
-import { subscribeToStore, useMaestroStore, MAX_VISIBLE_MESSAGES_DEFAULT } from '../../../store';
+import { subscribeToStore, useMaestroStore, MAX_VISIBLE_MESSAGES_DEFAULT, selectActiveThreadId } from '../../../store';
 import type { ChatMessage } from '../../../core/types';
 
+const MEDIA_MAINTENANCE_DELAY_MS = 5000;
+
 export const useChatPersistence = () => {
+  useEffect(() => {
+    // Deferred so it does not compete with the initial history load.
+    const timer = window.setTimeout(() => {
+      compactInlineMediaDB()
+        .then(() => collectMediaGarbageDB())
+        .catch(e => console.warn('Media store maintenance failed', e));
+    }, MEDIA_MAINTENANCE_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, []);
+
   useEffect(() => {
     const unsubscribe = subscribeToStore(
       (state) => ({
         messages: state.messages,
         selectedLanguagePairId: state.settings.selectedLanguagePairId,
+        activeThreadId: selectActiveThreadId(state),
         isLoadingHistory: state.isLoadingHistory,
         historyBookmarkMessageId: state.settings.historyBookmarkMessageId,
         maxVisibleMessages: state.settings.maxVisibleMessages,
       }),
       (current, previous) => {
         const pairId = current.selectedLanguagePairId;
+        const threadId = current.activeThreadId;
+
+        // Another tab writes this pair; its saves arrive here through `useTabWriterLock`.
+        if (useMaestroStore.getState().isReadOnlyTab) return;
 
-        if (pairId && !current.isLoadingHistory && current.messages !== previous?.messages) {
-          safeSaveChatHistoryDB(pairId, current.messages).catch(() => {});
+        if (threadId && !current.isLoadingHistory && current.messages !== previous?.messages) {
+          safeSaveChatHistoryDB(threadId, current.messages)
+            .then(saved => { if (saved && pairId) broadcastTabMessage({ type: 'history-saved', threadId, pairId }); })
+            .catch(() => {});
         }
 
         const shouldRecalc =
@@ -35,10 +59,11 @@ export const useChatPersistence = () => {
           current.historyBookmarkMessageId !== previous?.historyBookmarkMessageId ||
           current.maxVisibleMessages !== previous?.maxVisibleMessages ||
           current.isLoadingHistory !== previous?.isLoadingHistory ||
-          current.selectedLanguagePairId !== previous?.selectedLanguagePairId;
+          current.selectedLanguagePairId !== previous?.selectedLanguagePairId ||
+          current.activeThreadId !== previous?.activeThreadId;
 
         if (!shouldRecalc) return;
-        if (!pairId || current.isLoadingHistory) return;
+        if (!pairId || !threadId || current.isLoadingHistory) return;
 
         const arr = current.messages;
         if (!arr || arr.length === 0) return;
@@ -84,7 +109,7 @@ export const useChatPersistence = () => {
         const fullSettings = store.settings;
         const updatedSettings = { ...fullSettings, historyBookmarkMessageId: desiredBookmarkId };
         setAppSettingsDB(updatedSettings).catch(() => {});
-        setChatMetaDB(pairId, { bookmarkMessageId: desiredBookmarkId }).catch(() => {});
+        setChatMetaDB(threadId, { bookmarkMessageId: desiredBookmarkId }).catch(() => {});
       },
       {
         equalityFn: shallow,
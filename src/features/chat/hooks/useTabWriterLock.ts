@@ -0,0 +1,78 @@
+// Copyright 2025 Roni Tervo
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * useTabWriterLock - Lets only one tab write the chat history of a language pair.
+ *
+ * Responsibilities:
+ * - Hold the writer lock of the selected pair; tabs without it are read-only
+ *   (`isReadOnlyTab`) and wait in line for it
+ * - Follow the writing tab: re-read the open thread and thread list when it saves
+ * - `takeOverWriterLock` moves the lock to this tab ("Use here")
+ */
+
+import { useEffect } from 'react';
+import { getStoreState, useMaestroStore, selectActiveThreadId } from '../../../store';
+import { holdWriterLock, onTabMessage, type WriterLockHandle } from '../../../core/tabs/tabCoordination';
+
+const RELOAD_DEBOUNCE_MS = 300;
+
+let writerHandle: WriterLockHandle | null = null;
+let writerPairId: string | null = null;
+
+const onWriterChange = (pairId: string) => (isWriter: boolean) => {
+  if (writerPairId !== pairId) return;
+  const state = getStoreState();
+  if (!isWriter) {
+    state.setIsReadOnlyTab(true);
+    return;
+  }
+  if (!state.isReadOnlyTab) return;
+  // The previous writer may have saved since our last reload; catch up before writing.
+  state.reloadActiveThread().finally(() => {
+    if (writerPairId === pairId) getStoreState().setIsReadOnlyTab(false);
+  });
+};
+
+/** Takes the writer lock of the selected pair from whichever tab holds it. */
+export const takeOverWriterLock = () => {
+  if (!writerPairId) return;
+  writerHandle?.release();
+  writerHandle = holdWriterLock(writerPairId, onWriterChange(writerPairId), { steal: true });
+};
+
+export const useTabWriterLock = () => {
+  const isSettingsLoaded = useMaestroStore(state => state.isSettingsLoaded);
+  const pairId = useMaestroStore(state => state.settings.selectedLanguagePairId);
+
+  useEffect(() => {
+    if (!isSettingsLoaded || !pairId) return;
+    writerPairId = pairId;
+    writerHandle = holdWriterLock(pairId, onWriterChange(pairId));
+    return () => {
+      writerHandle?.release();
+      writerHandle = null;
+      writerPairId = null;
+    };
+  }, [isSettingsLoaded, pairId]);
+
+  useEffect(() => {
+    let reloadTimer = 0;
+    const unsubscribe = onTabMessage(message => {
+      const state = getStoreState();
+      if (message.pairId !== state.settings.selectedLanguagePairId) return;
+      if (message.type === 'threads-changed') {
+        state.loadThreadsForPair(message.pairId);
+        return;
+      }
+      if (!state.isReadOnlyTab || message.threadId !== selectActiveThreadId(state)) return;
+      window.clearTimeout(reloadTimer);
+      reloadTimer = window.setTimeout(() => { getStoreState().reloadActiveThread(); }, RELOAD_DEBOUNCE_MS);
+    });
+    return () => {
+      window.clearTimeout(reloadTimer);
+      unsubscribe();
+    };
+  }, []);
+};
+
+export default useTabWriterLock;
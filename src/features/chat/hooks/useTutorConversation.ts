@@ -22,14 +22,20 @@ import {
   RecordedUtterance 
 } from '../../../core/types';
 import { ApiError } from '../../../api/gemini/client';
-import { generateGeminiResponse, translateText } from '../../../api/gemini/generative';
 import { sanitizeHistoryWithVerifiedUris, uploadMediaToFiles, checkFileStatuses } from '../../../api/gemini/files';
-import { generateImage } from '../../../api/gemini/vision';
+import { getLlmProvider, providerSupports, isAbortError, type GenerateImageParams, type GenerateImageResult } from '../../../api/llm';
+import { getMediaDataUrlDB } from '../../../core/db/media';
 import { getGlobalProfileDB, setGlobalProfileDB, setAppSettingsDB } from '../../session';
 import { safeSaveChatHistoryDB, deriveHistoryForApi, INLINE_CAP_AUDIO } from '..';
+import {
+  REPLY_SUGGESTIONS_SCHEMA,
+  buildReplySuggestionsRepairPrompt,
+  parseReplySuggestionsResponse,
+} from '../services/replySuggestionsResponse';
+import { debugLogService } from '../../diagnostics';
 import { processMediaForUpload, createKeyframeFromVideoDataUrl } from '../../vision';
+import { recordTokenUsage } from '../../usage';
 import { 
-  DEFAULT_TEXT_MODEL_ID, 
   IMAGE_GEN_CAMERA_ID,
   MAX_MEDIA_TO_KEEP 
 } from '../../../core/config/app';
@@ -44,12 +50,27 @@ import { createSmartRef } from '../../../shared/utils/smartRef';
 import { getPrimarySubtag, getShortLangCodeForPrompt } from '../../../shared/utils/languageUtils';
 import type { TranslationFunction } from '../../../app/hooks/useTranslations';
 import { TOKEN_CATEGORY, TOKEN_SUBTYPE } from '../../../core/config/activityTokens';
-import { useMaestroStore } from '../../../store';
+import { useMaestroStore, selectExpensiveFeaturesBlocked } from '../../../store';
 import { useShallow } from 'zustand/shallow';
 import { selectIsSending, selectIsLoadingSuggestions, selectIsCreatingSuggestion, selectIsSpeaking } from '../../../store/slices/uiSlice';
-import { selectSelectedLanguagePair } from '../../../store/slices/settingsSlice';
+import { selectSelectedLanguagePair, selectActiveThreadId } from '../../../store/slices/settingsSlice';
 
-const AUX_TEXT_MODEL_ID = 'gemini-3-flash-preview';
+const currentLlmProvider = () => {
+  const { settings } = useMaestroStore.getState();
+  return getLlmProvider(settings.llm, settings.models);
+};
+
+// Uploaded-file references (Gemini Files API) are only usable by backends that read them.
+const supportsFileUris = () => providerSupports(useMaestroStore.getState().settings.llm, 'files');
+
+const generateImage = async (params: GenerateImageParams): Promise<GenerateImageResult> => {
+  const provider = currentLlmProvider();
+  if (!provider.generateImage) return { error: 'Image generation is not available with the selected model provider' };
+  if (selectExpensiveFeaturesBlocked(useMaestroStore.getState())) return { error: 'Image generation is off: the usage budget is exceeded' };
+  const result = await provider.generateImage(params);
+  if ('base64Image' in result) recordTokenUsage('image', result.model || '', result.usageMetadata);
+  return result;
+};
 
 export interface UseTutorConversationConfig {
   // Translation function
@@ -76,7 +97,7 @@ export interface UseTutorConversationConfig {
   startListening: (lang: string) => void;
   clearTranscript: () => void;
   hasPendingQueueItems: () => boolean;
-  claimRecordedUtterance: () => RecordedUtterance | null;
+  claimRecordedUtterance: () => Promise<RecordedUtterance | null>;
   
   // Re-engagement - using refs to allow late binding
   scheduleReengagementRef: React.MutableRefObject<(reason: string, delayOverrideMs?: number) => void>;
@@ -121,6 +142,8 @@ export interface UseTutorConversationReturn {
     messageType?: 'user' | 'conversational-reengagement' | 'image-reengagement'
   ) => Promise<boolean>;
   handleSendMessageInternalRef: React.MutableRefObject<any>;
+  /** Stops the reply being generated; lines already shown are kept. */
+  cancelSend: () => void;
   
   // Suggestion handlers
   fetchAndSetReplySuggestions: (assistantMessageId: string, lastTutorMessage: string, history: ChatMessage[]) => Promise<void>;
@@ -259,6 +282,7 @@ export const useTutorConversation = (config: UseTutorConversationConfig): UseTut
 
   // Refs
   const isSendingRef = useRef(false);
+  const sendAbortRef = useRef<AbortController | null>(null);
   const sendWithFileUploadInProgressRef = useRef(false);
   // maestroAvatarUriRef and maestroAvatarMimeTypeRef are now passed via config
   const handleSendMessageInternalRef = useRef<any>(null);
@@ -344,13 +368,14 @@ export const useTutorConversation = (config: UseTutorConversationConfig): UseTut
     arr: ChatMessage[], 
     onProgress?: (done: number, total: number, etaMs?: number) => void
   ): Promise<Record<string, { oldUri?: string; newUri: string }>> => {
+    if (!supportsFileUris()) return {};
     const candidates = computeHistorySubsetForMedia(arr);
 
     const mediaIndices: number[] = [];
     for (let i = 0; i < candidates.length; i++) {
       const m = candidates[i];
       const hasMedia = !!((m as any).storageOptimizedImageUrl && (m as any).storageOptimizedImageMimeType) || 
-                       !!(m.imageUrl && m.imageMimeType) || 
+                       !!((m.imageUrl || m.imageMediaId) && m.imageMimeType) || 
                        !!((m as any).uploadedFileUri && (m as any).uploadedFileMimeType);
       if (hasMedia) mediaIndices.push(i);
     }
@@ -381,7 +406,7 @@ export const useTutorConversation = (config: UseTutorConversationConfig): UseTut
       const uiMime0 = m0.imageMimeType as string | undefined;
       const cachedUri0 = (m0 as any).uploadedFileUri as string | undefined;
       const cachedMime0 = (m0 as any).uploadedFileMimeType as string | undefined;
-      const hasAnyMedia0 = !!((llmUrl0 && llmMime0) || (uiUrl0 && uiMime0));
+      const hasAnyMedia0 = !!((llmUrl0 && llmMime0) || ((uiUrl0 || m0.imageMediaId) && uiMime0));
       const missing = !(cachedUri0 && cachedMime0);
       const deleted = !!(cachedUri0 && cachedStatuses[cachedUri0]?.deleted);
       if ((missing || deleted) && hasAnyMedia0) totalToEnsure++;
@@ -406,7 +431,8 @@ export const useTutorConversation = (config: UseTutorConversationConfig): UseTut
       const llmMime = (m as any).storageOptimizedImageMimeType as string | undefined;
       const uiUrl = m.imageUrl as string | undefined;
       const uiMime = m.imageMimeType as string | undefined;
-      if (!(llmUrl && llmMime) && !(uiUrl && uiMime)) continue;
+      const mediaId = m.imageMediaId;
+      if (!(llmUrl && llmMime) && !((uiUrl || mediaId) && uiMime)) continue;
 
       const cachedUri = (m as any).uploadedFileUri as string | undefined;
       const cachedMime = (m as any).uploadedFileMimeType as string | undefined;
@@ -430,6 +456,10 @@ export const useTutorConversation = (config: UseTutorConversationConfig): UseTut
             const optimized = await processMediaForUpload(uiUrl, uiMime, { t });
             updateMessage(m.id, { storageOptimizedImageUrl: optimized.dataUrl, storageOptimizedImageMimeType: optimized.mimeType });
           } catch { /* optimization for storage is optional */ }
+        } else if (mediaId && uiMime) {
+          // Persisted reference whose blob was not hydrated into memory.
+          const resolved = await getMediaDataUrlDB(mediaId);
+          if (resolved) dataForUpload = { dataUrl: resolved, mimeType: uiMime };
         }
         if (dataForUpload) {
           const up = await uploadMediaToFiles(dataForUpload.dataUrl, dataForUpload.mimeType, 'send-history');
@@ -549,84 +579,76 @@ export const useTutorConversation = (config: UseTutorConversationConfig): UseTut
       .replace("{previous_chat_summary_placeholder}", previousChatSummary || "")
       .replace("{existing_global_profile_placeholder}", existingGlobalProfile || "(none)");
 
-    const MAX_RETRIES = 2;
-
-    for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
-      try {
-        const response = await generateGeminiResponse(
-          AUX_TEXT_MODEL_ID,
-          suggestionPrompt,
-          [],
-          undefined,
-          undefined,
-          undefined,
-          undefined,
-          false,
-          { responseMimeType: "application/json" }
-        );
-
-        let jsonStr = (response.text || '').trim();
-        const fenceRegex = /^```(\w*)?\s*\n?(.*?)\n?\s*```$/s;
-        const fenceMatch = jsonStr.match(fenceRegex);
-
-        if (fenceMatch && fenceMatch[2]) {
-          jsonStr = fenceMatch[2].trim();
-        } else {
-          const firstBrace = jsonStr.indexOf('{');
-          const lastBrace = jsonStr.lastIndexOf('}');
-          if (firstBrace !== -1 && lastBrace !== -1) {
-            jsonStr = jsonStr.substring(firstBrace, lastBrace + 1);
-          }
-        }
-
-        const parsedResponse = JSON.parse(jsonStr);
-
-        if (Array.isArray(parsedResponse.suggestions) &&
-          parsedResponse.suggestions.every((s: any) => typeof s === 'object' && s !== null && 'target' in s && 'native' in s && typeof s.target === 'string' && typeof s.native === 'string')) {
-          const suggestions = parsedResponse.suggestions as ReplySuggestion[];
-          setReplySuggestions(suggestions);
-          updateMessage(assistantMessageId, { replySuggestions: suggestions });
-          try { 
-            const pid = settingsRef.current.selectedLanguagePairId; 
-            if (pid) { await safeSaveChatHistoryDB(pid, messagesRef.current); } 
-          } catch {}
+    try {
+      const provider = currentLlmProvider();
+      const request = { task: 'aux' as const, prompt: suggestionPrompt, history: [], jsonSchema: REPLY_SUGGESTIONS_SCHEMA };
+      const response = await provider.generateText(request);
+      recordTokenUsage('suggestions', response.model || '', response.usageMetadata);
+      let result = parseReplySuggestionsResponse(response.text || '');
+
+      // One repair round: show the model its reply and what was wrong with it.
+      if (!result.ok) {
+        const firstIssues = result.issues;
+        console.warn('Reply suggestions failed validation, asking for a repair:', firstIssues);
+        const repair = await provider.generateText({
+          ...request,
+          prompt: buildReplySuggestionsRepairPrompt(firstIssues),
+          history: [
+            { role: 'user', text: suggestionPrompt },
+            { role: 'assistant', text: response.text || '' },
+          ],
+        });
+        recordTokenUsage('suggestions', repair.model || '', repair.usageMetadata);
+        const repaired = parseReplySuggestionsResponse(repair.text || '');
+        if (!repaired.ok) {
+          debugLogService.logError('replySuggestionsValidation', repair.model || response.model || '', {
+            firstIssues,
+            firstReply: response.text,
+            repairReply: repair.text,
+          }, { message: 'Reply suggestions failed validation after a repair retry', issues: repaired.issues });
+          // Keep whatever either reply got right rather than losing the summary and profile.
+          result = { ...repaired, partial: { ...result.partial, ...repaired.partial } };
         } else {
-          console.warn("Parsed suggestions not in expected format:", parsedResponse.suggestions);
-          setReplySuggestions([]);
+          result = repaired;
         }
+      }
 
-        if (typeof parsedResponse.reengagementSeconds === 'number' && parsedResponse.reengagementSeconds >= 5) {
-          handleReengagementThresholdChange(parsedResponse.reengagementSeconds);
-        }
+      const parsed = result.ok ? result.value : result.partial;
 
-        // Update chat summary on the message
-        const newChatSummary = typeof parsedResponse.chatSummary === 'string' ? parsedResponse.chatSummary.trim() : '';
-        if (newChatSummary) {
-          updateMessage(assistantMessageId, { chatSummary: newChatSummary });
-        }
+      if (parsed.suggestions) {
+        setReplySuggestions(parsed.suggestions);
+        updateMessage(assistantMessageId, { replySuggestions: parsed.suggestions });
+        try { 
+          const threadId = selectActiveThreadId(useMaestroStore.getState()); 
+          if (threadId) { await safeSaveChatHistoryDB(threadId, messagesRef.current); } 
+        } catch {}
+      } else {
+        setReplySuggestions([]);
+      }
 
-        // Update global profile directly from the single API response (no second API call needed)
-        try {
-          const newGlobalProfile = typeof parsedResponse.globalProfile === 'string' ? parsedResponse.globalProfile.trim().slice(0, 10000) : '';
-          if (newGlobalProfile) {
-            await setGlobalProfileDB(newGlobalProfile);
-            // Notify UI components that the global profile was updated
-            try { window.dispatchEvent(new CustomEvent('globalProfileUpdated')); } catch {}
-          }
-        } catch (e) {
-          console.warn('Failed to update global profile:', e);
-        }
+      if (parsed.reengagementSeconds !== undefined) {
+        handleReengagementThresholdChange(parsed.reengagementSeconds);
+      }
 
-        break;
+      // Update chat summary on the message
+      if (parsed.chatSummary) {
+        updateMessage(assistantMessageId, { chatSummary: parsed.chatSummary });
+      }
 
-      } catch (error) {
-        console.error(`Error fetching reply suggestions (attempt ${attempt + 1}/${MAX_RETRIES + 1}):`, error);
-        if (attempt < MAX_RETRIES) {
-          await new Promise(resolve => setTimeout(resolve, 500 * (attempt + 1)));
-        } else {
-          setReplySuggestions([]);
+      // Update global profile directly from the single API response (no second API call needed)
+      try {
+        if (parsed.globalProfile) {
+          await setGlobalProfileDB(parsed.globalProfile);
+          // Notify UI components that the global profile was updated
+          try { window.dispatchEvent(new CustomEvent('globalProfileUpdated')); } catch {}
         }
+      } catch (e) {
+        console.warn('Failed to update global profile:', e);
       }
+    } catch (error) {
+      // API failures were already retried by the request executor.
+      console.error('Error fetching reply suggestions:', error);
+      setReplySuggestions([]);
     }
 
     // Remove suggestions loading token
@@ -674,7 +696,8 @@ export const useTutorConversation = (config: UseTutorConversationConfig): UseTut
     }
 
     try {
-      const { translatedText } = await translateText(sanitized, fromLangName, toLangName);
+      const { translatedText, usageMetadata, model } = await currentLlmProvider().translate(sanitized, fromLangName, toLangName);
+      recordTokenUsage('other', model || '', usageMetadata);
       const newSuggestion: ReplySuggestion = {
         target: originalTextIsTarget ? sanitized : translatedText,
         native: originalTextIsTarget ? translatedText : sanitized,
@@ -787,7 +810,7 @@ export const useTutorConversation = (config: UseTutorConversationConfig): UseTut
     }
 
     for (let attempt = 0; attempt < 2; attempt++) {
-      const claimed = typeof claimRecordedUtterance === 'function' ? claimRecordedUtterance() : null;
+      const claimed = typeof claimRecordedUtterance === 'function' ? await claimRecordedUtterance() : null;
       if (claimed && typeof claimed.dataUrl === 'string' && claimed.dataUrl.length > 0) {
         recordedSpeechForMessage = claimed;
         recordedUtterancePendingRef.current = null;
@@ -832,8 +855,10 @@ export const useTutorConversation = (config: UseTutorConversationConfig): UseTut
             sendWithFileUploadInProgressRef.current = true;
           }
           updateMessage(kfId, { storageOptimizedImageUrl: kf.dataUrl, storageOptimizedImageMimeType: kf.mimeType });
-          const up = await uploadMediaToFiles(kf.dataUrl, kf.mimeType, 'keyframe-image');
-          updateMessage(kfId, { uploadedFileUri: up.uri, uploadedFileMimeType: up.mimeType });
+          if (supportsFileUris()) {
+            const up = await uploadMediaToFiles(kf.dataUrl, kf.mimeType, 'keyframe-image');
+            updateMessage(kfId, { uploadedFileUri: up.uri, uploadedFileMimeType: up.mimeType });
+          }
         } catch (e) {
           // Ignore upload errors for keyframe
         }
@@ -887,26 +912,61 @@ export const useTutorConversation = (config: UseTutorConversationConfig): UseTut
     updateMessage,
   ]);
 
+  // Pairs of a streamed reply that can no longer change: everything before the
+  // last line break, minus a trailing target line whose [XX] line may follow.
+  const parseCompletedStreamPairs = useCallback((partialText: string) => {
+    const lastBreak = partialText.lastIndexOf('\n');
+    if (lastBreak < 0) return [];
+    const pairs = parseGeminiResponse(partialText.slice(0, lastBreak));
+    const last = pairs[pairs.length - 1];
+    return last && !last.native ? pairs.slice(0, -1) : pairs;
+  }, [parseGeminiResponse]);
+
   const handleGeminiResponse = useCallback(async (params: {
     thinkingMessageId: string;
     geminiPromptText: string;
     sanitizedDerivedHistory: any[];
     systemInstructionForGemini: string;
+    imageForGeminiContextBase64?: string;
     imageForGeminiContextMimeType?: string;
     imageForGeminiContextFileUri?: string;
     currentSettingsVal: AppSettings;
+    signal: AbortSignal;
   }) => {
-    const response = await generateGeminiResponse(
-      DEFAULT_TEXT_MODEL_ID,
-      params.geminiPromptText,
-      params.sanitizedDerivedHistory,
-      params.systemInstructionForGemini,
-      undefined,
-      params.imageForGeminiContextMimeType,
-      params.imageForGeminiContextFileUri,
-      params.currentSettingsVal.enableGoogleSearch,
-      undefined
-    );
+    const provider = getLlmProvider(params.currentSettingsVal.llm, params.currentSettingsVal.models);
+    let shownPairCount = 0;
+    let spokenPairCount = 0;
+
+    // Completed lines go into the bubble (still `thinking`) and to TTS right away.
+    const onText = (partialText: string) => {
+      const completed = parseCompletedStreamPairs(partialText);
+      if (completed.length <= shownPairCount) return;
+      shownPairCount = completed.length;
+      updateMessage(params.thinkingMessageId, {
+        translations: completed,
+        rawAssistantResponse: partialText.slice(0, partialText.lastIndexOf('\n')),
+      });
+      const streamingMessage = messagesRef.current.find(m => m.id === params.thinkingMessageId);
+      if (streamingMessage) {
+        speakMessage({ ...streamingMessage, translations: completed.slice(spokenPairCount), rawAssistantResponse: undefined, text: undefined });
+        spokenPairCount = completed.length;
+      }
+    };
+
+    const response = await provider.streamText({
+      task: 'chat',
+      prompt: params.geminiPromptText,
+      history: params.sanitizedDerivedHistory,
+      systemInstruction: params.systemInstructionForGemini,
+      // Without file support the current image travels inline.
+      imageBase64: provider.capabilities.has('files') ? undefined : params.imageForGeminiContextBase64,
+      imageMimeType: params.imageForGeminiContextMimeType,
+      imageFileUri: params.imageForGeminiContextFileUri,
+      useGoogleSearch: params.currentSettingsVal.enableGoogleSearch && provider.capabilities.has('search'),
+      // One context cache per conversation thread.
+      cacheKey: selectActiveThreadId(useMaestroStore.getState()) || params.currentSettingsVal.selectedLanguagePairId || undefined,
+    }, { onText, signal: params.signal });
+    recordTokenUsage('response', response.model || '', response.usageMetadata);
 
     const accumulatedFullText = response.text || "";
     const parsedTranslationsOnComplete = parseGeminiResponse(accumulatedFullText);
@@ -923,8 +983,8 @@ export const useTutorConversation = (config: UseTutorConversationConfig): UseTut
     };
     updateMessage(params.thinkingMessageId, finalMessageUpdates);
 
-    return { accumulatedFullText, finalMessageUpdates };
-  }, [parseGeminiResponse, setLatestGroundingChunks, updateMessage]);
+    return { accumulatedFullText, finalMessageUpdates, spokenPairCount };
+  }, [parseGeminiResponse, parseCompletedStreamPairs, setLatestGroundingChunks, updateMessage, speakMessage, messagesRef]);
 
   const runUserImageGeneration = useCallback(async (params: {
     shouldGenerateUserImage: boolean;
@@ -936,6 +996,7 @@ export const useTutorConversation = (config: UseTutorConversationConfig): UseTut
     sanitizedDerivedHistory: any[];
   }) => {
     if (!params.shouldGenerateUserImage || !params.currentSettingsVal.sendWithSnapshotEnabled || params.messageType !== 'user' ||
+      !providerSupports(params.currentSettingsVal.llm, 'image') ||
       !params.userMessageText.trim() || !params.userMessageId || params.userImageToProcessBase64) {
       return {};
     }
@@ -949,22 +1010,16 @@ export const useTutorConversation = (config: UseTutorConversationConfig): UseTut
     });
 
     const sanitizedUserHistoryForImage = params.sanitizedDerivedHistory as any;
-    let finalResult: any = null;
-
-    for (let attempt = 0; attempt < 3; attempt++) {
-      const prompt = IMAGE_GEN_USER_PROMPT_TEMPLATE.replace("{TEXT}", params.userMessageText);
-      const userImgGenResult = await generateImage({
-        history: sanitizedUserHistoryForImage,
-        latestMessageText: prompt,
-        latestMessageRole: 'user',
-        systemInstruction: IMAGE_GEN_SYSTEM_INSTRUCTION,
-        maestroAvatarUri: maestroAvatarUriRef.current || undefined,
-        maestroAvatarMimeType: maestroAvatarMimeTypeRef.current || undefined,
-      });
-      finalResult = userImgGenResult;
-      if ('base64Image' in userImgGenResult) break;
-      if (attempt < 2) await new Promise(r => setTimeout(r, 1500));
-    }
+    // Retries (including empty replies) happen in the request executor.
+    const prompt = IMAGE_GEN_USER_PROMPT_TEMPLATE.replace("{TEXT}", params.userMessageText);
+    const finalResult: any = await generateImage({
+      history: sanitizedUserHistoryForImage,
+      latestMessageText: prompt,
+      latestMessageRole: 'user',
+      systemInstruction: IMAGE_GEN_SYSTEM_INSTRUCTION,
+      maestroAvatarUri: maestroAvatarUriRef.current || undefined,
+      maestroAvatarMimeType: maestroAvatarMimeTypeRef.current || undefined,
+    });
 
     if (finalResult && 'base64Image' in finalResult) {
       const duration = Date.now() - userImageGenStartTime;
@@ -1025,6 +1080,7 @@ export const useTutorConversation = (config: UseTutorConversationConfig): UseTut
     currentSettingsVal: AppSettings;
   }) => {
     if (!params.currentSettingsVal.imageGenerationModeEnabled || !params.accumulatedFullText.trim()) return;
+    if (!providerSupports(params.currentSettingsVal.llm, 'image')) return;
 
     const assistantStartTime = Date.now();
     updateMessage(params.thinkingMessageId, {
@@ -1050,74 +1106,69 @@ export const useTutorConversation = (config: UseTutorConversationConfig): UseTut
       await new Promise(r => setTimeout(r, 0));
     } catch { /* ignore */ }
 
-    for (let attempt = 0; attempt < 3; attempt++) {
-      const histForAssistantImgBase = historyForAssistantImageGen || getHistoryRespectingBookmark(messagesRef.current);
-      let gpTextForAssistant: string | undefined = undefined;
-      try {
-        const gp3 = await getGlobalProfileDB();
-        gpTextForAssistant = gp3?.text || undefined;
-      } catch {}
+    const histForAssistantImgBase = historyForAssistantImageGen || getHistoryRespectingBookmark(messagesRef.current);
+    let gpTextForAssistant: string | undefined = undefined;
+    try {
+      const gp3 = await getGlobalProfileDB();
+      gpTextForAssistant = gp3?.text || undefined;
+    } catch {}
+
+    const assistantHistory = deriveHistoryForApi(histForAssistantImgBase, {
+      maxMessages: computeMaxMessagesForArray(getHistoryRespectingBookmark(messagesRef.current).filter((m: ChatMessage) => m.role === 'user' || m.role === 'assistant')),
+      maxMediaToKeep: MAX_MEDIA_TO_KEEP,
+      contextSummary: resolveBookmarkContextSummary() || undefined,
+      globalProfileText: gpTextForAssistant,
+      placeholderLatestUserMessage: DEFAULT_IMAGE_GEN_EXTRA_USER_MESSAGE,
+    });
+    const sanitizedAssistantHistoryForImage = await sanitizeHistoryWithVerifiedUris(assistantHistory as any);
+
+    const prompt = IMAGE_GEN_USER_PROMPT_TEMPLATE.replace("{TEXT}", params.accumulatedFullText);
+    const assistantImgGenResult = await generateImage({
+      history: sanitizedAssistantHistoryForImage,
+      latestMessageText: prompt,
+      latestMessageRole: 'user',
+      systemInstruction: IMAGE_GEN_SYSTEM_INSTRUCTION,
+      maestroAvatarUri: maestroAvatarUriRef.current || undefined,
+      maestroAvatarMimeType: maestroAvatarMimeTypeRef.current || undefined,
+    });
 
-      const assistantHistory = deriveHistoryForApi(histForAssistantImgBase, {
-        maxMessages: computeMaxMessagesForArray(getHistoryRespectingBookmark(messagesRef.current).filter((m: ChatMessage) => m.role === 'user' || m.role === 'assistant')),
-        maxMediaToKeep: MAX_MEDIA_TO_KEEP,
-        contextSummary: resolveBookmarkContextSummary() || undefined,
-        globalProfileText: gpTextForAssistant,
-        placeholderLatestUserMessage: DEFAULT_IMAGE_GEN_EXTRA_USER_MESSAGE,
-      });
-      const sanitizedAssistantHistoryForImage = await sanitizeHistoryWithVerifiedUris(assistantHistory as any);
-
-      const prompt = IMAGE_GEN_USER_PROMPT_TEMPLATE.replace("{TEXT}", params.accumulatedFullText);
-      const assistantImgGenResult = await generateImage({
-        history: sanitizedAssistantHistoryForImage,
-        latestMessageText: prompt,
-        latestMessageRole: 'user',
-        systemInstruction: IMAGE_GEN_SYSTEM_INSTRUCTION,
-        maestroAvatarUri: maestroAvatarUriRef.current || undefined,
-        maestroAvatarMimeType: maestroAvatarMimeTypeRef.current || undefined,
-      });
+    if ('base64Image' in assistantImgGenResult) {
+      const duration = Date.now() - assistantStartTime;
+      addImageLoadDuration(duration);
+      try {
+        const { optimized, upload } = await optimizeAndUploadMedia({
+          dataUrl: assistantImgGenResult.base64Image as string,
+          mimeType: assistantImgGenResult.mimeType as string,
+          displayName: 'assistant-generated',
+          setUploadPrepLabel: false,
+        });
 
-      if ('base64Image' in assistantImgGenResult) {
-        const duration = Date.now() - assistantStartTime;
-        addImageLoadDuration(duration);
-        try {
-          const { optimized, upload } = await optimizeAndUploadMedia({
-            dataUrl: assistantImgGenResult.base64Image as string,
-            mimeType: assistantImgGenResult.mimeType as string,
-            displayName: 'assistant-generated',
-            setUploadPrepLabel: false,
-          });
-
-          updateMessage(params.thinkingMessageId, {
-            imageUrl: assistantImgGenResult.base64Image,
-            imageMimeType: assistantImgGenResult.mimeType,
-            storageOptimizedImageUrl: optimized.dataUrl,
-            storageOptimizedImageMimeType: optimized.mimeType,
-            uploadedFileUri: upload.uri,
-            uploadedFileMimeType: upload.mimeType,
-            isGeneratingImage: false,
-            imageGenError: null,
-            imageGenerationStartTime: undefined
-          });
-        } catch (e) {
-          updateMessage(params.thinkingMessageId, {
-            imageUrl: assistantImgGenResult.base64Image,
-            imageMimeType: assistantImgGenResult.mimeType,
-            isGeneratingImage: false,
-            imageGenError: null,
-            imageGenerationStartTime: undefined
-          });
-        }
-        break;
-      } else if (attempt < 2) {
-        await new Promise(r => setTimeout(r, 1500));
-      } else {
         updateMessage(params.thinkingMessageId, {
-          imageGenError: (assistantImgGenResult as any).error,
+          imageUrl: assistantImgGenResult.base64Image,
+          imageMimeType: assistantImgGenResult.mimeType,
+          storageOptimizedImageUrl: optimized.dataUrl,
+          storageOptimizedImageMimeType: optimized.mimeType,
+          uploadedFileUri: upload.uri,
+          uploadedFileMimeType: upload.mimeType,
           isGeneratingImage: false,
+          imageGenError: null,
+          imageGenerationStartTime: undefined
+        });
+      } catch (e) {
+        updateMessage(params.thinkingMessageId, {
+          imageUrl: assistantImgGenResult.base64Image,
+          imageMimeType: assistantImgGenResult.mimeType,
+          isGeneratingImage: false,
+          imageGenError: null,
           imageGenerationStartTime: undefined
         });
       }
+    } else {
+      updateMessage(params.thinkingMessageId, {
+        imageGenError: (assistantImgGenResult as any).error,
+        isGeneratingImage: false,
+        imageGenerationStartTime: undefined
+      });
     }
   }, [
     computeMaxMessagesForArray,
@@ -1144,6 +1195,8 @@ export const useTutorConversation = (config: UseTutorConversationConfig): UseTut
     messageType: 'user' | 'conversational-reengagement' | 'image-reengagement' = 'user'
   ): Promise<boolean> => {
     if (isLoadingHistoryRef.current) return false;
+    // Another tab writes this pair's history; a reply here would never be saved.
+    if (useMaestroStore.getState().isReadOnlyTab) return false;
     const sanitizedText = stripBracketedContent(text);
     if (!sanitizedText && !passedImageBase64 && messageType === 'user') return false;
     if (!selectedLanguagePairRef.current) {
@@ -1158,6 +1211,8 @@ export const useTutorConversation = (config: UseTutorConversationConfig): UseTut
 
     // Add sending token for unified busy state tracking (replaces setIsSending(true))
     sendingTokenRef.current = addActivityToken(TOKEN_CATEGORY.GEN, TOKEN_SUBTYPE.RESPONSE);
+    const sendAbort = new AbortController();
+    sendAbortRef.current = sendAbort;
     if (settingsRef.current.stt.enabled && isListening) {
       try { stopListening(); } catch { /* ignore */ }
       sttInterruptedBySendRef.current = true;
@@ -1284,7 +1339,7 @@ export const useTutorConversation = (config: UseTutorConversationConfig): UseTut
     }
 
     // Upload current image to Files API
-    if (imageForGeminiContextBase64 && imageForGeminiContextMimeType) {
+    if (imageForGeminiContextBase64 && imageForGeminiContextMimeType && supportsFileUris()) {
       try {
         if (!sendWithFileUploadInProgressRef.current) {
           sendWithFileUploadInProgressRef.current = true;
@@ -1370,7 +1425,9 @@ export const useTutorConversation = (config: UseTutorConversationConfig): UseTut
         contextSummary: resolveBookmarkContextSummary() || undefined,
         globalProfileText,
       });
-      const sanitizedDerivedHistory = await sanitizeHistoryWithVerifiedUris(derivedHistory as any);
+      const sanitizedDerivedHistory = supportsFileUris()
+        ? await sanitizeHistoryWithVerifiedUris(derivedHistory as any)
+        : derivedHistory;
 
       // User image generation for AI Camera mode
       const userImageContext = await runUserImageGeneration({
@@ -1387,14 +1444,16 @@ export const useTutorConversation = (config: UseTutorConversationConfig): UseTut
         imageForGeminiContextMimeType = userImageContext.imageForGeminiContextMimeType;
       }
 
-      const { accumulatedFullText, finalMessageUpdates } = await handleGeminiResponse({
+      const { accumulatedFullText, finalMessageUpdates, spokenPairCount } = await handleGeminiResponse({
         thinkingMessageId,
         geminiPromptText,
         sanitizedDerivedHistory,
         systemInstructionForGemini,
+        imageForGeminiContextBase64,
         imageForGeminiContextMimeType,
         imageForGeminiContextFileUri,
         currentSettingsVal,
+        signal: sendAbort.signal,
       });
 
       // Early suggestion fetch
@@ -1411,11 +1470,15 @@ export const useTutorConversation = (config: UseTutorConversationConfig): UseTut
         console.warn('Failed to prefetch suggestions before TTS:', e);
       }
 
-      // Speak the response
+      // Speak the response; lines completed during streaming are already queued
       const originalMessage = messagesRef.current.find(m => m.id === thinkingMessageId);
       if (originalMessage) {
         const finalMessageForSpeech = { ...originalMessage, ...finalMessageUpdates };
-        speakMessage(finalMessageForSpeech);
+        if (spokenPairCount === 0) {
+          speakMessage(finalMessageForSpeech);
+        } else if ((finalMessageUpdates.translations?.length || 0) > spokenPairCount) {
+          speakMessage({ ...finalMessageForSpeech, translations: finalMessageUpdates.translations!.slice(spokenPairCount) });
+        }
       }
 
       if (messageType === 'user') {
@@ -1437,6 +1500,7 @@ export const useTutorConversation = (config: UseTutorConversationConfig): UseTut
       try {
         sendWithFileUploadInProgressRef.current = false;
       } catch { /* ignore */ }
+      if (sendAbortRef.current === sendAbort) sendAbortRef.current = null;
       // Remove sending token (replaces setIsSending(false))
       if (sendingTokenRef.current) {
         removeActivityToken(sendingTokenRef.current);
@@ -1473,20 +1537,37 @@ export const useTutorConversation = (config: UseTutorConversationConfig): UseTut
       return true;
 
     } catch (error) {
-      console.error("Error sending message (stream consumer):", error);
+      const cancelled = isAbortError(error);
+      if (!cancelled) console.error("Error sending message (stream consumer):", error);
       let errorMessage = t('general.error');
       if (error instanceof ApiError) {
         errorMessage = error.message || error.code || `HTTP ${error.status}`;
       } else if (error instanceof Error) {
         errorMessage = error.message;
       }
-      updateMessage(thinkingMessageId, {
-        thinking: false, 
-        role: 'error', 
-        text: errorMessage, 
-        rawAssistantResponse: undefined, 
-        translations: undefined,
-      });
+      // Lines that streamed in before the stop or failure stay as the reply.
+      const streamedPairs = messagesRef.current.find(m => m.id === thinkingMessageId)?.translations || [];
+      if (streamedPairs.length > 0) {
+        updateMessage(thinkingMessageId, { thinking: false });
+        if (!cancelled) addMessage({ role: 'error', text: errorMessage });
+      } else if (cancelled) {
+        updateMessage(thinkingMessageId, {
+          thinking: false,
+          role: 'status',
+          text: t('chat.replyStopped'),
+          rawAssistantResponse: undefined,
+          translations: undefined,
+        });
+      } else {
+        updateMessage(thinkingMessageId, {
+          thinking: false, 
+          role: 'error', 
+          text: errorMessage, 
+          rawAssistantResponse: undefined, 
+          translations: undefined,
+        });
+      }
+      if (sendAbortRef.current === sendAbort) sendAbortRef.current = null;
       // Remove sending token on error (replaces setIsSending(false))
       if (sendingTokenRef.current) {
         removeActivityToken(sendingTokenRef.current);
@@ -1560,6 +1641,10 @@ export const useTutorConversation = (config: UseTutorConversationConfig): UseTut
     handleSendMessageInternalRef.current = handleSendMessageInternal;
   }, [handleSendMessageInternal]);
 
+  const cancelSend = useCallback(() => {
+    sendAbortRef.current?.abort();
+  }, []);
+
   return {
     isSending,
     isSendingRef,
@@ -1571,6 +1656,7 @@ export const useTutorConversation = (config: UseTutorConversationConfig): UseTut
     
     handleSendMessageInternal,
     handleSendMessageInternalRef,
+    cancelSend,
     
     fetchAndSetReplySuggestions,
     handleCreateSuggestion,
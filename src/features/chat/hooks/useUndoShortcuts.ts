@@ -0,0 +1,38 @@
+// Copyright 2025 Roni Tervo
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * useUndoShortcuts - Keyboard access to the undo stack.
+ *
+ * Responsibilities:
+ * - Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z and Ctrl+Y redo
+ * - Leave text fields alone so their own text undo keeps working
+ */
+
+import { useEffect } from 'react';
+import { getStoreState } from '../../../store';
+
+const isTextField = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT';
+};
+
+export const useUndoShortcuts = () => {
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isTextField(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z') {
+        e.preventDefault();
+        if (e.shiftKey) getStoreState().redo();
+        else getStoreState().undo();
+      } else if (key === 'y' && e.ctrlKey && !e.shiftKey) {
+        e.preventDefault();
+        getStoreState().redo();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+};
+
+export default useUndoShortcuts;
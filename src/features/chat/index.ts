@@ -16,18 +16,48 @@ export { default as InputArea } from './components/InputArea';
 export { default as SuggestionsList } from './components/SuggestionsList';
 export { default as BookmarkActions } from './components/BookmarkActions';
 export { default as TextScrollwheel } from './components/TextScrollwheel';
+export { default as ReadOnlyTabBanner } from './components/ReadOnlyTabBanner';
+export { default as UndoToast } from './components/UndoToast';
 
 // Services
 export { 
   getChatHistoryDB,
+  getChatHistoryPageDB,
+  getOlderChatHistoryDB,
+  HISTORY_PAGE_SIZE,
+  saveChatHistoryDB,
   safeSaveChatHistoryDB,
+  setHistoryWritesBlocked,
   getChatMetaDB,
   setChatMetaDB,
   getAllChatHistoriesDB,
+  getStoredThreadIdsDB,
+  countStoredMessagesByPairDB,
+  getStoredChatHistoryDB,
+  applyStoredMessageChangesDB,
+  scanStoredMessagesDB,
+  pruneStoredMessagesDB,
+  searchStoredMessagesDB,
+  type SearchTermQuery,
+  type StoredMessageHit,
+  STORAGE_WRITE_FAILED_EVENT,
   getAllChatMetasDB,
   clearAndSaveAllHistoriesDB,
   deriveHistoryForApi,
 } from './services/chatHistory';
+export {
+  getThreadsForPairDB,
+  getAllThreadsDB,
+  saveThreadDB,
+  deleteThreadDB,
+  createThreadId,
+  isDefaultThread,
+} from './services/chatThreads';
+export {
+  parseReplySuggestionsResponse,
+  type ReplySuggestionsResponse,
+  type ReplySuggestionsValidation,
+} from './services/replySuggestionsResponse';
 
 // Utils
 export {
@@ -41,3 +71,5 @@ export {
 export { useTutorConversation } from './hooks/useTutorConversation';
 export { useSuggestions } from './hooks/useSuggestions';
 export { useChatPersistence } from './hooks/useChatPersistence';
+export { useTabWriterLock, takeOverWriterLock } from './hooks/useTabWriterLock';
+export { useUndoShortcuts } from './hooks/useUndoShortcuts';
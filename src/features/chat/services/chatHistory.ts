@@ -1,107 +1,700 @@
-
-import { openDB, STORE_NAME, META_STORE, GLOBAL_PROFILE_STORE } from '../../../core/db/index';
-import { ChatMessage, ChatMeta, UserProfile } from '../../../core/types';
+import { openDB, MESSAGES_STORE, META_STORE, GLOBAL_PROFILE_STORE, THREADS_STORE, MEDIA_STORE, pairIdFromThreadId } from '../../../core/db/index';
+import {
+  addMediaRefDeltas,
+  applyMediaRefDeltas,
+  getMediaDataUrlsDB,
+  isMediaId,
+  prepareMediaFromDataUrl,
+  type MediaInput,
+} from '../../../core/db/media';
+import { ChatMessage, ChatMeta, ChatThread, UserProfile } from '../../../core/types';
+import { searchTermsOf } from '../../../core/db/searchTerms';
 import { sanitizeForPersistence } from '../utils/persistence';
 import { MAX_MEDIA_TO_KEEP } from '../../../core/config/app';
 
-export const getChatHistoryDB = async (pairId: string): Promise<ChatMessage[]> => {
-  const db = await openDB();
-  return new Promise((resolve, reject) => {
-    const transaction = db.transaction(STORE_NAME, "readonly");
-    const store = transaction.objectStore(STORE_NAME);
-    const request = store.get(pairId);
+export const HISTORY_PAGE_SIZE = 200;
+/** Window event fired when `safeSaveChatHistoryDB` gives up; detail: `{ threadId, error }`. */
+export const STORAGE_WRITE_FAILED_EVENT = 'maestro-storage-write-failed';
 
-    request.onerror = () => reject(new Error("Error fetching history from DB"));
-    request.onsuccess = () => {
-      resolve(request.result ? request.result.messages : []);
-    };
+interface StoredChatMessage {
+  id: string;
+  threadId: string;
+  pairId: string;
+  order: number;
+  timestamp: number;
+  /** Media store ids referenced by `message` (multiEntry index `mediaIds`). */
+  mediaIds?: string[];
+  /** Set while `message` still embeds data URLs (pre-v10 records or failed hashing). */
+  inlineMedia?: 1;
+  /** Full-text search terms of `message` (multiEntry index `searchTerms`). */
+  searchTerms?: string[];
+  message: ChatMessage;
+}
+
+export interface SearchTermQuery {
+  term: string;
+  /** Match every indexed term that starts with `term`. */
+  prefix: boolean;
+}
+
+export interface StoredMessageHit {
+  message: ChatMessage;
+  threadId: string;
+  pairId: string;
+  timestamp: number;
+}
+
+/** Records read per search; more matches are counted but not returned. */
+const MAX_SEARCH_CANDIDATES = 2000;
+
+// Per-thread view of what is already in the DB: the in-memory object last written
+// (or read) for each message id, its sort position and the media it references.
+// Saves only write messages whose object identity or position changed, and only
+// delete ids that were loaded.
+type PersistedIndex = Map<string, { ref: ChatMessage; order: number; mediaIds: string[] }>;
+const persistedByThread = new Map<string, PersistedIndex>();
+const writeChains = new Map<string, Promise<unknown>>();
+
+const MEDIA_COMPACTION_BATCH = 20;
+
+const mediaIdsOf = (message: ChatMessage): string[] =>
+  [message.imageMediaId, message.recordedUtterance?.mediaId].filter(isMediaId);
+
+// Replaces data URLs of a sanitized message with media ids. Payloads that cannot
+// be hashed stay inline and the record is flagged for a later compaction pass.
+const externalizeMedia = async (message: ChatMessage): Promise<{ message: ChatMessage; media: MediaInput[]; inline: boolean }> => {
+  const out: ChatMessage = { ...message };
+  const media: MediaInput[] = [];
+  let inline = false;
+  if (typeof out.imageUrl === 'string' && out.imageUrl) {
+    const input = await prepareMediaFromDataUrl(out.imageUrl, out.imageMimeType);
+    if (input) {
+      media.push(input);
+      out.imageMediaId = input.id;
+      delete out.imageUrl;
+    } else {
+      delete out.imageMediaId;
+      inline = out.imageUrl.startsWith('data:');
+    }
+  }
+  if (out.recordedUtterance?.dataUrl) {
+    const input = await prepareMediaFromDataUrl(out.recordedUtterance.dataUrl);
+    if (input) {
+      media.push(input);
+      out.recordedUtterance = { ...out.recordedUtterance, dataUrl: '', mediaId: input.id };
+    } else {
+      inline = true;
+    }
+  }
+  return { message: out, media, inline };
+};
+
+const toStoredRecord = async (
+  threadId: string,
+  message: ChatMessage,
+  order: number
+): Promise<{ record: StoredChatMessage; media: MediaInput[] }> => {
+  const { message: stored, media, inline } = await externalizeMedia(sanitizeForPersistence(message));
+  const record: StoredChatMessage = {
+    id: message.id,
+    threadId,
+    pairId: pairIdFromThreadId(threadId),
+    order,
+    timestamp: message.timestamp || 0,
+    mediaIds: mediaIdsOf(stored),
+    message: stored,
+  };
+  if (inline) record.inlineMedia = 1;
+  const searchTerms = searchTermsOf(stored);
+  if (searchTerms.length > 0) record.searchTerms = searchTerms;
+  return { record, media };
+};
+
+// Collects the blobs and +1 references of freshly prepared records.
+const collectMediaChanges = (prepared: Array<{ record: StoredChatMessage; media: MediaInput[] }>) => {
+  const deltas = new Map<string, number>();
+  const inputs = new Map<string, MediaInput>();
+  prepared.forEach(({ record, media }) => {
+    media.forEach(input => inputs.set(input.id, input));
+    addMediaRefDeltas(deltas, record.mediaIds, 1);
+  });
+  return { deltas, inputs };
+};
+
+/** Resolves media ids back into data URLs so in-memory messages stay self-contained. */
+const hydrateMessages = async (records: StoredChatMessage[]): Promise<ChatMessage[]> => {
+  const ids = records.flatMap(rec => rec.mediaIds || []);
+  if (ids.length === 0) return records.map(rec => rec.message);
+  let urls = new Map<string, string>();
+  try {
+    urls = await getMediaDataUrlsDB(ids);
+  } catch (e) {
+    console.warn('Failed to resolve message media', e);
+  }
+  return records.map(rec => {
+    if (!rec.mediaIds?.length) return rec.message;
+    const message: ChatMessage = { ...rec.message };
+    const image = message.imageMediaId ? urls.get(message.imageMediaId) : undefined;
+    if (image) message.imageUrl = image;
+    const recording = message.recordedUtterance?.mediaId ? urls.get(message.recordedUtterance.mediaId) : undefined;
+    if (recording && message.recordedUtterance) message.recordedUtterance = { ...message.recordedUtterance, dataUrl: recording };
+    return message;
   });
 };
 
-export const saveChatHistoryDB = async (pairId: string, messages: ChatMessage[]): Promise<void> => {
-  if (!pairId) return;
-  const messagesToSave = messages
-    .filter(msg => msg.role !== 'system_selection')
-    .map(sanitizeForPersistence);
+const rememberRecords = (threadId: string, records: StoredChatMessage[], messages: ChatMessage[], reset: boolean) => {
+  let index = persistedByThread.get(threadId);
+  if (!index || reset) {
+    index = new Map();
+    persistedByThread.set(threadId, index);
+  }
+  records.forEach((rec, i) => index!.set(rec.id, { ref: messages[i], order: rec.order, mediaIds: rec.mediaIds || [] }));
+};
+
+const loadRecords = async (threadId: string, records: StoredChatMessage[], reset: boolean): Promise<ChatMessage[]> => {
+  const messages = await hydrateMessages(records);
+  rememberRecords(threadId, records, messages, reset);
+  return messages;
+};
+
+export const forgetPersistedHistory = (threadId?: string) => {
+  if (threadId) persistedByThread.delete(threadId);
+  else persistedByThread.clear();
+};
+
+// Serializes writes per thread so each diff is computed against the previous write.
+const enqueueThreadWrite = <T>(threadId: string, task: () => Promise<T>): Promise<T> => {
+  const previous = writeChains.get(threadId) || Promise.resolve();
+  const next = previous.catch(() => {}).then(task);
+  writeChains.set(threadId, next);
+  const cleanup = () => { if (writeChains.get(threadId) === next) writeChains.delete(threadId); };
+  next.then(cleanup, cleanup);
+  return next;
+};
+
+const readThreadRecords = async (
+  threadId: string,
+  opts?: { limit?: number; beforeOrder?: number }
+): Promise<{ records: StoredChatMessage[]; hasMore: boolean }> => {
   const db = await openDB();
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction(STORE_NAME, "readwrite");
-    const store = transaction.objectStore(STORE_NAME);
-    const request = store.put({ pairId, messages: messagesToSave });
+    const tx = db.transaction(MESSAGES_STORE, 'readonly');
+    const index = tx.objectStore(MESSAGES_STORE).index('threadOrder');
+    const upper = typeof opts?.beforeOrder === 'number' ? opts.beforeOrder : Infinity;
+    const range = IDBKeyRange.bound([threadId, -Infinity], [threadId, upper], false, upper !== Infinity);
+    const limit = opts?.limit;
+    const out: StoredChatMessage[] = [];
+    let hasMore = false;
+    // Walk newest-first so a page is always the most recent slice before `beforeOrder`.
+    const cursorReq = index.openCursor(range, 'prev');
+    cursorReq.onerror = () => reject(new Error('Error fetching history from DB'));
+    cursorReq.onsuccess = () => {
+      const cursor = cursorReq.result;
+      if (!cursor) {
+        resolve({ records: out.reverse(), hasMore });
+        return;
+      }
+      if (typeof limit === 'number' && out.length >= limit) {
+        hasMore = true;
+        resolve({ records: out.reverse(), hasMore });
+        return;
+      }
+      out.push(cursor.value as StoredChatMessage);
+      cursor.continue();
+    };
+  });
+};
+
+export const getChatHistoryDB = async (threadId: string): Promise<ChatMessage[]> => {
+  const { records } = await readThreadRecords(threadId);
+  return loadRecords(threadId, records, true);
+};
+
+/** Loads the most recent page of a thread and resets its persisted index. */
+export const getChatHistoryPageDB = async (
+  threadId: string,
+  limit: number = HISTORY_PAGE_SIZE
+): Promise<{ messages: ChatMessage[]; hasMore: boolean }> => {
+  const { records, hasMore } = await readThreadRecords(threadId, { limit });
+  return { messages: await loadRecords(threadId, records, true), hasMore };
+};
+
+/** Loads the page preceding the oldest message loaded so far for the thread. */
+export const getOlderChatHistoryDB = async (
+  threadId: string,
+  limit: number = HISTORY_PAGE_SIZE
+): Promise<{ messages: ChatMessage[]; hasMore: boolean }> => {
+  const index = persistedByThread.get(threadId);
+  let oldest = Infinity;
+  index?.forEach(entry => { if (entry.order < oldest) oldest = entry.order; });
+  if (!index || oldest === Infinity) return { messages: [], hasMore: false };
+  const { records, hasMore } = await readThreadRecords(threadId, { limit, beforeOrder: oldest });
+  return { messages: await loadRecords(threadId, records, false), hasMore };
+};
+
+// Keeps stored positions of known messages and slots new ones between their neighbours,
+// so appends never renumber existing records.
+const assignOrders = (messages: ChatMessage[], index: PersistedIndex): number[] => {
+  const out: number[] = new Array(messages.length);
+  let prev = -Infinity;
+  for (let i = 0; i < messages.length; i++) {
+    const known = index.get(messages[i].id)?.order;
+    if (known !== undefined && known > prev) {
+      out[i] = known;
+      prev = known;
+      continue;
+    }
+    let next: number | undefined;
+    for (let j = i + 1; j < messages.length; j++) {
+      const o = index.get(messages[j].id)?.order;
+      if (o !== undefined && o > prev) { next = o; break; }
+    }
+    let value: number;
+    if (prev === -Infinity) value = next !== undefined ? next - 1 : 0;
+    else value = next !== undefined ? (prev + next) / 2 : prev + 1;
+    out[i] = value;
+    prev = value;
+  }
+  return out;
+};
+
+const writeHistoryDiff = async (threadId: string, messages: ChatMessage[]): Promise<void> => {
+  if (!persistedByThread.has(threadId)) {
+    // Never loaded in this session: learn existing positions so appends land after them.
+    const { records } = await readThreadRecords(threadId);
+    rememberRecords(threadId, records, records.map(rec => rec.message), true);
+  }
+  const index = persistedByThread.get(threadId)!;
+  const list = messages.filter(msg => msg.role !== 'system_selection');
+  const orders = assignOrders(list, index);
 
-    request.onerror = () => reject(new Error("Error saving history to DB"));
-    request.onsuccess = () => resolve();
+  const changed: Promise<{ record: StoredChatMessage; media: MediaInput[] }>[] = [];
+  const present = new Set<string>();
+  list.forEach((msg, i) => {
+    present.add(msg.id);
+    const known = index.get(msg.id);
+    if (!known || known.ref !== msg || known.order !== orders[i]) {
+      changed.push(toStoredRecord(threadId, msg, orders[i]));
+    }
+  });
+  const deletes: string[] = [];
+  index.forEach((_entry, id) => { if (!present.has(id)) deletes.push(id); });
+  if (changed.length === 0 && deletes.length === 0) return;
+
+  // Hash media before opening the transaction; awaiting crypto inside it would auto-commit it.
+  const puts = await Promise.all(changed);
+  const { deltas, inputs } = collectMediaChanges(puts);
+  puts.forEach(({ record }) => addMediaRefDeltas(deltas, index.get(record.id)?.mediaIds, -1));
+  deletes.forEach(id => addMediaRefDeltas(deltas, index.get(id)?.mediaIds, -1));
+
+  const db = await openDB();
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction([MESSAGES_STORE, MEDIA_STORE], 'readwrite');
+    const store = tx.objectStore(MESSAGES_STORE);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(new Error("Error saving history to DB"));
+    tx.onabort = () => reject(tx.error || new Error("History save aborted"));
+    puts.forEach(({ record }) => store.put(record));
+    deletes.forEach(id => store.delete(id));
+    applyMediaRefDeltas(tx.objectStore(MEDIA_STORE), deltas, inputs);
   });
+
+  const putMediaIds = new Map(puts.map(({ record }) => [record.id, record.mediaIds || []]));
+  list.forEach((msg, i) => index.set(msg.id, {
+    ref: msg,
+    order: orders[i],
+    mediaIds: putMediaIds.get(msg.id) ?? index.get(msg.id)?.mediaIds ?? [],
+  }));
+  deletes.forEach(id => index.delete(id));
+};
+
+export const saveChatHistoryDB = (threadId: string, messages: ChatMessage[]): Promise<void> => {
+  if (!threadId) return Promise.resolve();
+  return enqueueThreadWrite(threadId, () => writeHistoryDiff(threadId, messages));
+};
+
+// Set while another tab holds the writer lock; that tab's saves are the only ones.
+let historyWritesBlocked = false;
+
+/** Turns `safeSaveChatHistoryDB` into a no-op (read-only tab). */
+export const setHistoryWritesBlocked = (blocked: boolean) => {
+  historyWritesBlocked = blocked;
 };
 
-export const safeSaveChatHistoryDB = async (pairId: string, messages: ChatMessage[], retries = 1): Promise<boolean> => {
+/** Returns false without writing while writes are blocked. */
+export const safeSaveChatHistoryDB = async (threadId: string, messages: ChatMessage[], retries = 1): Promise<boolean> => {
+  if (historyWritesBlocked) return false;
   try {
-    await saveChatHistoryDB(pairId, messages);
+    await saveChatHistoryDB(threadId, messages);
     return true;
   } catch (e) {
     if (retries > 0) {
       await Promise.resolve();
-      return safeSaveChatHistoryDB(pairId, messages, retries - 1);
+      return safeSaveChatHistoryDB(threadId, messages, retries - 1);
     }
-    console.warn('IndexedDB save failed for pair:', pairId, e);
+    console.warn('IndexedDB save failed for thread:', threadId, e);
+    try {
+      window.dispatchEvent(new CustomEvent(STORAGE_WRITE_FAILED_EVENT, { detail: { threadId, error: e } }));
+    } catch { /* ignore */ }
     return false;
   }
 };
 
-export const getAllChatHistoriesDB = async (): Promise<Record<string, ChatMessage[]>> => {
-  const db = await openDB();
-  const tryGetAll = (): Promise<any[]> => new Promise((resolve, reject) => {
-    const transaction = db.transaction(STORE_NAME, "readonly");
-    const store = transaction.objectStore(STORE_NAME) as IDBObjectStore & { getAll?: () => IDBRequest<any[]> };
-    if (typeof store.getAll === 'function') {
-      const req = store.getAll!();
-      req.onsuccess = () => resolve(req.result || []);
-      req.onerror = () => reject(req.error || new Error("getAll() failed"));
-    } else {
-      reject(new Error('getAll not supported'));
+// Position for a message that is not stored yet: after the last record with an
+// earlier or equal timestamp, before the next one.
+const orderForTimestamp = (records: StoredChatMessage[], timestamp: number): number => {
+  let i = records.length;
+  while (i > 0 && records[i - 1].timestamp > timestamp) i--;
+  const prev = i > 0 ? records[i - 1].order : undefined;
+  const next = i < records.length ? records[i].order : undefined;
+  if (prev === undefined) return next !== undefined ? next - 1 : 0;
+  return next !== undefined ? (prev + next) / 2 : prev + 1;
+};
+
+/**
+ * Writes messages changed elsewhere (another device) into a thread, loaded or
+ * not. `upserts` are in stored form: media referenced by id, blobs already
+ * staged with `stageMediaDB`. Known messages keep their position; new ones are
+ * placed by timestamp. The open thread must be re-read afterwards, since its
+ * in-memory objects are now stale.
+ */
+export const applyStoredMessageChangesDB = (
+  threadId: string,
+  upserts: ChatMessage[],
+  deleteIds: string[]
+): Promise<void> => enqueueThreadWrite(threadId, async () => {
+  if (upserts.length === 0 && deleteIds.length === 0) return;
+  const { records } = await readThreadRecords(threadId);
+  const existing = new Map(records.map(rec => [rec.id, rec]));
+  const placed = records.filter(rec => !deleteIds.includes(rec.id));
+
+  const puts: Array<{ record: StoredChatMessage; media: MediaInput[] }> = [];
+  for (const message of [...upserts].sort((a, b) => (a.timestamp || 0) - (b.timestamp || 0))) {
+    const known = existing.get(message.id);
+    const order = known ? known.order : orderForTimestamp(placed, message.timestamp || 0);
+    const prepared = await toStoredRecord(threadId, message, order);
+    puts.push(prepared);
+    if (!known) {
+      const at = placed.findIndex(rec => rec.order > order);
+      placed.splice(at === -1 ? placed.length : at, 0, prepared.record);
     }
+  }
+  const deletes = deleteIds.filter(id => existing.has(id));
+  const { deltas, inputs } = collectMediaChanges(puts);
+  puts.forEach(({ record }) => addMediaRefDeltas(deltas, existing.get(record.id)?.mediaIds, -1));
+  deletes.forEach(id => addMediaRefDeltas(deltas, existing.get(id)?.mediaIds, -1));
+
+  const db = await openDB();
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction([MESSAGES_STORE, MEDIA_STORE], 'readwrite');
+    const store = tx.objectStore(MESSAGES_STORE);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(new Error('Error applying message changes to DB'));
+    tx.onabort = () => reject(tx.error || new Error('Message changes aborted'));
+    puts.forEach(({ record }) => store.put(record));
+    deletes.forEach(id => store.delete(id));
+    applyMediaRefDeltas(tx.objectStore(MEDIA_STORE), deltas, inputs);
   });
 
-  try {
-    const rows = await tryGetAll();
-    const allChats: Record<string, ChatMessage[]> = {};
-    rows.forEach((item: any) => { allChats[item.pairId] = item.messages; });
-    return allChats;
-  } catch (_) {
-    return await new Promise((resolve, reject) => {
-      const transaction = db.transaction(STORE_NAME, "readonly");
-      const store = transaction.objectStore(STORE_NAME);
-      const result: Record<string, ChatMessage[]> = {};
-      const cursorReq = store.openCursor();
-      cursorReq.onerror = () => reject(new Error("Error fetching all histories from DB"));
-      cursorReq.onsuccess = (ev) => {
-        const cursor = (ev.target as IDBRequest<IDBCursorWithValue>).result;
-        if (cursor) {
-          const val: any = cursor.value;
-          if (val && typeof val.pairId === 'string') {
-            result[val.pairId] = val.messages;
-          }
-          cursor.continue();
-        } else {
-          resolve(result);
-        }
+  const index = persistedByThread.get(threadId);
+  if (index) {
+    puts.forEach(({ record }) => index.set(record.id, { ref: record.message, order: record.order, mediaIds: record.mediaIds || [] }));
+    deletes.forEach(id => index.delete(id));
+  }
+});
+
+const compactThreadRecords = async (threadId: string, ids: string[]): Promise<number> => {
+  const db = await openDB();
+  let moved = 0;
+  for (let start = 0; start < ids.length; start += MEDIA_COMPACTION_BATCH) {
+    const batch = ids.slice(start, start + MEDIA_COMPACTION_BATCH);
+    const current = await new Promise<StoredChatMessage[]>((resolve, reject) => {
+      const tx = db.transaction(MESSAGES_STORE, 'readonly');
+      const store = tx.objectStore(MESSAGES_STORE);
+      const out: StoredChatMessage[] = [];
+      tx.oncomplete = () => resolve(out);
+      tx.onerror = () => reject(new Error('Error reading messages for media compaction'));
+      batch.forEach(id => {
+        const req = store.get(id);
+        req.onsuccess = () => { if (req.result?.inlineMedia) out.push(req.result as StoredChatMessage); };
+      });
+    });
+    const prepared = (await Promise.all(current.map(rec => toStoredRecord(threadId, rec.message, rec.order))))
+      .filter(({ record }) => !record.inlineMedia);
+    if (prepared.length === 0) continue;
+    const { deltas, inputs } = collectMediaChanges(prepared);
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction([MESSAGES_STORE, MEDIA_STORE], 'readwrite');
+      const store = tx.objectStore(MESSAGES_STORE);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(new Error('Error writing compacted messages'));
+      prepared.forEach(({ record }) => store.put(record));
+      applyMediaRefDeltas(tx.objectStore(MEDIA_STORE), deltas, inputs);
+    });
+    // In-memory refs keep their data URLs; only the referenced media ids changed.
+    const index = persistedByThread.get(threadId);
+    prepared.forEach(({ record }) => {
+      const entry = index?.get(record.id);
+      if (entry) entry.mediaIds = record.mediaIds || [];
+    });
+    moved += prepared.length;
+  }
+  return moved;
+};
+
+/**
+ * Moves data URLs still embedded in flagged records (written before the media
+ * store existed) into the media store. Returns the number of records rewritten.
+ */
+export const compactInlineMediaDB = async (): Promise<number> => {
+  const db = await openDB();
+  const byThread = await new Promise<Map<string, string[]>>((resolve, reject) => {
+    const tx = db.transaction(MESSAGES_STORE, 'readonly');
+    const out = new Map<string, string[]>();
+    const cursorReq = tx.objectStore(MESSAGES_STORE).index('inlineMedia').openCursor();
+    cursorReq.onerror = () => reject(new Error('Error listing messages with inline media'));
+    cursorReq.onsuccess = () => {
+      const cursor = cursorReq.result;
+      if (!cursor) { resolve(out); return; }
+      const rec = cursor.value as StoredChatMessage;
+      if (typeof rec.threadId === 'string') (out.get(rec.threadId) || out.set(rec.threadId, []).get(rec.threadId)!).push(rec.id);
+      cursor.continue();
+    };
+  });
+  let moved = 0;
+  for (const [threadId, ids] of byThread) {
+    moved += await enqueueThreadWrite(threadId, () => compactThreadRecords(threadId, ids));
+  }
+  return moved;
+};
+
+/**
+ * Visits every stored message (media still referenced by id) with its thread
+ * and pair. Read-only; used for storage accounting and sync.
+ */
+export const scanStoredMessagesDB = async (
+  visit: (message: ChatMessage, info: { threadId: string; pairId: string }) => void
+): Promise<void> => {
+  const db = await openDB();
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(MESSAGES_STORE, 'readonly');
+    const cursorReq = tx.objectStore(MESSAGES_STORE).openCursor();
+    cursorReq.onerror = () => reject(new Error('Error scanning stored messages'));
+    cursorReq.onsuccess = () => {
+      const cursor = cursorReq.result;
+      if (!cursor) { resolve(); return; }
+      const rec = cursor.value as StoredChatMessage;
+      if (rec?.message && typeof rec.threadId === 'string') {
+        visit(rec.message, { threadId: rec.threadId, pairId: rec.pairId || pairIdFromThreadId(rec.threadId) });
+      }
+      cursor.continue();
+    };
+  });
+};
+
+const pruneThreadRecords = async (
+  threadId: string,
+  prune: (message: ChatMessage) => ChatMessage | null
+): Promise<number> => {
+  const { records } = await readThreadRecords(threadId);
+  const updated: StoredChatMessage[] = [];
+  const deltas = new Map<string, number>();
+  records.forEach(rec => {
+    const next = prune(rec.message);
+    if (!next) return;
+    const mediaIds = mediaIdsOf(next);
+    addMediaRefDeltas(deltas, rec.mediaIds, -1);
+    addMediaRefDeltas(deltas, mediaIds, 1);
+    const searchTerms = searchTermsOf(next);
+    const { searchTerms: _previous, ...rest } = rec;
+    updated.push({ ...rest, mediaIds, message: next, ...(searchTerms.length > 0 ? { searchTerms } : {}) });
+  });
+  if (updated.length === 0) return 0;
+
+  const db = await openDB();
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction([MESSAGES_STORE, MEDIA_STORE], 'readwrite');
+    const store = tx.objectStore(MESSAGES_STORE);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(new Error('Error writing pruned messages'));
+    updated.forEach(rec => store.put(rec));
+    applyMediaRefDeltas(tx.objectStore(MEDIA_STORE), deltas, new Map());
+  });
+  // In-memory copies still hold the removed data; callers prune them too, and the
+  // next save of such a message then writes the same pruned content again.
+  const index = persistedByThread.get(threadId);
+  updated.forEach(rec => {
+    const entry = index?.get(rec.id);
+    if (entry) entry.mediaIds = rec.mediaIds || [];
+  });
+  return updated.length;
+};
+
+/**
+ * Rewrites stored messages of a thread in place. `prune` receives the stored
+ * form (media referenced by id, no data URLs) and returns a replacement, or
+ * null to keep the record. Media references that disappear are released.
+ * Returns the number of records rewritten.
+ */
+export const pruneStoredMessagesDB = (
+  threadId: string,
+  prune: (message: ChatMessage) => ChatMessage | null
+): Promise<number> => enqueueThreadWrite(threadId, () => pruneThreadRecords(threadId, prune));
+
+/**
+ * Stored messages whose search terms cover every query (see `core/db/searchTerms`),
+ * newest first, with the number of matches. At most MAX_SEARCH_CANDIDATES records
+ * are read; `truncated` tells that very common terms matched more than that.
+ * Media stays referenced by id.
+ */
+export const searchStoredMessagesDB = async (
+  queries: SearchTermQuery[],
+  opts?: { pairId?: string; limit?: number }
+): Promise<{ hits: StoredMessageHit[]; total: number; truncated: boolean }> => {
+  if (queries.length === 0) return { hits: [], total: 0, truncated: false };
+  const db = await openDB();
+  const records = await new Promise<{ records: StoredChatMessage[]; total: number }>((resolve, reject) => {
+    const tx = db.transaction(MESSAGES_STORE, 'readonly');
+    const store = tx.objectStore(MESSAGES_STORE);
+    const index = store.index('searchTerms');
+    const keySets: Array<Set<string>> = [];
+    const out: StoredChatMessage[] = [];
+    let total = 0;
+    tx.oncomplete = () => resolve({ records: out, total });
+    tx.onerror = () => reject(new Error('Error searching messages'));
+    const readMatches = () => {
+      const [smallest, ...others] = [...keySets].sort((a, b) => a.size - b.size);
+      const ids = Array.from(smallest).filter(id => others.every(set => set.has(id)));
+      total = ids.length;
+      ids.slice(0, MAX_SEARCH_CANDIDATES).forEach(id => {
+        const req = store.get(id);
+        req.onsuccess = () => { if (req.result) out.push(req.result as StoredChatMessage); };
+      });
+    };
+    queries.forEach(({ term, prefix }) => {
+      const range = prefix ? IDBKeyRange.bound(term, `${term}\uffff`) : IDBKeyRange.only(term);
+      const req = index.getAllKeys(range);
+      req.onsuccess = () => {
+        keySets.push(new Set((req.result as IDBValidKey[]).map(String)));
+        if (keySets.length === queries.length) readMatches();
       };
     });
+  });
+  const matches = records.records
+    .map(rec => ({
+      message: rec.message,
+      threadId: rec.threadId,
+      pairId: rec.pairId || pairIdFromThreadId(rec.threadId),
+      timestamp: rec.timestamp || rec.message.timestamp || 0,
+    }))
+    .filter(hit => !opts?.pairId || hit.pairId === opts.pairId)
+    .sort((a, b) => b.timestamp - a.timestamp);
+  return {
+    hits: matches.slice(0, opts?.limit ?? 50),
+    total: matches.length,
+    truncated: records.total > MAX_SEARCH_CANDIDATES,
+  };
+};
+
+/** Number of stored messages per language pair. Reads keys only. */
+export const countStoredMessagesByPairDB = async (): Promise<Record<string, number>> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(MESSAGES_STORE, 'readonly');
+    const counts: Record<string, number> = {};
+    const cursorReq = tx.objectStore(MESSAGES_STORE).index('threadId').openKeyCursor();
+    cursorReq.onerror = () => reject(new Error('Error counting stored messages'));
+    cursorReq.onsuccess = () => {
+      const cursor = cursorReq.result;
+      if (!cursor) { resolve(counts); return; }
+      const pairId = pairIdFromThreadId(String(cursor.key));
+      counts[pairId] = (counts[pairId] || 0) + 1;
+      cursor.continue();
+    };
+  });
+};
+
+/** Ids of every thread that has stored messages. */
+export const getStoredThreadIdsDB = async (): Promise<string[]> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(MESSAGES_STORE, 'readonly');
+    const out: string[] = [];
+    const cursorReq = tx.objectStore(MESSAGES_STORE).index('threadId').openKeyCursor(null, 'nextunique');
+    cursorReq.onerror = () => reject(new Error('Error listing stored threads'));
+    cursorReq.onsuccess = () => {
+      const cursor = cursorReq.result;
+      if (!cursor) { resolve(out); return; }
+      out.push(String(cursor.key));
+      cursor.continue();
+    };
+  });
+};
+
+/**
+ * Messages of a thread exactly as persisted: media stays referenced by id.
+ * Does not touch the save index, so it is safe for exports while the thread is open.
+ */
+export const getStoredChatHistoryDB = async (threadId: string): Promise<ChatMessage[]> => {
+  const { records } = await readThreadRecords(threadId);
+  return records.map(rec => rec.message);
+};
+
+export const getAllChatHistoriesDB = async (): Promise<Record<string, ChatMessage[]>> => {
+  const db = await openDB();
+  const grouped = await new Promise<Record<string, StoredChatMessage[]>>((resolve, reject) => {
+    const tx = db.transaction(MESSAGES_STORE, 'readonly');
+    const index = tx.objectStore(MESSAGES_STORE).index('threadOrder');
+    const result: Record<string, StoredChatMessage[]> = {};
+    const cursorReq = index.openCursor();
+    cursorReq.onerror = () => reject(new Error("Error fetching all histories from DB"));
+    cursorReq.onsuccess = () => {
+      const cursor = cursorReq.result;
+      if (cursor) {
+        const val = cursor.value as StoredChatMessage;
+        if (val && typeof val.threadId === 'string') {
+          (result[val.threadId] ||= []).push(val);
+        }
+        cursor.continue();
+      } else {
+        resolve(result);
+      }
+    };
+  });
+  const result: Record<string, ChatMessage[]> = {};
+  for (const threadId of Object.keys(grouped)) {
+    result[threadId] = await hydrateMessages(grouped[threadId]);
   }
+  return result;
 };
 
 export const clearAndSaveAllHistoriesDB = async (
   allChats: Record<string, ChatMessage[]>,
   allMetas?: Record<string, ChatMeta> | null,
   _userProfile?: UserProfile | null,
-  globalProfileText?: string | null
+  globalProfileText?: string | null,
+  allThreads?: ChatThread[] | null,
+  importedMedia?: MediaInput[] | null
 ): Promise<void> => {
+    const prepared: Array<{ record: StoredChatMessage; media: MediaInput[] }> = [];
+    for (const threadId in allChats) {
+        if (Object.prototype.hasOwnProperty.call(allChats, threadId)) {
+            const messagesToSave = (allChats[threadId] || []).filter(msg => msg && msg.role !== 'system_selection');
+            prepared.push(...await Promise.all(messagesToSave.map((msg, order) => toStoredRecord(threadId, msg, order))));
+        }
+    }
+    const { deltas, inputs } = collectMediaChanges(prepared);
+    // Messages from archives reference media by id; their blobs come alongside.
+    (importedMedia || []).forEach(input => { if (!inputs.has(input.id)) inputs.set(input.id, input); });
     const db = await openDB();
+    forgetPersistedHistory();
     return new Promise((resolve, reject) => {
-  const transaction = db.transaction([STORE_NAME, META_STORE, GLOBAL_PROFILE_STORE], "readwrite");
-  const store = transaction.objectStore(STORE_NAME);
+  const transaction = db.transaction([MESSAGES_STORE, META_STORE, GLOBAL_PROFILE_STORE, THREADS_STORE, MEDIA_STORE], "readwrite");
+  const store = transaction.objectStore(MESSAGES_STORE);
   const metaStore = transaction.objectStore(META_STORE);
   const profileStore = transaction.objectStore(GLOBAL_PROFILE_STORE);
+  const threadStore = transaction.objectStore(THREADS_STORE);
+  const mediaStore = transaction.objectStore(MEDIA_STORE);
 
         transaction.oncomplete = () => resolve();
         transaction.onerror = () => reject(new Error("Transaction error during bulk save"));
@@ -109,18 +702,18 @@ export const clearAndSaveAllHistoriesDB = async (
         const clearRequest = store.clear();
         const clearMetaReq = metaStore.clear();
   const clearProfileReq = profileStore.clear();
+  const clearThreadsReq = threadStore.clear();
+  const clearMediaReq = mediaStore.clear();
+        clearThreadsReq.onerror = () => reject(new Error("Error clearing thread store before bulk save"));
+        clearMediaReq.onerror = () => reject(new Error("Error clearing media store before bulk save"));
         clearRequest.onerror = () => reject(new Error("Error clearing store before bulk save"));
         clearMetaReq.onerror = () => reject(new Error("Error clearing meta store before bulk save"));
         clearProfileReq.onerror = () => reject(new Error("Error clearing profile store before bulk save"));
         clearMetaReq.onsuccess = () => {};
         clearProfileReq.onsuccess = () => {};
+        clearMediaReq.onsuccess = () => applyMediaRefDeltas(mediaStore, deltas, inputs);
         clearRequest.onsuccess = () => {
-          for (const pairId in allChats) {
-              if (Object.prototype.hasOwnProperty.call(allChats, pairId)) {
-                  const messagesToSave = allChats[pairId].filter(msg => msg.role !== 'system_selection');
-                  store.add({ pairId, messages: messagesToSave });
-              }
-          }
+          prepared.forEach(({ record }) => store.put(record));
           if (allMetas) {
             for (const pairId in allMetas) {
               if (Object.prototype.hasOwnProperty.call(allMetas, pairId)) {
@@ -128,6 +721,15 @@ export const clearAndSaveAllHistoriesDB = async (
               }
             }
           }
+          // Backups without thread records (version <= 7) only hold default threads,
+          // which are recreated on demand when a pair's threads are listed.
+          if (allThreads) {
+            for (const thread of allThreads) {
+              if (thread && typeof thread.id === 'string' && typeof thread.pairId === 'string') {
+                threadStore.put(thread);
+              }
+            }
+          }
           const text = (globalProfileText || '').trim();
           if (text) {
             try { profileStore.put({ key: 'singleton', text, updatedAt: Date.now(), fingerprint: '' }); } catch {}
@@ -136,12 +738,12 @@ export const clearAndSaveAllHistoriesDB = async (
     });
 };
 
-export const getChatMetaDB = async (pairId: string): Promise<ChatMeta | null> => {
+export const getChatMetaDB = async (threadId: string): Promise<ChatMeta | null> => {
   const db = await openDB();
   return new Promise((resolve, reject) => {
     const tx = db.transaction(META_STORE, 'readonly');
     const st = tx.objectStore(META_STORE);
-    const req = st.get(pairId);
+    const req = st.get(threadId);
     req.onerror = () => reject(new Error('Error fetching chat meta from DB'));
     req.onsuccess = () => resolve(req.result ? (req.result.meta as ChatMeta) : null);
   });
@@ -189,23 +791,35 @@ export const getAllChatMetasDB = async (): Promise<Record<string, ChatMeta>> =>
   }
 };
 
-export const setChatMetaDB = async (pairId: string, meta: ChatMeta | null): Promise<void> => {
+/**
+ * Merges `meta` into the stored meta of the thread, or replaces it with
+ * `replace`; null deletes it.
+ */
+export const setChatMetaDB = async (
+  threadId: string,
+  meta: ChatMeta | null,
+  { replace = false }: { replace?: boolean } = {}
+): Promise<void> => {
   const db = await openDB();
   return new Promise((resolve, reject) => {
     const tx = db.transaction(META_STORE, 'readwrite');
     const st = tx.objectStore(META_STORE);
-    if (meta) {
-      const getReq = st.get(pairId);
+    if (meta && replace) {
+      const req = st.put({ pairId: threadId, meta });
+      req.onerror = () => reject(new Error('Error saving chat meta to DB'));
+      req.onsuccess = () => resolve();
+    } else if (meta) {
+      const getReq = st.get(threadId);
       getReq.onerror = () => reject(new Error('Error reading chat meta to merge'));
       getReq.onsuccess = () => {
         const existing = getReq.result?.meta || {};
         const merged = { ...existing, ...meta } as ChatMeta;
-        const req = st.put({ pairId, meta: merged });
+        const req = st.put({ pairId: threadId, meta: merged });
         req.onerror = () => reject(new Error('Error saving chat meta to DB'));
         req.onsuccess = () => resolve();
       };
     } else {
-      const req = st.delete(pairId);
+      const req = st.delete(threadId);
       req.onerror = () => reject(new Error('Error deleting chat meta from DB'));
       req.onsuccess = () => resolve();
     }
@@ -0,0 +1,112 @@
+// Copyright 2025 Roni Tervo
+//
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * chatThreads - IndexedDB persistence for named conversation threads.
+ *
+ * Each language pair owns one or more threads. The default thread reuses the
+ * pair id as its thread id, so it always exists implicitly and is materialized
+ * on first listing.
+ */
+
+import { openDB, THREADS_STORE, MESSAGES_STORE, META_STORE, MEDIA_STORE, THREAD_ID_SEPARATOR } from '../../../core/db/index';
+import { addMediaRefDeltas, applyMediaRefDeltas } from '../../../core/db/media';
+import { forgetPersistedHistory } from './chatHistory';
+import type { ChatThread } from '../../../core/types';
+
+export const isDefaultThread = (thread: Pick<ChatThread, 'id' | 'pairId'>): boolean => thread.id === thread.pairId;
+
+export const createThreadId = (pairId: string): string => `${pairId}${THREAD_ID_SEPARATOR}${crypto.randomUUID()}`;
+
+const buildDefaultThread = (pairId: string): ChatThread => {
+  const now = Date.now();
+  return { id: pairId, pairId, name: '', createdAt: now, updatedAt: now };
+};
+
+const sortThreads = (threads: ChatThread[]): ChatThread[] =>
+  [...threads].sort((a, b) => {
+    if (isDefaultThread(a) !== isDefaultThread(b)) return isDefaultThread(a) ? -1 : 1;
+    return a.createdAt - b.createdAt;
+  });
+
+export const getThreadsForPairDB = async (pairId: string): Promise<ChatThread[]> => {
+  const db = await openDB();
+  const rows: ChatThread[] = await new Promise((resolve, reject) => {
+    const tx = db.transaction(THREADS_STORE, 'readonly');
+    const index = tx.objectStore(THREADS_STORE).index('pairId');
+    const out: ChatThread[] = [];
+    const cursorReq = index.openCursor(IDBKeyRange.only(pairId));
+    cursorReq.onerror = () => reject(new Error('Error fetching threads from DB'));
+    cursorReq.onsuccess = () => {
+      const cursor = cursorReq.result;
+      if (cursor) {
+        out.push(cursor.value as ChatThread);
+        cursor.continue();
+      } else {
+        resolve(out);
+      }
+    };
+  });
+
+  if (!rows.some(isDefaultThread)) {
+    const defaultThread = buildDefaultThread(pairId);
+    await saveThreadDB(defaultThread);
+    rows.push(defaultThread);
+  }
+  return sortThreads(rows);
+};
+
+export const getAllThreadsDB = async (): Promise<ChatThread[]> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(THREADS_STORE, 'readonly');
+    const st = tx.objectStore(THREADS_STORE);
+    const out: ChatThread[] = [];
+    const cursorReq = st.openCursor();
+    cursorReq.onerror = () => reject(new Error('Error fetching all threads from DB'));
+    cursorReq.onsuccess = () => {
+      const cursor = cursorReq.result;
+      if (cursor) {
+        out.push(cursor.value as ChatThread);
+        cursor.continue();
+      } else {
+        resolve(out);
+      }
+    };
+  });
+};
+
+export const saveThreadDB = async (thread: ChatThread): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(THREADS_STORE, 'readwrite');
+    const req = tx.objectStore(THREADS_STORE).put(thread);
+    req.onerror = () => reject(new Error('Error saving thread to DB'));
+    req.onsuccess = () => resolve();
+  });
+};
+
+/** Removes a thread together with its messages and meta record. */
+export const deleteThreadDB = async (threadId: string): Promise<void> => {
+  const db = await openDB();
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction([THREADS_STORE, MESSAGES_STORE, META_STORE, MEDIA_STORE], 'readwrite');
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(new Error('Error deleting thread from DB'));
+    tx.objectStore(THREADS_STORE).delete(threadId);
+    tx.objectStore(META_STORE).delete(threadId);
+    const released = new Map<string, number>();
+    const cursorReq = tx.objectStore(MESSAGES_STORE).index('threadId').openCursor(IDBKeyRange.only(threadId));
+    cursorReq.onsuccess = () => {
+      const cursor = cursorReq.result;
+      if (cursor) {
+        addMediaRefDeltas(released, cursor.value?.mediaIds, -1);
+        cursor.delete();
+        cursor.continue();
+      } else {
+        applyMediaRefDeltas(tx.objectStore(MEDIA_STORE), released, new Map());
+      }
+    };
+  });
+  forgetPersistedHistory(threadId);
+};
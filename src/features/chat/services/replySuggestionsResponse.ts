@@ -0,0 +1,127 @@
+// Copyright 2025 Roni Tervo
+//
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * replySuggestionsResponse - Shape of the reply suggestions request's answer.
+ *
+ * One aux request returns the reply suggestions, the re-engagement delay, the
+ * updated chat summary and the updated global profile. The schema goes along
+ * with the request so the model answers in it; the validator checks what came
+ * back anyway, since smaller and local models do not always follow it, and
+ * keeps the fields that are fine when others are not.
+ */
+
+import type { JsonSchema } from '../../../api/llm';
+import type { ReplySuggestion } from '../../../core/types';
+
+export interface ReplySuggestionsResponse {
+  suggestions: ReplySuggestion[];
+  reengagementSeconds: number;
+  chatSummary: string;
+  globalProfile: string;
+}
+
+export type ReplySuggestionsValidation =
+  | { ok: true; value: ReplySuggestionsResponse }
+  | { ok: false; issues: string[]; partial: Partial<ReplySuggestionsResponse> };
+
+const MIN_REENGAGEMENT_SECONDS = 5;
+export const MAX_GLOBAL_PROFILE_LENGTH = 10000;
+
+export const REPLY_SUGGESTIONS_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    suggestions: {
+      type: 'array',
+      description: 'Replies the learner could send next.',
+      items: {
+        type: 'object',
+        properties: {
+          target: { type: 'string', description: 'The reply in the target language.' },
+          native: { type: 'string', description: 'Its translation into the native language.' },
+        },
+        required: ['target', 'native'],
+      },
+    },
+    reengagementSeconds: { type: 'integer', description: 'Seconds to give the learner before re-engaging.' },
+    chatSummary: { type: 'string', description: 'Cumulative summary of this chat.' },
+    globalProfile: { type: 'string', description: 'Updated cross-session learner profile.' },
+  },
+  required: ['suggestions', 'reengagementSeconds', 'chatSummary', 'globalProfile'],
+};
+
+/** Reads the JSON object out of `text`, tolerating code fences and chatter around it. */
+export const extractJsonObject = (text: string): unknown => {
+  let json = text.trim();
+  const fenceMatch = json.match(/^```(\w*)?\s*\n?(.*?)\n?\s*```$/s);
+  if (fenceMatch && fenceMatch[2]) {
+    json = fenceMatch[2].trim();
+  } else {
+    const firstBrace = json.indexOf('{');
+    const lastBrace = json.lastIndexOf('}');
+    if (firstBrace !== -1 && lastBrace !== -1) json = json.substring(firstBrace, lastBrace + 1);
+  }
+  return JSON.parse(json);
+};
+
+const isSuggestion = (s: unknown): s is ReplySuggestion =>
+  typeof s === 'object' && s !== null
+  && typeof (s as ReplySuggestion).target === 'string'
+  && typeof (s as ReplySuggestion).native === 'string';
+
+export const validateReplySuggestionsResponse = (data: unknown): ReplySuggestionsValidation => {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    return { ok: false, issues: ['reply is not a JSON object'], partial: {} };
+  }
+  const raw = data as Record<string, unknown>;
+  const issues: string[] = [];
+  const partial: Partial<ReplySuggestionsResponse> = {};
+
+  if (!Array.isArray(raw.suggestions)) {
+    issues.push('"suggestions" must be an array');
+  } else if (!raw.suggestions.every(isSuggestion)) {
+    issues.push('every item of "suggestions" must have string "target" and "native"');
+  } else {
+    partial.suggestions = raw.suggestions.map(s => ({ target: s.target, native: s.native }));
+  }
+
+  if (typeof raw.reengagementSeconds !== 'number' || !Number.isFinite(raw.reengagementSeconds)) {
+    issues.push('"reengagementSeconds" must be a number');
+  } else if (raw.reengagementSeconds < MIN_REENGAGEMENT_SECONDS) {
+    issues.push(`"reengagementSeconds" must be at least ${MIN_REENGAGEMENT_SECONDS}`);
+  } else {
+    partial.reengagementSeconds = Math.round(raw.reengagementSeconds);
+  }
+
+  if (typeof raw.chatSummary !== 'string' || !raw.chatSummary.trim()) {
+    issues.push('"chatSummary" must be a non-empty string');
+  } else {
+    partial.chatSummary = raw.chatSummary.trim();
+  }
+
+  if (typeof raw.globalProfile !== 'string' || !raw.globalProfile.trim()) {
+    issues.push('"globalProfile" must be a non-empty string');
+  } else {
+    partial.globalProfile = raw.globalProfile.trim().slice(0, MAX_GLOBAL_PROFILE_LENGTH);
+  }
+
+  return issues.length === 0
+    ? { ok: true, value: partial as ReplySuggestionsResponse }
+    : { ok: false, issues, partial };
+};
+
+/** Parses and validates the raw reply text; unparseable text is one issue. */
+export const parseReplySuggestionsResponse = (text: string): ReplySuggestionsValidation => {
+  let data: unknown;
+  try {
+    data = extractJsonObject(text);
+  } catch (e) {
+    return { ok: false, issues: [`reply is not valid JSON: ${(e as Error)?.message || e}`], partial: {} };
+  }
+  return validateReplySuggestionsResponse(data);
+};
+
+/** Follow-up prompt asking the model to fix its previous, invalid reply. */
+export const buildReplySuggestionsRepairPrompt = (issues: string[]): string =>
+  `Your previous reply did not match the required JSON format:\n${issues.map(issue => `- ${issue}`).join('\n')}\n\n`
+  + 'Reply again with only the corrected JSON object with the keys "suggestions", "reengagementSeconds", "chatSummary" and "globalProfile". Keep the content of your previous reply where it was valid.';
@@ -82,6 +82,7 @@ export const sanitizeForPersistence = (m: ChatMessage): ChatMessage => {
     if (out.imageUrl.length > cap) {
       out.imageUrl = undefined;
       out.imageMimeType = undefined;
+      delete out.imageMediaId;
     }
   }
 
@@ -111,13 +112,15 @@ export const sanitizeForPersistence = (m: ChatMessage): ChatMessage => {
 
   if (out.recordedUtterance) {
     const audio = typeof out.recordedUtterance.dataUrl === 'string' ? out.recordedUtterance.dataUrl : '';
-    if (!audio || audio.length > INLINE_CAP_AUDIO) {
+    const mediaId = out.recordedUtterance.mediaId;
+    if ((!audio && !mediaId) || audio.length > INLINE_CAP_AUDIO) {
       delete out.recordedUtterance;
     } else {
       const rawProvider = out.recordedUtterance.provider as string;
       const provider: SttProvider = (rawProvider === 'gemini') ? 'gemini' : 'browser';
       out.recordedUtterance = {
         dataUrl: audio,
+        mediaId,
         provider,
         langCode: out.recordedUtterance.langCode,
         transcript: out.recordedUtterance.transcript,
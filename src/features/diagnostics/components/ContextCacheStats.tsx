@@ -0,0 +1,138 @@
+// Copyright 2025 Roni Tervo
+//
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * ContextCacheStats - Context caching switch and its effect, in the traffic log.
+ *
+ * Responsibilities:
+ * - Turn context caching on and off
+ * - List the live caches with their size and expiry
+ * - Compare recent cached and uncached chat replies: time to first chunk,
+ *   prompt tokens and estimated input cost
+ */
+import React, { useEffect, useState } from 'react';
+import {
+  clearContextCacheSamples,
+  getContextCaches,
+  getContextCacheSamples,
+  isContextCacheEnabled,
+  setContextCacheEnabled,
+  subscribeContextCache,
+  type ContextCacheSample,
+} from '../../../api/gemini/contextCache';
+import { CACHE_STORAGE_PER_MILLION_HOURLY, estimateCostUsd, formatTokens } from '../../usage';
+
+interface Comparison {
+  requests: number;
+  setupMs: number;
+  firstChunkMs: number | null;
+  promptTokens: number;
+  cachedTokens: number;
+  inputCostUsd: number;
+  uncachedCostUsd: number;
+}
+
+const average = (values: number[]) => (values.length ? values.reduce((a, b) => a + b, 0) / values.length : null);
+
+const compare = (samples: ContextCacheSample[]): Comparison => ({
+  requests: samples.length,
+  setupMs: average(samples.map(s => s.setupMs)) ?? 0,
+  firstChunkMs: average(samples.flatMap(s => (s.firstChunkMs === null ? [] : [s.firstChunkMs]))),
+  promptTokens: average(samples.map(s => s.promptTokens)) ?? 0,
+  cachedTokens: average(samples.map(s => s.cachedTokens)) ?? 0,
+  inputCostUsd: average(samples.map(s => estimateCostUsd(s.model, s.promptTokens, 0, s.cachedTokens))) ?? 0,
+  uncachedCostUsd: average(samples.map(s => estimateCostUsd(s.model, s.promptTokens, 0))) ?? 0,
+});
+
+// Per-request input costs are fractions of a cent.
+const formatCost = (value: number) => `$${value.toFixed(5)}`;
+
+const formatMs = (value: number | null) => (value === null ? '–' : `${Math.round(value)}ms`);
+
+const ContextCacheStats: React.FC = () => {
+  const [, setVersion] = useState(0);
+  const [now, setNow] = useState(Date.now);
+
+  useEffect(() => subscribeContextCache(() => setVersion(v => v + 1)), []);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 10_000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const enabled = isContextCacheEnabled();
+  const caches = getContextCaches();
+  const samples = getContextCacheSamples();
+  const cached = compare(samples.filter(s => s.cached));
+  const uncached = compare(samples.filter(s => !s.cached));
+  const storagePerHour = caches.reduce((sum, c) => sum + c.tokenCount, 0) * CACHE_STORAGE_PER_MILLION_HOURLY / 1_000_000;
+
+  const rows: { label: string; value: (c: Comparison) => string }[] = [
+    { label: 'Replies', value: c => String(c.requests) },
+    { label: 'Cache setup', value: c => formatMs(c.setupMs) },
+    { label: 'First chunk', value: c => formatMs(c.firstChunkMs) },
+    { label: 'Prompt tokens', value: c => formatTokens(Math.round(c.promptTokens)) },
+    { label: 'From cache', value: c => formatTokens(Math.round(c.cachedTokens)) },
+    { label: 'Input cost', value: c => formatCost(c.inputCostUsd) },
+  ];
+
+  return (
+    <div className="px-4 py-2 bg-slate-800/60 border-b border-slate-700 text-xs text-slate-300 space-y-2">
+      <div className="flex items-center gap-2">
+        <label className="flex items-center gap-1.5 text-slate-400">
+          <input type="checkbox" checked={enabled} onChange={e => setContextCacheEnabled(e.target.checked)} />
+          Context cache
+        </label>
+        <span className="truncate text-slate-500">
+          {caches.length
+            ? `${caches.length} live, ~${formatCost(storagePerHour)}/h storage`
+            : 'none live'}
+        </span>
+        {samples.length > 0 && (
+          <button onClick={clearContextCacheSamples} className="ml-auto px-2 py-0.5 rounded bg-slate-700 hover:bg-slate-600">
+            Reset stats
+          </button>
+        )}
+      </div>
+
+      {caches.map(c => (
+        <div key={c.key} className="flex gap-2 text-slate-500">
+          <span className="truncate">{c.key}</span>
+          <span className="ml-auto whitespace-nowrap">
+            {formatTokens(c.tokenCount)} tokens, {c.cachedContents} turns, {Math.max(0, Math.round((c.expiresAt - now) / 1000))}s left
+          </span>
+        </div>
+      ))}
+
+      {samples.length > 0 && (
+        <table className="w-full text-right">
+          <thead>
+            <tr className="text-slate-500">
+              <th className="text-left font-normal" />
+              <th className="font-normal">Cached</th>
+              <th className="font-normal">Uncached</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr key={row.label}>
+                <td className="text-left text-slate-400">{row.label}</td>
+                <td>{cached.requests ? row.value(cached) : '–'}</td>
+                <td>{uncached.requests ? row.value(uncached) : '–'}</td>
+              </tr>
+            ))}
+            {cached.requests > 0 && (
+              <tr>
+                <td className="text-left text-slate-400">Same, uncached</td>
+                <td>{formatCost(cached.uncachedCostUsd)}</td>
+                <td />
+              </tr>
+            )}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default ContextCacheStats;
@@ -2,6 +2,8 @@
 import React, { useState, useEffect } from 'react';
 import { debugLogService, LogEntry } from '../services/debugLogService';
 import { IconXMark, IconTrash } from '../../../shared/ui/Icons';
+import GeminiBackendControls from './GeminiBackendControls';
+import ContextCacheStats from './ContextCacheStats';
 
 interface DebugLogPanelProps {
   onClose: () => void;
@@ -50,6 +52,9 @@ const DebugLogPanel: React.FC<DebugLogPanelProps> = ({ onClose }) => {
         </div>
       </div>
 
+      <GeminiBackendControls />
+      <ContextCacheStats />
+
       {/* Log List */}
       <div className="flex-1 overflow-y-auto p-2 space-y-2 bg-slate-900">
         {logs.length === 0 && (
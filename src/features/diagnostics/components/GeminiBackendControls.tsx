@@ -0,0 +1,135 @@
+// Copyright 2025 Roni Tervo
+//
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * GeminiBackendControls - Switches the Gemini backend from the traffic log.
+ *
+ * Responsibilities:
+ * - Choose between the real API, the fixture fake and record mode
+ * - Load the fixture the fake replays
+ * - Download, reuse or clear what record mode captured
+ */
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  clearRecording,
+  getGeminiBackendMode,
+  getRecording,
+  loadActiveFixture,
+  parseGeminiFixture,
+  setActiveFixture,
+  setGeminiBackendMode,
+  subscribeRecording,
+  type GeminiBackendMode,
+  type GeminiFixture,
+} from '../../../api/gemini/fixtures';
+
+const MODES: { id: GeminiBackendMode; label: string }[] = [
+  { id: 'real', label: 'Real API' },
+  { id: 'fake', label: 'Fake (fixture)' },
+  { id: 'record', label: 'Record' },
+];
+
+const describe = (fixture: GeminiFixture) =>
+  `${fixture.generateContent.length} replies, ${fixture.files.length} files, ${fixture.live.length} live sessions`;
+
+const downloadJson = (value: unknown, filename: string) => {
+  const url = URL.createObjectURL(new Blob([JSON.stringify(value, null, 2)], { type: 'application/json' }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+const GeminiBackendControls: React.FC = () => {
+  const [mode, setMode] = useState<GeminiBackendMode>(getGeminiBackendMode);
+  const [fixture, setFixture] = useState<GeminiFixture | null>(null);
+  const [recording, setRecording] = useState<GeminiFixture>(getRecording);
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => subscribeRecording(next => setRecording({ ...next })), []);
+
+  useEffect(() => {
+    if (mode === 'fake') loadActiveFixture().then(setFixture).catch(() => {});
+  }, [mode]);
+
+  const handleModeChange = (next: GeminiBackendMode) => {
+    setGeminiBackendMode(next);
+    setMode(next);
+    setMessage(null);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const loaded = parseGeminiFixture(await file.text());
+      await setActiveFixture({ ...loaded, name: loaded.name || file.name });
+      setFixture(await loadActiveFixture());
+      setMessage(null);
+    } catch (e) {
+      setMessage(String((e as Error)?.message || e));
+    }
+  };
+
+  const handleUseRecording = async () => {
+    await setActiveFixture(JSON.parse(JSON.stringify(getRecording())));
+    handleModeChange('fake');
+  };
+
+  return (
+    <div className="px-4 py-2 bg-slate-800/60 border-b border-slate-700 text-xs text-slate-300 space-y-2">
+      <div className="flex items-center gap-2">
+        <span className="text-slate-400">Gemini backend</span>
+        <select
+          value={mode}
+          onChange={e => handleModeChange(e.target.value as GeminiBackendMode)}
+          className="bg-slate-900 border border-slate-600 rounded px-1.5 py-0.5 text-slate-200"
+        >
+          {MODES.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+        </select>
+      </div>
+
+      {mode === 'fake' && (
+        <div className="flex items-center gap-2">
+          <span className="truncate text-slate-400">
+            {fixture ? `${fixture.name || 'fixture'}: ${describe(fixture)}` : 'No fixture loaded'}
+          </span>
+          <button onClick={() => fileInputRef.current?.click()} className="ml-auto px-2 py-0.5 rounded bg-slate-700 hover:bg-slate-600">
+            Load fixture…
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={e => { handleFile(e.target.files?.[0]); e.target.value = ''; }}
+          />
+        </div>
+      )}
+
+      {mode === 'record' && (
+        <div className="flex items-center gap-2">
+          <span className="truncate text-slate-400">Recorded: {describe(recording)}</span>
+          <div className="ml-auto flex gap-1">
+            <button onClick={() => downloadJson(recording, 'gemini-fixture.json')} className="px-2 py-0.5 rounded bg-slate-700 hover:bg-slate-600">
+              Download
+            </button>
+            <button onClick={handleUseRecording} className="px-2 py-0.5 rounded bg-slate-700 hover:bg-slate-600">
+              Replay
+            </button>
+            <button onClick={clearRecording} className="px-2 py-0.5 rounded bg-slate-700 hover:bg-red-900">
+              Clear
+            </button>
+          </div>
+        </div>
+      )}
+
+      {message && <p className="text-red-400">{message}</p>}
+    </div>
+  );
+};
+
+export default GeminiBackendControls;
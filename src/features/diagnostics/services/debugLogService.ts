@@ -70,6 +70,11 @@ class DebugLogService {
     };
   }
 
+  /** Records a failure that has no request of its own, such as a reply that failed validation. */
+  public logError(type: string, model: string, details: any, errorPayload: any) {
+    this.logRequest(type, model, details).error(errorPayload);
+  }
+
   private updateEntry(id: string, updates: Partial<LogEntry>) {
     this.logs = this.logs.map(log => log.id === id ? { ...log, ...updates } : log);
     this.notify();
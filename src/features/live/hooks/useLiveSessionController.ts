@@ -18,13 +18,16 @@ import {
   ChatMessage, 
   AppSettings,
   RecordedUtterance,
-  TtsAudioCacheEntry 
 } from '../../../core/types';
-import { useGeminiLiveConversation, LiveSessionState, pcmToWav } from '../../speech';
+import { useGeminiLiveConversation, LiveSessionState } from '../../speech';
+import { encodePcm16ToDataUrl } from '../../../shared/utils/audioEncoding';
 import { sanitizeHistoryWithVerifiedUris, uploadMediaToFiles } from '../../../api/gemini/files';
 import { generateImage } from '../../../api/gemini/vision';
+import { modelChain } from '../../../api/llm';
+import { recordTokenUsage } from '../../usage';
 import { getGlobalProfileDB } from '../../session';
 import { deriveHistoryForApi, computeTtsCacheKey } from '../../chat';
+import { putTtsAudioDB } from '../../../core/db/ttsCache';
 import { processMediaForUpload } from '../../vision';
 import { MAX_MEDIA_TO_KEEP } from '../../../core/config/app';
 import { TOKEN_CATEGORY, TOKEN_SUBTYPE, type TokenCategory } from '../../../core/config/activityTokens';
@@ -52,7 +55,6 @@ export interface UseLiveSessionControllerConfig {
   getHistoryRespectingBookmark: (arr: ChatMessage[]) => ChatMessage[];
   computeMaxMessagesForArray: (arr: ChatMessage[]) => number | undefined;
   fetchAndSetReplySuggestions: (assistantMessageId: string, lastTutorMessage: string, history: ChatMessage[]) => Promise<void>;
-  upsertMessageTtsCache: (messageId: string, entry: TtsAudioCacheEntry) => void;
   
   // Hardware
   liveVideoStream: MediaStream | null;
@@ -112,7 +114,6 @@ export const useLiveSessionController = (config: UseLiveSessionControllerConfig)
     getHistoryRespectingBookmark,
     computeMaxMessagesForArray,
     fetchAndSetReplySuggestions,
-    upsertMessageTtsCache,
     liveVideoStream,
     setLiveVideoStream,
     visualContextVideoRef,
@@ -250,9 +251,8 @@ export const useLiveSessionController = (config: UseLiveSessionControllerConfig)
       // Save User Audio if available
       let recordedUtterance: RecordedUtterance | undefined = undefined;
       if (userAudioPcm && userAudioPcm.length > 0) {
-        const wavBase64 = pcmToWav(userAudioPcm, 16000);
         recordedUtterance = {
-          dataUrl: wavBase64,
+          dataUrl: await encodePcm16ToDataUrl(userAudioPcm, 16000),
           provider: 'gemini', // Using Gemini Live worklet capture
           langCode: settingsRef.current.stt.language,
           transcript: userText
@@ -401,14 +401,14 @@ export const useLiveSessionController = (config: UseLiveSessionControllerConfig)
                 const cleanedText = textEntry.text.trim();
                 const key = computeTtsCacheKey(cleanedText, textEntry.lang, 'gemini-live', voiceName);
                 console.debug(`[TTS Cache] STORE key=${key.substring(0, 20)}... text="${cleanedText.substring(0, 30)}..." voice=${voiceName}`);
-                upsertMessageTtsCache(assistantId, {
+                encodePcm16ToDataUrl(audioPcm, 24000).then(audioDataUrl => putTtsAudioDB({
                   key,
                   langCode: textEntry.lang,
                   provider: 'gemini-live',
-                  audioDataUrl: pcmToWav(audioPcm, 24000),
+                  audioDataUrl,
                   updatedAt: Date.now(),
                   voiceName,
-                });
+                })).catch(e => console.warn('[TTS Cache] Failed to store live audio:', e));
               }
             }
           }
@@ -478,8 +478,11 @@ export const useLiveSessionController = (config: UseLiveSessionControllerConfig)
         const prompt = IMAGE_GEN_USER_PROMPT_TEMPLATE.replace("{TEXT}", modelText);
         
         const sanitizedHistory = await sanitizeHistoryWithVerifiedUris(apiHistory as any);
+        const [imageModel, ...imageFallbacks] = modelChain(useMaestroStore.getState().settings.models, 'image');
 
         generateImage({
+          model: imageModel,
+          fallbackModels: imageFallbacks,
           history: sanitizedHistory,
           latestMessageText: prompt,
           latestMessageRole: 'user',
@@ -488,6 +491,7 @@ export const useLiveSessionController = (config: UseLiveSessionControllerConfig)
           maestroAvatarMimeType: maestroAvatarMimeTypeRef.current || undefined,
         }).then(async (res: any) => {
           if (res.base64Image) {
+            recordTokenUsage('image', res.model || '', res.usageMetadata);
             const optimized = await processMediaForUpload(res.base64Image, res.mimeType, { t });
             const up = await uploadMediaToFiles(res.base64Image, res.mimeType, 'live-gen');
             
@@ -518,7 +522,6 @@ export const useLiveSessionController = (config: UseLiveSessionControllerConfig)
     getHistoryRespectingBookmark, 
     computeHistorySubsetForMedia, 
     resolveBookmarkContextSummary, 
-    upsertMessageTtsCache, 
     computeMaxMessagesForArray, 
     updateMessage, 
     maestroAvatarUriRef,
@@ -0,0 +1,244 @@
+// Copyright 2025 Roni Tervo
+//
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * ModelsPanel - Chooses the backend that generates replies.
+ *
+ * Responsibilities:
+ * - Switch between Gemini and an OpenAI-compatible server (OpenAI, Ollama, llama.cpp)
+ * - Edit the server URL, model, key and whether images are sent along
+ * - Test the connection by listing the server's models
+ * - Say which features the chosen backend cannot provide
+ * - Choose the Gemini model and fallbacks per task
+ */
+import React, { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { IconXMark } from '../../../shared/ui/Icons';
+import { SmallSpinner } from '../../../shared/ui/SmallSpinner';
+import { useAppTranslations } from '../../../shared/hooks/useAppTranslations';
+import { useMaestroStore } from '../../../store';
+import { loadOpenAiCompatibleKey, setOpenAiCompatibleKey } from '../../../core/security/openAiCompatibleKey';
+import {
+  DEFAULT_MODEL_SETTINGS,
+  MODEL_TASKS,
+  providerSupports,
+  resolveLlmSettings,
+  resolveModelSettings,
+  type LlmCapability,
+} from '../../../api/llm';
+import { listOpenAiCompatibleModels } from '../../../api/openai';
+import type { LlmProviderId, ModelSettings, ModelTask } from '../../../core/types';
+import TaskModelsSection, { type TaskModelDraft } from './TaskModelsSection';
+
+interface ModelsPanelProps {
+  onClose: () => void;
+}
+
+const PROVIDERS: LlmProviderId[] = ['gemini', 'openai-compatible'];
+const OPTIONAL_CAPABILITIES: LlmCapability[] = ['image', 'live', 'search', 'files'];
+// With an OpenAI-compatible server only speech (live STT/TTS) still runs on a chosen Gemini model.
+const OPENAI_COMPATIBLE_GEMINI_TASKS: ModelTask[] = ['live'];
+
+const toTaskModelDraft = (models: ModelSettings): TaskModelDraft => Object.fromEntries(
+  MODEL_TASKS.map(task => [task, { model: models[task].model, fallbacks: models[task].fallbacks.join(', ') }])
+) as TaskModelDraft;
+
+const sameList = (a: string[], b: string[]) => a.length === b.length && a.every((id, i) => id === b[i]);
+
+// Keeps only tasks that differ from the defaults, so later default changes still reach the rest.
+const fromTaskModelDraft = (draft: TaskModelDraft): Partial<ModelSettings> => {
+  const models: Partial<ModelSettings> = {};
+  MODEL_TASKS.forEach(task => {
+    const model = draft[task].model.trim() || DEFAULT_MODEL_SETTINGS[task].model;
+    const fallbacks = draft[task].fallbacks.split(',').map(id => id.trim()).filter(Boolean);
+    const defaults = DEFAULT_MODEL_SETTINGS[task];
+    if (model !== defaults.model || !sameList(fallbacks, defaults.fallbacks)) models[task] = { model, fallbacks };
+  });
+  return models;
+};
+
+const ModelsPanel: React.FC<ModelsPanelProps> = ({ onClose }) => {
+  const { t } = useAppTranslations();
+  const llmSettings = useMaestroStore(state => state.settings.llm);
+  const modelSettings = useMaestroStore(state => state.settings.models);
+  const updateSetting = useMaestroStore(state => state.updateSetting);
+  const saved = resolveLlmSettings(llmSettings);
+
+  const [draft, setDraft] = useState(saved);
+  const [taskModels, setTaskModels] = useState(() => toTaskModelDraft(resolveModelSettings(modelSettings)));
+  const [apiKey, setApiKey] = useState('');
+  const [models, setModels] = useState<string[]>([]);
+  const [isTesting, setIsTesting] = useState(false);
+  const [testResult, setTestResult] = useState<{ ok: boolean; message: string } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    loadOpenAiCompatibleKey().then(value => setApiKey(value || '')).catch(() => {});
+  }, []);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [onClose]);
+
+  const server = draft.openAiCompatible;
+  const setServer = (updates: Partial<typeof server>) =>
+    setDraft({ ...draft, openAiCompatible: { ...server, ...updates } });
+  const isOpenAiCompatible = draft.provider === 'openai-compatible';
+  const missing = OPTIONAL_CAPABILITIES.filter(c => !providerSupports(draft, c));
+
+  const handleTest = async () => {
+    setIsTesting(true);
+    setTestResult(null);
+    try {
+      const ids = await listOpenAiCompatibleModels(server.baseUrl, apiKey.trim() || null);
+      setModels(ids);
+      setTestResult({ ok: true, message: t('llm.testOk', { count: ids.length }) });
+    } catch (e) {
+      setTestResult({ ok: false, message: String((e as Error)?.message || e) });
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await setOpenAiCompatibleKey(apiKey.trim());
+      updateSetting('llm', {
+        ...draft,
+        openAiCompatible: { ...server, baseUrl: server.baseUrl.trim(), model: server.model.trim() },
+      });
+      updateSetting('models', fromTaskModelDraft(taskModels));
+      onClose();
+    } catch (e) {
+      setTestResult({ ok: false, message: String((e as Error)?.message || e) });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const canSave = !isOpenAiCompatible || (!!server.baseUrl.trim() && !!server.model.trim());
+
+  return createPortal(
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/40 backdrop-blur-sm p-4">
+      <div className="w-full max-w-md max-h-[90vh] flex flex-col rounded-2xl bg-white shadow-xl border border-slate-200">
+        <div className="flex items-start justify-between px-6 pt-6">
+          <div>
+            <h2 className="text-lg font-semibold text-slate-900">{t('llm.title')}</h2>
+            <p className="text-sm text-slate-600">{t('llm.subtitle')}</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-700" aria-label={t('llm.close')}>
+            <IconXMark className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="px-6 py-4 space-y-3 overflow-y-auto">
+          <div className="flex gap-2">
+            {PROVIDERS.map(id => (
+              <label
+                key={id}
+                className={`flex-1 flex items-center gap-2 rounded-lg border px-3 py-2 text-sm cursor-pointer
+                  ${draft.provider === id ? 'border-blue-500 bg-blue-50 text-slate-900' : 'border-slate-300 text-slate-700'}`}
+              >
+                <input type="radio" name="llm-provider" checked={draft.provider === id} onChange={() => setDraft({ ...draft, provider: id })} />
+                {t(`llm.provider.${id}`)}
+              </label>
+            ))}
+          </div>
+
+          {isOpenAiCompatible && (
+            <>
+              <label className="block text-sm text-slate-700">
+                {t('llm.baseUrl')}
+                <input
+                  type="url"
+                  value={server.baseUrl}
+                  onChange={e => setServer({ baseUrl: e.target.value })}
+                  placeholder="http://localhost:11434/v1"
+                  className="mt-1 w-full border border-slate-300 rounded-lg px-3 py-2 text-sm text-slate-900 focus:outline-none focus:border-blue-500"
+                />
+              </label>
+              <label className="block text-sm text-slate-700">
+                {t('llm.model')}
+                <input
+                  type="text"
+                  list="llm-model-options"
+                  value={server.model}
+                  onChange={e => setServer({ model: e.target.value })}
+                  placeholder="llama3.2"
+                  className="mt-1 w-full border border-slate-300 rounded-lg px-3 py-2 text-sm text-slate-900 focus:outline-none focus:border-blue-500"
+                />
+                <datalist id="llm-model-options">
+                  {models.map(id => <option key={id} value={id} />)}
+                </datalist>
+              </label>
+              <label className="block text-sm text-slate-700">
+                {t('llm.apiKey')}
+                <input
+                  type="password"
+                  autoComplete="off"
+                  value={apiKey}
+                  onChange={e => setApiKey(e.target.value)}
+                  placeholder={t('llm.apiKeyOptional')}
+                  className="mt-1 w-full border border-slate-300 rounded-lg px-3 py-2 text-sm text-slate-900 focus:outline-none focus:border-blue-500"
+                />
+              </label>
+              <label className="flex items-center gap-2 text-sm text-slate-800">
+                <input type="checkbox" checked={server.sendImages} onChange={e => setServer({ sendImages: e.target.checked })} />
+                {t('llm.sendImages')}
+              </label>
+            </>
+          )}
+
+          <TaskModelsSection
+            tasks={isOpenAiCompatible ? OPENAI_COMPATIBLE_GEMINI_TASKS : MODEL_TASKS}
+            draft={taskModels}
+            onChange={setTaskModels}
+            onReset={() => setTaskModels(toTaskModelDraft(DEFAULT_MODEL_SETTINGS))}
+          />
+
+          {testResult && (
+            <p className={`text-xs ${testResult.ok ? 'text-emerald-700' : 'text-rose-600'}`}>{testResult.message}</p>
+          )}
+
+          {missing.length > 0 && (
+            <div className="rounded-xl bg-slate-50 border border-slate-200 p-3 text-xs text-slate-600 space-y-1">
+              <p className="font-medium text-slate-700">{t('llm.unavailableTitle')}</p>
+              <ul className="list-disc pl-4">
+                {missing.map(c => <li key={c}>{t(`llm.unavailable.${c}`)}</li>)}
+              </ul>
+              <p>{t('llm.speechNote')}</p>
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-between gap-2 px-6 pb-6">
+          <div>
+            {isOpenAiCompatible && (
+              <button
+                onClick={handleTest}
+                disabled={isTesting || !server.baseUrl.trim()}
+                className="px-3 py-2 rounded-lg text-sm text-blue-700 hover:bg-blue-50 flex items-center gap-2 disabled:opacity-40"
+              >
+                {isTesting && <SmallSpinner className="w-4 h-4" />}
+                {t('llm.test')}
+              </button>
+            )}
+          </div>
+          <button
+            onClick={handleSave}
+            disabled={isSaving || !canSave}
+            className="px-4 py-2 rounded-lg text-sm text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-60"
+          >
+            {t('llm.save')}
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default ModelsPanel;
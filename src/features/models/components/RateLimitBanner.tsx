@@ -0,0 +1,46 @@
+// Copyright 2025 Roni Tervo
+//
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * RateLimitBanner - Shown while a model is cooling down after rate limiting.
+ *
+ * Responsibilities:
+ * - Count down to the next attempt, or to when the model may be used again
+ * - Hide itself once every cooldown has passed
+ */
+import React, { useEffect, useState } from 'react';
+import { useAppTranslations } from '../../../shared/hooks/useAppTranslations';
+import { useMaestroStore } from '../../../store';
+
+const RateLimitBanner: React.FC = () => {
+  const { t } = useAppTranslations();
+  const modelCooldowns = useMaestroStore(state => state.modelCooldowns);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!modelCooldowns.length) return;
+    setNow(Date.now());
+    const id = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(id);
+  }, [modelCooldowns]);
+
+  // The longest wait decides when work can go on.
+  const cooldown = modelCooldowns
+    .filter(c => c.until > now)
+    .sort((a, b) => b.until - a.until)[0];
+  if (!cooldown) return null;
+
+  const seconds = Math.max(1, Math.ceil((cooldown.until - now) / 1000));
+  const key = cooldown.attempt ? 'llm.rateLimited.retrying' : 'llm.rateLimited.paused';
+
+  return (
+    <div
+      role="status"
+      className="fixed top-40 left-1/2 -translate-x-1/2 z-40 flex items-center gap-3 max-w-[90vw] px-4 py-2 rounded-full shadow-sm text-sm text-white bg-amber-600/95"
+    >
+      <span>{t(key, { model: cooldown.model, seconds })}</span>
+    </div>
+  );
+};
+
+export default RateLimitBanner;
@@ -0,0 +1,104 @@
+// Copyright 2025 Roni Tervo
+//
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * TaskModelsSection - Gemini model and fallbacks per task, inside the provider panel.
+ *
+ * Responsibilities:
+ * - Edit the model and comma-separated fallbacks of each task
+ * - Suggest models from the cached model list, refetched on request
+ */
+import React, { useEffect, useState } from 'react';
+import { SmallSpinner } from '../../../shared/ui/SmallSpinner';
+import { useAppTranslations } from '../../../shared/hooks/useAppTranslations';
+import { getGeminiModelList, modelsForTask, type GeminiModelInfo } from '../../../api/llm';
+import type { ModelTask } from '../../../core/types';
+
+/** A task's model and its fallbacks as typed (comma-separated). */
+export type TaskModelDraft = Record<ModelTask, { model: string; fallbacks: string }>;
+
+interface TaskModelsSectionProps {
+  tasks: ModelTask[];
+  draft: TaskModelDraft;
+  onChange: (draft: TaskModelDraft) => void;
+  onReset: () => void;
+}
+
+const TaskModelsSection: React.FC<TaskModelsSectionProps> = ({ tasks, draft, onChange, onReset }) => {
+  const { t } = useAppTranslations();
+  const [models, setModels] = useState<GeminiModelInfo[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const load = async (refresh: boolean) => {
+    setIsLoading(true);
+    setLoadError(null);
+    try {
+      setModels(await getGeminiModelList({ refresh }));
+    } catch (e) {
+      // Without a key or offline the fields still take any model id.
+      if (refresh) setLoadError(String((e as Error)?.message || e));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load(false);
+  }, []);
+
+  const setTask = (task: ModelTask, updates: Partial<TaskModelDraft[ModelTask]>) =>
+    onChange({ ...draft, [task]: { ...draft[task], ...updates } });
+
+  return (
+    <div className="rounded-xl border border-slate-200 p-3 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm font-medium text-slate-800">{t('llm.taskModels.title')}</p>
+        <div className="flex gap-1">
+          <button
+            onClick={() => load(true)}
+            disabled={isLoading}
+            className="px-2 py-1 rounded-lg text-xs text-blue-700 hover:bg-blue-50 flex items-center gap-1 disabled:opacity-40"
+          >
+            {isLoading && <SmallSpinner className="w-3 h-3" />}
+            {t('llm.taskModels.refresh')}
+          </button>
+          <button onClick={onReset} className="px-2 py-1 rounded-lg text-xs text-slate-600 hover:bg-slate-100">
+            {t('llm.taskModels.reset')}
+          </button>
+        </div>
+      </div>
+      <p className="text-xs text-slate-500">{t('llm.taskModels.hint')}</p>
+      {loadError && <p className="text-xs text-rose-600">{loadError}</p>}
+
+      {tasks.map(task => (
+        <div key={task} className="space-y-1">
+          <label className="block text-xs text-slate-700">
+            {t(`llm.taskModels.task.${task}`)}
+            <input
+              type="text"
+              list={`task-model-options-${task}`}
+              value={draft[task].model}
+              onChange={e => setTask(task, { model: e.target.value })}
+              className="mt-1 w-full border border-slate-300 rounded-lg px-2 py-1.5 text-sm text-slate-900 focus:outline-none focus:border-blue-500"
+            />
+          </label>
+          <datalist id={`task-model-options-${task}`}>
+            {modelsForTask(models, task).map(m => <option key={m.id} value={m.id}>{m.displayName}</option>)}
+          </datalist>
+          <input
+            type="text"
+            value={draft[task].fallbacks}
+            onChange={e => setTask(task, { fallbacks: e.target.value })}
+            placeholder={t('llm.taskModels.fallbacksPlaceholder')}
+            aria-label={t('llm.taskModels.fallbacks')}
+            title={t('llm.taskModels.fallbacks')}
+            className="w-full border border-slate-200 rounded-lg px-2 py-1 text-xs text-slate-700 focus:outline-none focus:border-blue-500"
+          />
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default TaskModelsSection;
@@ -0,0 +1,23 @@
+// Copyright 2025 Roni Tervo
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * useModelCooldowns - Mirrors the request executor's rate-limit cooldowns into the store.
+ *
+ * Responsibilities:
+ * - Keep `modelCooldowns` current for the rate-limit banner
+ */
+
+import { useEffect } from 'react';
+import { getModelCooldowns, subscribeModelCooldowns } from '../../../api/llm';
+import { useMaestroStore } from '../../../store';
+
+export const useModelCooldowns = () => {
+  const setModelCooldowns = useMaestroStore(state => state.setModelCooldowns);
+
+  useEffect(() => {
+    setModelCooldowns(getModelCooldowns());
+    return subscribeModelCooldowns(setModelCooldowns);
+  }, [setModelCooldowns]);
+};
+
+export default useModelCooldowns;
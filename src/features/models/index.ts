@@ -0,0 +1,17 @@
+// Copyright 2025 Roni Tervo
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * Models Feature - Public API
+ * 
+ * This is the single entry point for model provider settings.
+ * External code should only import from this file.
+ * 
+ * Owned Store Slice: modelsSlice
+ */
+
+// Components
+export { default as ModelsPanel } from './components/ModelsPanel';
+export { default as RateLimitBanner } from './components/RateLimitBanner';
+
+// Hooks
+export { useModelCooldowns } from './hooks/useModelCooldowns';
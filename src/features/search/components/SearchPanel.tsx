@@ -0,0 +1,171 @@
+// Copyright 2025 Roni Tervo
+//
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * SearchPanel - Full-text search across all chat histories.
+ *
+ * Responsibilities:
+ * - Query the persisted message index as the user types
+ * - Filter by the current language pair or search all of them
+ * - List hits with pair, date and a highlighted snippet; open one in the chat
+ */
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { IconMagnifyingGlass, IconXMark } from '../../../shared/ui/Icons';
+import { SmallSpinner } from '../../../shared/ui/SmallSpinner';
+import { useAppTranslations } from '../../../shared/hooks/useAppTranslations';
+import { useMaestroStore } from '../../../store';
+import {
+  buildSearchQueries,
+  searchMessages,
+  type MessageSearchResponse,
+  type MessageSearchResult,
+} from '../services/messageSearch';
+import { useMessageJump } from '../hooks/useMessageJump';
+
+interface SearchPanelProps {
+  onClose: () => void;
+}
+
+const SEARCH_DEBOUNCE_MS = 200;
+
+const SearchPanel: React.FC<SearchPanelProps> = ({ onClose }) => {
+  const { t } = useAppTranslations();
+  const languagePairs = useMaestroStore(state => state.languagePairs);
+  const selectedPairId = useMaestroStore(state => state.settings.selectedLanguagePairId);
+  const { jump, isJumping } = useMessageJump();
+
+  const [query, setQuery] = useState('');
+  const [currentPairOnly, setCurrentPairOnly] = useState(false);
+  const [response, setResponse] = useState<MessageSearchResponse | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [notFoundId, setNotFoundId] = useState<string | null>(null);
+  const requestIdRef = useRef(0);
+
+  const hasTerms = useMemo(() => buildSearchQueries(query).length > 0, [query]);
+  const pairFilter = currentPairOnly && selectedPairId ? selectedPairId : undefined;
+
+  useEffect(() => {
+    const requestId = ++requestIdRef.current;
+    if (!hasTerms) {
+      setResponse(null);
+      setIsSearching(false);
+      return;
+    }
+    setIsSearching(true);
+    const timer = window.setTimeout(async () => {
+      try {
+        const next = await searchMessages(query, { pairId: pairFilter });
+        if (requestId === requestIdRef.current) setResponse(next);
+      } catch (e) {
+        console.warn('[Search] Query failed:', e);
+        if (requestId === requestIdRef.current) setResponse({ results: [], total: 0, truncated: false });
+      } finally {
+        if (requestId === requestIdRef.current) setIsSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+    return () => window.clearTimeout(timer);
+  }, [query, hasTerms, pairFilter]);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [onClose]);
+
+  const pairNames = useMemo(() => {
+    const out: Record<string, string> = {};
+    languagePairs.forEach(pair => { out[pair.id] = pair.name; });
+    return out;
+  }, [languagePairs]);
+
+  const handleOpen = async (result: MessageSearchResult) => {
+    setNotFoundId(null);
+    if (await jump(result)) onClose();
+    else setNotFoundId(result.messageId);
+  };
+
+  const results = response?.results || [];
+
+  return createPortal(
+    <div className="fixed inset-0 z-[100] flex items-start justify-center bg-black/40 backdrop-blur-sm p-4 pt-[10vh]">
+      <div className="w-full max-w-lg max-h-[80vh] flex flex-col rounded-2xl bg-white shadow-xl border border-slate-200">
+        <div className="flex items-start justify-between px-6 pt-6">
+          <h2 className="text-lg font-semibold text-slate-900">{t('search.title')}</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-700" aria-label={t('search.close')}>
+            <IconXMark className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="px-6 pt-4 space-y-2">
+          <div className="flex items-center gap-2 border border-slate-300 rounded-lg px-3 py-2 focus-within:border-blue-500">
+            <IconMagnifyingGlass className="h-4 w-4 text-slate-400 flex-shrink-0" />
+            <input
+              type="search"
+              autoFocus
+              value={query}
+              onChange={e => setQuery(e.target.value)}
+              placeholder={t('search.placeholder')}
+              className="flex-1 text-sm text-slate-900 bg-transparent focus:outline-none"
+            />
+            {(isSearching || isJumping) && <SmallSpinner className="w-4 h-4 text-slate-400" />}
+          </div>
+          <div className="flex gap-4 text-xs text-slate-700">
+            <label className="flex items-center gap-1">
+              <input type="radio" checked={!currentPairOnly} onChange={() => setCurrentPairOnly(false)} />
+              {t('search.allPairs')}
+            </label>
+            <label className="flex items-center gap-1">
+              <input type="radio" checked={currentPairOnly} disabled={!selectedPairId} onChange={() => setCurrentPairOnly(true)} />
+              {t('search.currentPair')}
+            </label>
+          </div>
+        </div>
+
+        <div className="px-6 py-4 overflow-y-auto">
+          {query.trim() && !hasTerms && <p className="text-sm text-slate-500">{t('search.minChars')}</p>}
+          {hasTerms && response && !isSearching && results.length === 0 && (
+            <p className="text-sm text-slate-500">{t('search.noResults')}</p>
+          )}
+          {hasTerms && !response && isSearching && <p className="text-sm text-slate-500">{t('search.searching')}</p>}
+          {results.length > 0 && (
+            <>
+              <p className="text-xs text-slate-500 mb-2">
+                {t('search.resultCount', { count: response?.total ?? results.length })}
+                {response?.truncated && <> · {t('search.truncated')}</>}
+              </p>
+              <ul className="divide-y divide-slate-100">
+                {results.map(result => (
+                  <li key={result.messageId}>
+                    <button
+                      onClick={() => handleOpen(result)}
+                      disabled={isJumping}
+                      className="w-full text-left py-2 px-2 -mx-2 rounded-lg hover:bg-slate-50 disabled:opacity-60"
+                    >
+                      <div className="flex justify-between gap-2 text-xs text-slate-500">
+                        <span className="truncate">
+                          {pairNames[result.pairId] || result.pairId}
+                          {result.field !== 'text' && <> · {t(`search.field.${result.field}`)}</>}
+                        </span>
+                        <span className="flex-shrink-0">{new Date(result.timestamp).toLocaleDateString()}</span>
+                      </div>
+                      <p className="text-sm text-slate-800 line-clamp-2">
+                        {result.snippet.before}
+                        {result.snippet.match && <mark className="bg-amber-200 text-slate-900 rounded-sm">{result.snippet.match}</mark>}
+                        {result.snippet.after}
+                      </p>
+                      {notFoundId === result.messageId && <p className="text-xs text-rose-600 mt-1">{t('search.notFound')}</p>}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default SearchPanel;
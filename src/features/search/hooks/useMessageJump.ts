@@ -0,0 +1,111 @@
+// Copyright 2025 Roni Tervo
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * useMessageJump - Opens a search result in the chat view.
+ *
+ * Responsibilities:
+ * - Switch to the result's language pair and thread (saving the open thread first)
+ * - Page older history in until the message is loaded
+ * - Hand the message id to ChatInterface, which reveals and highlights it
+ */
+
+import { useCallback, useState } from 'react';
+import { getStoreState, subscribeToStore } from '../../../store';
+import { selectActiveThreadId } from '../../../store/slices/settingsSlice';
+import { safeSaveChatHistoryDB } from '../../chat';
+import type { MessageSearchResult } from '../services/messageSearch';
+
+const HISTORY_LOAD_TIMEOUT_MS = 15000;
+const MAX_OLDER_PAGES = 200;
+
+type JumpTarget = Pick<MessageSearchResult, 'messageId' | 'threadId' | 'pairId'>;
+
+/** Resolves once the target thread is active and its history finished loading. */
+const waitForThreadLoad = (threadId: string): { ready: Promise<boolean>; cancel: () => void } => {
+  let unsubscribe = () => {};
+  let timer = 0;
+  const ready = new Promise<boolean>(resolve => {
+    let sawLoading = false;
+    const check = () => {
+      const state = getStoreState();
+      if (selectActiveThreadId(state) !== threadId) return;
+      if (state.isLoadingHistory) { sawLoading = true; return; }
+      if (sawLoading) finish(true);
+    };
+    const finish = (ok: boolean) => {
+      window.clearTimeout(timer);
+      unsubscribe();
+      resolve(ok);
+    };
+    unsubscribe = subscribeToStore(check);
+    timer = window.setTimeout(() => finish(false), HISTORY_LOAD_TIMEOUT_MS);
+  });
+  return { ready, cancel: () => { window.clearTimeout(timer); unsubscribe(); } };
+};
+
+const isLoaded = (messageId: string) => getStoreState().messages.some(m => m.id === messageId);
+
+/**
+ * Shows the message in the chat view. Returns false when it could not be
+ * found (deleted since it was indexed, or the history failed to load).
+ */
+export const jumpToSearchResult = async (target: JumpTarget): Promise<boolean> => {
+  const state = getStoreState();
+  const currentPairId = state.settings.selectedLanguagePairId;
+  const currentThreadId = selectActiveThreadId(state);
+
+  if (target.threadId !== currentThreadId) {
+    if (!state.languagePairs.some(p => p.id === target.pairId)) return false;
+    if (currentThreadId && !state.isLoadingHistory) {
+      try {
+        await safeSaveChatHistoryDB(currentThreadId, state.messages);
+      } catch (e) {
+        console.error(`[Search] Failed to save chat history for threadId=${currentThreadId}:`, e);
+      }
+    }
+    const waiter = waitForThreadLoad(target.threadId);
+    const { updateSetting } = getStoreState();
+    const nextSelected = { ...(getStoreState().settings.selectedThreadIds || {}) };
+    if (target.threadId === target.pairId) delete nextSelected[target.pairId];
+    else nextSelected[target.pairId] = target.threadId;
+    updateSetting('selectedThreadIds', nextSelected);
+    if (target.pairId !== currentPairId) updateSetting('selectedLanguagePairId', target.pairId);
+    if (!(await waiter.ready)) {
+      waiter.cancel();
+      return false;
+    }
+  }
+
+  let pages = 0;
+  while (!isLoaded(target.messageId) && getStoreState().hasOlderMessages && pages++ < MAX_OLDER_PAGES) {
+    if (selectActiveThreadId(getStoreState()) !== target.threadId) return false;
+    const added = await getStoreState().loadOlderMessages();
+    if (added === 0 && getStoreState().isLoadingOlderMessages) {
+      await new Promise(resolve => window.setTimeout(resolve, 50));
+    }
+  }
+  if (!isLoaded(target.messageId)) return false;
+
+  getStoreState().requestMessageJump(target.messageId);
+  return true;
+};
+
+export const useMessageJump = () => {
+  const [isJumping, setIsJumping] = useState(false);
+
+  const jump = useCallback(async (target: JumpTarget) => {
+    setIsJumping(true);
+    try {
+      return await jumpToSearchResult(target);
+    } catch (e) {
+      console.warn('[Search] Jump to message failed:', e);
+      return false;
+    } finally {
+      setIsJumping(false);
+    }
+  }, []);
+
+  return { jump, isJumping };
+};
+
+export default useMessageJump;
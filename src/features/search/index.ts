@@ -0,0 +1,20 @@
+// Copyright 2025 Roni Tervo
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * Search Feature - Public API
+ * 
+ * This is the single entry point for message search functionality.
+ * External code should only import from this file.
+ * 
+ * Owned Store Slice: searchSlice
+ */
+
+// Components
+export { default as SearchPanel } from './components/SearchPanel';
+
+// Hooks
+export { useMessageJump, jumpToSearchResult } from './hooks/useMessageJump';
+
+// Services
+export { searchMessages, buildSearchQueries, buildSnippet } from './services/messageSearch';
+export type { MessageSearchResult, MessageSearchResponse, SearchSnippet } from './services/messageSearch';
@@ -0,0 +1,121 @@
+// Copyright 2025 Roni Tervo
+//
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * Message search over the persisted full-text index.
+ *
+ * Responsibilities:
+ * - Turn a query into index terms: every term must match; words match by
+ *   prefix ("gehe" finds "gehen"), Chinese/Japanese/Thai n-grams exactly
+ * - Build a short snippet around the first matching word of each hit
+ *
+ * The index itself (`searchTerms` on stored messages) is kept up to date by
+ * the chat history writes; see `core/db/searchTerms.ts`.
+ */
+
+import type { ChatMessage } from '../../../core/types';
+import {
+  foldSearchTextWithOffsets,
+  isUnspacedTerm,
+  searchableTextsOf,
+  tokenizeSearchText,
+  type SearchField,
+} from '../../../core/db/searchTerms';
+import { searchStoredMessagesDB, type SearchTermQuery } from '../../chat';
+
+const SNIPPET_BEFORE_CHARS = 40;
+const SNIPPET_AFTER_CHARS = 80;
+const DEFAULT_RESULT_LIMIT = 50;
+
+export interface SearchSnippet {
+  before: string;
+  match: string;
+  after: string;
+}
+
+export interface MessageSearchResult {
+  messageId: string;
+  threadId: string;
+  pairId: string;
+  timestamp: number;
+  role: ChatMessage['role'];
+  field: SearchField;
+  snippet: SearchSnippet;
+}
+
+export interface MessageSearchResponse {
+  results: MessageSearchResult[];
+  /** Matching messages, before the result limit. */
+  total: number;
+  /** The query matched too many messages to rank them all. */
+  truncated: boolean;
+}
+
+export const buildSearchQueries = (query: string): SearchTermQuery[] =>
+  tokenizeSearchText(query).map(term => ({ term, prefix: !isUnspacedTerm(term) }));
+
+const collapse = (text: string) => text.replace(/\s+/g, ' ');
+
+/** Snippet around the earliest occurrence of any term, searching the fields in order. */
+export const buildSnippet = (message: ChatMessage, terms: string[]): { field: SearchField; snippet: SearchSnippet } => {
+  const texts = searchableTextsOf(message);
+  for (const { field, text } of texts) {
+    const { folded, offsets } = foldSearchTextWithOffsets(text);
+    let best = -1;
+    let bestLength = 0;
+    terms.forEach(term => {
+      const at = folded.indexOf(term);
+      if (at >= 0 && (best < 0 || at < best)) {
+        best = at;
+        bestLength = term.length;
+      }
+    });
+    if (best < 0) continue;
+    const source = text.normalize('NFC');
+    const start = offsets[best];
+    const end = best + bestLength < offsets.length ? offsets[best + bestLength] : source.length;
+    const from = Math.max(0, start - SNIPPET_BEFORE_CHARS);
+    const to = Math.min(source.length, end + SNIPPET_AFTER_CHARS);
+    return {
+      field,
+      snippet: {
+        before: (from > 0 ? '…' : '') + collapse(source.slice(from, start)),
+        match: source.slice(start, end),
+        after: collapse(source.slice(end, to)) + (to < source.length ? '…' : ''),
+      },
+    };
+  }
+  const first = texts[0];
+  const text = first?.text || '';
+  return {
+    field: first?.field || 'text',
+    snippet: {
+      before: '',
+      match: '',
+      after: collapse(text.slice(0, SNIPPET_BEFORE_CHARS + SNIPPET_AFTER_CHARS)) + (text.length > SNIPPET_BEFORE_CHARS + SNIPPET_AFTER_CHARS ? '…' : ''),
+    },
+  };
+};
+
+/** Newest matching messages first. */
+export const searchMessages = async (
+  query: string,
+  opts?: { pairId?: string; limit?: number }
+): Promise<MessageSearchResponse> => {
+  const queries = buildSearchQueries(query);
+  if (queries.length === 0) return { results: [], total: 0, truncated: false };
+  const { hits, total, truncated } = await searchStoredMessagesDB(queries, {
+    pairId: opts?.pairId,
+    limit: opts?.limit ?? DEFAULT_RESULT_LIMIT,
+  });
+  const terms = queries.map(q => q.term);
+  const results = hits.map(hit => ({
+    messageId: hit.message.id,
+    threadId: hit.threadId,
+    pairId: hit.pairId,
+    timestamp: hit.timestamp,
+    role: hit.message.role,
+    ...buildSnippet(hit.message, terms),
+  }));
+  return { results, total, truncated };
+};
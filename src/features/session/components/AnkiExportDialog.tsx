@@ -0,0 +1,122 @@
+// Copyright 2025 Roni Tervo
+//
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * AnkiExportDialog - Second step of the Anki export.
+ *
+ * Responsibilities:
+ * - List the collected note candidates and let the user pick which to export
+ * - Flag lines without cached audio and allow selecting only lines with audio
+ */
+import React, { useMemo, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { IconXMark } from '../../../shared/ui/Icons';
+import { SmallSpinner } from '../../../shared/ui/SmallSpinner';
+import { useAppTranslations } from '../../../shared/hooks/useAppTranslations';
+import type { AnkiNoteCandidate } from '../services/ankiExport';
+
+interface AnkiExportDialogProps {
+  candidates: AnkiNoteCandidate[];
+  isExporting: boolean;
+  onCancel: () => void;
+  onExport: (notes: AnkiNoteCandidate[]) => void;
+}
+
+const linkClass = 'text-xs text-blue-600 hover:underline disabled:opacity-40';
+
+const AnkiExportDialog: React.FC<AnkiExportDialogProps> = ({ candidates, isExporting, onCancel, onExport }) => {
+  const { t } = useAppTranslations();
+  const [selected, setSelected] = useState<Set<string>>(() => new Set(candidates.map(c => c.id)));
+
+  const missingAudio = useMemo(
+    () => candidates.filter(c => selected.has(c.id) && !c.audioBlob).length,
+    [candidates, selected]
+  );
+
+  const toggle = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  return createPortal(
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/40 backdrop-blur-sm p-4">
+      <div className="w-full max-w-lg max-h-[90vh] flex flex-col rounded-2xl bg-white shadow-xl border border-slate-200">
+        <div className="flex items-start justify-between px-6 pt-6">
+          <div>
+            <h2 className="text-lg font-semibold text-slate-900">{t('ankiExport.title')}</h2>
+            <p className="text-sm text-slate-600">
+              {t('ankiExport.summary', { selected: selected.size, total: candidates.length, missing: missingAudio })}
+            </p>
+          </div>
+          <button onClick={onCancel} disabled={isExporting} className="text-slate-400 hover:text-slate-700 disabled:opacity-40" aria-label={t('backupImport.cancel')}>
+            <IconXMark className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="flex gap-3 px-6 pt-3">
+          <button className={linkClass} disabled={isExporting} onClick={() => setSelected(new Set(candidates.map(c => c.id)))}>
+            {t('ankiExport.selectAll')}
+          </button>
+          <button className={linkClass} disabled={isExporting} onClick={() => setSelected(new Set(candidates.filter(c => c.audioBlob).map(c => c.id)))}>
+            {t('ankiExport.selectWithAudio')}
+          </button>
+          <button className={linkClass} disabled={isExporting} onClick={() => setSelected(new Set())}>
+            {t('ankiExport.selectNone')}
+          </button>
+        </div>
+
+        <div className="px-6 py-3 space-y-1 overflow-y-auto">
+          {candidates.length === 0 && <p className="text-sm text-slate-500">{t('ankiExport.empty')}</p>}
+          {candidates.map(candidate => (
+            <label key={candidate.id} className="flex items-start gap-2 py-1 text-sm cursor-pointer">
+              <input
+                type="checkbox"
+                className="mt-1"
+                checked={selected.has(candidate.id)}
+                onChange={() => toggle(candidate.id)}
+                disabled={isExporting}
+              />
+              <span className="flex-1 min-w-0">
+                <span className="block text-slate-900">{candidate.target}</span>
+                {candidate.native && <span className="block text-slate-500 italic">{candidate.native}</span>}
+              </span>
+              {!candidate.audioBlob && (
+                <span className="shrink-0 text-[10px] uppercase tracking-wide rounded px-1.5 py-0.5 bg-amber-100 text-amber-800">
+                  {t('ankiExport.noAudio')}
+                </span>
+              )}
+            </label>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-between gap-2 px-6 pb-6 pt-2">
+          <p className="text-xs text-slate-500">{missingAudio > 0 ? t('ankiExport.missingHint') : ''}</p>
+          <div className="flex gap-2">
+            <button
+              onClick={onCancel}
+              disabled={isExporting}
+              className="px-4 py-2 rounded-lg text-sm text-slate-700 hover:bg-slate-100 disabled:opacity-40"
+            >
+              {t('backupImport.cancel')}
+            </button>
+            <button
+              onClick={() => onExport(candidates.filter(c => selected.has(c.id)))}
+              disabled={isExporting || selected.size === 0}
+              className="px-4 py-2 rounded-lg text-sm text-white flex items-center gap-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-60"
+            >
+              {isExporting && <SmallSpinner className="w-4 h-4" />}
+              {t('exportDialog.export')}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default AnkiExportDialog;
@@ -0,0 +1,221 @@
+// Copyright 2025 Roni Tervo
+//
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * BackupExportDialog - Options for a manual export.
+ *
+ * Responsibilities:
+ * - Pick the format: backup archive, a Markdown/HTML/TSV transcript or Anki cards
+ * - Pick language pairs, a date range and whether media/audio are included
+ * - Optional passphrase (entered twice) for backup archives
+ */
+import React, { useMemo, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { IconXMark } from '../../../shared/ui/Icons';
+import { SmallSpinner } from '../../../shared/ui/SmallSpinner';
+import { useAppTranslations } from '../../../shared/hooks/useAppTranslations';
+import { useMaestroStore } from '../../../store';
+import type { ExportChatsRequest, ExportFormat } from '../hooks/useDataBackup';
+import type { AnkiNoteSource } from '../services/ankiExport';
+
+interface BackupExportDialogProps {
+  /** Pairs that have stored messages. */
+  pairIds: string[];
+  isExporting: boolean;
+  onCancel: () => void;
+  onExport: (request: ExportChatsRequest) => void;
+}
+
+const FORMATS: Array<{ value: ExportFormat; labelKey: string }> = [
+  { value: 'backup', labelKey: 'exportDialog.format.backup' },
+  { value: 'markdown', labelKey: 'exportDialog.format.markdown' },
+  { value: 'html', labelKey: 'exportDialog.format.html' },
+  { value: 'tsv', labelKey: 'exportDialog.format.tsv' },
+  { value: 'anki', labelKey: 'exportDialog.format.anki' },
+];
+
+const ANKI_SOURCES: Array<{ value: AnkiNoteSource; labelKey: string }> = [
+  { value: 'line', labelKey: 'exportDialog.ankiSource.line' },
+  { value: 'suggestion', labelKey: 'exportDialog.ankiSource.suggestion' },
+];
+
+const inputClass = 'w-full border border-slate-300 rounded-lg px-3 py-2 text-sm text-slate-900 bg-white focus:outline-none focus:border-blue-500';
+
+/** `YYYY-MM-DD` from a date input to local start/end of that day. */
+const dayStart = (value: string): number | null => {
+  const [y, m, d] = value.split('-').map(Number);
+  return value ? new Date(y, m - 1, d).getTime() : null;
+};
+const dayEnd = (value: string): number | null => {
+  const [y, m, d] = value.split('-').map(Number);
+  return value ? new Date(y, m - 1, d + 1).getTime() - 1 : null;
+};
+
+const BackupExportDialog: React.FC<BackupExportDialogProps> = ({ pairIds, isExporting, onCancel, onExport }) => {
+  const { t } = useAppTranslations();
+  const languagePairs = useMaestroStore(state => state.languagePairs);
+  const [format, setFormat] = useState<ExportFormat>('backup');
+  const [selectedPairs, setSelectedPairs] = useState<Set<string>>(() => new Set(pairIds));
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [includeMedia, setIncludeMedia] = useState(true);
+  const [includeAudio, setIncludeAudio] = useState(true);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [ankiSources, setAnkiSources] = useState<Set<AnkiNoteSource>>(() => new Set<AnkiNoteSource>(['line']));
+
+  const pairNames = useMemo(() => {
+    const out: Record<string, string> = {};
+    languagePairs.forEach(pair => { out[pair.id] = pair.name; });
+    return out;
+  }, [languagePairs]);
+
+  const isBackup = format === 'backup';
+  const isAnki = format === 'anki';
+  const isTextOnly = format === 'tsv';
+  const mismatch = isBackup && confirmation.length > 0 && passphrase !== confirmation;
+  const invalidRange = !!fromDate && !!toDate && fromDate > toDate;
+  const canExport = !isExporting && selectedPairs.size > 0 && !invalidRange
+    && (!isBackup || passphrase === confirmation)
+    && (!isAnki || ankiSources.size > 0);
+
+  const toggle = <T,>(setter: React.Dispatch<React.SetStateAction<Set<T>>>, value: T) => {
+    setter(prev => {
+      const next = new Set(prev);
+      if (next.has(value)) next.delete(value);
+      else next.add(value);
+      return next;
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canExport) return;
+    const selection = {
+      pairIds: selectedPairs.size === pairIds.length ? null : Array.from(selectedPairs),
+      from: dayStart(fromDate),
+      to: dayEnd(toDate),
+      includeMedia: !isTextOnly && includeMedia,
+      includeAudio: !isTextOnly && includeAudio,
+    };
+    if (format === 'backup') onExport({ format, selection, passphrase: passphrase || undefined });
+    else if (format === 'anki') onExport({ format, selection, sources: Array.from(ankiSources) });
+    else onExport({ format, selection });
+  };
+
+  return createPortal(
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/40 backdrop-blur-sm p-4">
+      <form onSubmit={handleSubmit} className="w-full max-w-lg max-h-[90vh] flex flex-col rounded-2xl bg-white shadow-xl border border-slate-200">
+        <div className="flex items-start justify-between px-6 pt-6">
+          <h2 className="text-lg font-semibold text-slate-900">{t('exportDialog.title')}</h2>
+          <button type="button" onClick={onCancel} disabled={isExporting} className="text-slate-400 hover:text-slate-700 disabled:opacity-40" aria-label={t('backupImport.cancel')}>
+            <IconXMark className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="px-6 py-4 space-y-4 overflow-y-auto">
+          <fieldset className="space-y-2" disabled={isExporting}>
+            <legend className="text-sm font-medium text-slate-900 mb-1">{t('exportDialog.formatLabel')}</legend>
+            {FORMATS.map(option => (
+              <label key={option.value} className="flex items-center gap-2 text-sm text-slate-800 cursor-pointer">
+                <input type="radio" name="export-format" checked={format === option.value} onChange={() => setFormat(option.value)} />
+                {t(option.labelKey)}
+              </label>
+            ))}
+          </fieldset>
+
+          <fieldset className="space-y-2" disabled={isExporting}>
+            <legend className="text-sm font-medium text-slate-900 mb-1">{t('exportDialog.pairsLabel')}</legend>
+            {pairIds.length === 0 && <p className="text-sm text-slate-500">{t('startPage.noChatsToSave')}</p>}
+            {pairIds.map(pairId => (
+              <label key={pairId} className="flex items-center gap-2 text-sm text-slate-800 cursor-pointer">
+                <input type="checkbox" checked={selectedPairs.has(pairId)} onChange={() => toggle(setSelectedPairs, pairId)} />
+                <span className="truncate">{pairNames[pairId] || pairId}</span>
+              </label>
+            ))}
+          </fieldset>
+
+          <fieldset className="space-y-2" disabled={isExporting}>
+            <legend className="text-sm font-medium text-slate-900 mb-1">{t('exportDialog.dateRangeLabel')}</legend>
+            <div className="flex items-center gap-2">
+              <input type="date" className={inputClass} value={fromDate} max={toDate || undefined} onChange={e => setFromDate(e.target.value)} aria-label={t('exportDialog.from')} />
+              <span className="text-sm text-slate-500">–</span>
+              <input type="date" className={inputClass} value={toDate} min={fromDate || undefined} onChange={e => setToDate(e.target.value)} aria-label={t('exportDialog.to')} />
+            </div>
+            <p className="text-xs text-slate-500">{t('exportDialog.dateRangeHint')}</p>
+            {invalidRange && <p className="text-sm text-red-600">{t('exportDialog.invalidRange')}</p>}
+          </fieldset>
+
+          {isAnki ? (
+            <fieldset className="space-y-2" disabled={isExporting}>
+              <legend className="text-sm font-medium text-slate-900 mb-1">{t('exportDialog.ankiSourcesLabel')}</legend>
+              {ANKI_SOURCES.map(option => (
+                <label key={option.value} className="flex items-center gap-2 text-sm text-slate-800 cursor-pointer">
+                  <input type="checkbox" checked={ankiSources.has(option.value)} onChange={() => toggle(setAnkiSources, option.value)} />
+                  {t(option.labelKey)}
+                </label>
+              ))}
+            </fieldset>
+          ) : (
+            <fieldset className="space-y-2" disabled={isExporting || isTextOnly}>
+              <label className="flex items-center gap-2 text-sm text-slate-800 cursor-pointer">
+                <input type="checkbox" checked={!isTextOnly && includeMedia} onChange={e => setIncludeMedia(e.target.checked)} />
+                {t('exportDialog.includeMedia')}
+              </label>
+              <label className="flex items-center gap-2 text-sm text-slate-800 cursor-pointer">
+                <input type="checkbox" checked={!isTextOnly && includeAudio} onChange={e => setIncludeAudio(e.target.checked)} />
+                {t('exportDialog.includeAudio')}
+              </label>
+            </fieldset>
+          )}
+
+          {isBackup && (
+            <fieldset className="space-y-2" disabled={isExporting}>
+              <legend className="text-sm font-medium text-slate-900 mb-1">{t('backupCrypto.passphrase')}</legend>
+              <p className="text-xs text-slate-500">{t('backupCrypto.encryptHint')}</p>
+              <input
+                type="password"
+                autoComplete="new-password"
+                className={inputClass}
+                placeholder={t('backupCrypto.passphrase')}
+                value={passphrase}
+                onChange={e => setPassphrase(e.target.value)}
+              />
+              <input
+                type="password"
+                autoComplete="new-password"
+                className={inputClass}
+                placeholder={t('backupCrypto.confirmPassphrase')}
+                value={confirmation}
+                onChange={e => setConfirmation(e.target.value)}
+              />
+              {mismatch && <p className="text-sm text-red-600">{t('backupCrypto.mismatch')}</p>}
+            </fieldset>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 px-6 pb-6">
+          <button
+            type="button"
+            onClick={onCancel}
+            disabled={isExporting}
+            className="px-4 py-2 rounded-lg text-sm text-slate-700 hover:bg-slate-100 disabled:opacity-40"
+          >
+            {t('backupImport.cancel')}
+          </button>
+          <button
+            type="submit"
+            disabled={!canExport}
+            className="px-4 py-2 rounded-lg text-sm text-white flex items-center gap-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-60"
+          >
+            {isExporting && <SmallSpinner className="w-4 h-4" />}
+            {t(isBackup && passphrase ? 'backupCrypto.saveEncrypted' : isAnki ? 'exportDialog.next' : 'exportDialog.export')}
+          </button>
+        </div>
+      </form>
+    </div>,
+    document.body
+  );
+};
+
+export default BackupExportDialog;
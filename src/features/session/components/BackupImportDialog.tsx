@@ -0,0 +1,133 @@
+// Copyright 2025 Roni Tervo
+//
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * BackupImportDialog - Preview shown before a backup is imported.
+ *
+ * Responsibilities:
+ * - Choose between merging into local data and replacing everything
+ * - Show per-pair message counts and pick a strategy for each pair
+ */
+import React, { useMemo, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { IconXMark } from '../../../shared/ui/Icons';
+import { SmallSpinner } from '../../../shared/ui/SmallSpinner';
+import { useAppTranslations } from '../../../shared/hooks/useAppTranslations';
+import { useMaestroStore } from '../../../store';
+import type { PairImportStrategy } from '../services/backupMerge';
+import type { BackupImportOptions, PendingBackupImport } from '../hooks/useDataBackup';
+
+interface BackupImportDialogProps {
+  pending: PendingBackupImport;
+  isApplying: boolean;
+  onCancel: () => void;
+  onConfirm: (options: BackupImportOptions) => void;
+}
+
+const STRATEGIES: Array<{ value: PairImportStrategy; labelKey: string }> = [
+  { value: 'merge', labelKey: 'backupImport.strategy.merge' },
+  { value: 'keep-local', labelKey: 'backupImport.strategy.keepLocal' },
+  { value: 'keep-imported', labelKey: 'backupImport.strategy.keepImported' },
+];
+
+const BackupImportDialog: React.FC<BackupImportDialogProps> = ({ pending, isApplying, onCancel, onConfirm }) => {
+  const { t } = useAppTranslations();
+  const languagePairs = useMaestroStore(state => state.languagePairs);
+  const [mode, setMode] = useState<BackupImportOptions['mode']>('merge');
+  const [strategies, setStrategies] = useState<Record<string, PairImportStrategy>>({});
+
+  const pairNames = useMemo(() => {
+    const out: Record<string, string> = {};
+    languagePairs.forEach(pair => { out[pair.id] = pair.name; });
+    return out;
+  }, [languagePairs]);
+
+  const formatDate = (value: number | null) => (value ? new Date(value).toLocaleDateString() : t('backupImport.never'));
+
+  // Portaled so blurred/animated ancestors cannot become the containing block of the overlay.
+  return createPortal(
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/40 backdrop-blur-sm p-4">
+      <div className="w-full max-w-lg max-h-[90vh] flex flex-col rounded-2xl bg-white shadow-xl border border-slate-200">
+        <div className="flex items-start justify-between px-6 pt-6">
+          <div>
+            <h2 className="text-lg font-semibold text-slate-900">{t('backupImport.title')}</h2>
+            <p className="text-sm text-slate-600 break-all">{pending.fileName}</p>
+          </div>
+          <button onClick={onCancel} disabled={isApplying} className="text-slate-400 hover:text-slate-700 disabled:opacity-40" aria-label={t('backupImport.cancel')}>
+            <IconXMark className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="px-6 py-4 space-y-3 overflow-y-auto">
+          <div className="space-y-2">
+            {(['merge', 'replace'] as const).map(value => (
+              <label key={value} className="flex items-center gap-2 text-sm text-slate-800 cursor-pointer">
+                <input
+                  type="radio"
+                  name="backup-import-mode"
+                  checked={mode === value}
+                  onChange={() => setMode(value)}
+                  disabled={isApplying}
+                />
+                {t(value === 'merge' ? 'backupImport.modeMerge' : 'backupImport.modeReplace')}
+              </label>
+            ))}
+          </div>
+
+          {mode === 'replace' && (
+            <p className="text-sm text-red-600">{t('backupImport.replaceWarning')}</p>
+          )}
+
+          {pending.preview.length === 0 && (
+            <p className="text-sm text-slate-500">{t('backupImport.noPairs')}</p>
+          )}
+
+          {mode === 'merge' && pending.preview.map(pair => (
+            <div key={pair.pairId} className="rounded-xl border border-slate-200 p-3 space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-sm font-medium text-slate-900 truncate">{pairNames[pair.pairId] || pair.pairId}</span>
+                <select
+                  value={strategies[pair.pairId] || 'merge'}
+                  onChange={e => setStrategies(prev => ({ ...prev, [pair.pairId]: e.target.value as PairImportStrategy }))}
+                  disabled={isApplying}
+                  className="text-sm border border-slate-300 rounded-lg px-2 py-1 bg-white text-slate-800"
+                >
+                  {STRATEGIES.map(option => (
+                    <option key={option.value} value={option.value}>{t(option.labelKey)}</option>
+                  ))}
+                </select>
+              </div>
+              <p className="text-xs text-slate-600">
+                {t('backupImport.pairStats', { local: pair.localMessages, imported: pair.importedMessages, new: pair.newMessages })}
+              </p>
+              <p className="text-xs text-slate-500">
+                {t('backupImport.lastActivity', { local: formatDate(pair.localNewest), imported: formatDate(pair.importedNewest) })}
+              </p>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-end gap-2 px-6 pb-6">
+          <button
+            onClick={onCancel}
+            disabled={isApplying}
+            className="px-4 py-2 rounded-lg text-sm text-slate-700 hover:bg-slate-100 disabled:opacity-40"
+          >
+            {t('backupImport.cancel')}
+          </button>
+          <button
+            onClick={() => onConfirm({ mode, strategies })}
+            disabled={isApplying}
+            className={`px-4 py-2 rounded-lg text-sm text-white flex items-center gap-2 disabled:opacity-60 ${mode === 'replace' ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'}`}
+          >
+            {isApplying && <SmallSpinner className="w-4 h-4" />}
+            {t('backupImport.confirm')}
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default BackupImportDialog;
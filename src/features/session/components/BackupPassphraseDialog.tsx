@@ -0,0 +1,88 @@
+// Copyright 2025 Roni Tervo
+//
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * BackupPassphraseDialog - Unlock prompt for an encrypted backup being imported.
+ *
+ * Responsibilities:
+ * - Ask for the passphrase the backup was saved with
+ * - Show an inline error after a failed attempt
+ */
+import React, { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { IconXMark } from '../../../shared/ui/Icons';
+import { SmallSpinner } from '../../../shared/ui/SmallSpinner';
+import { useAppTranslations } from '../../../shared/hooks/useAppTranslations';
+
+interface BackupPassphraseDialogProps {
+  fileName: string;
+  isBusy: boolean;
+  /** Set after a failed attempt. */
+  error?: string | null;
+  onCancel: () => void;
+  onSubmit: (passphrase: string) => void;
+}
+
+const BackupPassphraseDialog: React.FC<BackupPassphraseDialogProps> = ({ fileName, isBusy, error, onCancel, onSubmit }) => {
+  const { t } = useAppTranslations();
+  const [passphrase, setPassphrase] = useState('');
+  const canSubmit = !isBusy && passphrase.length > 0;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (canSubmit) onSubmit(passphrase);
+  };
+
+  return createPortal(
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/40 backdrop-blur-sm p-4">
+      <form onSubmit={handleSubmit} className="w-full max-w-sm rounded-2xl bg-white shadow-xl border border-slate-200">
+        <div className="flex items-start justify-between px-6 pt-6">
+          <div>
+            <h2 className="text-lg font-semibold text-slate-900">{t('backupCrypto.decryptTitle')}</h2>
+            <p className="text-sm text-slate-600 break-all">{fileName}</p>
+          </div>
+          <button type="button" onClick={onCancel} disabled={isBusy} className="text-slate-400 hover:text-slate-700 disabled:opacity-40" aria-label={t('backupImport.cancel')}>
+            <IconXMark className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="px-6 py-4 space-y-3">
+          <p className="text-sm text-slate-600">{t('backupCrypto.decryptHint')}</p>
+          <input
+            type="password"
+            autoComplete="current-password"
+            className="w-full border border-slate-300 rounded-lg px-3 py-2 text-sm text-slate-900 bg-white focus:outline-none focus:border-blue-500"
+            placeholder={t('backupCrypto.passphrase')}
+            value={passphrase}
+            onChange={e => setPassphrase(e.target.value)}
+            disabled={isBusy}
+            autoFocus
+          />
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+
+        <div className="flex justify-end gap-2 px-6 pb-6">
+          <button
+            type="button"
+            onClick={onCancel}
+            disabled={isBusy}
+            className="px-4 py-2 rounded-lg text-sm text-slate-700 hover:bg-slate-100 disabled:opacity-40"
+          >
+            {t('backupImport.cancel')}
+          </button>
+          <button
+            type="submit"
+            disabled={!canSubmit}
+            className="px-4 py-2 rounded-lg text-sm text-white flex items-center gap-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-60"
+          >
+            {isBusy && <SmallSpinner className="w-4 h-4" />}
+            {t('backupCrypto.unlock')}
+          </button>
+        </div>
+      </form>
+    </div>,
+    document.body
+  );
+};
+
+export default BackupPassphraseDialog;
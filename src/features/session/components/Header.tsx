@@ -2,7 +2,8 @@
 import React, { forwardRef, useState, useEffect, useRef, useMemo, useCallback } from 'react';
 import { useShallow } from 'zustand/react/shallow';
 import CollapsedMaestroStatus, { getStatusConfig } from './CollapsedMaestroStatus';
-import { IconShield, IconTerminal } from '../../../shared/ui/Icons';
+import ThreadSwitcher from './ThreadSwitcher';
+import { IconArchiveBox, IconChartBar, IconCloud, IconMagnifyingGlass, IconRobot, IconShield, IconTerminal } from '../../../shared/ui/Icons';
 import { useMaestroStore } from '../../../store';
 import { parseLanguagePairId } from '../../../shared/utils/languageUtils';
 import { useAppTranslations } from '../../../shared/hooks/useAppTranslations';
@@ -21,6 +22,14 @@ const Header = forwardRef<HTMLDivElement, HeaderProps>(({ onOpenApiKey, hasApiKe
   const selectedLanguagePair = useMaestroStore(selectSelectedLanguagePair);
   const targetLanguageDef = useMaestroStore(selectTargetLanguageDef);
   const toggleDebugLogs = useMaestroStore(state => state.toggleDebugLogs);
+  const toggleStoragePanel = useMaestroStore(state => state.toggleStoragePanel);
+  const toggleSearchPanel = useMaestroStore(state => state.toggleSearchPanel);
+  const toggleSyncPanel = useMaestroStore(state => state.toggleSyncPanel);
+  const toggleModelsPanel = useMaestroStore(state => state.toggleModelsPanel);
+  const toggleUsagePanel = useMaestroStore(state => state.toggleUsagePanel);
+  const exceededBudget = useMaestroStore(state => state.exceededBudget);
+  const syncPhase = useMaestroStore(state => state.syncStatus.phase);
+  const storageLevel = useMaestroStore(state => state.storageStatus?.level ?? 'ok');
   const setIsLanguageSelectionOpen = useMaestroStore(state => state.setIsLanguageSelectionOpen);
   const setTempNativeLangCode = useMaestroStore(state => state.setTempNativeLangCode);
   const setTempTargetLangCode = useMaestroStore(state => state.setTempTargetLangCode);
@@ -161,6 +170,8 @@ const Header = forwardRef<HTMLDivElement, HeaderProps>(({ onOpenApiKey, hasApiKe
         </div>
       </div>
 
+      <ThreadSwitcher />
+
       <div className="fixed top-4 right-4 z-40 flex items-center gap-2">
         {onOpenApiKey && (
           <button
@@ -175,6 +186,57 @@ const Header = forwardRef<HTMLDivElement, HeaderProps>(({ onOpenApiKey, hasApiKe
           </button>
         )}
 
+        <button
+          onClick={toggleModelsPanel}
+          className="p-2 bg-slate-800/80 hover:bg-slate-700 text-slate-400 hover:text-white rounded-full shadow-sm backdrop-blur-sm transition-all"
+          title={t('llm.title')}
+        >
+          <IconRobot className="w-4 h-4" />
+        </button>
+
+        <button
+          onClick={toggleSearchPanel}
+          className="p-2 bg-slate-800/80 hover:bg-slate-700 text-slate-400 hover:text-white rounded-full shadow-sm backdrop-blur-sm transition-all"
+          title={t('search.open')}
+        >
+          <IconMagnifyingGlass className="w-4 h-4" />
+        </button>
+
+        <button
+          onClick={toggleSyncPanel}
+          className={`p-2 rounded-full shadow-sm backdrop-blur-sm transition-all
+            ${syncPhase === 'error' ? 'bg-rose-600/90 text-white hover:bg-rose-600'
+              : syncPhase === 'idle' ? 'bg-slate-800/80 hover:bg-slate-700 text-emerald-400 hover:text-white'
+              : 'bg-slate-800/80 hover:bg-slate-700 text-slate-400 hover:text-white'}
+          `}
+          title={t(`sync.phase.${syncPhase}`)}
+        >
+          <IconCloud className={`w-4 h-4 ${syncPhase === 'syncing' ? 'animate-pulse' : ''}`} />
+        </button>
+
+        <button
+          onClick={toggleStoragePanel}
+          className={`p-2 rounded-full shadow-sm backdrop-blur-sm transition-all
+            ${storageLevel === 'critical' ? 'bg-rose-600/90 text-white hover:bg-rose-600'
+              : storageLevel === 'warning' ? 'bg-amber-500/90 text-white hover:bg-amber-500'
+              : 'bg-slate-800/80 hover:bg-slate-700 text-slate-400 hover:text-white'}
+          `}
+          title={t('storage.title')}
+        >
+          <IconArchiveBox className="w-4 h-4" />
+        </button>
+
+        <button
+          onClick={toggleUsagePanel}
+          className={`p-2 rounded-full shadow-sm backdrop-blur-sm transition-all
+            ${exceededBudget ? 'bg-amber-500/90 text-white hover:bg-amber-500'
+              : 'bg-slate-800/80 hover:bg-slate-700 text-slate-400 hover:text-white'}
+          `}
+          title={t('usage.title')}
+        >
+          <IconChartBar className="w-4 h-4" />
+        </button>
+
         <button
           onClick={toggleDebugLogs}
           className="p-2 bg-slate-800/80 hover:bg-slate-700 text-slate-400 hover:text-white rounded-full shadow-sm backdrop-blur-sm transition-all"
@@ -15,6 +15,7 @@ import {
   IconShield,
   IconBolt,
   IconSwap,
+  IconClock,
 } from '../../../shared/ui/Icons';
 
 import { getGlobalProfileDB, setGlobalProfileDB } from '../services/globalProfile';
@@ -24,16 +25,43 @@ import { DB_NAME } from '../../../core/db/index';
 import { useMaestroStore } from '../../../store';
 import { TOKEN_CATEGORY, TOKEN_SUBTYPE } from '../../../core/config/activityTokens';
 import { useAppTranslations } from '../../../shared/hooks/useAppTranslations';
-import { useDataBackup } from '../hooks/useDataBackup';
+import { useDataBackup, type BackupImportOptions, type BackupReadResult, type ExportChatsRequest, type PendingBackupImport } from '../hooks/useDataBackup';
+import BackupImportDialog from './BackupImportDialog';
+import BackupExportDialog from './BackupExportDialog';
+import AnkiExportDialog from './AnkiExportDialog';
+import type { AnkiNoteCandidate } from '../services/ankiExport';
+import BackupPassphraseDialog from './BackupPassphraseDialog';
+import SnapshotRestoreDialog from './SnapshotRestoreDialog';
+import { takeAutoSnapshot } from '../hooks/useAutoSnapshots';
+import { BACKUP_ARCHIVE_EXTENSION } from '../services/backupArchive';
 import { GEMINI_VOICES } from '../../../core/config/app';
 import { selectSettings } from '../../../store/slices/settingsSlice';
 
 const SessionControls: React.FC = () => {
   const { t } = useAppTranslations();
-  const { handleSaveAllChats, handleLoadAllChats } = useDataBackup({ t });
+  const {
+    handleSaveAllChats,
+    handleExportChats,
+    prepareAnkiExport,
+    handleAnkiExport,
+    listExportablePairIds,
+    readBackupForImport,
+    applyBackupImport,
+    restoreSnapshot,
+  } = useDataBackup({ t });
+  const [pendingImport, setPendingImport] = useState<PendingBackupImport | null>(null);
+  const [isApplyingImport, setIsApplyingImport] = useState(false);
+  const [lockedImport, setLockedImport] = useState<{ file: File; wrongPassphrase: boolean } | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [exportPairIds, setExportPairIds] = useState<string[] | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [ankiCandidates, setAnkiCandidates] = useState<AnkiNoteCandidate[] | null>(null);
+  const [showSnapshots, setShowSnapshots] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
 
   const settings = useMaestroStore(selectSettings);
   const updateSetting = useMaestroStore(state => state.updateSetting);
+  const pushUndo = useMaestroStore(state => state.pushUndo);
   const currentVoiceName = settings.tts.voiceName || 'Kore';
 
   const addActivityToken = useMaestroStore(state => state.addActivityToken);
@@ -118,10 +146,24 @@ const SessionControls: React.FC = () => {
     }
   };
 
+  const applyProfileText = async (text: string) => {
+    await setGlobalProfileDB(text);
+    try { window.dispatchEvent(new CustomEvent('globalProfileUpdated')); } catch { }
+  };
+
   const handleProfileSave = async () => {
     try {
-      await setGlobalProfileDB(profileText.trim());
-      try { window.dispatchEvent(new CustomEvent('globalProfileUpdated')); } catch { }
+      const previous = (await getGlobalProfileDB())?.text ?? '';
+      const next = profileText.trim();
+      await applyProfileText(next);
+      if (previous !== next) {
+        pushUndo({
+          label: 'undo.action.editProfile',
+          threadId: null,
+          undo: () => applyProfileText(previous),
+          redo: () => applyProfileText(next),
+        });
+      }
     } finally {
       setIsEditingProfile(false);
     }
@@ -258,45 +300,133 @@ const SessionControls: React.FC = () => {
     }
   };
 
+  const endLoadTask = () => {
+    if (loadTokenRef.current) {
+      endUiTask(loadTokenRef.current);
+      loadTokenRef.current = null;
+    }
+  };
+
   const handleLoadFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
-    if (file && handleLoadAllChats) {
-      try {
-        if (!loadTokenRef.current) {
-          loadTokenRef.current = createUiToken(TOKEN_SUBTYPE.LOAD_POPUP);
-        }
-        await handleLoadAllChats(file);
-      } finally {
-        if (loadTokenRef.current) {
-          endUiTask(loadTokenRef.current);
-          loadTokenRef.current = null;
-        }
-      }
-    }
     event.target.value = '';
+    if (!file) return;
+    if (!loadTokenRef.current) {
+      loadTokenRef.current = createUiToken(TOKEN_SUBTYPE.LOAD_POPUP);
+    }
+    handleReadResult(file, await readBackupForImport(file));
+  };
+
+  // The load task stays open while the passphrase or preview dialog is shown.
+  const handleReadResult = (file: File, result: BackupReadResult) => {
+    if (result?.status === 'locked') {
+      setLockedImport({ file, wrongPassphrase: result.wrongPassphrase });
+      return;
+    }
+    setLockedImport(null);
+    if (result?.status === 'ready') setPendingImport(result.pending);
+    else endLoadTask();
+  };
+
+  const handleUnlockSubmit = async (passphrase: string) => {
+    if (!lockedImport) return;
+    const { file } = lockedImport;
+    setIsUnlocking(true);
+    try {
+      handleReadResult(file, await readBackupForImport(file, passphrase));
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  const handleUnlockCancel = () => {
+    setLockedImport(null);
+    endLoadTask();
+  };
+
+  const handleImportCancel = () => {
+    setPendingImport(null);
+    endLoadTask();
+  };
+
+  const handleImportConfirm = async (options: BackupImportOptions) => {
+    if (!pendingImport) return;
+    setIsApplyingImport(true);
+    try {
+      await applyBackupImport(pendingImport, options);
+    } finally {
+      setIsApplyingImport(false);
+      setPendingImport(null);
+      endLoadTask();
+    }
+  };
+
+  const endSaveTask = () => {
+    if (saveTokenRef.current) {
+      endUiTask(saveTokenRef.current);
+      saveTokenRef.current = null;
+    }
   };
 
   const handleSave = async () => {
-    if (handleSaveAllChats) {
-      if (!saveTokenRef.current) {
-        saveTokenRef.current = createUiToken(TOKEN_SUBTYPE.SAVE_POPUP);
-      }
-      try {
-        await handleSaveAllChats();
-      } finally {
-        if (saveTokenRef.current) {
-          endUiTask(saveTokenRef.current);
-          saveTokenRef.current = null;
-        }
+    if (!saveTokenRef.current) {
+      saveTokenRef.current = createUiToken(TOKEN_SUBTYPE.SAVE_POPUP);
+    }
+    setExportPairIds(await listExportablePairIds());
+  };
+
+  const handleExport = async (request: ExportChatsRequest) => {
+    setIsExporting(true);
+    // The save task stays open while the Anki note picker is shown.
+    let keepTask = false;
+    try {
+      if (request.format === 'anki') {
+        const candidates = await prepareAnkiExport(request.selection, request.sources);
+        keepTask = !!candidates;
+        setAnkiCandidates(candidates);
+      } else {
+        await handleExportChats(request);
       }
+    } finally {
+      setIsExporting(false);
+      setExportPairIds(null);
+      if (!keepTask) endSaveTask();
+    }
+  };
+
+  const handleExportCancel = () => {
+    setExportPairIds(null);
+    setAnkiCandidates(null);
+    endSaveTask();
+  };
+
+  const handleAnkiConfirm = async (notes: AnkiNoteCandidate[]) => {
+    setIsExporting(true);
+    try {
+      await handleAnkiExport(notes);
+    } finally {
+      setIsExporting(false);
+      setAnkiCandidates(null);
+      endSaveTask();
+    }
+  };
+
+  const handleSnapshotRestore = async (snapshotId: string) => {
+    setIsRestoring(true);
+    try {
+      if (await restoreSnapshot(snapshotId)) setShowSnapshots(false);
+    } finally {
+      setIsRestoring(false);
     }
   };
 
   const handleResetConfirm = async () => {
     if (resetConfirm !== 'DELETE') return;
     try {
+      // The snapshot database survives the wipe, so the reset can be rolled back from the restore dialog.
+      await takeAutoSnapshot('before-reset');
       const safe = `backup-before-reset-${new Date().toISOString().slice(0, 10)}`;
-      if (handleSaveAllChats) await handleSaveAllChats({ filename: `${safe}.json`, auto: true });
+      if (handleSaveAllChats) await handleSaveAllChats({ filename: `${safe}${BACKUP_ARCHIVE_EXTENSION}`, auto: true });
       await new Promise(r => setTimeout(r, 500));
       await wipeLocalMemoryAndDb();
       window.location.reload();
@@ -439,11 +569,56 @@ const SessionControls: React.FC = () => {
               <IconFolderOpen className="w-4 h-4" />
             </button>
             <div className="w-px h-4 bg-white/10 mx-0.5"></div>
+            <button type="button" onClick={() => setShowSnapshots(true)} className="p-2 hover:bg-white/10 rounded-full text-slate-300 hover:text-white transition-colors" title={t('snapshots.open')}>
+              <IconClock className="w-4 h-4" />
+            </button>
+            <div className="w-px h-4 bg-white/10 mx-0.5"></div>
             <button type="button" onClick={() => setResetMode(true)} className="p-2 hover:bg-red-500/20 rounded-full text-slate-300 hover:text-red-200 transition-colors" title="Backup & Reset">
               <IconTrash className="w-4 h-4" />
             </button>
           </div>
-          <input type="file" ref={loadFileInputRef} onChange={handleLoadFileChange} accept=".json" className="hidden" />
+          <input type="file" ref={loadFileInputRef} onChange={handleLoadFileChange} accept=".zip,.json,.enc,application/zip,application/json,application/octet-stream" className="hidden" />
+          {lockedImport && (
+            <BackupPassphraseDialog
+              key={lockedImport.file.name}
+              fileName={lockedImport.file.name}
+              isBusy={isUnlocking}
+              error={lockedImport.wrongPassphrase ? t('backupCrypto.wrongPassphrase') : null}
+              onCancel={handleUnlockCancel}
+              onSubmit={handleUnlockSubmit}
+            />
+          )}
+          {exportPairIds && (
+            <BackupExportDialog
+              pairIds={exportPairIds}
+              isExporting={isExporting}
+              onCancel={handleExportCancel}
+              onExport={handleExport}
+            />
+          )}
+          {ankiCandidates && (
+            <AnkiExportDialog
+              candidates={ankiCandidates}
+              isExporting={isExporting}
+              onCancel={handleExportCancel}
+              onExport={handleAnkiConfirm}
+            />
+          )}
+          {showSnapshots && (
+            <SnapshotRestoreDialog
+              isRestoring={isRestoring}
+              onCancel={() => setShowSnapshots(false)}
+              onRestore={handleSnapshotRestore}
+            />
+          )}
+          {pendingImport && (
+            <BackupImportDialog
+              pending={pendingImport}
+              isApplying={isApplyingImport}
+              onCancel={handleImportCancel}
+              onConfirm={handleImportConfirm}
+            />
+          )}
 
           {/* Right: Maestro Avatar Cluster */}
           <div
@@ -0,0 +1,175 @@
+// Copyright 2025 Roni Tervo
+//
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * SnapshotRestoreDialog - Lists automatic snapshots and rolls back to one.
+ *
+ * Responsibilities:
+ * - Show each snapshot's date, reason, size and message counts per pair
+ * - Take a snapshot on demand and delete snapshots
+ * - Confirm before replacing all chats with the chosen snapshot
+ */
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { IconTrash, IconXMark } from '../../../shared/ui/Icons';
+import { SmallSpinner } from '../../../shared/ui/SmallSpinner';
+import { useAppTranslations } from '../../../shared/hooks/useAppTranslations';
+import { formatBytes } from '../../storage';
+import { useMaestroStore } from '../../../store';
+import { deleteSnapshotDB, listSnapshotsDB, type SnapshotInfo } from '../services/autoSnapshots';
+import { takeAutoSnapshot } from '../hooks/useAutoSnapshots';
+
+interface SnapshotRestoreDialogProps {
+  isRestoring: boolean;
+  onCancel: () => void;
+  onRestore: (snapshotId: string) => void;
+}
+
+const SnapshotRestoreDialog: React.FC<SnapshotRestoreDialogProps> = ({ isRestoring, onCancel, onRestore }) => {
+  const { t } = useAppTranslations();
+  const languagePairs = useMaestroStore(state => state.languagePairs);
+  const [snapshots, setSnapshots] = useState<SnapshotInfo[] | null>(null);
+  const [confirmId, setConfirmId] = useState<string | null>(null);
+  const [isTaking, setIsTaking] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      setSnapshots(await listSnapshotsDB());
+    } catch (e) {
+      console.warn('[Snapshots] Failed to list snapshots:', e);
+      setSnapshots([]);
+    }
+  }, []);
+
+  useEffect(() => { load(); }, [load]);
+
+  const pairNames = useMemo(() => {
+    const out: Record<string, string> = {};
+    languagePairs.forEach(pair => { out[pair.id] = pair.name; });
+    return out;
+  }, [languagePairs]);
+
+  const handleTakeNow = async () => {
+    setIsTaking(true);
+    try {
+      await takeAutoSnapshot('manual');
+      await load();
+    } finally {
+      setIsTaking(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteSnapshotDB(id);
+    } catch (e) {
+      console.warn('[Snapshots] Failed to delete snapshot:', e);
+    }
+    if (confirmId === id) setConfirmId(null);
+    await load();
+  };
+
+  const busy = isRestoring || isTaking;
+
+  return createPortal(
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/40 backdrop-blur-sm p-4">
+      <div className="w-full max-w-lg max-h-[90vh] flex flex-col rounded-2xl bg-white shadow-xl border border-slate-200">
+        <div className="flex items-start justify-between px-6 pt-6">
+          <div>
+            <h2 className="text-lg font-semibold text-slate-900">{t('snapshots.title')}</h2>
+            <p className="text-sm text-slate-600">{t('snapshots.subtitle')}</p>
+          </div>
+          <button onClick={onCancel} disabled={isRestoring} className="text-slate-400 hover:text-slate-700 disabled:opacity-40" aria-label={t('snapshots.close')}>
+            <IconXMark className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="px-6 py-4 space-y-2 overflow-y-auto">
+          {!snapshots && <SmallSpinner className="w-5 h-5 text-slate-400" />}
+          {snapshots && snapshots.length === 0 && <p className="text-sm text-slate-500">{t('snapshots.empty')}</p>}
+          {snapshots?.map(snapshot => {
+            const pairs = Object.entries(snapshot.pairs).sort((a, b) => b[1] - a[1]);
+            return (
+              <div key={snapshot.id} className="rounded-xl border border-slate-200 p-3 space-y-1">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm font-medium text-slate-900">{new Date(snapshot.createdAt).toLocaleString()}</span>
+                  <span className="text-xs text-slate-500">{t(`snapshots.reason.${snapshot.reason}`)}</span>
+                </div>
+                <p className="text-xs text-slate-600">
+                  {t('snapshots.stats', { messages: snapshot.messageCount, pairs: pairs.length, size: formatBytes(snapshot.size) })}
+                </p>
+                {!snapshot.includesMedia && <p className="text-xs text-slate-500">{t('snapshots.textOnly')}</p>}
+                {pairs.length > 0 && (
+                  <p className="text-xs text-slate-500 truncate">
+                    {pairs.map(([pairId, count]) => `${pairNames[pairId] || pairId}: ${count}`).join(' · ')}
+                  </p>
+                )}
+                {confirmId === snapshot.id ? (
+                  <div className="flex items-center justify-between gap-2 pt-1">
+                    <span className="text-xs text-red-600">{t('snapshots.replaceWarning')}</span>
+                    <div className="flex gap-2 flex-shrink-0">
+                      <button
+                        onClick={() => setConfirmId(null)}
+                        disabled={isRestoring}
+                        className="px-3 py-1 rounded-lg text-xs text-slate-700 hover:bg-slate-100 disabled:opacity-40"
+                      >
+                        {t('snapshots.cancel')}
+                      </button>
+                      <button
+                        onClick={() => onRestore(snapshot.id)}
+                        disabled={isRestoring}
+                        className="px-3 py-1 rounded-lg text-xs text-white bg-red-600 hover:bg-red-700 flex items-center gap-1 disabled:opacity-60"
+                      >
+                        {isRestoring && <SmallSpinner className="w-3 h-3" />}
+                        {t('snapshots.confirmRestore')}
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex justify-end gap-2 pt-1">
+                    <button
+                      onClick={() => handleDelete(snapshot.id)}
+                      disabled={busy}
+                      className="p-1 rounded-lg text-slate-400 hover:text-red-600 hover:bg-slate-100 disabled:opacity-40"
+                      title={t('snapshots.delete')}
+                    >
+                      <IconTrash className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => setConfirmId(snapshot.id)}
+                      disabled={busy}
+                      className="px-3 py-1 rounded-lg text-xs text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-60"
+                    >
+                      {t('snapshots.restore')}
+                    </button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex justify-between gap-2 px-6 pb-6">
+          <button
+            onClick={handleTakeNow}
+            disabled={busy}
+            className="px-4 py-2 rounded-lg text-sm text-blue-700 hover:bg-blue-50 flex items-center gap-2 disabled:opacity-40"
+          >
+            {isTaking && <SmallSpinner className="w-4 h-4" />}
+            {t('snapshots.takeNow')}
+          </button>
+          <button
+            onClick={onCancel}
+            disabled={isRestoring}
+            className="px-4 py-2 rounded-lg text-sm text-slate-700 hover:bg-slate-100 disabled:opacity-40"
+          >
+            {t('snapshots.close')}
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default SnapshotRestoreDialog;
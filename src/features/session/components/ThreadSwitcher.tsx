@@ -0,0 +1,225 @@
+// Copyright 2025 Roni Tervo
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * ThreadSwitcher - Lists the conversation threads of the selected language pair.
+ *
+ * Responsibilities:
+ * - Switch between threads of the current pair
+ * - Create, rename, archive/unarchive and delete threads
+ */
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useShallow } from 'zustand/react/shallow';
+import { IconArchiveBox, IconChatBubbles, IconCheck, IconPencil, IconPlus, IconTrash, IconUndo } from '../../../shared/ui/Icons';
+import { useMaestroStore, selectActiveThreadId, selectThreads } from '../../../store';
+import { selectIsSending } from '../../../store/slices/uiSlice';
+import { useAppTranslations } from '../../../shared/hooks/useAppTranslations';
+import { isDefaultThread } from '../../chat';
+import type { ChatThread } from '../../../core/types';
+
+const ThreadSwitcher: React.FC = () => {
+  const { t } = useAppTranslations();
+  const pairId = useMaestroStore(state => state.settings.selectedLanguagePairId);
+  const threads = useMaestroStore(useShallow(selectThreads));
+  const activeThreadId = useMaestroStore(selectActiveThreadId);
+  const isSending = useMaestroStore(selectIsSending);
+  const selectThread = useMaestroStore(state => state.selectThread);
+  const createThread = useMaestroStore(state => state.createThread);
+  const renameThread = useMaestroStore(state => state.renameThread);
+  const setThreadArchived = useMaestroStore(state => state.setThreadArchived);
+  const deleteThread = useMaestroStore(state => state.deleteThread);
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [showArchived, setShowArchived] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handlePointerDown = (e: PointerEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+        setEditingId(null);
+        setIsCreating(false);
+      }
+    };
+    document.addEventListener('pointerdown', handlePointerDown);
+    return () => document.removeEventListener('pointerdown', handlePointerDown);
+  }, [isOpen]);
+
+  const displayName = useCallback((thread: ChatThread) => {
+    if (thread.name) return thread.name;
+    return isDefaultThread(thread) ? t('threads.defaultName') : t('threads.untitled');
+  }, [t]);
+
+  const handleSelect = async (threadId: string) => {
+    if (isSending) return;
+    setIsOpen(false);
+    await selectThread(threadId);
+  };
+
+  const handleCreateConfirm = async () => {
+    const name = draftName.trim();
+    setIsCreating(false);
+    setDraftName('');
+    setIsOpen(false);
+    await createThread(name);
+  };
+
+  const handleRenameConfirm = async () => {
+    if (!editingId) return;
+    const id = editingId;
+    setEditingId(null);
+    await renameThread(id, draftName);
+    setDraftName('');
+  };
+
+  const handleDelete = async (thread: ChatThread) => {
+    if (!window.confirm(t('threads.deleteConfirm', { name: displayName(thread) }))) return;
+    await deleteThread(thread.id);
+  };
+
+  if (!pairId) return null;
+
+  const activeThread = threads.find(th => th.id === activeThreadId);
+  const visibleThreads = threads.filter(th => !th.archived);
+  const archivedThreads = threads.filter(th => th.archived);
+
+  const renderRow = (thread: ChatThread) => {
+    const isActive = thread.id === activeThreadId;
+    if (editingId === thread.id) {
+      return (
+        <li key={thread.id} className="flex items-center gap-1 px-2 py-1">
+          <input
+            className="flex-1 min-w-0 bg-slate-900/60 border border-slate-600 rounded px-2 py-1 text-xs text-slate-100 focus:outline-none focus:border-sky-400"
+            value={draftName}
+            onChange={(e) => setDraftName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleRenameConfirm();
+              if (e.key === 'Escape') setEditingId(null);
+            }}
+            autoFocus
+          />
+          <button type="button" onClick={handleRenameConfirm} className="p-1 rounded-full text-emerald-300 hover:bg-white/10" title={t('threads.save')}>
+            <IconCheck className="w-3.5 h-3.5" />
+          </button>
+          <button type="button" onClick={() => setEditingId(null)} className="p-1 rounded-full text-slate-400 hover:bg-white/10" title={t('threads.cancel')}>
+            <IconUndo className="w-3.5 h-3.5" />
+          </button>
+        </li>
+      );
+    }
+    return (
+      <li key={thread.id} className={`group flex items-center gap-1 px-2 py-1 rounded ${isActive ? 'bg-sky-600/30' : 'hover:bg-white/5'}`}>
+        <button
+          type="button"
+          onClick={() => handleSelect(thread.id)}
+          disabled={isSending}
+          className={`flex-1 min-w-0 text-left text-xs truncate disabled:opacity-50 ${thread.archived ? 'text-slate-500 italic' : 'text-slate-200'}`}
+        >
+          {displayName(thread)}
+        </button>
+        <button
+          type="button"
+          onClick={() => { setEditingId(thread.id); setDraftName(thread.name); }}
+          className="p-1 rounded-full text-slate-400 hover:text-white hover:bg-white/10"
+          title={t('threads.rename')}
+        >
+          <IconPencil className="w-3.5 h-3.5" />
+        </button>
+        {!isDefaultThread(thread) && (
+          <>
+            <button
+              type="button"
+              onClick={() => setThreadArchived(thread.id, !thread.archived)}
+              className="p-1 rounded-full text-slate-400 hover:text-white hover:bg-white/10"
+              title={thread.archived ? t('threads.unarchive') : t('threads.archive')}
+            >
+              <IconArchiveBox className="w-3.5 h-3.5" />
+            </button>
+            <button
+              type="button"
+              onClick={() => handleDelete(thread)}
+              className="p-1 rounded-full text-slate-400 hover:text-red-300 hover:bg-red-500/20"
+              title={t('threads.delete')}
+            >
+              <IconTrash className="w-3.5 h-3.5" />
+            </button>
+          </>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <div ref={containerRef} className="fixed top-14 left-2 z-40 select-none">
+      <button
+        type="button"
+        onClick={() => setIsOpen(v => !v)}
+        className="flex items-center gap-1.5 max-w-[12rem] px-2.5 py-1 rounded-full bg-slate-800/80 hover:bg-slate-700 text-slate-300 hover:text-white shadow-sm backdrop-blur-sm transition-all text-xs"
+        title={t('threads.switch')}
+      >
+        <IconChatBubbles className="w-3.5 h-3.5 flex-shrink-0" />
+        <span className="truncate">{activeThread ? displayName(activeThread) : t('threads.defaultName')}</span>
+      </button>
+
+      {isOpen && (
+        <div className="mt-1 w-64 bg-slate-800/95 backdrop-blur-sm border border-white/10 rounded-lg shadow-xl p-1.5 animate-fade-in">
+          <ul className="max-h-64 overflow-y-auto space-y-0.5">
+            {visibleThreads.map(renderRow)}
+            {showArchived && archivedThreads.map(renderRow)}
+          </ul>
+
+          <div className="mt-1.5 pt-1.5 border-t border-white/10 flex items-center gap-1">
+            {isCreating ? (
+              <>
+                <input
+                  className="flex-1 min-w-0 bg-slate-900/60 border border-slate-600 rounded px-2 py-1 text-xs text-slate-100 placeholder-slate-500 focus:outline-none focus:border-sky-400"
+                  placeholder={t('threads.namePlaceholder')}
+                  value={draftName}
+                  onChange={(e) => setDraftName(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') handleCreateConfirm();
+                    if (e.key === 'Escape') setIsCreating(false);
+                  }}
+                  autoFocus
+                />
+                <button type="button" onClick={handleCreateConfirm} className="p-1 rounded-full text-emerald-300 hover:bg-white/10" title={t('threads.save')}>
+                  <IconCheck className="w-3.5 h-3.5" />
+                </button>
+                <button type="button" onClick={() => setIsCreating(false)} className="p-1 rounded-full text-slate-400 hover:bg-white/10" title={t('threads.cancel')}>
+                  <IconUndo className="w-3.5 h-3.5" />
+                </button>
+              </>
+            ) : (
+              <>
+                <button
+                  type="button"
+                  onClick={() => { setIsCreating(true); setEditingId(null); setDraftName(''); }}
+                  disabled={isSending}
+                  className="flex items-center gap-1 px-2 py-1 rounded text-xs text-sky-300 hover:bg-white/10 disabled:opacity-50"
+                >
+                  <IconPlus className="w-3.5 h-3.5" />
+                  {t('threads.new')}
+                </button>
+                {archivedThreads.length > 0 && (
+                  <button
+                    type="button"
+                    onClick={() => setShowArchived(v => !v)}
+                    className="ml-auto px-2 py-1 rounded text-xs text-slate-400 hover:text-white hover:bg-white/10"
+                  >
+                    {showArchived ? t('threads.hideArchived') : t('threads.showArchived', { count: archivedThreads.length })}
+                  </button>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ThreadSwitcher;
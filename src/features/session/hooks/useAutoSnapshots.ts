@@ -0,0 +1,82 @@
+// Copyright 2025 Roni Tervo
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * useAutoSnapshots - Takes the daily automatic snapshot.
+ *
+ * Responsibilities:
+ * - Check shortly after start and then hourly whether the newest daily snapshot is a day old;
+ *   only the tab holding the `snapshot` resource checks, so open tabs do not race
+ * - Provide `takeAutoSnapshot` for snapshots before destructive actions (reset, import, restore)
+ */
+
+import { useEffect, useRef } from 'react';
+import { getStoreState, useMaestroStore } from '../../../store';
+import { selectActiveThreadId } from '../../../store/slices/settingsSlice';
+import { claimTabResource } from '../../../core/tabs/tabCoordination';
+import { safeSaveChatHistoryDB } from '../../chat';
+import { resolveStorageSettings, snapshotLimitsFromRules } from '../../storage';
+import {
+  createSnapshot,
+  getLatestSnapshotInfoDB,
+  DAILY_SNAPSHOT_INTERVAL_MS,
+  type SnapshotInfo,
+  type SnapshotReason,
+} from '../services/autoSnapshots';
+
+const INITIAL_CHECK_DELAY_MS = 30 * 1000;
+const CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Saves the open thread, then snapshots the database. Never rejects: a failed
+ * snapshot must not block the action it precedes.
+ */
+export const takeAutoSnapshot = async (reason: SnapshotReason): Promise<SnapshotInfo | null> => {
+  const state = getStoreState();
+  const activeThreadId = selectActiveThreadId(state);
+  if (activeThreadId && !state.isLoadingHistory) {
+    try { await safeSaveChatHistoryDB(activeThreadId, state.messages); } catch { /* ignore */ }
+  }
+  try {
+    return await createSnapshot(reason, snapshotLimitsFromRules(resolveStorageSettings(state.settings.storage)));
+  } catch (e) {
+    console.warn(`[Snapshots] Failed to take ${reason} snapshot:`, e);
+    return null;
+  }
+};
+
+export const useAutoSnapshots = () => {
+  const isSettingsLoaded = useMaestroStore(state => state.isSettingsLoaded);
+  const isRunningRef = useRef(false);
+
+  useEffect(() => {
+    if (!isSettingsLoaded) return;
+    const check = async () => {
+      if (isRunningRef.current) return;
+      isRunningRef.current = true;
+      const releaseClaim = await claimTabResource('snapshot');
+      if (!releaseClaim) {
+        isRunningRef.current = false;
+        return;
+      }
+      try {
+        const latest = await getLatestSnapshotInfoDB('daily');
+        if (latest && Date.now() - latest.createdAt < DAILY_SNAPSHOT_INTERVAL_MS) return;
+        const info = await takeAutoSnapshot('daily');
+        if (info) console.info('[Snapshots] Daily snapshot taken:', info.messageCount, 'messages');
+      } catch (e) {
+        console.warn('[Snapshots] Daily check failed:', e);
+      } finally {
+        releaseClaim();
+        isRunningRef.current = false;
+      }
+    };
+    const initial = window.setTimeout(() => { check(); }, INITIAL_CHECK_DELAY_MS);
+    const interval = window.setInterval(() => { check(); }, CHECK_INTERVAL_MS);
+    return () => {
+      window.clearTimeout(initial);
+      window.clearInterval(interval);
+    };
+  }, [isSettingsLoaded]);
+};
+
+export default useAutoSnapshots;
@@ -3,6 +3,13 @@
 // SPDX-License-Identifier: Apache-2.0
 /**
  * useDataBackup - Handles saving and loading all chat data as backup files.
+ * Imports are two-step: read + preview first, then replace or merge on confirm.
+ * Manual exports go through `handleExportChats`: a selection of pairs/dates as
+ * a (optionally passphrase-encrypted) backup or as a readable transcript.
+ * Anki exports are two-step: collect note candidates, then package the chosen ones.
+ * Encrypted imports are unlocked before the preview.
+ * Every import first takes an automatic snapshot; snapshots restore through the
+ * same replace path.
  * 
  * This hook extracts the backup/restore orchestration logic from App.tsx,
  * coordinating between multiple services (chats, metas, global profile, assets).
@@ -10,13 +17,20 @@
 import { useCallback } from 'react';
 
 // --- Types ---
-import type { ChatMessage } from '../../../core/types';
 import type { TranslationFunction } from '../../../app/hooks/useTranslations';
 
 // --- Services ---
-import { safeSaveChatHistoryDB, getAllChatHistoriesDB, getAllChatMetasDB, clearAndSaveAllHistoriesDB, getChatHistoryDB } from '../../chat';
-import { getGlobalProfileDB } from '..';
+import { safeSaveChatHistoryDB, clearAndSaveAllHistoriesDB, getAllThreadsDB } from '../../chat';
 import { getLoadingGifsDB as getAssetsLoadingGifs, setLoadingGifsDB as setAssetsLoadingGifs, getMaestroProfileImageDB, setMaestroProfileImageDB } from '../../../core/db/assets';
+import { putTtsAudioRecordsDB } from '../../../core/db/ttsCache';
+import { writeBackupArchive, readBackupFile, readBackupSourceDB, BACKUP_ARCHIVE_EXTENSION, type BackupData } from '../services/backupArchive';
+import { BackupCryptoError, encryptBackup, BACKUP_ENCRYPTED_EXTENSION } from '../services/backupCrypto';
+import { getSelectedThreadsByPair, FULL_EXPORT_SELECTION, type ExportSelection } from '../services/exportSelection';
+import { writeTranscript, type TranscriptFormat } from '../services/transcriptExport';
+import { collectAnkiCandidates, writeAnkiPackage, type AnkiNoteCandidate, type AnkiNoteSource } from '../services/ankiExport';
+import { buildImportPreview, mergeBackupIntoDB, type PairImportPreview, type PairImportStrategy } from '../services/backupMerge';
+import { readSnapshot } from '../services/autoSnapshots';
+import { takeAutoSnapshot } from './useAutoSnapshots';
 
 // --- Config ---
 import { ALL_LANGUAGES, DEFAULT_NATIVE_LANG_CODE } from '../../../core/config/languages';
@@ -24,160 +38,311 @@ import { ALL_LANGUAGES, DEFAULT_NATIVE_LANG_CODE } from '../../../core/config/la
 // --- Utils ---
 import { uniq } from '../../../shared/utils/common';
 import { findLanguageByExactCode, findLanguageByPrimarySubtag } from '../../../shared/utils/languageUtils';
-import { useMaestroStore } from '../../../store';
+import { useMaestroStore, selectActiveThreadId } from '../../../store';
 
 export interface UseDataBackupConfig {
   t: TranslationFunction;
 }
 
+export type BackupImportMode = 'replace' | 'merge';
+
+/** A parsed backup waiting for the user to confirm how it should be imported. */
+export interface PendingBackupImport {
+  fileName: string;
+  data: BackupData;
+  preview: PairImportPreview[];
+  /** Set when the data comes from an automatic snapshot rather than a file. */
+  snapshotId?: string;
+}
+
+export interface BackupImportOptions {
+  mode: BackupImportMode;
+  /** Per-pair strategies for `merge`; pairs without an entry are merged. */
+  strategies?: Record<string, PairImportStrategy>;
+}
+
+/**
+ * Result of reading a backup file. `locked` means the file is encrypted and
+ * needs a (different) passphrase; errors other than that are alerted and
+ * reported as null.
+ */
+export type BackupReadResult =
+  | { status: 'ready'; pending: PendingBackupImport }
+  | { status: 'locked'; wrongPassphrase: boolean }
+  | null;
+
+export interface SaveAllChatsOptions {
+  filename?: string;
+  auto?: boolean;
+  /** Encrypts the archive; the file gets the `.maestro.enc` extension. */
+  passphrase?: string;
+  /** Defaults to everything. */
+  selection?: ExportSelection;
+}
+
+export type ExportChatsRequest =
+  | { format: 'backup'; selection: ExportSelection; passphrase?: string }
+  | { format: TranscriptFormat; selection: ExportSelection }
+  | { format: 'anki'; selection: ExportSelection; sources: AnkiNoteSource[] };
+
+export type ExportFormat = ExportChatsRequest['format'];
+
 export interface UseDataBackupReturn {
-  handleSaveAllChats: (options?: { filename?: string; auto?: boolean }) => Promise<void>;
-  handleLoadAllChats: (file: File) => Promise<void>;
+  handleSaveAllChats: (options?: SaveAllChatsOptions) => Promise<void>;
+  handleExportChats: (request: Exclude<ExportChatsRequest, { format: 'anki' }>) => Promise<void>;
+  /** First Anki step; null when collecting failed (already alerted). */
+  prepareAnkiExport: (selection: ExportSelection, sources: AnkiNoteSource[]) => Promise<AnkiNoteCandidate[] | null>;
+  handleAnkiExport: (notes: AnkiNoteCandidate[]) => Promise<void>;
+  /** Pairs that have stored messages, for the export dialog. */
+  listExportablePairIds: () => Promise<string[]>;
+  readBackupForImport: (file: File, passphrase?: string) => Promise<BackupReadResult>;
+  applyBackupImport: (pending: PendingBackupImport, options: BackupImportOptions) => Promise<void>;
+  /** Replaces all chats with a snapshot; false when it could not be read (already alerted). */
+  restoreSnapshot: (snapshotId: string) => Promise<boolean>;
 }
 
+const fileTimestamp = () => new Date().toISOString().slice(0, 19).replace('T', '_').replace(/:/g, '-');
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
 export const useDataBackup = ({ t }: UseDataBackupConfig): UseDataBackupReturn => {
-  const setMessages = useMaestroStore(state => state.setMessages);
+  const languagePairs = useMaestroStore(state => state.languagePairs);
+  const loadHistoryForPair = useMaestroStore(state => state.loadHistoryForPair);
+  const setIsLoadingHistory = useMaestroStore(state => state.setIsLoadingHistory);
+  const loadThreadsForPair = useMaestroStore(state => state.loadThreadsForPair);
   const setLoadingGifs = useMaestroStore(state => state.setLoadingGifs);
   const setTempNativeLangCode = useMaestroStore(state => state.setTempNativeLangCode);
   const setTempTargetLangCode = useMaestroStore(state => state.setTempTargetLangCode);
   const setIsLanguageSelectionOpen = useMaestroStore(state => state.setIsLanguageSelectionOpen);
 
-  const handleSaveAllChats = useCallback(async (options?: { filename?: string; auto?: boolean }) => {
-    const isAuto = options?.auto === true;
+  const flushActiveThread = useCallback(async () => {
+    const activeThreadId = selectActiveThreadId(useMaestroStore.getState());
+    if (!activeThreadId) return;
     try {
-      const selectedPairId = useMaestroStore.getState().settings.selectedLanguagePairId;
-      if (selectedPairId) {
-        try {
-          await safeSaveChatHistoryDB(selectedPairId, useMaestroStore.getState().messages);
-        } catch { /* ignore */ }
-      }
-      const allChats = await getAllChatHistoriesDB();
-      const allMetas = await getAllChatMetasDB();
-      const gp = await getGlobalProfileDB();
-      let assetsLoadingGifs: string[] = [];
-      try { assetsLoadingGifs = (await getAssetsLoadingGifs()) || []; } catch {}
+      await safeSaveChatHistoryDB(activeThreadId, useMaestroStore.getState().messages);
+    } catch { /* ignore */ }
+  }, []);
 
-      if (Object.keys(allChats).length === 0) {
+  const handleSaveAllChats = useCallback(async (options?: SaveAllChatsOptions) => {
+    const isAuto = options?.auto === true;
+    try {
+      await flushActiveThread();
+      const archive = await writeBackupArchive(await readBackupSourceDB(), options?.selection);
+      if (!archive) {
         if (!isAuto) {
           alert(t('startPage.noChatsToSave'));
         }
         return;
       }
-      let maestroProfile: any = null;
-      try { maestroProfile = await getMaestroProfileImageDB(); } catch {}
-      const backup = { version: 7, chats: allChats, metas: allMetas, globalProfile: gp?.text || null, assets: { loadingGifs: assetsLoadingGifs, maestroProfile } };
-      const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-
-      const timestamp = new Date().toISOString().slice(0, 19).replace('T', '_').replace(/:/g, '-');
+      const passphrase = options?.passphrase || '';
+      const blob = passphrase ? await encryptBackup(archive, passphrase) : archive;
       const prefix = isAuto ? 'maestro-backup-' : 'maestro-all-chats-';
-      a.download = options?.filename && options.filename.trim().length > 0
+      downloadBlob(blob, options?.filename && options.filename.trim().length > 0
         ? options.filename.trim()
-        : `${prefix}${timestamp}.json`;
-
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+        : `${prefix}${fileTimestamp()}${passphrase ? BACKUP_ENCRYPTED_EXTENSION : BACKUP_ARCHIVE_EXTENSION}`);
     } catch (error) {
       console.error("Failed to save all chats:", error);
       if (!isAuto) {
         alert(t('startPage.saveError'));
       }
     }
+  }, [flushActiveThread, t]);
+
+  const handleExportChats = useCallback(async (request: Exclude<ExportChatsRequest, { format: 'anki' }>) => {
+    if (request.format === 'backup') {
+      await handleSaveAllChats({ passphrase: request.passphrase, selection: request.selection });
+      return;
+    }
+    const { format, selection } = request;
+    try {
+      await flushActiveThread();
+      const pairNames: Record<string, string> = {};
+      languagePairs.forEach(pair => { pairNames[pair.id] = pair.name; });
+      const threadNames: Record<string, string> = {};
+      (await getAllThreadsDB()).forEach(thread => { threadNames[thread.id] = thread.name; });
+
+      const file = await writeTranscript(format, selection, {
+        pairNames,
+        threadNames,
+        labels: {
+          title: t('exportDialog.transcriptTitle'),
+          exportedAt: t('exportDialog.exportedAt', { date: new Date().toLocaleString() }),
+          user: t('exportDialog.speakerUser'),
+          assistant: t('exportDialog.speakerAssistant'),
+          image: t('exportDialog.image'),
+          recording: t('exportDialog.recording'),
+          columns: {
+            date: t('exportDialog.column.date'),
+            pair: t('exportDialog.column.pair'),
+            thread: t('exportDialog.column.thread'),
+            speaker: t('exportDialog.column.speaker'),
+            target: t('exportDialog.column.target'),
+            native: t('exportDialog.column.native'),
+          },
+        },
+      });
+      if (!file) {
+        alert(t('exportDialog.nothingSelected'));
+        return;
+      }
+      downloadBlob(file.blob, `maestro-transcript-${fileTimestamp()}${file.extension}`);
+    } catch (error) {
+      console.error("Failed to export transcript:", error);
+      alert(t('startPage.saveError'));
+    }
+  }, [handleSaveAllChats, flushActiveThread, languagePairs, t]);
+
+  const prepareAnkiExport = useCallback(async (selection: ExportSelection, sources: AnkiNoteSource[]) => {
+    try {
+      await flushActiveThread();
+      const voiceName = useMaestroStore.getState().settings.tts.voiceName || 'Kore';
+      return await collectAnkiCandidates(selection, sources, languagePairs, voiceName);
+    } catch (error) {
+      console.error("Failed to collect flashcards:", error);
+      alert(t('startPage.saveError'));
+      return null;
+    }
+  }, [flushActiveThread, languagePairs, t]);
+
+  const handleAnkiExport = useCallback(async (notes: AnkiNoteCandidate[]) => {
+    try {
+      const { blob } = await writeAnkiPackage(notes);
+      downloadBlob(blob, `maestro-anki-${fileTimestamp()}.zip`);
+    } catch (error) {
+      console.error("Failed to export flashcards:", error);
+      alert(t('startPage.saveError'));
+    }
+  }, [t]);
+
+  const listExportablePairIds = useCallback(async () => {
+    try {
+      return Array.from((await getSelectedThreadsByPair(FULL_EXPORT_SELECTION)).keys());
+    } catch {
+      return [];
+    }
+  }, []);
+
+  const readBackupForImport = useCallback(async (file: File, passphrase?: string): Promise<BackupReadResult> => {
+    try {
+      const data = await readBackupFile(file, passphrase);
+      const preview = await buildImportPreview(data);
+      return { status: 'ready', pending: { fileName: file.name, data, preview } };
+    } catch (e) {
+      if (e instanceof BackupCryptoError) {
+        if (e.code === 'PASSPHRASE_REQUIRED') return { status: 'locked', wrongPassphrase: false };
+        if (e.code === 'DECRYPT_FAILED') return { status: 'locked', wrongPassphrase: true };
+        console.error("Failed to decrypt backup:", e);
+        alert(t(e.code === 'UNSUPPORTED' ? 'backupCrypto.unsupported' : 'backupCrypto.corrupt'));
+        return null;
+      }
+      console.error("Failed to read backup:", e);
+      alert(t('startPage.loadError'));
+      return null;
+    }
   }, [t]);
 
-  const handleLoadAllChats = useCallback(async (file: File) => {
-    await handleSaveAllChats({ auto: true });
+  const applyBackupImport = useCallback(async (pending: PendingBackupImport, options: BackupImportOptions) => {
+    const fromSnapshot = !!pending.snapshotId;
+    await takeAutoSnapshot(fromSnapshot ? 'before-restore' : 'before-import');
+    if (!fromSnapshot) await handleSaveAllChats({ auto: true });
 
-    const reader = new FileReader();
-    reader.onload = async (event) => {
+    // The store keeps the old messages until the imported thread is loaded, and the
+    // write forgets what is persisted; a save in between would delete imported records.
+    setIsLoadingHistory(true);
+    try {
+      const { chats, metas, threads, globalProfileText, loadingGifs: importedLoadingGifs, maestroProfile: importedMaestroProfile, media } = pending.data;
+      const isMerge = options.mode === 'merge';
+      if (isMerge) {
+        await mergeBackupIntoDB(pending.data, options.strategies || {});
+      } else {
+        await clearAndSaveAllHistoriesDB(chats, metas, null, globalProfileText, threads, media);
+      }
+      try { await putTtsAudioRecordsDB(pending.data.ttsAudio); } catch (e) { console.warn('Failed to import TTS cache:', e); }
       try {
-        const content = event.target?.result as string;
-        const parsed = JSON.parse(content);
-        if (typeof parsed !== 'object' || parsed === null) throw new Error("Invalid format");
-        let chats: Record<string, ChatMessage[]> = {};
-        let metas: Record<string, any> | null = null;
-        let globalProfileText: string | null = null;
-        let importedLoadingGifs: string[] | null = null;
-        let importedMaestroProfile: any | null = null;
-        
-        if ('chats' in parsed) {
-          chats = parsed.chats || {};
-          metas = parsed.metas || null;
-          globalProfileText = typeof parsed.globalProfile === 'string' ? parsed.globalProfile : null;
-          if (parsed.assets && Array.isArray(parsed.assets.loadingGifs)) {
-            importedLoadingGifs = parsed.assets.loadingGifs as string[];
-          }
-          if (parsed.assets && parsed.assets.maestroProfile && typeof parsed.assets.maestroProfile === 'object') {
-            const mp = parsed.assets.maestroProfile as any;
-            if (mp && (typeof mp.dataUrl === 'string' || typeof mp.uri === 'string')) {
-              importedMaestroProfile = {
-                dataUrl: typeof mp.dataUrl === 'string' ? mp.dataUrl : undefined,
-                mimeType: typeof mp.mimeType === 'string' ? mp.mimeType : undefined,
-                uri: typeof mp.uri === 'string' ? mp.uri : undefined,
-                updatedAt: typeof mp.updatedAt === 'number' ? mp.updatedAt : Date.now(),
-              };
-            }
-          }
-        } else {
-          chats = parsed as Record<string, ChatMessage[]>;
-        }
-        await clearAndSaveAllHistoriesDB(chats, metas, null, globalProfileText);
+        const current = (await getAssetsLoadingGifs()) || [];
+        let manifest: string[] = [];
+        try { const resp = await fetch('/gifs/manifest.json', { cache: 'force-cache' }); if (resp.ok) manifest = await resp.json(); } catch {}
+        const merged = uniq([...current, ...(importedLoadingGifs || []), ...manifest]);
+        await setAssetsLoadingGifs(merged);
+        setLoadingGifs(merged);
+      } catch {}
+      let keepLocalProfile = false;
+      if (isMerge) {
+        try { keepLocalProfile = !!(await getMaestroProfileImageDB())?.dataUrl; } catch { /* ignore */ }
+      }
+      if (importedMaestroProfile && !keepLocalProfile) {
         try {
-          const current = (await getAssetsLoadingGifs()) || [];
-          let manifest: string[] = [];
-          try { const resp = await fetch('/gifs/manifest.json', { cache: 'force-cache' }); if (resp.ok) manifest = await resp.json(); } catch {}
-          const merged = uniq([...current, ...(importedLoadingGifs || []), ...manifest]);
-          await setAssetsLoadingGifs(merged);
-          setLoadingGifs(merged);
-        } catch {}
-        if (importedMaestroProfile) {
+          let profileToPersist: any = { ...importedMaestroProfile };
+          profileToPersist.uri = undefined;
+          await setMaestroProfileImageDB(profileToPersist);
           try {
-            let profileToPersist: any = { ...importedMaestroProfile };
-            profileToPersist.uri = undefined;
-            await setMaestroProfileImageDB(profileToPersist);
-            try {
-              window.dispatchEvent(new CustomEvent('maestro-avatar-updated', { detail: profileToPersist }));
-            } catch { /* ignore */ }
+            window.dispatchEvent(new CustomEvent('maestro-avatar-updated', { detail: profileToPersist }));
           } catch { /* ignore */ }
-        }
+        } catch { /* ignore */ }
+      }
+      if (fromSnapshot) {
+        alert(t('snapshots.restored'));
+      } else if (isMerge) {
+        const mergedCount = pending.preview.filter(p => options.strategies?.[p.pairId] !== 'keep-local').length;
+        alert(t('startPage.mergeSuccess', { count: mergedCount }));
+      } else {
         const loadedCount = Object.keys(chats).length;
         alert(t('startPage.loadSuccess', { count: loadedCount }));
+      }
 
-        const currentPairId = useMaestroStore.getState().settings.selectedLanguagePairId;
-        if (currentPairId) {
-          const newHistoryForCurrentPair = await getChatHistoryDB(currentPairId);
-          setMessages(newHistoryForCurrentPair);
-        } else {
-          const browserLangCode = (typeof navigator !== 'undefined' && navigator.language) || DEFAULT_NATIVE_LANG_CODE;
-          const defaultNative = findLanguageByExactCode(browserLangCode)
-            || findLanguageByPrimarySubtag(browserLangCode)
-            || ALL_LANGUAGES.find(l => l.langCode === DEFAULT_NATIVE_LANG_CODE)!;
-          setTempNativeLangCode(defaultNative.langCode);
-          setTempTargetLangCode(null);
-          setIsLanguageSelectionOpen(true);
-        }
-      } catch (e) {
-        console.error("Failed to load chats:", e);
-        alert(t('startPage.loadError'));
+      const currentPairId = useMaestroStore.getState().settings.selectedLanguagePairId;
+      if (currentPairId) {
+        // Threads first: a replacing import may not have the open thread any more.
+        await loadThreadsForPair(currentPairId);
+        const currentThreadId = selectActiveThreadId(useMaestroStore.getState()) || currentPairId;
+        await loadHistoryForPair(currentPairId, t, currentThreadId);
+      } else {
+        const browserLangCode = (typeof navigator !== 'undefined' && navigator.language) || DEFAULT_NATIVE_LANG_CODE;
+        const defaultNative = findLanguageByExactCode(browserLangCode)
+          || findLanguageByPrimarySubtag(browserLangCode)
+          || ALL_LANGUAGES.find(l => l.langCode === DEFAULT_NATIVE_LANG_CODE)!;
+        setTempNativeLangCode(defaultNative.langCode);
+        setTempTargetLangCode(null);
+        setIsLanguageSelectionOpen(true);
       }
-    };
-    reader.onerror = (e) => {
-      console.error("Failed to load chats:", e);
-      alert(t('startPage.loadError'));
-    };
-    reader.onabort = (e) => {
+    } catch (e) {
       console.error("Failed to load chats:", e);
       alert(t('startPage.loadError'));
-    };
-    reader.readAsText(file);
-  }, [handleSaveAllChats, t, setMessages, setLoadingGifs, setTempNativeLangCode, setTempTargetLangCode, setIsLanguageSelectionOpen]);
+    } finally {
+      if (useMaestroStore.getState().isLoadingHistory) setIsLoadingHistory(false);
+    }
+  }, [handleSaveAllChats, t, loadHistoryForPair, setIsLoadingHistory, loadThreadsForPair, setLoadingGifs, setTempNativeLangCode, setTempTargetLangCode, setIsLanguageSelectionOpen]);
+
+  const restoreSnapshot = useCallback(async (snapshotId: string) => {
+    let data: BackupData;
+    try {
+      data = await readSnapshot(snapshotId);
+    } catch (e) {
+      console.error("Failed to read snapshot:", e);
+      alert(t('snapshots.readError'));
+      return false;
+    }
+    await applyBackupImport({ fileName: '', data, preview: [], snapshotId }, { mode: 'replace' });
+    return true;
+  }, [applyBackupImport, t]);
 
   return {
     handleSaveAllChats,
-    handleLoadAllChats,
+    handleExportChats,
+    prepareAnkiExport,
+    handleAnkiExport,
+    listExportablePairIds,
+    readBackupForImport,
+    applyBackupImport,
+    restoreSnapshot,
   };
 };
@@ -11,6 +11,7 @@ import { ALL_LANGUAGES, DEFAULT_NATIVE_LANG_CODE } from '../../../core/config/la
 import { safeSaveChatHistoryDB } from '../../chat';
 import { useMaestroStore } from '../../../store';
 import { selectIsSending } from '../../../store/slices/uiSlice';
+import { selectActiveThreadId } from '../../../store/slices/settingsSlice';
 import { findLanguageByExactCode, findLanguageByPrimarySubtag, parseLanguagePairId } from '../../../shared/utils/languageUtils';
 
 export interface UseLanguageSelectionControllerConfig {
@@ -76,14 +77,15 @@ export const useLanguageSelectionController = ({
     const newPairId = `${tempTargetLangCode}-${tempNativeLangCode}`;
     const state = useMaestroStore.getState();
     const oldPairId = state.settings.selectedLanguagePairId;
+    const oldThreadId = selectActiveThreadId(state);
     const isDifferent = newPairId !== oldPairId;
 
     // Save current chat history before switching if changing to a different pair
-    if (isDifferent && oldPairId) {
+    if (isDifferent && oldThreadId) {
       try {
-        await safeSaveChatHistoryDB(oldPairId, state.messages);
+        await safeSaveChatHistoryDB(oldThreadId, state.messages);
       } catch (e) {
-        console.error(`[useLanguageSelectionController] Failed to save chat history for pairId=${oldPairId}:`, e);
+        console.error(`[useLanguageSelectionController] Failed to save chat history for threadId=${oldThreadId}:`, e);
         // Continue with language switch even if save fails - user experience priority
       }
     }
@@ -16,11 +16,13 @@ export { default as LanguageScrollWheel } from './components/LanguageScrollWheel
 export { default as GlobalProfileSummary } from './components/GlobalProfileSummary';
 export { default as CollapsedMaestroStatus } from './components/CollapsedMaestroStatus';
 export { default as SessionControls } from './components/SessionControls';
+export { default as ThreadSwitcher } from './components/ThreadSwitcher';
 
 // Hooks
 export { useSmartReengagement } from './hooks/useSmartReengagement';
 export { useLanguageSelectionController as useLanguageSelection } from './hooks/useLanguageSelection';
 export { useDataBackup } from './hooks/useDataBackup';
+export { useAutoSnapshots, takeAutoSnapshot } from './hooks/useAutoSnapshots';
 
 // Services
 export {
@@ -32,3 +34,10 @@ export {
   getGlobalProfileDB,
   setGlobalProfileDB,
 } from './services/globalProfile';
+
+export {
+  listSnapshotsDB,
+  createSnapshot,
+  pruneSnapshotsDB,
+} from './services/autoSnapshots';
+export type { SnapshotInfo, SnapshotLimits, SnapshotReason } from './services/autoSnapshots';
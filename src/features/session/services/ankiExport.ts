@@ -0,0 +1,186 @@
+// Copyright 2025 Roni Tervo
+//
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * Anki flashcard export.
+ *
+ * Responsibilities:
+ * - Collect note candidates from assistant `translations` lines and saved
+ *   reply suggestions, deduplicated per pair by target text
+ * - Find each line's synthesized audio in the shared TTS cache (or a legacy
+ *   `ttsAudioCache` array) by recomputing its `computeTtsCacheKey` (current
+ *   voice first, then every other voice)
+ * - Write a zip with `notes.txt` (Anki's tab-separated import format with
+ *   `[sound:...]` fields), the audio under `media/`, and `missing-audio.txt`
+ *
+ * Lines without cached audio are exported with a `missing-audio` tag so they
+ * can be found in Anki, and are listed separately in the archive.
+ */
+
+import type { ChatMessage, LanguagePair, TtsAudioCacheEntry, TtsProvider } from '../../../core/types';
+import { GEMINI_VOICES } from '../../../core/config/app';
+import { dataUrlToBlob } from '../../../core/db/media';
+import { peekTtsAudioDB } from '../../../core/db/ttsCache';
+import { getPrimaryCode } from '../../../shared/utils/languageUtils';
+import { createZipWriter } from '../../../shared/utils/zip';
+import { computeTtsCacheKey, getCachedAudioForKey } from '../../chat';
+import { extensionForMime } from './backupArchive';
+import { getSelectedMessages, getSelectedThreadsByPair, type ExportSelection } from './exportSelection';
+
+export type AnkiNoteSource = 'line' | 'suggestion';
+
+export interface AnkiNoteCandidate {
+  /** Stable within one export: `<pairId>|<target>`. */
+  id: string;
+  pairId: string;
+  messageId: string;
+  source: AnkiNoteSource;
+  target: string;
+  native: string;
+  timestamp: number;
+  /**
+   * Cached TTS audio for `target`, if any. Blobs from the shared cache are
+   * IndexedDB references, so their bytes are only read when the zip is written.
+   */
+  audioBlob: Blob | null;
+  /** Cache key the audio was found under; names the media file. */
+  audioKey: string | null;
+}
+
+export interface AnkiPackage {
+  blob: Blob;
+  noteCount: number;
+  missingAudio: number;
+}
+
+export const ANKI_MISSING_AUDIO_TAG = 'missing-audio';
+/** Providers whose cache entries can be replayed as files; newest first. */
+const AUDIO_PROVIDERS: TtsProvider[] = ['gemini-live', 'gemini'];
+
+const candidateKeys = (text: string, langCode: string, voiceName: string): string[] => {
+  const voices = [voiceName, ...GEMINI_VOICES.map(v => v.id).filter(id => id !== voiceName)];
+  return AUDIO_PROVIDERS.flatMap(provider => voices.map(voice => computeTtsCacheKey(text, langCode, provider, voice)));
+};
+
+/** Shared TTS cache first, then the legacy per-message entries. */
+const findCachedAudio = async (
+  entries: TtsAudioCacheEntry[] | undefined,
+  text: string,
+  langCode: string,
+  voiceName: string
+): Promise<{ key: string; blob: Blob } | null> => {
+  const keys = candidateKeys(text, langCode, voiceName);
+  const shared = await peekTtsAudioDB(keys);
+  for (const key of keys) {
+    const record = shared.get(key);
+    if (record) return { key, blob: record.blob };
+  }
+  for (const key of keys) {
+    const dataUrl = getCachedAudioForKey(entries, key);
+    const blob = dataUrl && dataUrl.startsWith('data:') ? dataUrlToBlob(dataUrl) : null;
+    if (blob) return { key, blob };
+  }
+  return null;
+};
+
+const candidatesFromMessage = async (
+  message: ChatMessage,
+  pair: LanguagePair | undefined,
+  pairId: string,
+  sources: ReadonlySet<AnkiNoteSource>,
+  voiceName: string
+): Promise<AnkiNoteCandidate[]> => {
+  if (message.role !== 'assistant' || message.thinking) return [];
+  const langCode = getPrimaryCode(pair?.targetLanguageCode || '');
+  const out: AnkiNoteCandidate[] = [];
+  const push = async (source: AnkiNoteSource, rawTarget: string, rawNative: string, cache: TtsAudioCacheEntry[] | undefined) => {
+    const target = (rawTarget || '').trim();
+    if (!target) return;
+    const audio = await findCachedAudio(cache, target, langCode, voiceName);
+    out.push({
+      id: `${pairId}|${target}`,
+      pairId,
+      messageId: message.id,
+      source,
+      target,
+      native: (rawNative || '').trim(),
+      timestamp: message.timestamp || 0,
+      audioBlob: audio?.blob || null,
+      audioKey: audio?.key || null,
+    });
+  };
+  if (sources.has('line')) {
+    for (const line of message.translations || []) await push('line', line?.target, line?.native, message.ttsAudioCache);
+  }
+  if (sources.has('suggestion')) {
+    for (const s of message.replySuggestions || []) await push('suggestion', s?.target, s?.native, s?.ttsAudioCache);
+  }
+  return out;
+};
+
+/**
+ * Note candidates for the selection, oldest first. A target sentence that
+ * occurs more than once keeps its first occurrence, upgraded with audio from a
+ * later one when the first has none.
+ */
+export const collectAnkiCandidates = async (
+  selection: ExportSelection,
+  sources: AnkiNoteSource[],
+  languagePairs: LanguagePair[],
+  voiceName: string
+): Promise<AnkiNoteCandidate[]> => {
+  const sourceSet = new Set(sources);
+  const pairs = new Map(languagePairs.map(pair => [pair.id, pair]));
+  const byId = new Map<string, AnkiNoteCandidate>();
+  // Legacy audio lives in per-message TTS caches, so they must survive the selection filter.
+  const withAudio: ExportSelection = { ...selection, includeAudio: true, includeMedia: false };
+  for (const [pairId, threadIds] of await getSelectedThreadsByPair(withAudio)) {
+    for (const threadId of threadIds) {
+      for (const message of await getSelectedMessages(threadId, withAudio)) {
+        for (const candidate of await candidatesFromMessage(message, pairs.get(pairId), pairId, sourceSet, voiceName)) {
+          const existing = byId.get(candidate.id);
+          if (!existing) byId.set(candidate.id, candidate);
+          else if (!existing.audioBlob && candidate.audioBlob) {
+            byId.set(candidate.id, { ...existing, audioBlob: candidate.audioBlob, audioKey: candidate.audioKey });
+          }
+        }
+      }
+    }
+  }
+  return Array.from(byId.values()).sort((a, b) => a.timestamp - b.timestamp);
+};
+
+const ankiField = (text: string) => text.replace(/[\t\r\n]+/g, ' ').trim();
+const ankiTag = (text: string) => text.replace(/[^\p{L}\p{N}_:-]+/gu, '_');
+
+/** Builds the Anki import zip for the chosen notes. */
+export const writeAnkiPackage = async (notes: AnkiNoteCandidate[]): Promise<AnkiPackage> => {
+  const zip = createZipWriter();
+  const rows: string[] = [];
+  const missing: string[] = [];
+  for (const note of notes) {
+    let sound = '';
+    const blob = note.audioBlob;
+    if (blob && note.audioKey) {
+      const file = `maestro-${note.audioKey}${extensionForMime(blob.type)}`;
+      if (!zip.has(`media/${file}`)) await zip.add(`media/${file}`, blob);
+      sound = `[sound:${file}]`;
+    }
+    const tags = ['maestro', `maestro::${ankiTag(note.pairId)}`, note.source === 'suggestion' ? 'maestro::suggestion' : 'maestro::line'];
+    if (!sound) {
+      tags.push(ANKI_MISSING_AUDIO_TAG);
+      missing.push([note.target, note.native].map(ankiField).join('\t'));
+    }
+    rows.push([note.target, note.native, sound, tags.join(' ')].map(ankiField).join('\t'));
+  }
+
+  const header = [
+    '#separator:tab',
+    '#html:false',
+    '#columns:Target\tNative\tAudio\tTags',
+    '#tags column:4',
+  ];
+  await zip.add('notes.txt', [...header, ...rows].join('\n') + '\n');
+  if (missing.length) await zip.add('missing-audio.txt', missing.join('\n') + '\n');
+  return { blob: zip.finish(), noteCount: notes.length, missingAudio: missing.length };
+};
@@ -0,0 +1,212 @@
+// Copyright 2025 Roni Tervo
+//
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * Automatic local snapshots.
+ *
+ * Responsibilities:
+ * - Store backup archives (the same `.maestro.zip` the save button
+ *   downloads) in their own IndexedDB database, with per-pair message counts
+ * - Rotate them by the storage rules: the newest daily snapshots and the newest
+ *   event snapshots (taken before a reset, import or restore) are kept, older
+ *   ones deleted
+ * - Read a snapshot back as `BackupData` for the regular replace-import path
+ *
+ * Every snapshot holds a text-only archive (chats, metas, threads, profile).
+ * Only the newest `mediaCopies` also keep a full archive with images, recordings
+ * and TTS audio; older ones drop it, so media is stored once or twice rather
+ * than once per snapshot.
+ *
+ * The snapshot database is separate from the app database so that the reset
+ * flow, which deletes the app database, and schema migrations leave it alone.
+ */
+
+import { countStoredMessagesByPairDB } from '../../chat';
+import { readBackupFile, readBackupSourceDB, writeBackupArchive, type BackupData } from './backupArchive';
+import { FULL_EXPORT_SELECTION } from './exportSelection';
+
+export const SNAPSHOT_DB_NAME = 'MaestroSnapshotsDB';
+const SNAPSHOT_DB_VERSION = 1;
+const SNAPSHOT_STORE = 'snapshots';
+
+export type SnapshotReason = 'daily' | 'before-reset' | 'before-import' | 'before-restore' | 'manual';
+
+export const DAILY_SNAPSHOT_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+export interface SnapshotInfo {
+  id: string;
+  createdAt: number;
+  reason: SnapshotReason;
+  /** Stored bytes: the text-only archive plus the full one when kept. */
+  size: number;
+  /** Whether the full archive with media is still kept. */
+  includesMedia: boolean;
+  messageCount: number;
+  /** Stored messages per language pair when the snapshot was taken. */
+  pairs: Record<string, number>;
+}
+
+/** How many snapshots are kept; from the storage rules. */
+export interface SnapshotLimits {
+  daily: number;
+  event: number;
+  /** Newest snapshots that keep their full archive with media. */
+  mediaCopies: number;
+}
+
+interface SnapshotRecord extends SnapshotInfo {
+  /** Text-only archive. */
+  blob: Blob;
+  /** Full archive with media; dropped once the snapshot is no longer among the newest `mediaCopies`. */
+  mediaBlob?: Blob;
+}
+
+const rotationGroup = (reason: SnapshotReason): 'daily' | 'event' =>
+  reason === 'daily' ? 'daily' : 'event';
+
+const openSnapshotDB = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const request = indexedDB.open(SNAPSHOT_DB_NAME, SNAPSHOT_DB_VERSION);
+  request.onerror = () => reject(request.error || new Error('Error opening snapshot database'));
+  request.onsuccess = () => {
+    const db = request.result;
+    db.onversionchange = () => db.close();
+    resolve(db);
+  };
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    if (!db.objectStoreNames.contains(SNAPSHOT_STORE)) {
+      const store = db.createObjectStore(SNAPSHOT_STORE, { keyPath: 'id' });
+      store.createIndex('createdAt', 'createdAt', { unique: false });
+    }
+  };
+});
+
+// Snapshots from before the split hold one full archive and no `includesMedia`.
+const isLegacyFull = (record: SnapshotRecord) => record.includesMedia === undefined;
+
+const toInfo = ({ blob: _blob, mediaBlob: _mediaBlob, ...info }: SnapshotRecord): SnapshotInfo =>
+  ({ ...info, includesMedia: info.includesMedia ?? true });
+
+/** Snapshots without their archives, newest first. */
+export const listSnapshotsDB = async (): Promise<SnapshotInfo[]> => {
+  const db = await openSnapshotDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(SNAPSHOT_STORE, 'readonly');
+    const out: SnapshotInfo[] = [];
+    const cursorReq = tx.objectStore(SNAPSHOT_STORE).index('createdAt').openCursor(null, 'prev');
+    cursorReq.onerror = () => reject(new Error('Error listing snapshots'));
+    cursorReq.onsuccess = () => {
+      const cursor = cursorReq.result;
+      if (!cursor) { resolve(out); return; }
+      out.push(toInfo(cursor.value as SnapshotRecord));
+      cursor.continue();
+    };
+  });
+};
+
+const getSnapshotRecordDB = async (id: string): Promise<SnapshotRecord | null> => {
+  const db = await openSnapshotDB();
+  return new Promise((resolve, reject) => {
+    const req = db.transaction(SNAPSHOT_STORE, 'readonly').objectStore(SNAPSHOT_STORE).get(id);
+    req.onsuccess = () => resolve((req.result as SnapshotRecord | undefined) || null);
+    req.onerror = () => reject(new Error('Error reading snapshot'));
+  });
+};
+
+// Deletes snapshots beyond the limit of their group and drops the full archive
+// from all but the newest `mediaCopies`, inside the caller's transaction.
+const rotateSnapshots = (store: IDBObjectStore, limits: SnapshotLimits, onRemoved: () => void) => {
+  const kept = { daily: 0, event: 0 };
+  let withMedia = 0;
+  const cursorReq = store.index('createdAt').openCursor(null, 'prev');
+  cursorReq.onsuccess = () => {
+    const cursor = cursorReq.result;
+    if (!cursor) return;
+    const value = cursor.value as SnapshotRecord;
+    const group = rotationGroup(value.reason);
+    const overGroup = ++kept[group] > Math.max(0, limits[group]);
+    const overMedia = !overGroup && (!!value.mediaBlob || isLegacyFull(value))
+      && ++withMedia > Math.max(0, limits.mediaCopies);
+    // A legacy snapshot's media cannot be split off, so it goes as a whole.
+    if (overGroup || (overMedia && isLegacyFull(value))) {
+      cursor.delete();
+      onRemoved();
+    } else if (overMedia) {
+      const { mediaBlob: _mediaBlob, ...rest } = value;
+      cursor.update({ ...rest, size: rest.blob.size, includesMedia: false });
+    }
+    cursor.continue();
+  };
+};
+
+/** Applies `limits` to the stored snapshots. Resolves to the number deleted. */
+export const pruneSnapshotsDB = async (limits: SnapshotLimits): Promise<number> => {
+  const db = await openSnapshotDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(SNAPSHOT_STORE, 'readwrite');
+    let removed = 0;
+    tx.oncomplete = () => resolve(removed);
+    tx.onerror = () => reject(new Error('Error pruning snapshots'));
+    rotateSnapshots(tx.objectStore(SNAPSHOT_STORE), limits, () => { removed++; });
+  });
+};
+
+/** Stores a snapshot, then rotates the stored ones by `limits`. */
+const putSnapshotDB = async (record: SnapshotRecord, limits: SnapshotLimits): Promise<void> => {
+  const db = await openSnapshotDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(SNAPSHOT_STORE, 'readwrite');
+    const store = tx.objectStore(SNAPSHOT_STORE);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(new Error('Error saving snapshot'));
+    store.put(record);
+    rotateSnapshots(store, limits, () => {});
+  });
+};
+
+export const deleteSnapshotDB = async (id: string): Promise<void> => {
+  const db = await openSnapshotDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(SNAPSHOT_STORE, 'readwrite');
+    tx.objectStore(SNAPSHOT_STORE).delete(id);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(new Error('Error deleting snapshot'));
+  });
+};
+
+/** Newest snapshot taken for `reason`, or null. */
+export const getLatestSnapshotInfoDB = async (reason: SnapshotReason): Promise<SnapshotInfo | null> =>
+  (await listSnapshotsDB()).find(info => info.reason === reason) || null;
+
+/**
+ * Archives the whole database into a new snapshot. Returns null when there
+ * are no chats to keep. Callers flush the open thread first.
+ */
+export const createSnapshot = async (reason: SnapshotReason, limits: SnapshotLimits): Promise<SnapshotInfo | null> => {
+  const pairs = await countStoredMessagesByPairDB();
+  const source = await readBackupSourceDB();
+  const blob = await writeBackupArchive(source, { ...FULL_EXPORT_SELECTION, includeMedia: false, includeAudio: false });
+  if (!blob) return null;
+  const mediaBlob = limits.mediaCopies > 0 ? await writeBackupArchive(source) : null;
+  const createdAt = Date.now();
+  const record: SnapshotRecord = {
+    id: `${createdAt}-${Math.random().toString(36).slice(2, 8)}`,
+    createdAt,
+    reason,
+    size: blob.size + (mediaBlob?.size || 0),
+    includesMedia: !!mediaBlob,
+    messageCount: Object.values(pairs).reduce((sum, count) => sum + count, 0),
+    pairs,
+    blob,
+    ...(mediaBlob ? { mediaBlob } : {}),
+  };
+  await putSnapshotDB(record, limits);
+  return toInfo(record);
+};
+
+/** Contents of a snapshot, ready for `applyBackupImport`; with media while its full archive is kept. */
+export const readSnapshot = async (id: string): Promise<BackupData> => {
+  const record = await getSnapshotRecordDB(id);
+  if (!record) throw new Error('Snapshot not found');
+  return readBackupFile(record.mediaBlob || record.blob);
+};
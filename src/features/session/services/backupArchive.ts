@@ -0,0 +1,354 @@
+// Copyright 2025 Roni Tervo
+//
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * Backup file formats.
+ *
+ * Responsibilities:
+ * - Write `.maestro.zip` archives: `manifest.json`, one `chats/<pairId>.json`
+ *   per language pair, raw media files under `media/` and the shared TTS cache
+ *   under `tts/`, optionally limited to an `ExportSelection`
+ * - Read archives and legacy JSON backups (version 7/8 and bare chat maps)
+ *   into one `BackupData` shape for the import path
+ * - Unwrap passphrase-encrypted backups (see `backupCrypto.ts`) before reading
+ *
+ * Archives are built one pair and one media blob at a time. Media already in
+ * the media store is copied as Blobs; remaining inline data URLs (TTS caches,
+ * legacy records) are swapped for `maestro-media:<id>` references.
+ */
+
+import type { ChatMessage, ChatMeta, ChatThread } from '../../../core/types';
+import { getLoadingGifsDB, getMaestroProfileImageDB, type MaestroProfileAsset } from '../../../core/db/assets';
+import { pairIdFromThreadId } from '../../../core/db/index';
+import {
+  blobToDataUrl,
+  dataUrlToBlob,
+  getMediaRecordsDB,
+  hashBlob,
+  isMediaId,
+  prepareMediaFromDataUrl,
+  type MediaInput,
+} from '../../../core/db/media';
+import { getAllTtsAudioDB, type TtsAudioRecord } from '../../../core/db/ttsCache';
+import { getAllChatMetasDB, getAllThreadsDB } from '../../chat';
+import { createZipWriter, isZipBlob, readZip, type ZipEntry } from '../../../shared/utils/zip';
+import { BackupCryptoError, decryptBackup, isEncryptedBackup } from './backupCrypto';
+import { getGlobalProfileDB } from './globalProfile';
+import { FULL_EXPORT_SELECTION, getSelectedMessages, getSelectedThreadsByPair, type ExportSelection } from './exportSelection';
+
+export const BACKUP_ARCHIVE_VERSION = 9;
+export const BACKUP_ARCHIVE_EXTENSION = '.maestro.zip';
+const BACKUP_FORMAT = 'maestro-backup';
+const MANIFEST_FILE = 'manifest.json';
+const MEDIA_REF_PREFIX = 'maestro-media:';
+
+export interface BackupManifest {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: number;
+  pairs: Array<{ pairId: string; file: string; threadIds: string[] }>;
+  metas: Record<string, ChatMeta>;
+  threads: ChatThread[];
+  globalProfile: string | null;
+  assets: {
+    loadingGifs: string[];
+    maestroProfile: (Omit<MaestroProfileAsset, 'dataUrl'> & { file?: string }) | null;
+  };
+  media: Array<{ id: string; file: string; mimeType: string; size: number }>;
+  /** Shared TTS cache clips; absent in archives written before the shared cache existed. */
+  ttsAudio?: Array<Omit<TtsAudioRecord, 'blob' | 'size' | 'hits'> & { file: string }>;
+}
+
+/** Contents of a backup, independent of the file format it came from. */
+export interface BackupData {
+  chats: Record<string, ChatMessage[]>;
+  metas: Record<string, ChatMeta> | null;
+  threads: ChatThread[] | null;
+  globalProfileText: string | null;
+  loadingGifs: string[] | null;
+  maestroProfile: MaestroProfileAsset | null;
+  /** Blobs referenced by `imageMediaId` / `recordedUtterance.mediaId` in `chats`. */
+  media: MediaInput[];
+  /** Shared TTS cache clips, merged into the local cache on import. */
+  ttsAudio: TtsAudioRecord[];
+}
+
+export interface BackupSource {
+  metas: Record<string, ChatMeta>;
+  threads: ChatThread[];
+  globalProfile: string | null;
+  loadingGifs: string[];
+  maestroProfile: MaestroProfileAsset | null;
+}
+
+/** Everything besides messages and media that a full backup holds, read from the database. */
+export const readBackupSourceDB = async (): Promise<BackupSource> => {
+  const metas = await getAllChatMetasDB();
+  const threads = await getAllThreadsDB();
+  const gp = await getGlobalProfileDB();
+  let loadingGifs: string[] = [];
+  try { loadingGifs = (await getLoadingGifsDB()) || []; } catch {}
+  let maestroProfile: MaestroProfileAsset | null = null;
+  try { maestroProfile = await getMaestroProfileImageDB(); } catch {}
+  return { metas, threads, globalProfile: gp?.text || null, loadingGifs, maestroProfile };
+};
+
+export const extensionForMime = (mimeType: string): string => {
+  const subtype = (mimeType.split('/')[1] || '').split(/[;+]/)[0].toLowerCase().replace(/[^a-z0-9]/g, '');
+  if (subtype === 'jpeg') return '.jpg';
+  return subtype ? `.${subtype}` : '.bin';
+};
+
+const mapStrings = async (value: unknown, fn: (text: string) => Promise<string>): Promise<unknown> => {
+  if (typeof value === 'string') return fn(value);
+  if (Array.isArray(value)) {
+    const out: unknown[] = [];
+    for (const item of value) out.push(await mapStrings(item, fn));
+    return out;
+  }
+  if (value && typeof value === 'object') {
+    const out: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) out[key] = await mapStrings(item, fn);
+    return out;
+  }
+  return value;
+};
+
+// ============================================================
+// EXPORT
+// ============================================================
+
+/**
+ * Builds a `.maestro.zip` archive from the database. Returns null when the
+ * selection contains no messages. Metas and thread records are limited to the
+ * selected pairs; with a date range, to threads that have exported messages.
+ */
+export const writeBackupArchive = async (
+  source: BackupSource,
+  selection: ExportSelection = FULL_EXPORT_SELECTION
+): Promise<Blob | null> => {
+  const byPair = await getSelectedThreadsByPair(selection);
+
+  const zip = createZipWriter();
+  const media = new Map<string, BackupManifest['media'][number]>();
+  const storedMediaIds = new Set<string>();
+
+  const addMedia = async (input: MediaInput) => {
+    if (media.has(input.id)) return;
+    const file = `media/${input.id}${extensionForMime(input.mimeType)}`;
+    await zip.add(file, input.blob);
+    media.set(input.id, { id: input.id, file, mimeType: input.mimeType, size: input.blob.size });
+  };
+
+  const toArchiveString = async (text: string): Promise<string> => {
+    if (!text.startsWith('data:')) return text;
+    const input = await prepareMediaFromDataUrl(text);
+    if (!input) return text;
+    await addMedia(input);
+    return `${MEDIA_REF_PREFIX}${input.id}`;
+  };
+
+  const pairs: BackupManifest['pairs'] = [];
+  const exportedThreadIds = new Set<string>();
+  for (const [pairId, pairThreadIds] of byPair) {
+    const threads: Record<string, unknown[]> = {};
+    for (const threadId of pairThreadIds) {
+      const messages = await getSelectedMessages(threadId, selection);
+      if (messages.length === 0) continue;
+      exportedThreadIds.add(threadId);
+      const out: unknown[] = [];
+      for (const message of messages) {
+        [message.imageMediaId, message.recordedUtterance?.mediaId].forEach(id => { if (isMediaId(id)) storedMediaIds.add(id); });
+        out.push(await mapStrings(message, toArchiveString));
+      }
+      threads[threadId] = out;
+    }
+    if (Object.keys(threads).length === 0) continue;
+    const file = `chats/${encodeURIComponent(pairId)}.json`;
+    await zip.add(file, JSON.stringify({ pairId, threads }));
+    pairs.push({ pairId, file, threadIds: Object.keys(threads) });
+  }
+  if (pairs.length === 0) return null;
+
+  const hasRange = selection.from !== null || selection.to !== null;
+  const keepThread = (threadId: string) => exportedThreadIds.has(threadId)
+    || (!hasRange && (!selection.pairIds || selection.pairIds.includes(pairIdFromThreadId(threadId))));
+
+  for (const id of storedMediaIds) {
+    if (media.has(id)) continue;
+    const record = (await getMediaRecordsDB([id])).get(id);
+    if (record) await addMedia({ id, blob: record.blob, mimeType: record.mimeType });
+  }
+
+  // The shared TTS cache is not tied to pairs, so it is exported whole.
+  const ttsAudio: NonNullable<BackupManifest['ttsAudio']> = [];
+  if (selection.includeAudio) {
+    for (const { blob, size: _size, hits: _hits, ...rest } of await getAllTtsAudioDB()) {
+      const file = `tts/${rest.key}${extensionForMime(rest.mimeType || blob.type)}`;
+      await zip.add(file, blob);
+      ttsAudio.push({ ...rest, file });
+    }
+  }
+
+  let maestroProfile: BackupManifest['assets']['maestroProfile'] = null;
+  if (source.maestroProfile && selection.includeMedia) {
+    const { dataUrl, ...rest } = source.maestroProfile;
+    maestroProfile = { ...rest };
+    const blob = dataUrl ? dataUrlToBlob(dataUrl, rest.mimeType) : null;
+    if (blob) {
+      maestroProfile.file = `assets/maestro-profile${extensionForMime(blob.type)}`;
+      await zip.add(maestroProfile.file, blob);
+    }
+  }
+
+  const manifest: BackupManifest = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_ARCHIVE_VERSION,
+    createdAt: Date.now(),
+    pairs,
+    metas: Object.fromEntries(Object.entries(source.metas).filter(([threadId]) => keepThread(threadId))),
+    threads: source.threads.filter(thread => keepThread(thread.id)),
+    globalProfile: source.globalProfile,
+    assets: { loadingGifs: source.loadingGifs, maestroProfile },
+    media: Array.from(media.values()),
+    ttsAudio,
+  };
+  await zip.add(MANIFEST_FILE, JSON.stringify(manifest, null, 2));
+  return zip.finish();
+};
+
+// ============================================================
+// IMPORT
+// ============================================================
+
+const readJsonEntry = async <T>(entries: Map<string, ZipEntry>, name: string): Promise<T> => {
+  const entry = entries.get(name);
+  if (!entry) throw new Error(`Backup archive is missing ${name}`);
+  return JSON.parse(await entry.text()) as T;
+};
+
+const readBackupArchive = async (file: Blob): Promise<BackupData> => {
+  const entries = await readZip(file);
+  const manifest = await readJsonEntry<BackupManifest>(entries, MANIFEST_FILE);
+  if (manifest?.format !== BACKUP_FORMAT) throw new Error('Not a Maestro backup archive');
+  if (typeof manifest.version !== 'number' || manifest.version > BACKUP_ARCHIVE_VERSION) {
+    throw new Error(`Unsupported backup version ${manifest.version}`);
+  }
+
+  // Media ids are content hashes; anything that does not hash to its id is dropped.
+  const media = new Map<string, MediaInput>();
+  for (const item of manifest.media || []) {
+    const entry = entries.get(item.file);
+    if (!entry || !isMediaId(item.id)) continue;
+    const blob = new Blob([await entry.blob()], { type: item.mimeType });
+    if ((await hashBlob(blob)) !== item.id) {
+      console.warn('Skipping corrupt media in backup', item.file);
+      continue;
+    }
+    media.set(item.id, { id: item.id, blob, mimeType: item.mimeType });
+  }
+
+  const dataUrls = new Map<string, string>();
+  const fromArchiveString = async (text: string): Promise<string> => {
+    if (!text.startsWith(MEDIA_REF_PREFIX)) return text;
+    const id = text.slice(MEDIA_REF_PREFIX.length);
+    if (!dataUrls.has(id)) {
+      const input = media.get(id);
+      dataUrls.set(id, input ? await blobToDataUrl(input.blob) : '');
+    }
+    return dataUrls.get(id) || '';
+  };
+
+  const chats: Record<string, ChatMessage[]> = {};
+  for (const pair of manifest.pairs || []) {
+    const content = await readJsonEntry<{ threads?: Record<string, unknown[]> }>(entries, pair.file);
+    for (const [threadId, messages] of Object.entries(content.threads || {})) {
+      if (!Array.isArray(messages)) continue;
+      chats[threadId] = (await mapStrings(messages, fromArchiveString)) as ChatMessage[];
+    }
+  }
+
+  const ttsAudio: TtsAudioRecord[] = [];
+  for (const item of manifest.ttsAudio || []) {
+    const entry = item && typeof item.key === 'string' ? entries.get(item.file) : undefined;
+    if (!entry) continue;
+    const { file: _file, ...rest } = item;
+    const blob = new Blob([await entry.blob()], { type: item.mimeType || 'audio/wav' });
+    ttsAudio.push({ ...rest, blob, mimeType: blob.type, size: blob.size, hits: 0 });
+  }
+
+  let maestroProfile: MaestroProfileAsset | null = null;
+  const profile = manifest.assets?.maestroProfile;
+  if (profile) {
+    const entry = profile.file ? entries.get(profile.file) : undefined;
+    maestroProfile = {
+      dataUrl: entry ? await blobToDataUrl(new Blob([await entry.blob()], { type: profile.mimeType || '' })) : undefined,
+      mimeType: profile.mimeType,
+      uri: profile.uri,
+      updatedAt: typeof profile.updatedAt === 'number' ? profile.updatedAt : Date.now(),
+    };
+    if (!maestroProfile.dataUrl && !maestroProfile.uri) maestroProfile = null;
+  }
+
+  return {
+    chats,
+    metas: manifest.metas || null,
+    threads: Array.isArray(manifest.threads) ? manifest.threads : null,
+    globalProfileText: typeof manifest.globalProfile === 'string' ? manifest.globalProfile : null,
+    loadingGifs: Array.isArray(manifest.assets?.loadingGifs) ? manifest.assets.loadingGifs : null,
+    maestroProfile,
+    media: Array.from(media.values()),
+    ttsAudio,
+  };
+};
+
+/** Parses version 7/8 JSON backups and pre-versioned bare `{ [pairId]: messages }` maps. */
+export const parseJsonBackup = (content: string): BackupData => {
+  const parsed = JSON.parse(content);
+  if (typeof parsed !== 'object' || parsed === null) throw new Error("Invalid format");
+  const data: BackupData = {
+    chats: {},
+    metas: null,
+    threads: null,
+    globalProfileText: null,
+    loadingGifs: null,
+    maestroProfile: null,
+    media: [],
+    ttsAudio: [],
+  };
+  if (!('chats' in parsed)) {
+    data.chats = parsed as Record<string, ChatMessage[]>;
+    return data;
+  }
+  data.chats = parsed.chats || {};
+  data.metas = parsed.metas || null;
+  data.threads = Array.isArray(parsed.threads) ? parsed.threads as ChatThread[] : null;
+  data.globalProfileText = typeof parsed.globalProfile === 'string' ? parsed.globalProfile : null;
+  if (parsed.assets && Array.isArray(parsed.assets.loadingGifs)) {
+    data.loadingGifs = parsed.assets.loadingGifs as string[];
+  }
+  const mp = parsed.assets?.maestroProfile;
+  if (mp && typeof mp === 'object' && (typeof mp.dataUrl === 'string' || typeof mp.uri === 'string')) {
+    data.maestroProfile = {
+      dataUrl: typeof mp.dataUrl === 'string' ? mp.dataUrl : undefined,
+      mimeType: typeof mp.mimeType === 'string' ? mp.mimeType : undefined,
+      uri: typeof mp.uri === 'string' ? mp.uri : undefined,
+      updatedAt: typeof mp.updatedAt === 'number' ? mp.updatedAt : Date.now(),
+    };
+  }
+  return data;
+};
+
+/**
+ * Reads a `.maestro.zip` archive or a legacy JSON backup, decrypting it first
+ * when it is encrypted. Throws `BackupCryptoError` ('PASSPHRASE_REQUIRED',
+ * 'DECRYPT_FAILED', ...) for encrypted files that cannot be opened.
+ */
+export const readBackupFile = async (file: Blob, passphrase?: string): Promise<BackupData> => {
+  if (await isEncryptedBackup(file)) {
+    if (!passphrase) throw new BackupCryptoError('This backup is encrypted', 'PASSPHRASE_REQUIRED');
+    file = await decryptBackup(file, passphrase);
+  }
+  if (await isZipBlob(file)) return readBackupArchive(file);
+  return parseJsonBackup(await file.text());
+};
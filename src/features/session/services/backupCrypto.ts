@@ -0,0 +1,129 @@
+// Copyright 2025 Roni Tervo
+//
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * Passphrase encryption for backup files.
+ *
+ * Responsibilities:
+ * - Wrap a backup Blob in a small binary envelope encrypted with AES-256-GCM,
+ *   using a key derived from the passphrase with PBKDF2-SHA-256
+ * - Detect encrypted files by their magic bytes
+ * - Report wrong passphrases / tampered files as `BackupCryptoError`
+ *
+ * Envelope layout (big-endian):
+ *   magic "MAESTROE" (8) | version (1) | kdf (1) | iterations (4) | salt (16) | iv (12) | ciphertext + tag
+ * The header is bound to the ciphertext as AES-GCM additional data, so any
+ * change to it fails authentication just like a change to the payload.
+ *
+ * AES-GCM in WebCrypto is one-shot: the whole archive is held in memory while
+ * it is encrypted or decrypted.
+ */
+
+export const BACKUP_ENCRYPTED_EXTENSION = '.maestro.enc';
+
+const MAGIC = 'MAESTROE';
+const ENVELOPE_VERSION = 1;
+const KDF_PBKDF2_SHA256 = 1;
+const PBKDF2_ITERATIONS = 600_000;
+/** Upper bound accepted on import so a crafted header cannot stall the device. */
+const MAX_PBKDF2_ITERATIONS = 10_000_000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+const HEADER_BYTES = MAGIC.length + 1 + 1 + 4 + SALT_BYTES + IV_BYTES;
+const GCM_TAG_BYTES = 16;
+
+export type BackupCryptoErrorCode = 'PASSPHRASE_REQUIRED' | 'DECRYPT_FAILED' | 'CORRUPT' | 'UNSUPPORTED';
+
+export class BackupCryptoError extends Error {
+  code: BackupCryptoErrorCode;
+  constructor(message: string, code: BackupCryptoErrorCode) {
+    super(message);
+    this.name = 'BackupCryptoError';
+    this.code = code;
+  }
+}
+
+const getSubtle = (): SubtleCrypto => {
+  const subtle = typeof crypto !== 'undefined' ? crypto.subtle : undefined;
+  if (!subtle) throw new BackupCryptoError('Encryption requires a secure context (https)', 'UNSUPPORTED');
+  return subtle;
+};
+
+const deriveKey = async (passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> => {
+  const subtle = getSubtle();
+  const material = await subtle.importKey('raw', new TextEncoder().encode(passphrase.normalize('NFC')), 'PBKDF2', false, ['deriveKey']);
+  return subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+/** True when the Blob starts with the encrypted backup magic bytes. */
+export const isEncryptedBackup = async (file: Blob): Promise<boolean> => {
+  if (file.size < MAGIC.length) return false;
+  const head = new Uint8Array(await file.slice(0, MAGIC.length).arrayBuffer());
+  return String.fromCharCode(...head) === MAGIC;
+};
+
+export const encryptBackup = async (plain: Blob, passphrase: string): Promise<Blob> => {
+  if (!passphrase) throw new BackupCryptoError('Passphrase is empty', 'PASSPHRASE_REQUIRED');
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+
+  const header = new Uint8Array(HEADER_BYTES);
+  const view = new DataView(header.buffer);
+  let p = 0;
+  for (let i = 0; i < MAGIC.length; i++) header[p++] = MAGIC.charCodeAt(i);
+  header[p++] = ENVELOPE_VERSION;
+  header[p++] = KDF_PBKDF2_SHA256;
+  view.setUint32(p, PBKDF2_ITERATIONS);
+  p += 4;
+  header.set(salt, p);
+  header.set(iv, p + SALT_BYTES);
+
+  const ciphertext = await getSubtle().encrypt(
+    { name: 'AES-GCM', iv, additionalData: header },
+    key,
+    await plain.arrayBuffer()
+  );
+  return new Blob([header, ciphertext], { type: 'application/octet-stream' });
+};
+
+export const decryptBackup = async (file: Blob, passphrase: string): Promise<Blob> => {
+  if (!passphrase) throw new BackupCryptoError('Passphrase is required', 'PASSPHRASE_REQUIRED');
+  if (file.size < HEADER_BYTES + GCM_TAG_BYTES || !(await isEncryptedBackup(file))) {
+    throw new BackupCryptoError('Encrypted backup is truncated or corrupt', 'CORRUPT');
+  }
+  const header = new Uint8Array(await file.slice(0, HEADER_BYTES).arrayBuffer());
+  const view = new DataView(header.buffer);
+  let p = MAGIC.length;
+  const version = header[p++];
+  const kdf = header[p++];
+  const iterations = view.getUint32(p);
+  p += 4;
+  if (version !== ENVELOPE_VERSION || kdf !== KDF_PBKDF2_SHA256) {
+    throw new BackupCryptoError(`Unsupported encrypted backup version ${version}`, 'UNSUPPORTED');
+  }
+  if (iterations < 1 || iterations > MAX_PBKDF2_ITERATIONS) {
+    throw new BackupCryptoError('Encrypted backup header is corrupt', 'CORRUPT');
+  }
+  const salt = header.slice(p, p + SALT_BYTES);
+  const iv = header.slice(p + SALT_BYTES, p + SALT_BYTES + IV_BYTES);
+  const key = await deriveKey(passphrase, salt, iterations);
+
+  try {
+    const plain = await getSubtle().decrypt(
+      { name: 'AES-GCM', iv, additionalData: header },
+      key,
+      await file.slice(HEADER_BYTES).arrayBuffer()
+    );
+    return new Blob([plain]);
+  } catch {
+    // GCM cannot tell a wrong key from modified data; both fail authentication.
+    throw new BackupCryptoError('Wrong passphrase, or the backup file has been modified', 'DECRYPT_FAILED');
+  }
+};
@@ -0,0 +1,169 @@
+// Copyright 2025 Roni Tervo
+//
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * Merge-import of backups.
+ *
+ * Responsibilities:
+ * - Summarize, per language pair, how an imported backup relates to local data
+ * - Apply a per-pair strategy: keep local, keep imported, or merge
+ * - Merge messages by id, keep the newest ChatMeta per thread and thread record,
+ *   and combine global profiles
+ *
+ * Pairs that only exist locally are never touched.
+ */
+
+import type { ChatMessage, ChatMeta, ChatThread } from '../../../core/types';
+import { pairIdFromThreadId } from '../../../core/db/index';
+import { collectMediaGarbageDB, stageMediaDB } from '../../../core/db/media';
+import {
+  deleteThreadDB,
+  getAllChatMetasDB,
+  getAllThreadsDB,
+  getStoredChatHistoryDB,
+  getStoredThreadIdsDB,
+  saveChatHistoryDB,
+  saveThreadDB,
+  setChatMetaDB,
+} from '../../chat';
+import { getGlobalProfileDB, setGlobalProfileDB } from './globalProfile';
+import type { BackupData } from './backupArchive';
+
+export type PairImportStrategy = 'keep-local' | 'keep-imported' | 'merge';
+
+export interface PairImportPreview {
+  pairId: string;
+  localThreads: number;
+  importedThreads: number;
+  localMessages: number;
+  importedMessages: number;
+  /** Imported messages whose id does not exist locally. */
+  newMessages: number;
+  localNewest: number | null;
+  importedNewest: number | null;
+}
+
+const groupThreadIdsByPair = (threadIds: Iterable<string>): Map<string, string[]> => {
+  const out = new Map<string, string[]>();
+  for (const threadId of threadIds) {
+    const pairId = pairIdFromThreadId(threadId);
+    out.set(pairId, [...(out.get(pairId) || []), threadId]);
+  }
+  return out;
+};
+
+const newestTimestamp = (messages: ChatMessage[]): number | null =>
+  messages.reduce<number | null>((max, m) => (typeof m?.timestamp === 'number' && (max === null || m.timestamp > max) ? m.timestamp : max), null);
+
+/** Union by message id. Local copies win on conflicts; the result is ordered by timestamp. */
+export const mergeMessagesById = (local: ChatMessage[], imported: ChatMessage[]): ChatMessage[] => {
+  const known = new Set(local.map(m => m.id));
+  const added = imported.filter(m => m && typeof m.id === 'string' && !known.has(m.id));
+  if (added.length === 0) return local;
+  // Stable sort keeps same-timestamp messages in their original relative order.
+  return [...local, ...added]
+    .map((message, index) => ({ message, index }))
+    .sort((a, b) => ((a.message.timestamp || 0) - (b.message.timestamp || 0)) || (a.index - b.index))
+    .map(entry => entry.message);
+};
+
+export const pickNewestMeta = (local?: ChatMeta | null, imported?: ChatMeta | null): ChatMeta | null => {
+  if (!local) return imported || null;
+  if (!imported) return local;
+  return (imported.profileLastUpdated || 0) > (local.profileLastUpdated || 0) ? imported : local;
+};
+
+/** Keeps every distinct line of both profiles, local lines first. */
+export const combineGlobalProfiles = (local: string | null | undefined, imported: string | null | undefined): string => {
+  const lines: string[] = [];
+  const seen = new Set<string>();
+  for (const text of [local, imported]) {
+    for (const line of (text || '').split('\n')) {
+      const key = line.trim().toLowerCase();
+      if (key && seen.has(key)) continue;
+      if (key) seen.add(key);
+      lines.push(line);
+    }
+  }
+  return lines.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+};
+
+export const buildImportPreview = async (data: BackupData): Promise<PairImportPreview[]> => {
+  const localByPair = groupThreadIdsByPair(await getStoredThreadIdsDB());
+  const importedByPair = groupThreadIdsByPair(Object.keys(data.chats));
+  const previews: PairImportPreview[] = [];
+  for (const [pairId, importedThreadIds] of importedByPair) {
+    const localIds = new Set<string>();
+    let localNewest: number | null = null;
+    const localThreadIds = localByPair.get(pairId) || [];
+    for (const threadId of localThreadIds) {
+      const messages = await getStoredChatHistoryDB(threadId);
+      messages.forEach(m => localIds.add(m.id));
+      const newest = newestTimestamp(messages);
+      if (newest !== null && (localNewest === null || newest > localNewest)) localNewest = newest;
+    }
+    const imported = importedThreadIds.flatMap(threadId => data.chats[threadId] || []);
+    previews.push({
+      pairId,
+      localThreads: localThreadIds.length,
+      importedThreads: importedThreadIds.length,
+      localMessages: localIds.size,
+      importedMessages: imported.length,
+      newMessages: imported.filter(m => m && !localIds.has(m.id)).length,
+      localNewest,
+      importedNewest: newestTimestamp(imported),
+    });
+  }
+  return previews.sort((a, b) => a.pairId.localeCompare(b.pairId));
+};
+
+/** Writes an imported backup next to local data using the chosen per-pair strategies (default: merge). */
+export const mergeBackupIntoDB = async (
+  data: BackupData,
+  strategies: Record<string, PairImportStrategy>
+): Promise<void> => {
+  const localByPair = groupThreadIdsByPair(await getStoredThreadIdsDB());
+  const localMetas = await getAllChatMetasDB();
+  const localThreads = new Map<string, ChatThread>((await getAllThreadsDB()).map(thread => [thread.id, thread]));
+  const importedThreads = data.threads || [];
+  const importedByPair = groupThreadIdsByPair(Object.keys(data.chats));
+
+  // Deleting releases the local media references, which removes blobs the imported
+  // messages share by id; staging afterwards puts those back.
+  for (const pairId of importedByPair.keys()) {
+    if (strategies[pairId] !== 'keep-imported') continue;
+    for (const threadId of localByPair.get(pairId) || []) await deleteThreadDB(threadId);
+  }
+  await stageMediaDB(data.media);
+
+  for (const [pairId, importedThreadIds] of importedByPair) {
+    const strategy = strategies[pairId] || 'merge';
+    if (strategy === 'keep-local') continue;
+    const localThreadIds = localByPair.get(pairId) || [];
+
+    for (const threadId of importedThreadIds) {
+      const imported = data.chats[threadId] || [];
+      const hasLocal = strategy === 'merge' && localThreadIds.includes(threadId);
+      const local = hasLocal ? await getStoredChatHistoryDB(threadId) : [];
+      await saveChatHistoryDB(threadId, hasLocal ? mergeMessagesById(local, imported) : imported);
+
+      const meta = strategy === 'merge'
+        ? pickNewestMeta(localMetas[threadId], data.metas?.[threadId])
+        : data.metas?.[threadId] || null;
+      if (meta && meta !== localMetas[threadId]) await setChatMetaDB(threadId, meta);
+    }
+    for (const thread of importedThreads) {
+      if (!thread || thread.pairId !== pairId || typeof thread.id !== 'string') continue;
+      const local = strategy === 'merge' ? localThreads.get(thread.id) : undefined;
+      if (!local || (thread.updatedAt || 0) > (local.updatedAt || 0)) await saveThreadDB(thread);
+    }
+  }
+
+  if (data.globalProfileText && data.globalProfileText.trim()) {
+    const local = (await getGlobalProfileDB())?.text || '';
+    const combined = combineGlobalProfiles(local, data.globalProfileText);
+    if (combined !== local.trim()) await setGlobalProfileDB(combined);
+  }
+
+  await collectMediaGarbageDB();
+};
@@ -0,0 +1,82 @@
+// Copyright 2025 Roni Tervo
+//
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * What part of the stored chats an export covers.
+ *
+ * Responsibilities:
+ * - Describe a selection: language pairs, a date range and media/audio toggles
+ * - Resolve the selected threads, grouped by pair
+ * - Filter a thread's stored messages by date and strip excluded media/audio
+ */
+
+import type { ChatMessage, ReplySuggestion } from '../../../core/types';
+import { pairIdFromThreadId } from '../../../core/db/index';
+import { getStoredThreadIdsDB, getStoredChatHistoryDB } from '../../chat';
+
+export interface ExportSelection {
+  /** null = every pair that has stored messages. */
+  pairIds: string[] | null;
+  /** Inclusive bounds in ms; null = open-ended. */
+  from: number | null;
+  to: number | null;
+  /** Camera snapshots, uploaded images/videos and the Maestro avatar. */
+  includeMedia: boolean;
+  /** Voice recordings and cached TTS audio. */
+  includeAudio: boolean;
+}
+
+export const FULL_EXPORT_SELECTION: ExportSelection = {
+  pairIds: null,
+  from: null,
+  to: null,
+  includeMedia: true,
+  includeAudio: true,
+};
+
+/** Selected thread ids grouped by pair id, in stored order. */
+export const getSelectedThreadsByPair = async (selection: ExportSelection): Promise<Map<string, string[]>> => {
+  const wanted = selection.pairIds ? new Set(selection.pairIds) : null;
+  const out = new Map<string, string[]>();
+  for (const threadId of await getStoredThreadIdsDB()) {
+    const pairId = pairIdFromThreadId(threadId);
+    if (wanted && !wanted.has(pairId)) continue;
+    out.set(pairId, [...(out.get(pairId) || []), threadId]);
+  }
+  return out;
+};
+
+const stripSuggestionAudio = (suggestions: ReplySuggestion[]): ReplySuggestion[] =>
+  suggestions.map(({ ttsAudioCache: _audio, ...rest }) => rest);
+
+/** Removes the parts of a stored message that the selection excludes. */
+export const applySelectionToMessage = (message: ChatMessage, selection: ExportSelection): ChatMessage => {
+  const out: ChatMessage = { ...message };
+  if (!selection.includeMedia) {
+    delete out.imageUrl;
+    delete out.imageMimeType;
+    delete out.imageFileUri;
+    delete out.imageMediaId;
+    delete out.storageOptimizedImageUrl;
+    delete out.storageOptimizedImageMimeType;
+    delete out.uploadedFileUri;
+    delete out.uploadedFileMimeType;
+  }
+  if (!selection.includeAudio) {
+    delete out.recordedUtterance;
+    delete out.ttsAudioCache;
+    if (out.replySuggestions) out.replySuggestions = stripSuggestionAudio(out.replySuggestions);
+  }
+  return out;
+};
+
+export const isInSelectedRange = (timestamp: number, selection: ExportSelection): boolean =>
+  (selection.from === null || timestamp >= selection.from) && (selection.to === null || timestamp <= selection.to);
+
+/** Stored messages of a thread inside the date range, with excluded media/audio removed. */
+export const getSelectedMessages = async (threadId: string, selection: ExportSelection): Promise<ChatMessage[]> => {
+  const messages = await getStoredChatHistoryDB(threadId);
+  return messages
+    .filter(m => isInSelectedRange(m.timestamp || 0, selection))
+    .map(m => applySelectionToMessage(m, selection));
+};
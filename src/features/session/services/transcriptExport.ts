@@ -0,0 +1,301 @@
+// Copyright 2025 Roni Tervo
+//
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * Human-readable transcript exports.
+ *
+ * Responsibilities:
+ * - Render the selected chats as Markdown, self-contained HTML or bilingual TSV
+ * - Interleave each target-language line with its native translation
+ * - Include images and voice recordings when the selection asks for them:
+ *   HTML embeds them, Markdown is zipped together with a `media/` folder
+ *
+ * Only real conversation turns are exported (no status/error/selection rows).
+ */
+
+import type { ChatMessage } from '../../../core/types';
+import { dataUrlToBlob, getMediaDataUrlDB } from '../../../core/db/media';
+import { isRealChatMessage } from '../../../shared/utils/common';
+import { createZipWriter } from '../../../shared/utils/zip';
+import { extensionForMime } from './backupArchive';
+import { getSelectedMessages, getSelectedThreadsByPair, type ExportSelection } from './exportSelection';
+
+export type TranscriptFormat = 'markdown' | 'html' | 'tsv';
+
+export interface TranscriptLabels {
+  title: string;
+  exportedAt: string;
+  user: string;
+  assistant: string;
+  image: string;
+  recording: string;
+  columns: { date: string; pair: string; thread: string; speaker: string; target: string; native: string };
+}
+
+export interface TranscriptContext {
+  pairNames: Record<string, string>;
+  /** Thread record names; the default thread of a pair usually has none. */
+  threadNames: Record<string, string>;
+  labels: TranscriptLabels;
+}
+
+export interface TranscriptFile {
+  blob: Blob;
+  /** File extension including the dot, e.g. `.md` or `.zip`. */
+  extension: string;
+}
+
+interface TranscriptLine { target: string; native: string }
+
+interface TranscriptMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  timestamp: number;
+  lines: TranscriptLine[];
+  image: { dataUrl: string; mimeType: string } | null;
+  recording: { dataUrl: string; mimeType: string } | null;
+}
+
+interface TranscriptThread {
+  pairId: string;
+  threadId: string;
+  name: string;
+  messages: TranscriptMessage[];
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+const formatDay = (ts: number) => {
+  const d = new Date(ts);
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+};
+const formatTime = (ts: number) => {
+  const d = new Date(ts);
+  return `${pad(d.getHours())}:${pad(d.getMinutes())}`;
+};
+
+const mimeOfDataUrl = (dataUrl: string, fallback = 'application/octet-stream') =>
+  /^data:([^;,]+)/.exec(dataUrl)?.[1] || fallback;
+
+const linesOf = (message: ChatMessage): TranscriptLine[] => {
+  if (message.role === 'assistant' && message.translations?.length) {
+    return message.translations
+      .filter(t => t && (t.target || t.native))
+      .map(t => ({ target: t.target || '', native: t.native || '' }));
+  }
+  const text = (message.text || message.recordedUtterance?.transcript || '').trim();
+  return text ? [{ target: text, native: '' }] : [];
+};
+
+const resolveDataUrl = async (mediaId: string | undefined, ...candidates: Array<string | undefined>): Promise<string | null> => {
+  if (mediaId) {
+    const dataUrl = await getMediaDataUrlDB(mediaId);
+    if (dataUrl) return dataUrl;
+  }
+  return candidates.find(c => typeof c === 'string' && c.startsWith('data:')) || null;
+};
+
+const toTranscriptMessage = async (message: ChatMessage): Promise<TranscriptMessage | null> => {
+  if (!isRealChatMessage(message)) return null;
+  const imageUrl = await resolveDataUrl(message.imageMediaId, message.imageUrl, message.storageOptimizedImageUrl);
+  const recordingUrl = message.recordedUtterance
+    ? await resolveDataUrl(message.recordedUtterance.mediaId, message.recordedUtterance.dataUrl)
+    : null;
+  const lines = linesOf(message);
+  if (lines.length === 0 && !imageUrl && !recordingUrl) return null;
+  return {
+    id: message.id,
+    role: message.role as TranscriptMessage['role'],
+    timestamp: message.timestamp || 0,
+    lines,
+    image: imageUrl ? { dataUrl: imageUrl, mimeType: mimeOfDataUrl(imageUrl, message.imageMimeType) } : null,
+    recording: recordingUrl ? { dataUrl: recordingUrl, mimeType: mimeOfDataUrl(recordingUrl) } : null,
+  };
+};
+
+const collectThreads = async (selection: ExportSelection, context: TranscriptContext): Promise<TranscriptThread[]> => {
+  const out: TranscriptThread[] = [];
+  for (const [pairId, threadIds] of await getSelectedThreadsByPair(selection)) {
+    for (const threadId of threadIds) {
+      const messages: TranscriptMessage[] = [];
+      for (const message of await getSelectedMessages(threadId, selection)) {
+        const converted = await toTranscriptMessage(message);
+        if (converted) messages.push(converted);
+      }
+      if (messages.length === 0) continue;
+      out.push({ pairId, threadId, name: context.threadNames[threadId] || '', messages });
+    }
+  }
+  return out;
+};
+
+// ============================================================
+// MARKDOWN
+// ============================================================
+
+const escapeMarkdown = (text: string) => text.replace(/([\\`*_[\]<>#|])/g, '\\$1').replace(/\n/g, '  \n');
+
+const safeFileStem = (id: string) => id.replace(/[^\w.-]/g, '_');
+
+const writeMarkdown = async (threads: TranscriptThread[], context: TranscriptContext): Promise<TranscriptFile> => {
+  const { labels } = context;
+  const zip = createZipWriter();
+  let hasMedia = false;
+  const addMedia = async (messageId: string, kind: string, media: { dataUrl: string; mimeType: string }): Promise<string | null> => {
+    const blob = dataUrlToBlob(media.dataUrl, media.mimeType);
+    if (!blob) return null;
+    const file = `media/${safeFileStem(messageId)}-${kind}${extensionForMime(media.mimeType)}`;
+    if (!zip.has(file)) await zip.add(file, blob);
+    hasMedia = true;
+    return file;
+  };
+
+  const out: string[] = [`# ${escapeMarkdown(labels.title)}`, '', `_${escapeMarkdown(labels.exportedAt)}_`, ''];
+  let lastPair = '';
+  for (const thread of threads) {
+    if (thread.pairId !== lastPair) {
+      out.push(`## ${escapeMarkdown(context.pairNames[thread.pairId] || thread.pairId)}`, '');
+      lastPair = thread.pairId;
+    }
+    if (thread.name) out.push(`### ${escapeMarkdown(thread.name)}`, '');
+    let lastDay = '';
+    for (const message of thread.messages) {
+      const day = formatDay(message.timestamp);
+      if (day !== lastDay) {
+        out.push(`#### ${day}`, '');
+        lastDay = day;
+      }
+      out.push(`**${escapeMarkdown(message.role === 'user' ? labels.user : labels.assistant)}** · ${formatTime(message.timestamp)}`, '');
+      for (const line of message.lines) {
+        if (line.target) out.push(`> ${escapeMarkdown(line.target)}`);
+        if (line.native) out.push(`> _${escapeMarkdown(line.native)}_`);
+        out.push('>');
+      }
+      if (out[out.length - 1] === '>') out.pop();
+      if (message.lines.length) out.push('');
+      if (message.image) {
+        const file = await addMedia(message.id, 'image', message.image);
+        if (file) {
+          out.push(message.image.mimeType.startsWith('image/')
+            ? `![${escapeMarkdown(labels.image)}](${file})`
+            : `[${escapeMarkdown(labels.image)}](${file})`, '');
+        }
+      }
+      if (message.recording) {
+        const file = await addMedia(message.id, 'recording', message.recording);
+        if (file) out.push(`[${escapeMarkdown(labels.recording)}](${file})`, '');
+      }
+    }
+  }
+
+  const markdown = out.join('\n');
+  if (!hasMedia) return { blob: new Blob([markdown], { type: 'text/markdown;charset=utf-8' }), extension: '.md' };
+  await zip.add('transcript.md', markdown);
+  return { blob: zip.finish(), extension: '.zip' };
+};
+
+// ============================================================
+// HTML
+// ============================================================
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const HTML_STYLE = `
+body { font-family: system-ui, sans-serif; max-width: 46rem; margin: 2rem auto; padding: 0 1rem; color: #1e293b; }
+h2 { border-bottom: 1px solid #cbd5e1; padding-bottom: .25rem; }
+h4 { color: #64748b; font-weight: 500; margin: 1.5rem 0 .5rem; }
+.msg { margin: .75rem 0; padding: .5rem .75rem; border-radius: .5rem; background: #f1f5f9; }
+.msg.user { background: #e0f2fe; }
+.who { font-size: .8rem; color: #64748b; }
+.target { margin: .25rem 0 0; }
+.native { margin: 0 0 .25rem; font-style: italic; color: #475569; }
+img, video { max-width: 100%; border-radius: .5rem; margin-top: .5rem; }
+audio { display: block; margin-top: .5rem; }
+`;
+
+const renderHtmlMedia = (media: { dataUrl: string; mimeType: string }, label: string): string => {
+  const src = escapeHtml(media.dataUrl);
+  if (media.mimeType.startsWith('image/')) return `<img src="${src}" alt="${escapeHtml(label)}">`;
+  if (media.mimeType.startsWith('video/')) return `<video controls src="${src}"></video>`;
+  if (media.mimeType.startsWith('audio/')) return `<audio controls src="${src}"></audio>`;
+  return '';
+};
+
+const writeHtml = (threads: TranscriptThread[], context: TranscriptContext): TranscriptFile => {
+  const { labels } = context;
+  const out: string[] = [
+    '<!DOCTYPE html>',
+    '<html><head><meta charset="utf-8">',
+    `<title>${escapeHtml(labels.title)}</title>`,
+    `<style>${HTML_STYLE}</style>`,
+    '</head><body>',
+    `<h1>${escapeHtml(labels.title)}</h1>`,
+    `<p><em>${escapeHtml(labels.exportedAt)}</em></p>`,
+  ];
+  let lastPair = '';
+  for (const thread of threads) {
+    if (thread.pairId !== lastPair) {
+      out.push(`<h2>${escapeHtml(context.pairNames[thread.pairId] || thread.pairId)}</h2>`);
+      lastPair = thread.pairId;
+    }
+    if (thread.name) out.push(`<h3>${escapeHtml(thread.name)}</h3>`);
+    let lastDay = '';
+    for (const message of thread.messages) {
+      const day = formatDay(message.timestamp);
+      if (day !== lastDay) {
+        out.push(`<h4>${day}</h4>`);
+        lastDay = day;
+      }
+      const who = message.role === 'user' ? labels.user : labels.assistant;
+      out.push(`<div class="msg ${message.role}">`, `<div class="who">${escapeHtml(who)} · ${formatTime(message.timestamp)}</div>`);
+      for (const line of message.lines) {
+        if (line.target) out.push(`<p class="target">${escapeHtml(line.target).replace(/\n/g, '<br>')}</p>`);
+        if (line.native) out.push(`<p class="native">${escapeHtml(line.native).replace(/\n/g, '<br>')}</p>`);
+      }
+      if (message.image) out.push(renderHtmlMedia(message.image, labels.image));
+      if (message.recording) out.push(renderHtmlMedia(message.recording, labels.recording));
+      out.push('</div>');
+    }
+  }
+  out.push('</body></html>');
+  return { blob: new Blob([out.join('\n')], { type: 'text/html;charset=utf-8' }), extension: '.html' };
+};
+
+// ============================================================
+// TSV
+// ============================================================
+
+const tsvCell = (text: string) => text.replace(/[\t\r\n]+/g, ' ').trim();
+
+const writeTsv = (threads: TranscriptThread[], context: TranscriptContext): TranscriptFile => {
+  const { columns } = context.labels;
+  const rows = [[columns.date, columns.pair, columns.thread, columns.speaker, columns.target, columns.native]];
+  for (const thread of threads) {
+    const pairName = context.pairNames[thread.pairId] || thread.pairId;
+    for (const message of thread.messages) {
+      const who = message.role === 'user' ? context.labels.user : context.labels.assistant;
+      const when = `${formatDay(message.timestamp)} ${formatTime(message.timestamp)}`;
+      for (const line of message.lines) {
+        rows.push([when, pairName, thread.name, who, line.target, line.native]);
+      }
+    }
+  }
+  // BOM so spreadsheet apps detect UTF-8.
+  const text = '\uFEFF' + rows.map(row => row.map(tsvCell).join('\t')).join('\r\n') + '\r\n';
+  return { blob: new Blob([text], { type: 'text/tab-separated-values;charset=utf-8' }), extension: '.tsv' };
+};
+
+/** Renders the selected chats. Returns null when nothing matches the selection. */
+export const writeTranscript = async (
+  format: TranscriptFormat,
+  selection: ExportSelection,
+  context: TranscriptContext
+): Promise<TranscriptFile | null> => {
+  // TSV is text only; skip resolving media it would not use.
+  const effective = format === 'tsv' ? { ...selection, includeMedia: false, includeAudio: false } : selection;
+  const threads = await collectThreads(effective, context);
+  if (threads.length === 0) return null;
+  if (format === 'markdown') return writeMarkdown(threads, context);
+  if (format === 'html') return writeHtml(threads, context);
+  return writeTsv(threads, context);
+};
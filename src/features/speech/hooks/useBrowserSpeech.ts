@@ -6,7 +6,7 @@ import { useState, useEffect, useCallback, useRef } from 'react';
 import type { SpeechPart, RecordedUtterance } from '../../../core/types';
 import { useTtsEngine } from './useTtsEngine';
 import { useGeminiLiveStt } from './useGeminiLiveStt';
-import { pcmToWav } from '../utils/audioProcessing';
+import { encodePcm16ToDataUrl } from '../../../shared/utils/audioEncoding';
 
 interface UseBrowserSpeechProps {
   onEngineCycleEnd?: (errorOccurred: boolean) => void;
@@ -29,7 +29,7 @@ interface UseBrowserSpeechReturn {
   isSpeechRecognitionSupported: boolean;
   clearTranscript: () => void;
   speakingUtteranceText: string | null;
-  claimRecordedUtterance: () => RecordedUtterance | null;
+  claimRecordedUtterance: () => Promise<RecordedUtterance | null>;
   hasPendingQueueItems: () => boolean;
 }
 
@@ -123,14 +123,16 @@ const useBrowserSpeech = (props?: UseBrowserSpeechProps): UseBrowserSpeechReturn
       setTranscript('');
   }, []);
   
-  const claimRecordedUtterance = useCallback(() => {
+  const claimRecordedUtterance = useCallback(async () => {
+      // Take the PCM and language now; only the encoding happens after the await.
       const pcm = geminiStt.getRecordedAudio();
       if (pcm && pcm.length > 0) {
-          const wavBase64 = pcmToWav(pcm, 16000);
+          const langCode = props?.getGlobalSttLanguage ? props.getGlobalSttLanguage() : 'en';
+          const dataUrl = await encodePcm16ToDataUrl(pcm, 16000);
           return {
-              dataUrl: wavBase64,
+              dataUrl,
               provider: 'gemini',
-              langCode: props?.getGlobalSttLanguage ? props.getGlobalSttLanguage() : 'en',
+              langCode,
               transcript: transcript,
           } as RecordedUtterance;
       }
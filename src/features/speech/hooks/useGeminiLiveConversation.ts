@@ -1,9 +1,13 @@
 import { useCallback, useEffect, useRef, useState } from 'react';
-import { GoogleGenAI, LiveServerMessage, Modality, Blob as GenAIBlob } from '@google/genai';
+import { LiveServerMessage, Modality, Blob as GenAIBlob } from '@google/genai';
 import { mergeInt16Arrays, trimSilence } from '../utils/audioProcessing';
 import { debugLogService } from '../../diagnostics';
+import { recordTokenUsage } from '../../usage';
 import { FLOAT_TO_INT16_PROCESSOR_URL, FLOAT_TO_INT16_PROCESSOR_NAME } from '../worklets';
-import { getApiKeyOrThrow } from '../../../core/security/apiKeyStorage';
+import { getAi } from '../../../api/gemini';
+import { claimTabResources } from '../../../core/tabs/tabCoordination';
+import { modelChain, noteLiveSessionClosed, pickAvailableModel } from '../../../api/llm';
+import { useMaestroStore } from '../../../store';
 
 export type LiveSessionState = 'idle' | 'connecting' | 'active' | 'error';
 
@@ -127,6 +131,9 @@ export function useGeminiLiveConversation(
   // Flag to track if cleanup is in progress to prevent race conditions
   const isCleaningUpRef = useRef<boolean>(false);
 
+  // Releases this tab's claim on the live socket and microphone
+  const releaseTabClaimRef = useRef<(() => void) | null>(null);
+
   // Transcription & Audio Accumulators
   const currentInputTranscriptionRef = useRef<string>('');
   const currentOutputTranscriptionRef = useRef<string>('');
@@ -228,6 +235,9 @@ export function useGeminiLiveConversation(
     modelAudioSplitPointsRef.current = [];
     lastNewlineCountRef.current = 0;
     pendingUserTurnRef.current = null;
+
+    releaseTabClaimRef.current?.();
+    releaseTabClaimRef.current = null;
     
     isCleaningUpRef.current = false;
   }, [stopAllAudio]);
@@ -298,6 +308,10 @@ export function useGeminiLiveConversation(
     try {
       if (!stream || !stream.active) throw new Error('No active stream provided');
 
+      // Only one tab may hold a live socket and the microphone.
+      releaseTabClaimRef.current = await claimTabResources(['live', 'mic']);
+      if (await abortIfInvalidated()) return;
+
       // Video Setup
       await ensureVideoElementReady(stream, videoElement);
       if (await abortIfInvalidated()) return;
@@ -324,7 +338,7 @@ export function useGeminiLiveConversation(
       const outputCtx = new AudioContextCtor({ sampleRate: OUTPUT_SAMPLE_RATE });
       outputAudioContextRef.current = outputCtx;
 
-      const model = 'gemini-2.5-flash-native-audio-preview-12-2025';
+      const model = pickAvailableModel(modelChain(useMaestroStore.getState().settings.models, 'live'));
       modelRef.current = model;
       logFinalizedRef.current = false;
       logRef.current = debugLogService.logRequest('useGeminiLiveConversation', model, {
@@ -334,8 +348,7 @@ export function useGeminiLiveConversation(
         outputAudioTranscription: {},
       });
 
-      const apiKey = await getApiKeyOrThrow();
-      const ai = new GoogleGenAI({ apiKey });
+      const ai = await getAi();
       const session = await ai.live.connect({
         model,
         config: {
@@ -356,6 +369,7 @@ export function useGeminiLiveConversation(
           onmessage: async (msg: LiveServerMessage) => {
              // Check session is still valid before processing message
              if (currentSessionIdRef.current !== sessionId) return;
+             if (msg.usageMetadata) recordTokenUsage('live', model, msg.usageMetadata);
              
              // 1. Handle Audio Output
              const inlineAudio = msg.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
@@ -537,7 +551,8 @@ export function useGeminiLiveConversation(
                  lastNewlineCountRef.current = 0;
              }
           },
-          onclose: () => {
+          onclose: (event: any) => {
+            noteLiveSessionClosed(model, event?.reason);
             // Check session is still valid before updating state
             if (currentSessionIdRef.current !== sessionId) return;
             sessionRef.current = null;
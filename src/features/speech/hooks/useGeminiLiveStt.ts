@@ -1,9 +1,13 @@
 import { useCallback, useRef, useState, useEffect } from 'react';
-import { GoogleGenAI, LiveServerMessage, Modality, Session } from '@google/genai';
+import { LiveServerMessage, Modality, Session } from '@google/genai';
 import { mergeInt16Arrays, trimSilence } from '../utils/audioProcessing';
 import { FLOAT_TO_INT16_PROCESSOR_URL, FLOAT_TO_INT16_PROCESSOR_NAME } from '../worklets';
 import { debugLogService } from '../../diagnostics';
-import { getApiKeyOrThrow } from '../../../core/security/apiKeyStorage';
+import { recordTokenUsage } from '../../usage';
+import { getAi } from '../../../api/gemini';
+import { claimTabResources } from '../../../core/tabs/tabCoordination';
+import { modelChain, noteLiveSessionClosed, pickAvailableModel } from '../../../api/llm';
+import { useMaestroStore } from '../../../store';
 
 export interface UseGeminiLiveSttReturn {
   start: (
@@ -62,6 +66,9 @@ export function useGeminiLiveStt(): UseGeminiLiveSttReturn {
   
   // Flag to track if cleanup is in progress to prevent race conditions
   const isCleaningUpRef = useRef<boolean>(false);
+
+  // Releases this tab's claim on the live socket and microphone
+  const releaseTabClaimRef = useRef<(() => void) | null>(null);
   
   // Transcription State Refs
   const committedTranscriptRef = useRef('');
@@ -120,6 +127,9 @@ export function useGeminiLiveStt(): UseGeminiLiveSttReturn {
     
     // Clear accumulated audio chunks to free memory
     audioChunksRef.current = [];
+
+    releaseTabClaimRef.current?.();
+    releaseTabClaimRef.current = null;
     
     isCleaningUpRef.current = false;
   }, []);
@@ -168,6 +178,14 @@ export function useGeminiLiveStt(): UseGeminiLiveSttReturn {
     audioChunksRef.current = [];
 
     try {
+      // Only one tab may hold a live socket and the microphone.
+      const releaseTabClaim = await claimTabResources(['live', 'mic']);
+      if (currentSessionIdRef.current !== sessionId) {
+        releaseTabClaim();
+        return;
+      }
+      releaseTabClaimRef.current = releaseTabClaim;
+
       // --- 1. Request Microphone Permission FIRST ---
       // This ensures we have access before opening the expensive WebSocket connection.
       // It also fixes the UX issue where the app asks for permission "late".
@@ -224,7 +242,7 @@ export function useGeminiLiveStt(): UseGeminiLiveSttReturn {
         augmentedSystemInstruction = `${baseSystemInstruction}\n\nContext:\n${parts.join('\n')}`;
       }
 
-      const model = 'gemini-2.5-flash-native-audio-preview-12-2025';
+      const model = pickAvailableModel(modelChain(useMaestroStore.getState().settings.models, 'live'));
       logRef.current = debugLogService.logRequest('useGeminiLiveStt', model, {
         responseModalities: [Modality.AUDIO],
         inputAudioTranscription: {},
@@ -236,8 +254,7 @@ export function useGeminiLiveStt(): UseGeminiLiveSttReturn {
         hasLastAssistantMessage: !!lastAssistantMessage,
       });
 
-      const apiKey = await getApiKeyOrThrow();
-      const ai = new GoogleGenAI({ apiKey });
+      const ai = await getAi();
       const session = await ai.live.connect({
         model,
         config: {
@@ -256,6 +273,7 @@ export function useGeminiLiveStt(): UseGeminiLiveSttReturn {
           onmessage: (msg: LiveServerMessage) => {
             // Check session is still valid before processing message
             if (currentSessionIdRef.current !== sessionId) return;
+            if (msg.usageMetadata) recordTokenUsage('stt', model, msg.usageMetadata);
             
             // 1. Capture User Input (ASR) - Low Latency, potentially inaccurate
             if (msg.serverContent?.inputTranscription) {
@@ -310,6 +328,7 @@ export function useGeminiLiveStt(): UseGeminiLiveSttReturn {
             }
           },
           onclose: (event: any) => {
+            noteLiveSessionClosed(model, event?.reason);
             // Check session is still valid before updating state
             if (currentSessionIdRef.current !== sessionId) return;
 
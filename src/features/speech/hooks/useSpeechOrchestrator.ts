@@ -22,6 +22,7 @@ import {
 import useBrowserSpeech from './useBrowserSpeech';
 import { getPrimaryCode } from '../../../shared/utils/languageUtils';
 import { INLINE_CAP_AUDIO, computeTtsCacheKey, getCachedAudioForKey } from '../../chat';
+import { getTtsAudioDB, putTtsAudioDB } from '../../../core/db/ttsCache';
 import { TOKEN_CATEGORY, TOKEN_SUBTYPE } from '../../../core/config/activityTokens';
 import { useMaestroStore } from '../../../store';
 import { selectIsSending } from '../../../store/slices/uiSlice';
@@ -29,11 +30,15 @@ import { selectSelectedLanguagePair } from '../../../store/slices/settingsSlice'
 import { createSmartRef, createWritableSmartRef } from '../../../shared/utils/smartRef';
 
 export interface UseSpeechOrchestratorConfig {
-  upsertMessageTtsCache: (messageId: string, entry: TtsAudioCacheEntry) => void;
-  upsertSuggestionTtsCache: (messageId: string, suggestionIndex: number, entry: TtsAudioCacheEntry) => void;
   setMessages?: React.Dispatch<React.SetStateAction<ChatMessage[]>>;
 }
 
+/** Writes audio to the shared TTS cache in the background. */
+const storeSharedTtsAudio = (entry: TtsAudioCacheEntry) => {
+  console.debug(`[TTS Cache] STORE key=${entry.key.substring(0, 20)}... voice=${entry.voiceName}`);
+  putTtsAudioDB(entry).catch(e => console.warn('[TTS Cache] Failed to store audio:', e));
+};
+
 export interface UseSpeechOrchestratorReturn {
   // TTS State
   isSpeaking: boolean;
@@ -51,7 +56,7 @@ export interface UseSpeechOrchestratorReturn {
   sttError: string | null;
   isSpeechRecognitionSupported: boolean;
   clearTranscript: () => void;
-  claimRecordedUtterance: () => RecordedUtterance | null;
+  claimRecordedUtterance: () => Promise<RecordedUtterance | null>;
   
   // Refs
   speechIsSpeakingRef: React.MutableRefObject<boolean>;
@@ -60,7 +65,7 @@ export interface UseSpeechOrchestratorReturn {
   sttInterruptedBySendRef: React.MutableRefObject<boolean>;
   
   // Utility functions
-  prepareSpeechPartsWithCache: (parts: SpeechPart[], defaultLang: string) => SpeechPart[];
+  prepareSpeechPartsWithCache: (parts: SpeechPart[], defaultLang: string) => Promise<SpeechPart[]>;
   speakMessage: (message: ChatMessage) => void;
   speakWrapper: (textOrParts: string | SpeechPart[], defaultLang: string) => void;
 }
@@ -72,8 +77,6 @@ export interface UseSpeechOrchestratorReturn {
  */
 export const useSpeechOrchestrator = (config: UseSpeechOrchestratorConfig): UseSpeechOrchestratorReturn => {
   const { 
-    upsertMessageTtsCache,
-    upsertSuggestionTtsCache,
     setMessages,
   } = config;
 
@@ -271,11 +274,16 @@ export const useSpeechOrchestrator = (config: UseSpeechOrchestratorConfig): UseS
     setStoreSpeakingUtteranceText(speakingUtteranceText);
   }, [speakingUtteranceText, setStoreSpeakingUtteranceText]);
 
-  const prepareSpeechPartsWithCache = useCallback((parts: SpeechPart[], defaultLang: string): SpeechPart[] => {
+  /**
+   * Attaches cache keys and cached audio. The shared TTS cache is consulted
+   * first; `ttsAudioCache` arrays on messages only exist in data imported from
+   * old backups and are copied into the shared cache when they hit.
+   */
+  const prepareSpeechPartsWithCache = useCallback(async (parts: SpeechPart[], defaultLang: string): Promise<SpeechPart[]> => {
     const provider = 'gemini-live';
     // Always use voiceName from settings as the canonical source for cache key consistency
     const settingsVoiceName = settingsRef.current.tts.voiceName || 'Kore';
-    return parts.map((part) => {
+    return Promise.all(parts.map(async (part) => {
       const cleanedText = (part.text || '').trim();
       const lang = part.langCode || defaultLang;
       const context = part.context;
@@ -293,52 +301,43 @@ export const useSpeechOrchestrator = (config: UseSpeechOrchestratorConfig): UseS
         };
       }
 
-      if (!cacheKey && context && context.source === 'message' && context.messageId) {
-        cacheKey = computeTtsCacheKey(cleanedText, lang, provider, voiceName);
-        const message = messagesRef.current.find(m => m.id === context.messageId);
-        cachedAudio = cachedAudio || getCachedAudioForKey(message?.ttsAudioCache, cacheKey);
-        console.debug(`[TTS Cache] LOOKUP key=${cacheKey.substring(0, 20)}... text="${cleanedText.substring(0, 30)}..." voice=${voiceName} hit=${!!cachedAudio} cacheSize=${message?.ttsAudioCache?.length || 0}`);
-        if (!onAudioCached) {
-          const messageId = context.messageId;
-          onAudioCached = (audioDataUrl) => {
-            if (!cacheKey) return;
-            upsertMessageTtsCache(messageId, {
-              key: cacheKey,
-              langCode: lang,
-              provider,
-              audioDataUrl,
-              updatedAt: Date.now(),
-              voiceName,
-            });
-          };
+      const isMessage = context?.source === 'message' && !!context.messageId;
+      const isSuggestion = context?.source === 'suggestion' && !!context.messageId &&
+        typeof context.suggestionIndex === 'number' && context.suggestionIndex >= 0;
+
+      if (!cacheKey && context && (isMessage || isSuggestion)) {
+        const key = computeTtsCacheKey(cleanedText, lang, provider, voiceName);
+        cacheKey = key;
+        if (!cachedAudio) {
+          try {
+            cachedAudio = (await getTtsAudioDB(key)) || undefined;
+          } catch (e) {
+            console.warn('[TTS Cache] Shared cache lookup failed:', e);
+          }
         }
-      } else if (!cacheKey && context && context.source === 'suggestion' && 
-                 context.messageId && typeof context.suggestionIndex === 'number') {
-        const suggestionIndex = context.suggestionIndex;
-        if (suggestionIndex >= 0) {
-          cacheKey = computeTtsCacheKey(cleanedText, lang, provider, voiceName);
+        if (!cachedAudio) {
           const message = messagesRef.current.find(m => m.id === context.messageId);
-          cachedAudio = cachedAudio || getCachedAudioForKey(message?.replySuggestions?.[suggestionIndex]?.ttsAudioCache, cacheKey);
-          if (!cachedAudio && lastFetchedSuggestionsForRef.current === context.messageId) {
-            const localSuggestion = replySuggestionsRef?.current?.[suggestionIndex];
-            cachedAudio = cachedAudio || getCachedAudioForKey(localSuggestion?.ttsAudioCache, cacheKey);
+          let legacyAudio: string | undefined;
+          if (context.source !== 'suggestion') {
+            legacyAudio = getCachedAudioForKey(message?.ttsAudioCache, key);
+          } else {
+            const suggestionIndex = context.suggestionIndex;
+            legacyAudio = getCachedAudioForKey(message?.replySuggestions?.[suggestionIndex]?.ttsAudioCache, key);
+            if (!legacyAudio && lastFetchedSuggestionsForRef.current === context.messageId) {
+              legacyAudio = getCachedAudioForKey(replySuggestionsRef.current?.[suggestionIndex]?.ttsAudioCache, key);
+            }
           }
-          console.debug(`[TTS Cache] LOOKUP suggestion key=${cacheKey.substring(0, 20)}... text="${cleanedText.substring(0, 30)}..." voice=${voiceName} hit=${!!cachedAudio}`);
-          if (!onAudioCached) {
-            const messageId = context.messageId;
-            onAudioCached = (audioDataUrl) => {
-              if (!cacheKey) return;
-              upsertSuggestionTtsCache(messageId, suggestionIndex, {
-                key: cacheKey,
-                langCode: lang,
-                provider,
-                audioDataUrl,
-                updatedAt: Date.now(),
-                voiceName,
-              });
-            };
+          if (legacyAudio) {
+            cachedAudio = legacyAudio;
+            storeSharedTtsAudio({ key, langCode: lang, provider, audioDataUrl: legacyAudio, updatedAt: Date.now(), voiceName });
           }
         }
+        console.debug(`[TTS Cache] LOOKUP ${context.source} key=${key.substring(0, 20)}... text="${cleanedText.substring(0, 30)}..." voice=${voiceName} hit=${!!cachedAudio}`);
+        if (!onAudioCached) {
+          onAudioCached = (audioDataUrl) => {
+            storeSharedTtsAudio({ key, langCode: lang, provider, audioDataUrl, updatedAt: Date.now(), voiceName });
+          };
+        }
       }
 
       return {
@@ -350,8 +349,32 @@ export const useSpeechOrchestrator = (config: UseSpeechOrchestratorConfig): UseS
         onAudioCached,
         voiceName,
       };
-    });
-  }, [upsertMessageTtsCache, upsertSuggestionTtsCache, lastFetchedSuggestionsForRef]);
+    }));
+  }, [lastFetchedSuggestionsForRef]);
+
+  // Cache lookups are async; the queue keeps calls in order and `stopSpeaking`
+  // drops calls still being prepared. A TTS token covers the lookup so STT
+  // does not restart in the gap before playback starts.
+  const prepareQueueRef = useRef<Promise<void>>(Promise.resolve());
+  const speakGenerationRef = useRef(0);
+
+  const speakWithCache = useCallback((parts: SpeechPart[], defaultLang: string) => {
+    const generation = speakGenerationRef.current;
+    const token = addActivityToken(TOKEN_CATEGORY.TTS, TOKEN_SUBTYPE.CACHE_LOOKUP);
+    const prepared = prepareSpeechPartsWithCache(parts, defaultLang);
+    prepareQueueRef.current = prepareQueueRef.current
+      .then(() => prepared)
+      .then(preparedParts => {
+        if (generation === speakGenerationRef.current) speak(preparedParts, defaultLang);
+      })
+      .catch(e => console.warn('[TTS Cache] Failed to prepare speech:', e))
+      .finally(() => removeActivityToken(token));
+  }, [prepareSpeechPartsWithCache, speak, addActivityToken, removeActivityToken]);
+
+  const stopSpeakingAndPending = useCallback(() => {
+    speakGenerationRef.current++;
+    stopSpeaking();
+  }, [stopSpeaking]);
 
   const speakMessage = useCallback((message: ChatMessage) => {
     const selectedLanguagePair = selectedLanguagePairRef.current;
@@ -408,38 +431,35 @@ export const useSpeechOrchestrator = (config: UseSpeechOrchestratorConfig): UseS
       }
 
       if (partsForTTS.length > 0) {
-        const preparedParts = prepareSpeechPartsWithCache(partsForTTS, defaultLangForSpeakText);
-        speak(preparedParts, defaultLangForSpeakText);
+        speakWithCache(partsForTTS, defaultLangForSpeakText);
       }
 
     } else if (message.text && (message.role === 'error' || message.role === 'status')) {
       const textToSay = message.text;
       const langToUse = getPrimaryCode(selectedLanguagePair.nativeLanguageCode) || 'en';
       if (textToSay.trim()) {
-        const preparedParts = prepareSpeechPartsWithCache([
+        speakWithCache([
           { text: textToSay.trim(), langCode: langToUse, context: { source: 'adHoc' } },
         ], langToUse);
-        speak(preparedParts, langToUse);
       }
     }
-  }, [prepareSpeechPartsWithCache, speak, settingsRef, selectedLanguagePairRef]);
+  }, [speakWithCache, settingsRef, selectedLanguagePairRef]);
 
   const speakWrapper = useCallback(
     (textOrParts: string | SpeechPart[], defaultLang: string) => {
       const baseParts: SpeechPart[] = typeof textOrParts === 'string'
         ? [{ text: textOrParts, langCode: defaultLang, context: { source: 'adHoc' } }]
         : textOrParts;
-      const preparedParts = prepareSpeechPartsWithCache(baseParts, defaultLang);
-      speak(preparedParts, defaultLang);
+      speakWithCache(baseParts, defaultLang);
     },
-    [prepareSpeechPartsWithCache, speak]
+    [speakWithCache]
   );
 
   return {
     // TTS
     isSpeaking,
     speak,
-    stopSpeaking,
+    stopSpeaking: stopSpeakingAndPending,
     isSpeechSynthesisSupported,
     speakingUtteranceText,
     hasPendingQueueItems,
@@ -1,7 +1,7 @@
 
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { streamGeminiLiveTts } from '../services/geminiLiveTts';
-import { pcmToWav } from '../utils/audioProcessing';
+import { encodePcm16ToDataUrl } from '../../../shared/utils/audioEncoding';
 import type { SpeechPart, TtsProvider, SpeechCacheDetails } from '../../../core/types';
 
 export interface UseTtsEngineOptions {
@@ -22,8 +22,17 @@ interface SpeechQueueItem {
   onAudioCached?: (audioDataUrl: string, details: SpeechCacheDetails) => void;
   cacheKey?: string;
   cacheNotified?: boolean;
+  cachedAudioFailed?: boolean;
 }
 
+/** Decode / unsupported-source failures, as opposed to aborts or autoplay blocks. */
+const isUndecodableAudio = (error: unknown): boolean => {
+  if (error instanceof MediaError) {
+    return error.code === MediaError.MEDIA_ERR_DECODE || error.code === MediaError.MEDIA_ERR_SRC_NOT_SUPPORTED;
+  }
+  return (error as { name?: string } | null)?.name === 'NotSupportedError';
+};
+
 export interface UseTtsEngineReturn {
   isSpeechSynthesisSupported: boolean;
   isSpeaking: boolean;
@@ -164,18 +173,18 @@ export const useTtsEngine = (options?: UseTtsEngineOptions): UseTtsEngineReturn
         onLineComplete: (lineIndex, audioPcm) => {
           // Cache the audio for this line
           const item = geminiLiveItems[lineIndex];
-          if (item && audioPcm && audioPcm.length > 0) {
-            const audioDataUrl = pcmToWav(audioPcm, 24000);
-            if (item.onAudioCached && !item.cacheNotified) {
-              item.onAudioCached(audioDataUrl, { 
+          if (item && audioPcm && audioPcm.length > 0 && item.onAudioCached && !item.cacheNotified) {
+            const onAudioCached = item.onAudioCached;
+            item.cacheNotified = true;
+            // Encoding is async (WebCodecs); playback has already happened from the stream.
+            encodePcm16ToDataUrl(audioPcm, 24000).then(audioDataUrl => {
+              onAudioCached(audioDataUrl, { 
                 cacheKey: item.cacheKey, 
                 provider: 'gemini-live', 
                 langCode: item.langCode, 
                 fromCache: false 
               });
-              item.cacheNotified = true;
-            }
-
+            }).catch(e => console.warn('[GeminiLiveTts] Failed to encode audio for cache:', e));
           }
         },
         onError: (error) => {
@@ -235,6 +244,20 @@ export const useTtsEngine = (options?: UseTtsEngineOptions): UseTtsEngineReturn
     setSpeakingUtteranceText(current.text);
     callbacksRef.current.pauseSttForPlayback?.();
 
+    // Cached clips may be WAV (older versions) or Opus/WebM. If this browser
+    // cannot decode one (e.g. WebM restored from a backup onto a device
+    // without Opus playback), synthesize the line again instead of skipping it.
+    const resynthesize = (error: unknown): boolean => {
+      if (!current.cachedAudio || current.cachedAudioFailed || !current.text.trim() || !isUndecodableAudio(error)) return false;
+      console.warn('[TTS] Cached audio not playable here, synthesizing again:', error);
+      current.cachedAudioFailed = true;
+      current.cachedAudio = undefined;
+      current.audioDataUrl = undefined;
+      audioRef.current = null;
+      processSpeechQueue();
+      return true;
+    };
+
     if (current.audioDataUrl) {
         const audio = new Audio(current.audioDataUrl);
         audioRef.current = audio;
@@ -244,11 +267,21 @@ export const useTtsEngine = (options?: UseTtsEngineOptions): UseTtsEngineReturn
             processSpeechQueue();
         };
         audio.onerror = () => {
+            if (audioRef.current !== audio) return;
+            if (resynthesize(audio.error)) return;
             audioRef.current = null;
             removeCurrent();
             processSpeechQueue();
         };
-        try { await audio.play(); } catch { audioRef.current = null; removeCurrent(); processSpeechQueue(); }
+        try {
+          await audio.play();
+        } catch (e) {
+          if (audioRef.current !== audio) return;
+          if (resynthesize(e)) return;
+          audioRef.current = null;
+          removeCurrent();
+          processSpeechQueue();
+        }
       }
   }, [handleQueueComplete, processGeminiLiveQueue]);
 
@@ -21,10 +21,13 @@
  * - Cache audio segments per line for replay
  */
 
-import { GoogleGenAI, Modality, LiveServerMessage } from '@google/genai';
+import { Modality, LiveServerMessage } from '@google/genai';
 import { debugLogService } from '../../diagnostics';
+import { recordTokenUsage } from '../../usage';
 import { TRIGGER_AUDIO_PCM_24K, TRIGGER_SAMPLE_RATE } from './triggerAudioAsset';
-import { getApiKeyOrThrow } from '../../../core/security/apiKeyStorage';
+import { getAi, type GeminiClient } from '../../../api/gemini';
+import { modelChain, noteLiveSessionClosed, pickAvailableModel } from '../../../api/llm';
+import { useMaestroStore } from '../../../store';
 
 // ============================================================================
 // TYPES
@@ -136,9 +139,9 @@ export async function streamGeminiLiveTts(params: GeminiLiveTtsParams): Promise<
   }
 
   // Validate API key is available
-  let apiKey: string;
+  let ai: GeminiClient;
   try {
-    apiKey = await getApiKeyOrThrow();
+    ai = await getAi();
   } catch (e: any) {
     const errorMsg = e?.message || 'Missing API key';
     onError?.(errorMsg);
@@ -159,7 +162,7 @@ IMPORTANT RULES:
 TEXT TO READ:
 ${textBlock}`;
 
-  const model = 'gemini-2.5-flash-native-audio-preview-12-2025';
+  const model = pickAvailableModel(modelChain(useMaestroStore.getState().settings.models, 'live'));
   const config = {
     responseModalities: [Modality.AUDIO],
     speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName } } },
@@ -281,8 +284,6 @@ ${textBlock}`;
     };
 
     try {
-      const ai = new GoogleGenAI({ apiKey });
-      
       session = await ai.live.connect({
         model,
         config: config as any,
@@ -291,6 +292,8 @@ ${textBlock}`;
             onStatusUpdate?.('CONNECTED / STREAMING');
           },
           onmessage: (msg: LiveServerMessage) => {
+            if (msg.usageMetadata) recordTokenUsage('tts', model, msg.usageMetadata);
+
             // 1. Handle Audio Response - stream immediately for playback
             const inlineAudio = msg.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
             if (inlineAudio) {
@@ -380,7 +383,8 @@ ${textBlock}`;
               resolveOnce({ isComplete: true, audioSegments: finalizedResult?.audioSegments || [] });
             }
           },
-          onclose: () => {
+          onclose: (event: any) => {
+            noteLiveSessionClosed(model, event?.reason);
             cleanup();
           },
           onerror: (err: any) => {
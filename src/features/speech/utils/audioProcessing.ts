@@ -1,6 +1,8 @@
 
 // Utilities for processing raw PCM audio
 
+import { encodedAudioToDataUrl, pcm16ToWavBytes, WAV_MIME_TYPE } from '../../../shared/utils/audioEncoding';
+
 export function mergeInt16Arrays(arrays: Int16Array[]): Int16Array {
   const totalLength = arrays.reduce((acc, curr) => acc + curr.length, 0);
   const result = new Int16Array(totalLength);
@@ -12,48 +14,12 @@ export function mergeInt16Arrays(arrays: Int16Array[]): Int16Array {
   return result;
 }
 
+/**
+ * Uncompressed WAV data URL. For audio that gets stored, prefer
+ * `encodePcm16ToDataUrl` (Opus/WebM with this as the fallback).
+ */
 export function pcmToWav(pcm: Int16Array, sampleRate: number = 24000, numChannels: number = 1): string {
-  const buffer = new ArrayBuffer(44 + pcm.byteLength);
-  const view = new DataView(buffer);
-
-  // RIFF chunk descriptor
-  writeString(view, 0, 'RIFF');
-  view.setUint32(4, 36 + pcm.byteLength, true);
-  writeString(view, 8, 'WAVE');
-
-  // fmt sub-chunk
-  writeString(view, 12, 'fmt ');
-  view.setUint32(16, 16, true);
-  view.setUint16(20, 1, true);
-  view.setUint16(22, numChannels, true);
-  view.setUint32(24, sampleRate, true);
-  view.setUint32(28, sampleRate * numChannels * 2, true);
-  view.setUint16(32, numChannels * 2, true);
-  view.setUint16(34, 16, true);
-
-  // data sub-chunk
-  writeString(view, 36, 'data');
-  view.setUint32(40, pcm.byteLength, true);
-
-  // Write PCM data
-  const dataBytes = new Uint8Array(buffer, 44);
-  dataBytes.set(new Uint8Array(pcm.buffer, pcm.byteOffset, pcm.byteLength));
-
-  // Encode the WHOLE buffer (header + data) to Base64
-  const wholeBytes = new Uint8Array(buffer);
-  let binary = '';
-  const len = wholeBytes.byteLength;
-  const chunkSize = 0x8000;
-  for (let i = 0; i < len; i += chunkSize) {
-    binary += String.fromCharCode.apply(null, wholeBytes.subarray(i, Math.min(i + chunkSize, len)) as unknown as number[]);
-  }
-  return 'data:audio/wav;base64,' + btoa(binary);
-}
-
-function writeString(view: DataView, offset: number, string: string) {
-  for (let i = 0; i < string.length; i++) {
-    view.setUint8(offset + i, string.charCodeAt(i));
-  }
+  return encodedAudioToDataUrl({ bytes: pcm16ToWavBytes(pcm, sampleRate, numChannels), mimeType: WAV_MIME_TYPE });
 }
 
 export function splitPcmBySilence(pcm: Int16Array, sampleRate: number, minSilenceMs: number = 400, threshold: number = 500): Int16Array[] {
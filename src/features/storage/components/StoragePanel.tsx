@@ -0,0 +1,329 @@
+// Copyright 2025 Roni Tervo
+//
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * StoragePanel - Storage usage dashboard.
+ *
+ * Responsibilities:
+ * - Show origin usage against quota and whether storage is persistent
+ * - Break stored chat data down per kind and per language pair
+ * - Show the shared speech cache size and this session's hit rate
+ * - Show the automatic snapshots' size
+ * - List the safety backups taken before schema migrations and delete them
+ * - Edit the eviction rules and run them on demand
+ */
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { IconTrash, IconXMark } from '../../../shared/ui/Icons';
+import { SmallSpinner } from '../../../shared/ui/SmallSpinner';
+import { useAppTranslations } from '../../../shared/hooks/useAppTranslations';
+import { useMaestroStore } from '../../../store';
+import type { StorageSettings } from '../../../core/types';
+import { getTtsCacheStats } from '../../../core/db/ttsCache';
+import { deleteMigrationBackupDB } from '../../../core/db/migrationBackups';
+import {
+  STORAGE_KINDS,
+  computeStorageBreakdown,
+  estimateStorage,
+  formatBytes,
+  requestPersistentStorage,
+  type StorageBreakdown,
+  type StorageEstimate,
+  type StorageKind,
+} from '../services/storageUsage';
+import { resolveStorageSettings, type EvictionCounts } from '../services/storageEviction';
+import { runStorageEviction } from '../hooks/useStorageMonitor';
+
+interface StoragePanelProps {
+  onClose: () => void;
+}
+
+const KIND_COLORS: Record<StorageKind, string> = {
+  images: 'bg-sky-500',
+  tts: 'bg-violet-500',
+  recordings: 'bg-emerald-500',
+  text: 'bg-slate-400',
+};
+
+const SNAPSHOT_COLOR = 'bg-amber-400';
+
+const LEVEL_COLORS = { ok: 'bg-blue-600', warning: 'bg-amber-500', critical: 'bg-rose-600' } as const;
+
+const inputClass = 'w-20 border border-slate-300 rounded-lg px-2 py-1 text-sm text-slate-900 bg-white focus:outline-none focus:border-blue-500 disabled:bg-slate-100';
+
+const StoragePanel: React.FC<StoragePanelProps> = ({ onClose }) => {
+  const { t } = useAppTranslations();
+  const languagePairs = useMaestroStore(state => state.languagePairs);
+  const storageSettings = useMaestroStore(state => state.settings.storage);
+  const updateSetting = useMaestroStore(state => state.updateSetting);
+  const storageStatus = useMaestroStore(state => state.storageStatus);
+  const rules = resolveStorageSettings(storageSettings);
+
+  const [estimate, setEstimate] = useState<StorageEstimate | null>(null);
+  const [breakdown, setBreakdown] = useState<StorageBreakdown | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isCleaning, setIsCleaning] = useState(false);
+  const [result, setResult] = useState<EvictionCounts | null>(null);
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [nextEstimate, nextBreakdown] = await Promise.all([estimateStorage(), computeStorageBreakdown()]);
+      setEstimate(nextEstimate);
+      setBreakdown(nextBreakdown);
+    } catch (e) {
+      console.warn('[Storage] Failed to compute usage:', e);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => { load(); }, [load]);
+
+  const pairNames = useMemo(() => {
+    const out: Record<string, string> = {};
+    languagePairs.forEach(pair => { out[pair.id] = pair.name; });
+    return out;
+  }, [languagePairs]);
+
+  const pairRows = useMemo(() => {
+    if (!breakdown) return [];
+    return Object.entries(breakdown.byPair)
+      .map(([pairId, sizes]) => ({ pairId, sizes, total: STORAGE_KINDS.reduce((sum, kind) => sum + sizes[kind], 0) }))
+      .sort((a, b) => b.total - a.total);
+  }, [breakdown]);
+
+  const updateRules = (patch: Partial<StorageSettings>) => {
+    updateSetting('storage', { ...rules, ...patch });
+  };
+
+  const handlePersist = async () => {
+    await requestPersistentStorage();
+    setEstimate(await estimateStorage());
+  };
+
+  const handleDeleteMigrationBackup = async (id: string) => {
+    try {
+      await deleteMigrationBackupDB(id);
+    } catch (e) {
+      console.warn('[Storage] Failed to delete migration backup:', e);
+    }
+    await load();
+  };
+
+  const handleCleanUp = async () => {
+    setIsCleaning(true);
+    setResult(null);
+    try {
+      setResult(await runStorageEviction(rules));
+      await load();
+    } catch (e) {
+      console.warn('[Storage] Cleanup failed:', e);
+    } finally {
+      setIsCleaning(false);
+    }
+  };
+
+  const ttsStats = getTtsCacheStats();
+  const ratio = estimate && estimate.quota > 0 ? Math.min(1, estimate.usage / estimate.quota) : null;
+  const level = storageStatus?.level ?? 'ok';
+
+  return createPortal(
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/40 backdrop-blur-sm p-4">
+      <div className="w-full max-w-lg max-h-[90vh] flex flex-col rounded-2xl bg-white shadow-xl border border-slate-200">
+        <div className="flex items-start justify-between px-6 pt-6">
+          <h2 className="text-lg font-semibold text-slate-900">{t('storage.title')}</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-700" aria-label={t('storage.close')}>
+            <IconXMark className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="px-6 py-4 space-y-5 overflow-y-auto">
+          <section className="space-y-2">
+            {estimate ? (
+              <>
+                <div className="flex justify-between text-sm text-slate-800">
+                  <span>{t('storage.usage', { used: formatBytes(estimate.usage), quota: formatBytes(estimate.quota) })}</span>
+                  {ratio !== null && <span>{Math.round(ratio * 100)}%</span>}
+                </div>
+                <div className="h-2 rounded-full bg-slate-200 overflow-hidden">
+                  <div className={`h-full ${LEVEL_COLORS[level]}`} style={{ width: `${(ratio ?? 0) * 100}%` }} />
+                </div>
+                <div className="flex items-center justify-between text-xs text-slate-600">
+                  <span>
+                    {estimate.persisted === true ? t('storage.persisted') : t('storage.notPersisted')}
+                  </span>
+                  {estimate.persisted === false && (
+                    <button onClick={handlePersist} className="text-blue-600 hover:underline">{t('storage.requestPersist')}</button>
+                  )}
+                </div>
+              </>
+            ) : (
+              !isLoading && <p className="text-sm text-slate-500">{t('storage.estimateUnavailable')}</p>
+            )}
+            {storageStatus?.writeFailed && <p className="text-sm text-rose-600">{t('storage.writeFailed')}</p>}
+          </section>
+
+          <section className="space-y-2">
+            <h3 className="text-sm font-medium text-slate-900">{t('storage.breakdownLabel')}</h3>
+            {isLoading && !breakdown && <SmallSpinner className="w-5 h-5 text-slate-400" />}
+            {breakdown && (
+              <>
+                <div className="flex h-2 rounded-full bg-slate-200 overflow-hidden">
+                  {STORAGE_KINDS.map(kind => (
+                    <div
+                      key={kind}
+                      className={KIND_COLORS[kind]}
+                      style={{ width: breakdown.total > 0 ? `${(breakdown.byKind[kind] / breakdown.total) * 100}%` : 0 }}
+                    />
+                  ))}
+                  <div
+                    className={SNAPSHOT_COLOR}
+                    style={{ width: breakdown.total > 0 ? `${(breakdown.snapshots.bytes / breakdown.total) * 100}%` : 0 }}
+                  />
+                </div>
+                <ul className="grid grid-cols-2 gap-1 text-xs text-slate-700">
+                  {STORAGE_KINDS.map(kind => (
+                    <li key={kind} className="flex items-center gap-2">
+                      <span className={`inline-block w-2 h-2 rounded-full ${KIND_COLORS[kind]}`} />
+                      {t(`storage.kind.${kind}`)}: {formatBytes(breakdown.byKind[kind])}
+                    </li>
+                  ))}
+                  <li className="flex items-center gap-2">
+                    <span className={`inline-block w-2 h-2 rounded-full ${SNAPSHOT_COLOR}`} />
+                    {t('storage.snapshots', { count: breakdown.snapshots.count, size: formatBytes(breakdown.snapshots.bytes) })}
+                  </li>
+                </ul>
+                {breakdown.migrationBackups.map(backup => (
+                  <div key={backup.id} className="flex items-center justify-between gap-2 text-xs text-slate-600">
+                    <span>
+                      {t('storage.migrationBackup', {
+                        date: new Date(backup.createdAt).toLocaleDateString(),
+                        size: formatBytes(backup.bytes),
+                      })}
+                    </span>
+                    <button
+                      onClick={() => handleDeleteMigrationBackup(backup.id)}
+                      className="p-1 rounded-lg text-slate-400 hover:text-red-600 hover:bg-slate-100"
+                      title={t('storage.deleteMigrationBackup')}
+                    >
+                      <IconTrash className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+                <div className="text-xs text-slate-600">
+                  <p>{t('storage.sharedTts', { entries: breakdown.sharedTts.entries, size: formatBytes(breakdown.sharedTts.bytes) })}</p>
+                  <p>{t('storage.sharedTtsStats', { hits: ttsStats.hits, misses: ttsStats.misses })}</p>
+                </div>
+                {pairRows.length > 0 && (
+                  <table className="w-full text-xs text-slate-700">
+                    <thead>
+                      <tr className="text-left text-slate-500">
+                        <th className="font-normal py-1">{t('storage.pair')}</th>
+                        {STORAGE_KINDS.map(kind => <th key={kind} className="font-normal py-1 text-right">{t(`storage.kind.${kind}`)}</th>)}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {pairRows.map(row => (
+                        <tr key={row.pairId} className="border-t border-slate-100">
+                          <td className="py-1 pr-2 truncate max-w-[8rem]">{pairNames[row.pairId] || row.pairId}</td>
+                          {STORAGE_KINDS.map(kind => <td key={kind} className="py-1 text-right">{formatBytes(row.sizes[kind])}</td>)}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </>
+            )}
+          </section>
+
+          <fieldset className="space-y-2" disabled={isCleaning}>
+            <legend className="text-sm font-medium text-slate-900 mb-1">{t('storage.rulesLabel')}</legend>
+            <label className="flex items-center gap-2 text-sm text-slate-800">
+              <input
+                type="checkbox"
+                checked={rules.ttsMaxAgeDays !== null}
+                onChange={e => updateRules({ ttsMaxAgeDays: e.target.checked ? 30 : null })}
+              />
+              <span className="flex-1">{t('storage.rule.ttsMaxAge')}</span>
+              <input
+                type="number"
+                min={0}
+                className={inputClass}
+                disabled={rules.ttsMaxAgeDays === null}
+                value={rules.ttsMaxAgeDays ?? ''}
+                onChange={e => updateRules({ ttsMaxAgeDays: Math.max(0, Number(e.target.value) || 0) })}
+                aria-label={t('storage.rule.days')}
+              />
+            </label>
+            <label className="flex items-center gap-2 text-sm text-slate-800">
+              <input
+                type="checkbox"
+                checked={rules.keepRecordingsPerPair !== null}
+                onChange={e => updateRules({ keepRecordingsPerPair: e.target.checked ? 50 : null })}
+              />
+              <span className="flex-1">{t('storage.rule.keepRecordings')}</span>
+              <input
+                type="number"
+                min={0}
+                className={inputClass}
+                disabled={rules.keepRecordingsPerPair === null}
+                value={rules.keepRecordingsPerPair ?? ''}
+                onChange={e => updateRules({ keepRecordingsPerPair: Math.max(0, Number(e.target.value) || 0) })}
+                aria-label={t('storage.rule.count')}
+              />
+            </label>
+            {([
+              ['keepDailySnapshots', 'storage.rule.dailySnapshots'],
+              ['keepEventSnapshots', 'storage.rule.eventSnapshots'],
+              ['snapshotMediaCopies', 'storage.rule.snapshotMedia'],
+            ] as const).map(([key, label]) => (
+              <label key={key} className="flex items-center gap-2 text-sm text-slate-800">
+                <span className="flex-1">{t(label)}</span>
+                <input
+                  type="number"
+                  min={0}
+                  className={inputClass}
+                  value={rules[key]}
+                  onChange={e => updateRules({ [key]: Math.max(0, Math.floor(Number(e.target.value) || 0)) })}
+                  aria-label={t('storage.rule.snapshotCount')}
+                />
+              </label>
+            ))}
+            <label className="flex items-center gap-2 text-sm text-slate-800">
+              <input type="checkbox" checked={rules.autoEvict} onChange={e => updateRules({ autoEvict: e.target.checked })} />
+              {t('storage.rule.autoEvict')}
+            </label>
+            <p className="text-xs text-slate-500">{t('storage.rulesHint')}</p>
+          </fieldset>
+
+          {result && (
+            <p className="text-sm text-slate-700">
+              {t('storage.cleanupResult', { tts: result.ttsEntriesRemoved, recordings: result.recordingsRemoved, snapshots: result.snapshotsRemoved })}
+            </p>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 px-6 pb-6">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg text-sm text-slate-700 hover:bg-slate-100"
+          >
+            {t('storage.close')}
+          </button>
+          <button
+            onClick={handleCleanUp}
+            disabled={isCleaning}
+            className="px-4 py-2 rounded-lg text-sm text-white flex items-center gap-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-60"
+          >
+            {isCleaning && <SmallSpinner className="w-4 h-4" />}
+            {t('storage.cleanUp')}
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default StoragePanel;
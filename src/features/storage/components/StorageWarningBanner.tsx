@@ -0,0 +1,49 @@
+// Copyright 2025 Roni Tervo
+//
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * StorageWarningBanner - Warns when storage is nearly full or a write failed.
+ *
+ * Responsibilities:
+ * - Show the current warning level from `storageStatus`
+ * - Open the storage panel; dismissal lasts until the level changes
+ */
+import React, { useState } from 'react';
+import { IconXMark } from '../../../shared/ui/Icons';
+import { useAppTranslations } from '../../../shared/hooks/useAppTranslations';
+import { useMaestroStore } from '../../../store';
+
+const StorageWarningBanner: React.FC = () => {
+  const { t } = useAppTranslations();
+  const storageStatus = useMaestroStore(state => state.storageStatus);
+  const setShowStoragePanel = useMaestroStore(state => state.setShowStoragePanel);
+  const [dismissedKey, setDismissedKey] = useState<string | null>(null);
+
+  if (!storageStatus || storageStatus.level === 'ok') return null;
+  const key = `${storageStatus.level}:${storageStatus.writeFailed}`;
+  if (dismissedKey === key) return null;
+
+  const isCritical = storageStatus.level === 'critical';
+  const message = storageStatus.writeFailed
+    ? t('storage.banner.writeFailed')
+    : t(isCritical ? 'storage.banner.critical' : 'storage.banner.warning');
+
+  return (
+    <div
+      role="alert"
+      className={`fixed top-16 left-1/2 -translate-x-1/2 z-40 flex items-center gap-3 max-w-[90vw] px-4 py-2 rounded-full shadow-sm text-sm text-white
+        ${isCritical ? 'bg-rose-600/95' : 'bg-amber-500/95'}
+      `}
+    >
+      <span>{message}</span>
+      <button onClick={() => setShowStoragePanel(true)} className="underline whitespace-nowrap">
+        {t('storage.banner.manage')}
+      </button>
+      <button onClick={() => setDismissedKey(key)} aria-label={t('storage.close')} className="opacity-80 hover:opacity-100">
+        <IconXMark className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
+
+export default StorageWarningBanner;
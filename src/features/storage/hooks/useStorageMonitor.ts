@@ -0,0 +1,108 @@
+// Copyright 2025 Roni Tervo
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * useStorageMonitor - Keeps `storageStatus` current and applies eviction rules when storage runs low.
+ *
+ * Responsibilities:
+ * - Check usage shortly after start, periodically, and whenever a chat history write fails
+ * - Run the eviction rules automatically (at most once an hour) when `autoEvict` is on
+ * - Drop expired pre-migration safety backups once per start
+ */
+
+import { useCallback, useEffect, useRef } from 'react';
+import { getStoreState, useMaestroStore } from '../../../store';
+import type { StorageSettings } from '../../../core/types';
+import { dropExpiredMigrationBackupsDB } from '../../../core/db/migrationBackups';
+import { STORAGE_WRITE_FAILED_EVENT } from '../../chat';
+import { classifyStorage, estimateStorage } from '../services/storageUsage';
+import { evictStorage, resolveStorageSettings, type EvictionCounts } from '../services/storageEviction';
+
+const INITIAL_CHECK_DELAY_MS = 5000;
+const CHECK_INTERVAL_MS = 10 * 60 * 1000;
+const AUTO_EVICT_MIN_INTERVAL_MS = 60 * 60 * 1000;
+
+/** Re-reads usage and stores the result; keeps a previously seen write failure. */
+export const refreshStorageStatus = async (writeFailed?: boolean) => {
+  const { storageStatus, setStorageStatus } = getStoreState();
+  const failed = writeFailed ?? storageStatus?.writeFailed ?? false;
+  const estimate = await estimateStorage();
+  const status = {
+    usage: estimate?.usage ?? null,
+    quota: estimate?.quota ?? null,
+    level: classifyStorage(estimate, failed),
+    writeFailed: failed,
+    checkedAt: Date.now(),
+  };
+  setStorageStatus(status);
+  return status;
+};
+
+/**
+ * Applies the rules to stored history and to the messages currently loaded,
+ * then clears the write-failure flag and refreshes the status.
+ */
+export const runStorageEviction = async (rules: StorageSettings): Promise<EvictionCounts> => {
+  const { counts, prune } = await evictStorage(rules);
+  if (counts.messagesRewritten > 0) {
+    getStoreState().setMessages(prev => {
+      let changed = false;
+      const next = prev.map(message => {
+        const pruned = prune(message);
+        if (!pruned) return message;
+        changed = true;
+        return pruned;
+      });
+      return changed ? next : prev;
+    });
+  }
+  await refreshStorageStatus(false);
+  return counts;
+};
+
+export const useStorageMonitor = () => {
+  const storageSettings = useMaestroStore(state => state.settings.storage);
+  const isSettingsLoaded = useMaestroStore(state => state.isSettingsLoaded);
+  const rulesRef = useRef(resolveStorageSettings(storageSettings));
+  const lastAutoEvictRef = useRef(0);
+  const isEvictingRef = useRef(false);
+
+  useEffect(() => {
+    rulesRef.current = resolveStorageSettings(storageSettings);
+  }, [storageSettings]);
+
+  const check = useCallback(async (writeFailed?: boolean) => {
+    const status = await refreshStorageStatus(writeFailed);
+    const rules = rulesRef.current;
+    const now = Date.now();
+    if (status.level === 'ok' || !rules.autoEvict || isEvictingRef.current) return;
+    if (now - lastAutoEvictRef.current < AUTO_EVICT_MIN_INTERVAL_MS) return;
+    lastAutoEvictRef.current = now;
+    isEvictingRef.current = true;
+    try {
+      const counts = await runStorageEviction(rules);
+      console.info('[Storage] Automatic cleanup:', counts);
+    } catch (e) {
+      console.warn('[Storage] Automatic cleanup failed:', e);
+    } finally {
+      isEvictingRef.current = false;
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isSettingsLoaded) return;
+    const initial = window.setTimeout(() => {
+      dropExpiredMigrationBackupsDB().catch(e => console.warn('[Storage] Failed to drop old migration backups:', e));
+      check().catch(() => {});
+    }, INITIAL_CHECK_DELAY_MS);
+    const interval = window.setInterval(() => { check().catch(() => {}); }, CHECK_INTERVAL_MS);
+    const onWriteFailed = () => { check(true).catch(() => {}); };
+    window.addEventListener(STORAGE_WRITE_FAILED_EVENT, onWriteFailed);
+    return () => {
+      window.clearTimeout(initial);
+      window.clearInterval(interval);
+      window.removeEventListener(STORAGE_WRITE_FAILED_EVENT, onWriteFailed);
+    };
+  }, [check, isSettingsLoaded]);
+};
+
+export default useStorageMonitor;
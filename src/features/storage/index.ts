@@ -0,0 +1,32 @@
+// Copyright 2025 Roni Tervo
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * Storage Feature - Public API
+ * 
+ * This is the single entry point for storage usage functionality.
+ * External code should only import from this file.
+ * 
+ * Owned Store Slice: storageSlice
+ */
+
+// Components
+export { default as StoragePanel } from './components/StoragePanel';
+export { default as StorageWarningBanner } from './components/StorageWarningBanner';
+
+// Hooks
+export { useStorageMonitor, refreshStorageStatus, runStorageEviction } from './hooks/useStorageMonitor';
+
+// Services
+export {
+  estimateStorage,
+  requestPersistentStorage,
+  classifyStorage,
+  computeStorageBreakdown,
+  formatBytes,
+  STORAGE_KINDS,
+  STORAGE_WARNING_RATIO,
+  STORAGE_CRITICAL_RATIO,
+} from './services/storageUsage';
+export type { StorageKind, StorageBreakdown, StorageEstimate } from './services/storageUsage';
+export { evictStorage, resolveStorageSettings, snapshotLimitsFromRules, DEFAULT_STORAGE_SETTINGS } from './services/storageEviction';
+export type { EvictionCounts, EvictionOutcome } from './services/storageEviction';
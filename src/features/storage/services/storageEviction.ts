@@ -0,0 +1,167 @@
+// Copyright 2025 Roni Tervo
+//
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * Storage eviction rules.
+ *
+ * Responsibilities:
+ * - Resolve the user's `AppSettings.storage` rules against the defaults
+ * - Drop TTS audio not used within the configured number of days, from the
+ *   shared cache and from legacy per-message entries
+ * - Drop voice recordings beyond the newest N per language pair
+ * - Rotate automatic snapshots down to the configured generations
+ *
+ * Only regenerable or secondary data is evicted: message text, translations
+ * and images are never touched. A recording whose message has no text keeps
+ * its transcript as the message text.
+ */
+
+import type { ChatMessage, StorageSettings, TtsAudioCacheEntry } from '../../../core/types';
+import { deleteTtsAudioUnusedSinceDB } from '../../../core/db/ttsCache';
+import { pruneStoredMessagesDB, scanStoredMessagesDB } from '../../chat';
+import { pruneSnapshotsDB, type SnapshotLimits } from '../../session';
+
+export const DEFAULT_STORAGE_SETTINGS: StorageSettings = {
+  ttsMaxAgeDays: 30,
+  keepRecordingsPerPair: null,
+  keepDailySnapshots: 7,
+  keepEventSnapshots: 5,
+  snapshotMediaCopies: 1,
+  autoEvict: false,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const resolveStorageSettings = (settings: StorageSettings | undefined): StorageSettings => ({
+  ...DEFAULT_STORAGE_SETTINGS,
+  ...(settings || {}),
+});
+
+export const snapshotLimitsFromRules = (rules: StorageSettings): SnapshotLimits => ({
+  daily: rules.keepDailySnapshots,
+  event: rules.keepEventSnapshots,
+  mediaCopies: rules.snapshotMediaCopies,
+});
+
+export interface EvictionCounts {
+  ttsEntriesRemoved: number;
+  recordingsRemoved: number;
+  messagesRewritten: number;
+  snapshotsRemoved: number;
+}
+
+export interface EvictionOutcome {
+  counts: EvictionCounts;
+  /**
+   * The pruning applied to stored records, for applying the same rules to
+   * messages already loaded in memory. Returns null for unchanged messages.
+   */
+  prune: (message: ChatMessage) => ChatMessage | null;
+}
+
+interface EvictionPlan {
+  ttsCutoff: number | null;
+  recordingMessageIds: Set<string>;
+}
+
+const hasRecording = (message: ChatMessage) =>
+  !!(message.recordedUtterance?.mediaId || message.recordedUtterance?.dataUrl);
+
+const isStale = (entry: TtsAudioCacheEntry, cutoff: number) => (entry?.updatedAt || 0) < cutoff;
+
+const createPruner = (plan: EvictionPlan, counts?: EvictionCounts) => (message: ChatMessage): ChatMessage | null => {
+  let next = message;
+  let changed = false;
+
+  if (plan.ttsCutoff !== null) {
+    const cutoff = plan.ttsCutoff;
+    const keep = (entries: TtsAudioCacheEntry[] | undefined) => {
+      if (!entries?.some(entry => isStale(entry, cutoff))) return entries;
+      const kept = entries.filter(entry => !isStale(entry, cutoff));
+      if (counts) counts.ttsEntriesRemoved += entries.length - kept.length;
+      changed = true;
+      return kept.length ? kept : undefined;
+    };
+    const ttsAudioCache = keep(next.ttsAudioCache);
+    let suggestionsChanged = false;
+    const replySuggestions = next.replySuggestions?.map(suggestion => {
+      const cache = keep(suggestion.ttsAudioCache);
+      if (cache === suggestion.ttsAudioCache) return suggestion;
+      suggestionsChanged = true;
+      return { ...suggestion, ttsAudioCache: cache };
+    });
+    if (changed) {
+      next = { ...next, ttsAudioCache };
+      if (suggestionsChanged) next.replySuggestions = replySuggestions;
+    }
+  }
+
+  if (plan.recordingMessageIds.has(message.id) && hasRecording(next)) {
+    const { recordedUtterance, ...rest } = next;
+    next = rest;
+    if (!next.text?.trim() && recordedUtterance?.transcript) next.text = recordedUtterance.transcript;
+    if (counts) counts.recordingsRemoved++;
+    changed = true;
+  }
+
+  return changed ? next : null;
+};
+
+/**
+ * Applies the rules to every stored thread and to the snapshots. Rules left at
+ * null do nothing.
+ */
+export const evictStorage = async (rules: StorageSettings): Promise<EvictionOutcome> => {
+  const counts: EvictionCounts = { ttsEntriesRemoved: 0, recordingsRemoved: 0, messagesRewritten: 0, snapshotsRemoved: 0 };
+  try {
+    counts.snapshotsRemoved = await pruneSnapshotsDB(snapshotLimitsFromRules(rules));
+  } catch (e) {
+    console.warn('[Storage] Snapshot rotation failed:', e);
+  }
+  const plan: EvictionPlan = {
+    ttsCutoff: rules.ttsMaxAgeDays !== null && rules.ttsMaxAgeDays >= 0 ? Date.now() - rules.ttsMaxAgeDays * DAY_MS : null,
+    recordingMessageIds: new Set(),
+  };
+  const keepRecordings = rules.keepRecordingsPerPair !== null && rules.keepRecordingsPerPair >= 0
+    ? Math.floor(rules.keepRecordingsPerPair)
+    : null;
+  if (plan.ttsCutoff === null && keepRecordings === null) {
+    return { counts, prune: () => null };
+  }
+
+  const threadIds = new Set<string>();
+  const recordingsByPair = new Map<string, Array<{ id: string; threadId: string; timestamp: number }>>();
+  await scanStoredMessagesDB((message, { threadId, pairId }) => {
+    if (plan.ttsCutoff !== null) {
+      const cutoff = plan.ttsCutoff;
+      const stale = (entries?: TtsAudioCacheEntry[]) => !!entries?.some(entry => isStale(entry, cutoff));
+      if (stale(message.ttsAudioCache) || message.replySuggestions?.some(s => stale(s?.ttsAudioCache))) {
+        threadIds.add(threadId);
+      }
+    }
+    if (keepRecordings !== null && hasRecording(message)) {
+      const list = recordingsByPair.get(pairId) || [];
+      list.push({ id: message.id, threadId, timestamp: message.timestamp || 0 });
+      recordingsByPair.set(pairId, list);
+    }
+  });
+
+  if (keepRecordings !== null) {
+    recordingsByPair.forEach(list => {
+      list.sort((a, b) => b.timestamp - a.timestamp).slice(keepRecordings).forEach(rec => {
+        plan.recordingMessageIds.add(rec.id);
+        threadIds.add(rec.threadId);
+      });
+    });
+  }
+
+  if (plan.ttsCutoff !== null) {
+    counts.ttsEntriesRemoved += await deleteTtsAudioUnusedSinceDB(plan.ttsCutoff);
+  }
+
+  const storedPruner = createPruner(plan, counts);
+  for (const threadId of threadIds) {
+    counts.messagesRewritten += await pruneStoredMessagesDB(threadId, storedPruner);
+  }
+  return { counts, prune: createPruner(plan) };
+};
@@ -0,0 +1,146 @@
+// Copyright 2025 Roni Tervo
+//
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * Storage usage accounting.
+ *
+ * Responsibilities:
+ * - Read the origin's usage and quota via `navigator.storage.estimate()`
+ * - Classify usage into ok / warning / critical before writes start failing
+ * - Break stored chat data down per language pair and per kind
+ *   (images, TTS cache, recordings, text); the shared TTS cache is one total
+ * - Add up the automatic snapshots, which live in their own database, and the
+ *   safety backups taken before destructive schema migrations
+ *
+ * Sizes of data still embedded in messages are measured as string length,
+ * which is what IndexedDB roughly stores; media store blobs use their byte size.
+ * A blob shared by several messages is counted once, for the first pair seen.
+ */
+
+import type { ChatMessage, TtsAudioCacheEntry } from '../../../core/types';
+import { getMediaSizesDB, isMediaId } from '../../../core/db/media';
+import { getTtsCacheSummaryDB, type TtsCacheSummary } from '../../../core/db/ttsCache';
+import { listMigrationBackupsDB } from '../../../core/db/migrationBackups';
+import type { MigrationBackupRecord } from '../../../core/db';
+import { scanStoredMessagesDB } from '../../chat';
+import { listSnapshotsDB } from '../../session';
+import type { StorageLevel } from '../../../store';
+
+export type StorageKind = 'images' | 'tts' | 'recordings' | 'text';
+export const STORAGE_KINDS: StorageKind[] = ['images', 'tts', 'recordings', 'text'];
+
+export type KindSizes = Record<StorageKind, number>;
+
+export interface StorageBreakdown {
+  total: number;
+  byKind: KindSizes;
+  byPair: Record<string, KindSizes>;
+  /** The shared TTS cache; counted in `byKind.tts` but not per pair. */
+  sharedTts: TtsCacheSummary;
+  /** Automatic snapshots; counted in `total` but in no kind. */
+  snapshots: { count: number; bytes: number };
+  /** Pre-migration safety backups; counted in `total` but in no kind. */
+  migrationBackups: MigrationBackupRecord[];
+}
+
+export interface StorageEstimate {
+  usage: number;
+  quota: number;
+  /** null when the browser cannot tell. */
+  persisted: boolean | null;
+}
+
+export const STORAGE_WARNING_RATIO = 0.8;
+export const STORAGE_CRITICAL_RATIO = 0.95;
+
+const emptySizes = (): KindSizes => ({ images: 0, tts: 0, recordings: 0, text: 0 });
+
+export const estimateStorage = async (): Promise<StorageEstimate | null> => {
+  const storage = typeof navigator !== 'undefined' ? navigator.storage : undefined;
+  if (!storage?.estimate) return null;
+  try {
+    const { usage = 0, quota = 0 } = await storage.estimate();
+    let persisted: boolean | null = null;
+    try { persisted = storage.persisted ? await storage.persisted() : null; } catch { /* ignore */ }
+    return { usage, quota, persisted };
+  } catch {
+    return null;
+  }
+};
+
+/** Asks the browser not to evict this origin under pressure. Resolves to the granted state. */
+export const requestPersistentStorage = async (): Promise<boolean> => {
+  try {
+    return !!(await navigator.storage?.persist?.());
+  } catch {
+    return false;
+  }
+};
+
+export const classifyStorage = (estimate: StorageEstimate | null, writeFailed = false): StorageLevel => {
+  if (writeFailed) return 'critical';
+  if (!estimate || estimate.quota <= 0) return 'ok';
+  const ratio = estimate.usage / estimate.quota;
+  if (ratio >= STORAGE_CRITICAL_RATIO) return 'critical';
+  if (ratio >= STORAGE_WARNING_RATIO) return 'warning';
+  return 'ok';
+};
+
+export const formatBytes = (bytes: number): string => {
+  if (!Number.isFinite(bytes) || bytes < 1024) return `${Math.max(0, Math.round(bytes || 0))} B`;
+  const units = ['KB', 'MB', 'GB', 'TB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`;
+};
+
+const ttsSize = (entries: TtsAudioCacheEntry[] | undefined): number =>
+  (entries || []).reduce((sum, entry) => sum + (entry?.audioDataUrl?.length || 0), 0);
+
+const inlineSize = (value: string | undefined): number =>
+  typeof value === 'string' && value.startsWith('data:') ? value.length : 0;
+
+export const computeStorageBreakdown = async (): Promise<StorageBreakdown> => {
+  const mediaSizes = await getMediaSizesDB();
+  const countedMedia = new Set<string>();
+  const byPair: Record<string, KindSizes> = {};
+
+  await scanStoredMessagesDB((message: ChatMessage, { pairId }) => {
+    const sizes = (byPair[pairId] ||= emptySizes());
+    const tts = ttsSize(message.ttsAudioCache)
+      + (message.replySuggestions || []).reduce((sum, s) => sum + ttsSize(s?.ttsAudioCache), 0);
+    const inlineImages = inlineSize(message.imageUrl) + inlineSize(message.storageOptimizedImageUrl);
+    const inlineRecording = inlineSize(message.recordedUtterance?.dataUrl);
+    let serialized = 0;
+    try { serialized = JSON.stringify(message).length; } catch { /* ignore */ }
+
+    sizes.tts += tts;
+    sizes.images += inlineImages;
+    sizes.recordings += inlineRecording;
+    sizes.text += Math.max(0, serialized - tts - inlineImages - inlineRecording);
+
+    [message.imageMediaId, message.recordedUtterance?.mediaId].forEach(id => {
+      if (!isMediaId(id) || countedMedia.has(id)) return;
+      countedMedia.add(id);
+      const media = mediaSizes.get(id);
+      if (!media) return;
+      if (media.mimeType.startsWith('audio/')) sizes.recordings += media.size;
+      else sizes.images += media.size;
+    });
+  });
+
+  const sharedTts = await getTtsCacheSummaryDB();
+  const byKind = emptySizes();
+  Object.values(byPair).forEach(sizes => STORAGE_KINDS.forEach(kind => { byKind[kind] += sizes[kind]; }));
+  byKind.tts += sharedTts.bytes;
+  const snapshotInfos = await listSnapshotsDB();
+  const snapshots = { count: snapshotInfos.length, bytes: snapshotInfos.reduce((sum, info) => sum + info.size, 0) };
+  const migrationBackups = await listMigrationBackupsDB();
+  const total = STORAGE_KINDS.reduce((sum, kind) => sum + byKind[kind], 0) + snapshots.bytes
+    + migrationBackups.reduce((sum, backup) => sum + backup.bytes, 0);
+  return { total, byKind, byPair, sharedTts, snapshots, migrationBackups };
+};
@@ -0,0 +1,201 @@
+// Copyright 2025 Roni Tervo
+//
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * SyncPanel - Configures multi-device sync and shows its status.
+ *
+ * Responsibilities:
+ * - Edit the WebDAV folder URL, credentials, interval and on/off switch
+ * - Test the connection before saving
+ * - Show the last sync result and start a sync on demand
+ */
+import React, { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { IconXMark } from '../../../shared/ui/Icons';
+import { SmallSpinner } from '../../../shared/ui/SmallSpinner';
+import { useAppTranslations } from '../../../shared/hooks/useAppTranslations';
+import { useMaestroStore } from '../../../store';
+import { loadSyncPassword, setSyncPassword } from '../../../core/security/syncCredentials';
+import { SyncError } from '../services/syncAdapter';
+import { createWebDavAdapter } from '../services/webdavAdapter';
+import { resolveSyncSettings } from '../services/syncEngine';
+import { clearSyncStateDB } from '../services/syncState';
+import { runSyncNow } from '../hooks/useSync';
+
+interface SyncPanelProps {
+  onClose: () => void;
+}
+
+const INTERVAL_OPTIONS = [5, 10, 30, 60];
+
+const SyncPanel: React.FC<SyncPanelProps> = ({ onClose }) => {
+  const { t } = useAppTranslations();
+  const syncSettings = useMaestroStore(state => state.settings.sync);
+  const updateSetting = useMaestroStore(state => state.updateSetting);
+  const syncStatus = useMaestroStore(state => state.syncStatus);
+  const saved = resolveSyncSettings(syncSettings);
+
+  const [draft, setDraft] = useState(saved);
+  const [password, setPassword] = useState('');
+  const [isTesting, setIsTesting] = useState(false);
+  const [testResult, setTestResult] = useState<{ ok: boolean; message: string } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    loadSyncPassword().then(value => setPassword(value || '')).catch(() => {});
+  }, []);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [onClose]);
+
+  const describeError = (e: unknown): string =>
+    e instanceof SyncError ? t(`sync.error.${e.code}`, { detail: e.message }) : String((e as Error)?.message || e);
+
+  const handleTest = async () => {
+    setIsTesting(true);
+    setTestResult(null);
+    try {
+      await createWebDavAdapter({ url: draft.url, username: draft.username, password }).test();
+      setTestResult({ ok: true, message: t('sync.testOk') });
+    } catch (e) {
+      setTestResult({ ok: false, message: describeError(e) });
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const next = { ...draft, url: draft.url.trim(), username: draft.username.trim() };
+      // A different server has none of what was exchanged so far: start over.
+      if (next.url !== saved.url) await clearSyncStateDB();
+      await setSyncPassword(password);
+      updateSetting('sync', next);
+      if (next.enabled && next.url) runSyncNow();
+      onClose();
+    } catch (e) {
+      setTestResult({ ok: false, message: describeError(e) });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(saved);
+  const isSyncing = syncStatus.phase === 'syncing';
+
+  return createPortal(
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/40 backdrop-blur-sm p-4">
+      <div className="w-full max-w-md max-h-[90vh] flex flex-col rounded-2xl bg-white shadow-xl border border-slate-200">
+        <div className="flex items-start justify-between px-6 pt-6">
+          <div>
+            <h2 className="text-lg font-semibold text-slate-900">{t('sync.title')}</h2>
+            <p className="text-sm text-slate-600">{t('sync.subtitle')}</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-700" aria-label={t('sync.close')}>
+            <IconXMark className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="px-6 py-4 space-y-3 overflow-y-auto">
+          <label className="flex items-center gap-2 text-sm text-slate-800">
+            <input type="checkbox" checked={draft.enabled} onChange={e => setDraft({ ...draft, enabled: e.target.checked })} />
+            {t('sync.enabled')}
+          </label>
+          <label className="block text-sm text-slate-700">
+            {t('sync.url')}
+            <input
+              type="url"
+              value={draft.url}
+              onChange={e => setDraft({ ...draft, url: e.target.value })}
+              placeholder="https://example.com/remote.php/dav/files/me/maestro/"
+              className="mt-1 w-full border border-slate-300 rounded-lg px-3 py-2 text-sm text-slate-900 focus:outline-none focus:border-blue-500"
+            />
+          </label>
+          <div className="flex gap-2">
+            <label className="flex-1 block text-sm text-slate-700">
+              {t('sync.username')}
+              <input
+                type="text"
+                autoComplete="username"
+                value={draft.username}
+                onChange={e => setDraft({ ...draft, username: e.target.value })}
+                className="mt-1 w-full border border-slate-300 rounded-lg px-3 py-2 text-sm text-slate-900 focus:outline-none focus:border-blue-500"
+              />
+            </label>
+            <label className="flex-1 block text-sm text-slate-700">
+              {t('sync.password')}
+              <input
+                type="password"
+                autoComplete="current-password"
+                value={password}
+                onChange={e => setPassword(e.target.value)}
+                className="mt-1 w-full border border-slate-300 rounded-lg px-3 py-2 text-sm text-slate-900 focus:outline-none focus:border-blue-500"
+              />
+            </label>
+          </div>
+          <label className="block text-sm text-slate-700">
+            {t('sync.interval')}
+            <select
+              value={draft.intervalMinutes}
+              onChange={e => setDraft({ ...draft, intervalMinutes: Number(e.target.value) })}
+              className="mt-1 w-full border border-slate-300 rounded-lg px-3 py-2 text-sm text-slate-900 bg-white"
+            >
+              {INTERVAL_OPTIONS.map(minutes => (
+                <option key={minutes} value={minutes}>{t('sync.intervalMinutes', { minutes })}</option>
+              ))}
+            </select>
+          </label>
+          {testResult && (
+            <p className={`text-xs ${testResult.ok ? 'text-emerald-700' : 'text-rose-600'}`}>{testResult.message}</p>
+          )}
+
+          <div className="rounded-xl bg-slate-50 border border-slate-200 p-3 text-xs text-slate-600 space-y-1">
+            <p>
+              {t(`sync.phase.${syncStatus.phase}`)}
+              {syncStatus.lastSyncedAt && <> · {t('sync.lastSynced', { time: new Date(syncStatus.lastSyncedAt).toLocaleString() })}</>}
+            </p>
+            {syncStatus.lastSyncedAt && syncStatus.phase !== 'error' && (
+              <p>{t('sync.lastResult', { pushed: syncStatus.pushed, pulled: syncStatus.pulled })}</p>
+            )}
+            {syncStatus.phase === 'error' && syncStatus.lastError && <p className="text-rose-600 break-words">{syncStatus.lastError}</p>}
+          </div>
+        </div>
+
+        <div className="flex justify-between gap-2 px-6 pb-6">
+          <div className="flex gap-2">
+            <button
+              onClick={handleTest}
+              disabled={isTesting || !draft.url.trim()}
+              className="px-3 py-2 rounded-lg text-sm text-blue-700 hover:bg-blue-50 flex items-center gap-2 disabled:opacity-40"
+            >
+              {isTesting && <SmallSpinner className="w-4 h-4" />}
+              {t('sync.test')}
+            </button>
+            <button
+              onClick={() => { runSyncNow(); }}
+              disabled={isSyncing || isDirty || !saved.enabled || !saved.url}
+              className="px-3 py-2 rounded-lg text-sm text-blue-700 hover:bg-blue-50 flex items-center gap-2 disabled:opacity-40"
+            >
+              {isSyncing && <SmallSpinner className="w-4 h-4" />}
+              {t('sync.syncNow')}
+            </button>
+          </div>
+          <button
+            onClick={handleSave}
+            disabled={isSaving}
+            className="px-4 py-2 rounded-lg text-sm text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-60"
+          >
+            {t('sync.save')}
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default SyncPanel;
@@ -0,0 +1,119 @@
+// Copyright 2025 Roni Tervo
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * useSync - Runs multi-device sync in the background.
+ *
+ * Responsibilities:
+ * - Sync shortly after start, on an interval, when the app becomes visible and when the network returns
+ * - Provide `runSyncNow` for the sync panel; runs never overlap
+ * - Keep `syncStatus` current and refresh the open thread when remote changes touched it
+ */
+
+import { useEffect } from 'react';
+import { getStoreState, useMaestroStore } from '../../../store';
+import { selectActiveThreadId } from '../../../store/slices/settingsSlice';
+import { selectIsSending } from '../../../store/slices/uiSlice';
+import { pairIdFromThreadId } from '../../../core/db/index';
+import { loadSyncPassword } from '../../../core/security/syncCredentials';
+import { claimTabResource } from '../../../core/tabs/tabCoordination';
+import { safeSaveChatHistoryDB } from '../../chat';
+import { createWebDavAdapter } from '../services/webdavAdapter';
+import { resolveSyncSettings, runSync, type SyncRunResult } from '../services/syncEngine';
+import type { AppliedChanges } from '../services/syncRecords';
+
+const INITIAL_SYNC_DELAY_MS = 10 * 1000;
+
+let activeRun: Promise<SyncRunResult | null> | null = null;
+
+const refreshAfterSync = async (applied: AppliedChanges) => {
+  const state = getStoreState();
+  const activeThreadId = selectActiveThreadId(state);
+  if (activeThreadId && applied.threadIds.has(activeThreadId)) await state.reloadActiveThread();
+  const pairId = state.settings.selectedLanguagePairId;
+  if (pairId && Array.from(applied.threadIds).some(id => pairIdFromThreadId(id) === pairId)) {
+    await getStoreState().loadThreadsForPair(pairId);
+  }
+};
+
+const performSync = async (): Promise<SyncRunResult | null> => {
+  const state = getStoreState();
+  const config = resolveSyncSettings(state.settings.sync);
+  if (!config.enabled || !config.url.trim()) {
+    state.setSyncStatus({ phase: 'disabled' });
+    return null;
+  }
+  // Merging into a thread while a reply streams into it would be overwritten by the reply's save.
+  if (selectIsSending(state) || state.isLoadingHistory) return null;
+  // One tab syncs for all of them; the others see its result on their next reload.
+  const releaseSyncClaim = await claimTabResource('sync');
+  if (!releaseSyncClaim) return null;
+
+  state.setSyncStatus({ phase: 'syncing' });
+  try {
+    const threadId = selectActiveThreadId(state);
+    if (threadId && !state.isReadOnlyTab) await safeSaveChatHistoryDB(threadId, state.messages);
+    const adapter = createWebDavAdapter({
+      url: config.url,
+      username: config.username,
+      password: (await loadSyncPassword()) || '',
+    });
+    const result = await runSync(adapter);
+    await refreshAfterSync(result.applied);
+    getStoreState().setSyncStatus({
+      phase: 'idle',
+      lastSyncedAt: Date.now(),
+      lastError: null,
+      pushed: result.pushed,
+      pulled: result.pulled,
+    });
+    if (result.pushed || result.pulled) console.info('[Sync] Pushed', result.pushed, 'and pulled', result.pulled, 'records');
+    return result;
+  } catch (e) {
+    console.warn('[Sync] Sync failed:', e);
+    getStoreState().setSyncStatus({ phase: 'error', lastError: (e as Error)?.message || String(e) });
+    return null;
+  } finally {
+    releaseSyncClaim();
+  }
+};
+
+/** Syncs now, or joins the run already in progress. Never rejects; failures land in `syncStatus`. */
+export const runSyncNow = (): Promise<SyncRunResult | null> => {
+  if (!activeRun) {
+    activeRun = performSync().finally(() => { activeRun = null; });
+  }
+  return activeRun;
+};
+
+export const useSync = () => {
+  const isSettingsLoaded = useMaestroStore(state => state.isSettingsLoaded);
+  const syncSettings = useMaestroStore(state => state.settings.sync);
+  const setSyncStatus = useMaestroStore(state => state.setSyncStatus);
+  const { enabled, url, intervalMinutes } = resolveSyncSettings(syncSettings);
+  const isActive = isSettingsLoaded && enabled && !!url.trim();
+
+  useEffect(() => {
+    if (!isSettingsLoaded) return;
+    if (!isActive) {
+      setSyncStatus({ phase: 'disabled' });
+      return;
+    }
+    const { syncStatus } = getStoreState();
+    if (syncStatus.phase === 'disabled') setSyncStatus({ phase: 'idle' });
+
+    const sync = () => { runSyncNow(); };
+    const onVisibility = () => { if (document.visibilityState === 'visible') sync(); };
+    const initial = window.setTimeout(sync, INITIAL_SYNC_DELAY_MS);
+    const interval = window.setInterval(sync, Math.max(1, intervalMinutes) * 60 * 1000);
+    document.addEventListener('visibilitychange', onVisibility);
+    window.addEventListener('online', sync);
+    return () => {
+      window.clearTimeout(initial);
+      window.clearInterval(interval);
+      document.removeEventListener('visibilitychange', onVisibility);
+      window.removeEventListener('online', sync);
+    };
+  }, [isSettingsLoaded, isActive, url, intervalMinutes, setSyncStatus]);
+};
+
+export default useSync;
@@ -0,0 +1,32 @@
+// Copyright 2025 Roni Tervo
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * Sync Feature - Public API
+ * 
+ * This is the single entry point for multi-device sync functionality.
+ * External code should only import from this file.
+ * 
+ * Owned Store Slice: syncSlice
+ */
+
+// Components
+export { default as SyncPanel } from './components/SyncPanel';
+
+// Hooks
+export { useSync, runSyncNow } from './hooks/useSync';
+
+// Services
+export { runSync, resolveSyncSettings, DEFAULT_SYNC_SETTINGS, CHANGESET_MAX_RECORDS } from './services/syncEngine';
+export type { SyncRunResult } from './services/syncEngine';
+export { createWebDavAdapter } from './services/webdavAdapter';
+export type { WebDavConfig } from './services/webdavAdapter';
+export { SyncError, isLaterClock, syncRecordKey } from './services/syncAdapter';
+export type {
+  SyncAdapter,
+  SyncChangeset,
+  SyncCursor,
+  SyncErrorCode,
+  SyncRecord,
+  SyncRecordKind,
+} from './services/syncAdapter';
+export { clearSyncStateDB } from './services/syncState';
@@ -0,0 +1,77 @@
+// Copyright 2025 Roni Tervo
+//
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * Sync adapter contract.
+ *
+ * Responsibilities:
+ * - Define the records and changesets exchanged between devices
+ * - Define the transport interface every sync backend implements
+ * - Provide the error type adapters throw
+ *
+ * A backend only stores and lists opaque changesets and media blobs; all merge
+ * decisions happen on the device (see `syncEngine.ts`).
+ */
+
+export type SyncRecordKind = 'message' | 'meta' | 'thread' | 'profile' | 'settings';
+
+/**
+ * One synced record. `updatedAt` + `deviceId` form its clock; of two versions
+ * of a record the one with the later clock wins, ties broken by device id.
+ */
+export interface SyncRecord {
+  kind: SyncRecordKind;
+  /** Message id, thread id (for metas and threads) or 'singleton'. */
+  id: string;
+  /** Thread a message belongs to. */
+  threadId?: string;
+  updatedAt: number;
+  deviceId: string;
+  /** Tombstone: the record was deleted on `deviceId`. */
+  deleted?: boolean;
+  /** Record contents; messages are in stored form, media referenced by id. */
+  data?: unknown;
+}
+
+export interface SyncChangeset {
+  version: 1;
+  deviceId: string;
+  /** Per-device sequence number, starting at 1. */
+  seq: number;
+  createdAt: number;
+  records: SyncRecord[];
+}
+
+/** Last changeset sequence read from each other device. */
+export type SyncCursor = Record<string, number>;
+
+export interface SyncAdapter {
+  /** Checks that the target is reachable and writable; throws SyncError otherwise. */
+  test(): Promise<void>;
+  /** Changesets of other devices past `cursor`, in sequence order per device, and the advanced cursor. */
+  pull(cursor: SyncCursor, ownDeviceId: string): Promise<{ changesets: SyncChangeset[]; cursor: SyncCursor }>;
+  push(changeset: SyncChangeset): Promise<void>;
+  hasMedia(id: string): Promise<boolean>;
+  putMedia(id: string, blob: Blob): Promise<void>;
+  /** The blob, or null when the server does not have it. */
+  getMedia(id: string): Promise<Blob | null>;
+}
+
+export type SyncErrorCode = 'NOT_CONFIGURED' | 'AUTH' | 'NETWORK' | 'HTTP' | 'FORMAT';
+
+export class SyncError extends Error {
+  code: SyncErrorCode;
+  constructor(message: string, code: SyncErrorCode) {
+    super(message);
+    this.name = 'SyncError';
+    this.code = code;
+  }
+}
+
+export const syncRecordKey = (record: Pick<SyncRecord, 'kind' | 'id'>): string => `${record.kind}:${record.id}`;
+
+/** True when clock `a` is later than clock `b`. */
+export const isLaterClock = (
+  a: Pick<SyncRecord, 'updatedAt' | 'deviceId'>,
+  b: Pick<SyncRecord, 'updatedAt' | 'deviceId'>
+): boolean => a.updatedAt > b.updatedAt || (a.updatedAt === b.updatedAt && a.deviceId > b.deviceId);
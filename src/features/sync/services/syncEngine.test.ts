@@ -0,0 +1,169 @@
+// Copyright 2025 Roni Tervo
+//
+// SPDX-License-Identifier: Apache-2.0
+// @vitest-environment jsdom
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { ChatMessage, ChatMeta } from '../../../core/types';
+import { applyStoredMessageChangesDB, getChatMetaDB, getStoredChatHistoryDB, setChatMetaDB } from '../../chat';
+import { runSync } from './syncEngine';
+import { SyncError, type SyncAdapter, type SyncChangeset } from './syncAdapter';
+
+const THREAD = 'es-en';
+
+// A sync folder in memory, shared by every device of a test.
+const createMemoryServer = () => {
+  const changesets: SyncChangeset[] = [];
+  const media = new Map<string, Blob>();
+  const adapter: SyncAdapter = {
+    test: async () => {},
+    pull: async (cursor, ownDeviceId) => {
+      const next = { ...cursor };
+      const pending = changesets
+        .filter(c => c.deviceId !== ownDeviceId && c.seq > (cursor[c.deviceId] || 0))
+        .sort((a, b) => (a.deviceId === b.deviceId ? a.seq - b.seq : a.deviceId < b.deviceId ? -1 : 1));
+      pending.forEach(c => { next[c.deviceId] = c.seq; });
+      return { changesets: structuredClone(pending), cursor: next };
+    },
+    push: async changeset => { changesets.push(structuredClone(changeset)); },
+    hasMedia: async id => media.has(id),
+    putMedia: async (id, blob) => { media.set(id, blob); },
+    getMedia: async id => media.get(id) || null,
+  };
+  return { adapter, changesets };
+};
+
+// Every pull fails, as it does without a network.
+const offlineAdapter: SyncAdapter = {
+  test: async () => {},
+  pull: async () => { throw new SyncError('Cannot reach sync server', 'NETWORK'); },
+  push: async () => {},
+  hasMedia: async () => false,
+  putMedia: async () => {},
+  getMedia: async () => null,
+};
+
+// Each device is its own IndexedDB; `on` points the app's database at it.
+const createDevice = () => {
+  const factory = new IDBFactory();
+  return async <T>(fn: () => Promise<T>): Promise<T> => {
+    vi.stubGlobal('indexedDB', factory);
+    return fn();
+  };
+};
+
+const at = (time: number) => vi.spyOn(Date, 'now').mockReturnValue(time);
+
+const message = (id: string, text: string, timestamp: number): ChatMessage => ({ id, role: 'user', text, timestamp });
+
+const texts = async () => (await getStoredChatHistoryDB(THREAD)).map(m => `${m.id}:${m.text}`);
+
+describe('runSync', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it('brings two devices to the same records and then has nothing left to exchange', async () => {
+    const { adapter } = createMemoryServer();
+    const a = createDevice();
+    const b = createDevice();
+
+    at(1000);
+    await a(() => applyStoredMessageChangesDB(THREAD, [message('m1', 'hola', 1), message('m2', 'adiós', 2)], []));
+    await a(() => runSync(adapter));
+    at(2000);
+    await b(() => applyStoredMessageChangesDB(THREAD, [message('m3', 'gracias', 3)], []));
+    const bFirst = await b(() => runSync(adapter));
+    expect(bFirst.pulled).toBeGreaterThanOrEqual(2);
+    expect(bFirst.applied.threadIds.has(THREAD)).toBe(true);
+
+    // Both edit m1; B's edit is the later one although A syncs last.
+    at(3000);
+    await a(() => applyStoredMessageChangesDB(THREAD, [message('m1', 'hola (A)', 1)], []));
+    await a(() => runSync(offlineAdapter).catch(() => null));
+    at(4000);
+    await b(() => applyStoredMessageChangesDB(THREAD, [message('m1', 'hola (B)', 1)], []));
+    await b(() => runSync(adapter));
+    at(5000);
+    await a(() => runSync(adapter));
+    await b(() => runSync(adapter));
+
+    const expected = ['m1:hola (B)', 'm2:adiós', 'm3:gracias'];
+    expect(await a(texts)).toEqual(expected);
+    expect(await b(texts)).toEqual(expected);
+
+    at(6000);
+    for (const device of [a, b]) {
+      const result = await device(() => runSync(adapter));
+      expect([result.pushed, result.pulled]).toEqual([0, 0]);
+    }
+  });
+
+  it('keeps a later edit over an earlier deletion that syncs after it', async () => {
+    const { adapter } = createMemoryServer();
+    const a = createDevice();
+    const b = createDevice();
+    at(1000);
+    await a(() => applyStoredMessageChangesDB(THREAD, [message('m1', 'hola', 1)], []));
+    await a(() => runSync(adapter));
+    await b(() => runSync(adapter));
+
+    // A deletes offline; the failed run dates the deletion.
+    at(2000);
+    await a(() => applyStoredMessageChangesDB(THREAD, [], ['m1']));
+    await a(() => runSync(offlineAdapter).catch(() => null));
+    at(3000);
+    await b(() => applyStoredMessageChangesDB(THREAD, [message('m1', 'hola de nuevo', 1)], []));
+    await b(() => runSync(adapter));
+    at(4000);
+    await a(() => runSync(adapter));
+    await b(() => runSync(adapter));
+
+    expect(await a(texts)).toEqual(['m1:hola de nuevo']);
+    expect(await b(texts)).toEqual(['m1:hola de nuevo']);
+  });
+
+  it('applies a later deletion over an earlier edit', async () => {
+    const { adapter } = createMemoryServer();
+    const a = createDevice();
+    const b = createDevice();
+    at(1000);
+    await a(() => applyStoredMessageChangesDB(THREAD, [message('m1', 'hola', 1), message('m2', 'adiós', 2)], []));
+    await a(() => runSync(adapter));
+    await b(() => runSync(adapter));
+
+    at(2000);
+    await a(() => applyStoredMessageChangesDB(THREAD, [message('m1', 'hola (editado)', 1)], []));
+    await a(() => runSync(offlineAdapter).catch(() => null));
+    at(3000);
+    await b(() => applyStoredMessageChangesDB(THREAD, [], ['m1']));
+    await b(() => runSync(adapter));
+    at(4000);
+    await a(() => runSync(adapter));
+    await b(() => runSync(adapter));
+
+    expect(await a(texts)).toEqual(['m2:adiós']);
+    expect(await b(texts)).toEqual(['m2:adiós']);
+  });
+
+  it('replaces a meta with the winning version instead of merging it', async () => {
+    const { adapter } = createMemoryServer();
+    const a = createDevice();
+    const b = createDevice();
+    const full: ChatMeta = { bookmarkMessageId: 'm1', profileFingerprint: 'fp', profileLastUpdated: 5 };
+    at(1000);
+    await a(() => setChatMetaDB(THREAD, full));
+    await a(() => runSync(adapter));
+    await b(() => runSync(adapter));
+    expect(await b(() => getChatMetaDB(THREAD))).toEqual(full);
+
+    at(2000);
+    await a(() => setChatMetaDB(THREAD, { bookmarkMessageId: 'm2' }, { replace: true }));
+    await a(() => runSync(adapter));
+    await b(() => runSync(adapter));
+
+    expect(await b(() => getChatMetaDB(THREAD))).toEqual({ bookmarkMessageId: 'm2' });
+  });
+});
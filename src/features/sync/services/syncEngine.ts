@@ -0,0 +1,173 @@
+// Copyright 2025 Roni Tervo
+//
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * Sync engine: one pull-merge-push round against a SyncAdapter.
+ *
+ * Responsibilities:
+ * - Detect local changes and deletions by comparing current records with the shadow
+ * - Pull other devices' changesets and pick a winner per record
+ * - Apply remote winners, push the remaining local changes (media first)
+ * - Advance the shadow, sequence and cursor only for work that completed
+ *
+ * Conflict rule: per record, the later clock (`updatedAt`, then `deviceId`)
+ * wins. Every device evaluates the same rule on the same clocks, so all of
+ * them converge on the same version regardless of sync order.
+ *
+ * A local change is clocked with the time a run first saw it (kept across
+ * runs, also ones that fail offline), not the time it is pushed, so an old
+ * offline edit does not beat a newer one from a device that synced earlier.
+ */
+
+import type { SyncSettings } from '../../../core/types';
+import { getMediaRecordsDB } from '../../../core/db/media';
+import { isLaterClock, syncRecordKey, type SyncAdapter, type SyncRecord } from './syncAdapter';
+import { applyRemoteRecords, collectLocalRecords, hashSyncData, type AppliedChanges, type LocalSyncRecord } from './syncRecords';
+import {
+  commitSyncStateDB,
+  getSyncDeviceStateDB,
+  getSyncLocalChangesDB,
+  getSyncShadowDB,
+  setSyncLocalChangesDB,
+  type SyncLocalChange,
+  type SyncShadowEntry,
+} from './syncState';
+
+/** Records per uploaded changeset file. */
+export const CHANGESET_MAX_RECORDS = 500;
+
+export const DEFAULT_SYNC_SETTINGS: SyncSettings = {
+  enabled: false,
+  url: '',
+  username: '',
+  intervalMinutes: 10,
+};
+
+export const resolveSyncSettings = (settings: SyncSettings | undefined): SyncSettings => ({
+  ...DEFAULT_SYNC_SETTINGS,
+  ...(settings || {}),
+});
+
+export interface SyncRunResult {
+  pushed: number;
+  pulled: number;
+  applied: AppliedChanges;
+}
+
+const toShadowEntry = (record: SyncRecord, hash: string): SyncShadowEntry => ({
+  key: syncRecordKey(record),
+  kind: record.kind,
+  id: record.id,
+  ...(record.threadId ? { threadId: record.threadId } : {}),
+  hash: record.deleted ? '' : hash,
+  updatedAt: record.updatedAt,
+  deviceId: record.deviceId,
+  ...(record.deleted ? { deleted: true } : {}),
+});
+
+// Uploads media of outgoing messages the server does not have yet.
+const uploadMedia = async (adapter: SyncAdapter, records: SyncRecord[], local: Map<string, LocalSyncRecord>) => {
+  const ids = new Set<string>();
+  records.forEach(rec => {
+    if (rec.kind === 'message' && !rec.deleted) local.get(syncRecordKey(rec))?.mediaIds?.forEach(id => ids.add(id));
+  });
+  for (const id of ids) {
+    if (await adapter.hasMedia(id)) continue;
+    const media = (await getMediaRecordsDB([id])).get(id);
+    if (media) await adapter.putMedia(id, media.blob);
+  }
+};
+
+export const runSync = async (adapter: SyncAdapter): Promise<SyncRunResult> => {
+  const state = await getSyncDeviceStateDB();
+  const shadow = await getSyncShadowDB();
+  const local = await collectLocalRecords();
+  const seenChanges = await getSyncLocalChangesDB();
+  const now = Date.now();
+
+  // A change keeps the time it was first seen while its hash stays the same. It
+  // must still out-rank the version it replaces even if this device's clock is
+  // behind the one that wrote it.
+  const changes: Record<string, SyncLocalChange> = {};
+  const clockFor = (key: string, hash: string) => {
+    const seen = seenChanges[key];
+    changes[key] = { hash, changedAt: seen && seen.hash === hash ? seen.changedAt : now };
+    return {
+      updatedAt: Math.max(changes[key].changedAt, (shadow.get(key)?.updatedAt ?? 0) + 1),
+      deviceId: state.deviceId,
+    };
+  };
+  const pending = new Map<string, SyncRecord>();
+  local.forEach((rec, key) => {
+    const known = shadow.get(key);
+    if (known && !known.deleted && known.hash === rec.hash) return;
+    pending.set(key, {
+      kind: rec.kind,
+      id: rec.id,
+      ...(rec.threadId ? { threadId: rec.threadId } : {}),
+      ...clockFor(key, rec.hash),
+      data: rec.data,
+    });
+  });
+  shadow.forEach((entry, key) => {
+    if (entry.deleted || local.has(key)) return;
+    pending.set(key, {
+      kind: entry.kind,
+      id: entry.id,
+      ...(entry.threadId ? { threadId: entry.threadId } : {}),
+      ...clockFor(key, ''),
+      deleted: true,
+    });
+  });
+  // Stored before any network call, so a run that fails offline still dates the changes.
+  await setSyncLocalChangesDB(changes);
+
+  const { changesets, cursor } = await adapter.pull(state.cursor, state.deviceId);
+  const incoming = new Map<string, SyncRecord>();
+  changesets.forEach(changeset => changeset.records.forEach(rec => {
+    const key = syncRecordKey(rec);
+    const current = incoming.get(key);
+    if (!current || isLaterClock(rec, current)) incoming.set(key, rec);
+  }));
+
+  const winners: SyncRecord[] = [];
+  incoming.forEach((rec, key) => {
+    const mine = pending.get(key);
+    if (mine) {
+      if (isLaterClock(mine, rec)) return;
+      pending.delete(key);
+    } else {
+      const known = shadow.get(key);
+      if (known && !isLaterClock(rec, known)) return;
+    }
+    winners.push(rec);
+  });
+
+  let applied: AppliedChanges = { threadIds: new Set(), settings: false, profile: false };
+  if (winners.length > 0) {
+    applied = await applyRemoteRecords(adapter, winners);
+    // Hash what was actually stored, so normalization on write is not mistaken for a local edit.
+    const stored = await collectLocalRecords();
+    await commitSyncStateDB(
+      winners.map(rec => toShadowEntry(rec, stored.get(syncRecordKey(rec))?.hash ?? hashSyncData(rec.data))),
+      { ...state, cursor }
+    );
+  } else if (changesets.length > 0) {
+    await commitSyncStateDB([], { ...state, cursor });
+  }
+
+  const outgoing = Array.from(pending.values());
+  let seq = state.seq;
+  for (let i = 0; i < outgoing.length; i += CHANGESET_MAX_RECORDS) {
+    const records = outgoing.slice(i, i + CHANGESET_MAX_RECORDS);
+    await uploadMedia(adapter, records, local);
+    seq += 1;
+    await adapter.push({ version: 1, deviceId: state.deviceId, seq, createdAt: Date.now(), records });
+    await commitSyncStateDB(
+      records.map(rec => toShadowEntry(rec, local.get(syncRecordKey(rec))?.hash ?? '')),
+      { deviceId: state.deviceId, seq, cursor }
+    );
+  }
+
+  return { pushed: outgoing.length, pulled: winners.length, applied };
+};
@@ -0,0 +1,187 @@
+// Copyright 2025 Roni Tervo
+//
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * Local side of sync: reads syncable data out of the app and writes remote
+ * changes back in.
+ *
+ * Responsibilities:
+ * - Collect every syncable record (messages, chat metas, threads, the global
+ *   profile and the shared part of the settings) with a content hash
+ * - Apply winning remote records through the regular persistence services,
+ *   fetching message media from the server first
+ *
+ * Device-specific settings (selected pair, thread and camera, bookmarks,
+ * loading GIFs, the sync config itself) are never synced.
+ */
+
+import type { AppSettings, ChatMessage, ChatMeta, ChatThread } from '../../../core/types';
+import { pairIdFromThreadId } from '../../../core/db/index';
+import { getMediaRecordsDB, stageMediaDB, collectMediaGarbageDB, isMediaId, type MediaInput } from '../../../core/db/media';
+import {
+  applyStoredMessageChangesDB,
+  deleteThreadDB,
+  getAllChatMetasDB,
+  getAllThreadsDB,
+  isDefaultThread,
+  saveThreadDB,
+  scanStoredMessagesDB,
+  setChatMetaDB,
+} from '../../chat';
+import { getGlobalProfileDB, setGlobalProfileDB } from '../../session';
+import { getStoreState, selectActiveThreadId } from '../../../store';
+import { syncRecordKey, type SyncAdapter, type SyncRecord, type SyncRecordKind } from './syncAdapter';
+import { hashString } from '../../../shared/utils/hash';
+
+/** Settings that follow the user across devices. */
+export const SYNCED_SETTING_KEYS = [
+  'tts',
+  'stt',
+  'smartReengagement',
+  'enableGoogleSearch',
+  'imageGenerationModeEnabled',
+  'imageFocusedModeEnabled',
+  'isSuggestionMode',
+  'maxVisibleMessages',
+  'sendWithSnapshotEnabled',
+  'storage',
+] as const satisfies ReadonlyArray<keyof AppSettings>;
+
+export const SINGLETON_ID = 'singleton';
+
+export interface LocalSyncRecord {
+  kind: SyncRecordKind;
+  id: string;
+  threadId?: string;
+  hash: string;
+  data: unknown;
+  /** Media referenced by a message record. */
+  mediaIds?: string[];
+}
+
+export interface AppliedChanges {
+  /** Threads whose messages, meta or thread record changed. */
+  threadIds: Set<string>;
+  settings: boolean;
+  profile: boolean;
+}
+
+export const hashSyncData = (data: unknown): string => hashString(JSON.stringify(data ?? null));
+
+const messageMediaIds = (message: ChatMessage): string[] =>
+  [message.imageMediaId, message.recordedUtterance?.mediaId].filter(isMediaId);
+
+const pickSyncedSettings = (settings: AppSettings): Partial<AppSettings> => {
+  const out: Partial<AppSettings> = {};
+  SYNCED_SETTING_KEYS.forEach(key => {
+    if (settings[key] !== undefined) (out as Record<string, unknown>)[key] = settings[key];
+  });
+  return out;
+};
+
+/** Every syncable record currently stored on this device, keyed by `syncRecordKey`. */
+export const collectLocalRecords = async (): Promise<Map<string, LocalSyncRecord>> => {
+  const out = new Map<string, LocalSyncRecord>();
+  const add = (record: Omit<LocalSyncRecord, 'hash'>) => out.set(syncRecordKey(record), { ...record, hash: hashSyncData(record.data) });
+
+  await scanStoredMessagesDB((message, { threadId }) => {
+    if (message.role === 'system_selection') return;
+    add({ kind: 'message', id: message.id, threadId, data: message, mediaIds: messageMediaIds(message) });
+  });
+  const metas = await getAllChatMetasDB();
+  Object.entries(metas).forEach(([threadId, meta]) => { if (meta) add({ kind: 'meta', id: threadId, data: meta }); });
+  (await getAllThreadsDB()).forEach(thread => add({ kind: 'thread', id: thread.id, data: thread }));
+  const profile = await getGlobalProfileDB();
+  if (profile?.text) add({ kind: 'profile', id: SINGLETON_ID, data: { text: profile.text } });
+  add({ kind: 'settings', id: SINGLETON_ID, data: pickSyncedSettings(getStoreState().settings) });
+  return out;
+};
+
+// Downloads media referenced by incoming messages that this device lacks.
+const stageRemoteMedia = async (adapter: SyncAdapter, messages: ChatMessage[]): Promise<void> => {
+  const ids = Array.from(new Set(messages.flatMap(messageMediaIds)));
+  if (ids.length === 0) return;
+  const present = await getMediaRecordsDB(ids);
+  const inputs: MediaInput[] = [];
+  for (const id of ids) {
+    if (present.has(id)) continue;
+    const blob = await adapter.getMedia(id);
+    if (blob) inputs.push({ id, blob, mimeType: blob.type || 'application/octet-stream' });
+    else console.warn('[Sync] Media missing on server:', id);
+  }
+  await stageMediaDB(inputs);
+};
+
+/**
+ * Writes winning remote records into the app. Threads are created before their
+ * messages and deleted last, so a thread deletion also removes messages that
+ * arrived for it in the same run.
+ */
+export const applyRemoteRecords = async (adapter: SyncAdapter, records: SyncRecord[]): Promise<AppliedChanges> => {
+  const applied: AppliedChanges = { threadIds: new Set(), settings: false, profile: false };
+  const ofKind = (kind: SyncRecordKind) => records.filter(rec => rec.kind === kind);
+
+  const settings = ofKind('settings').find(rec => !rec.deleted && rec.data);
+  if (settings) {
+    const { updateSetting } = getStoreState();
+    const incoming = settings.data as Partial<AppSettings>;
+    SYNCED_SETTING_KEYS.forEach(key => {
+      if (incoming[key] !== undefined) updateSetting(key, incoming[key] as never);
+    });
+    applied.settings = true;
+  }
+
+  const profile = ofKind('profile').find(rec => !rec.deleted);
+  if (profile) {
+    await setGlobalProfileDB(String((profile.data as { text?: string } | undefined)?.text || ''));
+    try { window.dispatchEvent(new CustomEvent('globalProfileUpdated')); } catch { /* ignore */ }
+    applied.profile = true;
+  }
+
+  const threads = ofKind('thread');
+  for (const rec of threads) {
+    if (rec.deleted || !rec.data) continue;
+    await saveThreadDB(rec.data as ChatThread);
+    applied.threadIds.add(rec.id);
+  }
+
+  for (const rec of ofKind('meta')) {
+    // The winner replaces the local meta whole; merging would keep fields it dropped.
+    await setChatMetaDB(rec.id, rec.deleted ? null : (rec.data as ChatMeta), { replace: true });
+    applied.threadIds.add(rec.id);
+  }
+
+  const messages = ofKind('message').filter(rec => rec.threadId);
+  const upserts = messages.filter(rec => !rec.deleted && rec.data).map(rec => rec.data as ChatMessage);
+  await stageRemoteMedia(adapter, upserts);
+  const byThread = new Map<string, { upserts: ChatMessage[]; deletes: string[] }>();
+  messages.forEach(rec => {
+    const entry = byThread.get(rec.threadId!) || { upserts: [], deletes: [] };
+    if (rec.deleted) entry.deletes.push(rec.id);
+    else if (rec.data) entry.upserts.push(rec.data as ChatMessage);
+    byThread.set(rec.threadId!, entry);
+  });
+  for (const [threadId, change] of byThread) {
+    await applyStoredMessageChangesDB(threadId, change.upserts, change.deletes);
+    applied.threadIds.add(threadId);
+  }
+
+  for (const rec of threads) {
+    if (!rec.deleted) continue;
+    const pairId = pairIdFromThreadId(rec.id);
+    if (isDefaultThread({ id: rec.id, pairId })) continue;
+    const state = getStoreState();
+    if (selectActiveThreadId(state) === rec.id) {
+      const nextSelected = { ...(state.settings.selectedThreadIds || {}) };
+      delete nextSelected[pairId];
+      state.updateSetting('selectedThreadIds', nextSelected);
+    }
+    await deleteThreadDB(rec.id);
+    applied.threadIds.add(rec.id);
+  }
+
+  if (messages.length > 0) {
+    try { await collectMediaGarbageDB(); } catch (e) { console.warn('[Sync] Media cleanup failed:', e); }
+  }
+  return applied;
+};
@@ -0,0 +1,110 @@
+// Copyright 2025 Roni Tervo
+//
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * Sync bookkeeping in the app database.
+ *
+ * Responsibilities:
+ * - Device identity, changeset sequence and pull cursor (SYNC_STATE_STORE)
+ * - The shadow: hash and clock of every record as last exchanged with the
+ *   server (SYNC_RECORDS_STORE); comparing it with the current data yields
+ *   the local changes and deletions to push
+ * - When each pending local change was first seen, which becomes its clock
+ */
+
+import { openDB, SYNC_RECORDS_STORE, SYNC_STATE_STORE } from '../../../core/db/index';
+import type { SyncCursor, SyncRecordKind } from './syncAdapter';
+
+export interface SyncShadowEntry {
+  /** `<kind>:<id>`, see `syncRecordKey`. */
+  key: string;
+  kind: SyncRecordKind;
+  id: string;
+  threadId?: string;
+  /** Hash of the record contents; empty for tombstones. */
+  hash: string;
+  updatedAt: number;
+  deviceId: string;
+  deleted?: boolean;
+}
+
+export interface SyncDeviceState {
+  deviceId: string;
+  /** Sequence number of the last changeset this device pushed. */
+  seq: number;
+  cursor: SyncCursor;
+}
+
+/** A local change not pushed yet: the hash it changed to (empty for a deletion) and when it was first seen. */
+export interface SyncLocalChange {
+  hash: string;
+  changedAt: number;
+}
+
+const DEVICE_STATE_KEY = 'device';
+const LOCAL_CHANGES_KEY = 'localChanges';
+
+export const getSyncDeviceStateDB = async (): Promise<SyncDeviceState> => {
+  const db = await openDB();
+  const stored = await new Promise<(SyncDeviceState & { key: string }) | undefined>((resolve, reject) => {
+    const req = db.transaction(SYNC_STATE_STORE, 'readonly').objectStore(SYNC_STATE_STORE).get(DEVICE_STATE_KEY);
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(new Error('Error reading sync state'));
+  });
+  if (stored) return { deviceId: stored.deviceId, seq: stored.seq, cursor: stored.cursor || {} };
+  return { deviceId: crypto.randomUUID(), seq: 0, cursor: {} };
+};
+
+export const getSyncShadowDB = async (): Promise<Map<string, SyncShadowEntry>> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const req = db.transaction(SYNC_RECORDS_STORE, 'readonly').objectStore(SYNC_RECORDS_STORE).getAll();
+    req.onsuccess = () => resolve(new Map((req.result as SyncShadowEntry[]).map(entry => [entry.key, entry])));
+    req.onerror = () => reject(new Error('Error reading sync records'));
+  });
+};
+
+export const getSyncLocalChangesDB = async (): Promise<Record<string, SyncLocalChange>> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const req = db.transaction(SYNC_STATE_STORE, 'readonly').objectStore(SYNC_STATE_STORE).get(LOCAL_CHANGES_KEY);
+    req.onsuccess = () => resolve((req.result as { changes?: Record<string, SyncLocalChange> } | undefined)?.changes || {});
+    req.onerror = () => reject(new Error('Error reading sync changes'));
+  });
+};
+
+/** Replaces the pending local changes, keyed by `syncRecordKey`. */
+export const setSyncLocalChangesDB = async (changes: Record<string, SyncLocalChange>): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(SYNC_STATE_STORE, 'readwrite');
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(new Error('Error saving sync changes'));
+    tx.objectStore(SYNC_STATE_STORE).put({ key: LOCAL_CHANGES_KEY, changes });
+  });
+};
+
+/** Writes shadow entries and the device state in one transaction. */
+export const commitSyncStateDB = async (entries: SyncShadowEntry[], state: SyncDeviceState): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction([SYNC_RECORDS_STORE, SYNC_STATE_STORE], 'readwrite');
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(new Error('Error saving sync state'));
+    const records = tx.objectStore(SYNC_RECORDS_STORE);
+    entries.forEach(entry => records.put(entry));
+    tx.objectStore(SYNC_STATE_STORE).put({ key: DEVICE_STATE_KEY, ...state });
+  });
+};
+
+/** Forgets everything exchanged so far; the next sync re-sends all records. */
+export const clearSyncStateDB = async (): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction([SYNC_RECORDS_STORE, SYNC_STATE_STORE], 'readwrite');
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(new Error('Error clearing sync state'));
+    tx.objectStore(SYNC_RECORDS_STORE).clear();
+    tx.objectStore(SYNC_STATE_STORE).clear();
+  });
+};
@@ -0,0 +1,90 @@
+// Copyright 2025 Roni Tervo
+//
+// SPDX-License-Identifier: Apache-2.0
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { changesetFileName, createWebDavAdapter } from './webdavAdapter';
+import { SyncError, type SyncChangeset } from './syncAdapter';
+
+const BASE = 'https://dav.example.com/maestro/';
+
+const multistatus = (hrefs: string[]) =>
+  `<?xml version="1.0" encoding="utf-8"?>
+<d:multistatus xmlns:d="DAV:">
+${hrefs.map(href => `  <d:response><d:href>${href}</d:href><d:propstat><d:prop><d:resourcetype/></d:prop></d:propstat></d:response>`).join('\n')}
+</d:multistatus>`;
+
+const changeset = (deviceId: string, seq: number): SyncChangeset => ({ version: 1, deviceId, seq, createdAt: seq, records: [] });
+
+// Answers MKCOL with 405 (exists), PROPFIND with `listing` and GET with `files`.
+const stubServer = (listing: string | null, files: Record<string, string> = {}) => {
+  const calls: Array<{ method: string; url: string }> = [];
+  vi.stubGlobal('fetch', vi.fn(async (url: string, init: RequestInit) => {
+    const method = init.method || 'GET';
+    calls.push({ method, url });
+    if (method === 'MKCOL') return new Response(null, { status: 405 });
+    if (method === 'PROPFIND') return listing === null ? new Response(null, { status: 404 }) : new Response(listing, { status: 207 });
+    const name = decodeURIComponent(url.slice(BASE.length));
+    return name in files ? new Response(files[name], { status: 200 }) : new Response(null, { status: 404 });
+  }));
+  return calls;
+};
+
+describe('webdavAdapter PROPFIND listing', () => {
+  afterEach(() => { vi.unstubAllGlobals(); });
+
+  it('reads changeset names from absolute and encoded hrefs and skips the folder and other files', async () => {
+    stubServer(
+      multistatus([
+        '/maestro/changesets/',
+        '/maestro/changesets/device%20b-0000000002.json',
+        'https://dav.example.com/maestro/changesets/device-a-0000000001.json',
+        '/maestro/changesets/notes.txt',
+        '/maestro/changesets/own-0000000001.json',
+      ]),
+      {
+        'changesets/device b-0000000002.json': JSON.stringify(changeset('device b', 2)),
+        'changesets/device-a-0000000001.json': JSON.stringify(changeset('device-a', 1)),
+      }
+    );
+    const adapter = createWebDavAdapter({ url: BASE, username: '', password: '' });
+
+    const { changesets, cursor } = await adapter.pull({}, 'own');
+
+    expect(changesets.map(c => [c.deviceId, c.seq])).toEqual([['device b', 2], ['device-a', 1]]);
+    expect(cursor).toEqual({ 'device b': 2, 'device-a': 1 });
+  });
+
+  it('fetches only changesets past the cursor, in sequence order per device', async () => {
+    const names = [3, 1, 2].map(seq => changesetFileName('dev', seq));
+    const calls = stubServer(
+      multistatus(names.map(name => `/maestro/changesets/${name}`)),
+      Object.fromEntries([1, 2, 3].map(seq => [`changesets/${changesetFileName('dev', seq)}`, JSON.stringify(changeset('dev', seq))]))
+    );
+    const adapter = createWebDavAdapter({ url: BASE, username: '', password: '' });
+
+    const { changesets, cursor } = await adapter.pull({ dev: 1 }, 'own');
+
+    expect(changesets.map(c => c.seq)).toEqual([2, 3]);
+    expect(cursor).toEqual({ dev: 3 });
+    expect(calls.filter(c => c.method === 'GET').map(c => c.url)).toEqual([
+      `${BASE}changesets/${changesetFileName('dev', 2)}`,
+      `${BASE}changesets/${changesetFileName('dev', 3)}`,
+    ]);
+  });
+
+  it('treats a missing changeset folder as empty', async () => {
+    stubServer(null);
+    const adapter = createWebDavAdapter({ url: BASE, username: '', password: '' });
+
+    expect(await adapter.pull({ dev: 4 }, 'own')).toEqual({ changesets: [], cursor: { dev: 4 } });
+  });
+
+  it('rejects an unreadable listing with a FORMAT error', async () => {
+    stubServer('<d:multistatus xmlns:d="DAV:"><d:response>');
+    const adapter = createWebDavAdapter({ url: BASE, username: '', password: '' });
+
+    await expect(adapter.pull({}, 'own')).rejects.toMatchObject({ name: 'SyncError', code: 'FORMAT' });
+    await expect(adapter.pull({}, 'own')).rejects.toBeInstanceOf(SyncError);
+  });
+});
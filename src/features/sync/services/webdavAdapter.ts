@@ -0,0 +1,169 @@
+// Copyright 2025 Roni Tervo
+//
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * WebDAV / HTTP-folder sync adapter.
+ *
+ * Responsibilities:
+ * - Keep changesets and media in a folder on any WebDAV server (Nextcloud,
+ *   Apache mod_dav, rclone serve webdav, ...)
+ * - List changesets with PROPFIND, read and write files with GET / PUT
+ * - Map HTTP and network failures to SyncError codes
+ *
+ * Layout under the configured folder:
+ *   changesets/<deviceId>-<seq, 10 digits>.json
+ *   media/<media id>
+ * Changeset files are never rewritten, so concurrent devices cannot clobber
+ * each other's writes.
+ */
+
+import { SyncError, type SyncAdapter, type SyncChangeset, type SyncCursor } from './syncAdapter';
+
+export interface WebDavConfig {
+  url: string;
+  username: string;
+  password: string;
+}
+
+const CHANGESET_DIR = 'changesets';
+const MEDIA_DIR = 'media';
+const SEQ_DIGITS = 10;
+const CHANGESET_NAME = /^(.+)-(\d{10})\.json$/;
+
+const encodeBasicAuth = (username: string, password: string): string => {
+  const bytes = new TextEncoder().encode(`${username}:${password}`);
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return `Basic ${btoa(binary)}`;
+};
+
+export const changesetFileName = (deviceId: string, seq: number): string =>
+  `${deviceId}-${String(seq).padStart(SEQ_DIGITS, '0')}.json`;
+
+export const createWebDavAdapter = (config: WebDavConfig): SyncAdapter => {
+  if (!config.url.trim()) throw new SyncError('Sync server URL is not set', 'NOT_CONFIGURED');
+  const base = config.url.trim().replace(/\/+$/, '') + '/';
+  const headers: Record<string, string> = config.username
+    ? { Authorization: encodeBasicAuth(config.username, config.password) }
+    : {};
+  let foldersReady = false;
+
+  const request = async (method: string, path: string, init?: { body?: BodyInit; headers?: Record<string, string> }): Promise<Response> => {
+    let res: Response;
+    try {
+      res = await fetch(base + path, {
+        method,
+        headers: { ...headers, ...(init?.headers || {}) },
+        body: init?.body,
+        cache: 'no-store',
+      });
+    } catch (e) {
+      throw new SyncError(`Cannot reach sync server: ${(e as Error)?.message || e}`, 'NETWORK');
+    }
+    if (res.status === 401 || res.status === 403) {
+      throw new SyncError('Sync server rejected the credentials', 'AUTH');
+    }
+    return res;
+  };
+
+  const expectOk = (res: Response, what: string) => {
+    if (!res.ok) throw new SyncError(`${what} failed: HTTP ${res.status}`, 'HTTP');
+  };
+
+  // MKCOL answers 405 when the folder already exists.
+  const ensureFolders = async () => {
+    if (foldersReady) return;
+    for (const dir of ['', CHANGESET_DIR, MEDIA_DIR]) {
+      const res = await request('MKCOL', dir ? `${dir}/` : '');
+      if (!res.ok && res.status !== 405) throw new SyncError(`Creating folder "${dir || '/'}" failed: HTTP ${res.status}`, 'HTTP');
+    }
+    foldersReady = true;
+  };
+
+  const listChangesetNames = async (): Promise<string[]> => {
+    const res = await request('PROPFIND', `${CHANGESET_DIR}/`, {
+      headers: { Depth: '1', 'Content-Type': 'application/xml; charset=utf-8' },
+      body: '<?xml version="1.0" encoding="utf-8"?><d:propfind xmlns:d="DAV:"><d:prop><d:resourcetype/></d:prop></d:propfind>',
+    });
+    if (res.status === 404) return [];
+    expectOk(res, 'Listing changesets');
+    const doc = new DOMParser().parseFromString(await res.text(), 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) {
+      throw new SyncError('Sync server sent an unreadable folder listing', 'FORMAT');
+    }
+    return Array.from(doc.getElementsByTagNameNS('DAV:', 'href'))
+      .map(node => decodeURIComponent((node.textContent || '').replace(/\/+$/, '').split('/').pop() || ''))
+      .filter(name => CHANGESET_NAME.test(name));
+  };
+
+  return {
+    test: async () => {
+      foldersReady = false;
+      await ensureFolders();
+      await listChangesetNames();
+    },
+
+    pull: async (cursor: SyncCursor, ownDeviceId: string) => {
+      await ensureFolders();
+      const pending = (await listChangesetNames())
+        .map(name => {
+          const match = CHANGESET_NAME.exec(name)!;
+          return { name, deviceId: match[1], seq: Number(match[2]) };
+        })
+        .filter(entry => entry.deviceId !== ownDeviceId && entry.seq > (cursor[entry.deviceId] || 0))
+        .sort((a, b) => (a.deviceId === b.deviceId ? a.seq - b.seq : a.deviceId < b.deviceId ? -1 : 1));
+
+      const next: SyncCursor = { ...cursor };
+      const changesets: SyncChangeset[] = [];
+      for (const entry of pending) {
+        const res = await request('GET', `${CHANGESET_DIR}/${encodeURIComponent(entry.name)}`);
+        expectOk(res, `Reading ${entry.name}`);
+        let changeset: SyncChangeset;
+        try {
+          changeset = await res.json();
+        } catch {
+          throw new SyncError(`${entry.name} is not valid JSON`, 'FORMAT');
+        }
+        if (changeset?.version !== 1 || !Array.isArray(changeset.records)) {
+          throw new SyncError(`${entry.name} has an unsupported format`, 'FORMAT');
+        }
+        changesets.push(changeset);
+        next[entry.deviceId] = entry.seq;
+      }
+      return { changesets, cursor: next };
+    },
+
+    push: async (changeset: SyncChangeset) => {
+      await ensureFolders();
+      const res = await request('PUT', `${CHANGESET_DIR}/${encodeURIComponent(changesetFileName(changeset.deviceId, changeset.seq))}`, {
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changeset),
+      });
+      expectOk(res, 'Uploading changeset');
+    },
+
+    hasMedia: async (id: string) => {
+      await ensureFolders();
+      const res = await request('HEAD', `${MEDIA_DIR}/${encodeURIComponent(id)}`);
+      if (res.status === 404) return false;
+      expectOk(res, 'Checking media');
+      return true;
+    },
+
+    putMedia: async (id: string, blob: Blob) => {
+      await ensureFolders();
+      const res = await request('PUT', `${MEDIA_DIR}/${encodeURIComponent(id)}`, {
+        headers: { 'Content-Type': blob.type || 'application/octet-stream' },
+        body: blob,
+      });
+      expectOk(res, 'Uploading media');
+    },
+
+    getMedia: async (id: string) => {
+      const res = await request('GET', `${MEDIA_DIR}/${encodeURIComponent(id)}`);
+      if (res.status === 404) return null;
+      expectOk(res, 'Downloading media');
+      return res.blob();
+    },
+  };
+};
@@ -0,0 +1,45 @@
+// Copyright 2025 Roni Tervo
+//
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * UsageBudgetBanner - Warns when the daily or monthly spending budget is exceeded.
+ *
+ * Responsibilities:
+ * - Say which budget was crossed and whether expensive features were switched off
+ * - Open the usage panel; dismissal lasts until the exceeded budget changes
+ */
+import React, { useState } from 'react';
+import { IconXMark } from '../../../shared/ui/Icons';
+import { useAppTranslations } from '../../../shared/hooks/useAppTranslations';
+import { useMaestroStore, selectExpensiveFeaturesBlocked } from '../../../store';
+
+const UsageBudgetBanner: React.FC = () => {
+  const { t } = useAppTranslations();
+  const exceededBudget = useMaestroStore(state => state.exceededBudget);
+  const isBlocked = useMaestroStore(selectExpensiveFeaturesBlocked);
+  const setShowUsagePanel = useMaestroStore(state => state.setShowUsagePanel);
+  const [dismissedKey, setDismissedKey] = useState<string | null>(null);
+
+  if (!exceededBudget) return null;
+  const key = `${exceededBudget}:${isBlocked}`;
+  if (dismissedKey === key) return null;
+
+  const period = t(`usage.period.${exceededBudget}`);
+
+  return (
+    <div
+      role="alert"
+      className="fixed top-52 left-1/2 -translate-x-1/2 z-40 flex items-center gap-3 max-w-[90vw] px-4 py-2 rounded-full shadow-sm text-sm text-white bg-rose-600/95"
+    >
+      <span>{t(isBlocked ? 'usage.exceeded.disabled' : 'usage.exceeded.warn', { period })}</span>
+      <button onClick={() => setShowUsagePanel(true)} className="underline whitespace-nowrap">
+        {t('usage.banner.manage')}
+      </button>
+      <button onClick={() => setDismissedKey(key)} aria-label={t('usage.close')} className="opacity-80 hover:opacity-100">
+        <IconXMark className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
+
+export default UsageBudgetBanner;
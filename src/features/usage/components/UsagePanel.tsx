@@ -0,0 +1,319 @@
+// Copyright 2025 Roni Tervo
+//
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * UsagePanel - Token usage and spending dashboard.
+ *
+ * Responsibilities:
+ * - Show today's and this month's tokens and estimated cost against the budgets
+ * - Chart the last 30 days per request category
+ * - Break this month down per category and per language pair
+ * - Edit the daily and monthly budgets and what crossing them does
+ */
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { IconXMark } from '../../../shared/ui/Icons';
+import { SmallSpinner } from '../../../shared/ui/SmallSpinner';
+import { useAppTranslations } from '../../../shared/hooks/useAppTranslations';
+import { useMaestroStore } from '../../../store';
+import type { UsageBudgetSettings, UsageCategory } from '../../../core/types';
+import { clearUsageDB, getUsageSinceDB, toUsageDay, type UsageRecord } from '../../../core/db/usage';
+import { USAGE_CATEGORIES, monthStartDay, resolveUsageBudget } from '../services/tokenUsage';
+import { formatTokens, formatUsd } from '../services/usagePricing';
+import { refreshUsageSummary } from '../hooks/useUsageBudget';
+
+interface UsagePanelProps {
+  onClose: () => void;
+}
+
+const CHART_DAYS = 30;
+
+const CATEGORY_COLORS: Record<UsageCategory, string> = {
+  response: 'bg-blue-500',
+  suggestions: 'bg-sky-400',
+  image: 'bg-violet-500',
+  tts: 'bg-emerald-500',
+  live: 'bg-amber-500',
+  stt: 'bg-teal-400',
+  other: 'bg-slate-400',
+};
+
+interface Totals {
+  tokens: number;
+  costUsd: number;
+}
+
+const inputClass = 'w-20 border border-slate-300 rounded-lg px-2 py-1 text-sm text-slate-900 bg-white focus:outline-none focus:border-blue-500 disabled:bg-slate-100';
+
+const chartDays = (now: Date): string[] =>
+  Array.from({ length: CHART_DAYS }, (_, i) =>
+    toUsageDay(new Date(now.getFullYear(), now.getMonth(), now.getDate() - (CHART_DAYS - 1 - i))));
+
+const BudgetBar: React.FC<{ label: string; spent: number; limit: number | null }> = ({ label, spent, limit }) => {
+  const ratio = limit ? Math.min(1, spent / limit) : 0;
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between text-sm text-slate-800">
+        <span>{label}</span>
+        <span>{formatUsd(spent)}{limit !== null && ` / ${formatUsd(limit)}`}</span>
+      </div>
+      {limit !== null && (
+        <div className="h-2 rounded-full bg-slate-200 overflow-hidden">
+          <div
+            className={`h-full ${ratio >= 1 ? 'bg-rose-600' : ratio >= 0.8 ? 'bg-amber-500' : 'bg-blue-600'}`}
+            style={{ width: `${ratio * 100}%` }}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+const UsagePanel: React.FC<UsagePanelProps> = ({ onClose }) => {
+  const { t } = useAppTranslations();
+  const languagePairs = useMaestroStore(state => state.languagePairs);
+  const usageBudget = useMaestroStore(state => state.settings.usageBudget);
+  const updateSetting = useMaestroStore(state => state.updateSetting);
+  const usageSummary = useMaestroStore(state => state.usageSummary);
+  const exceededBudget = useMaestroStore(state => state.exceededBudget);
+  const budget = resolveUsageBudget(usageBudget);
+
+  const [records, setRecords] = useState<UsageRecord[] | null>(null);
+  const [now] = useState(() => new Date());
+
+  const load = useCallback(async () => {
+    try {
+      const days = chartDays(now);
+      const monthStart = monthStartDay(now);
+      setRecords(await getUsageSinceDB(days[0] < monthStart ? days[0] : monthStart));
+      await refreshUsageSummary();
+    } catch (e) {
+      console.warn('[Usage] Failed to load usage:', e);
+      setRecords([]);
+    }
+  }, [now]);
+
+  useEffect(() => { load(); }, [load]);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [onClose]);
+
+  const pairNames = useMemo(() => {
+    const out: Record<string, string> = {};
+    languagePairs.forEach(pair => { out[pair.id] = pair.name; });
+    return out;
+  }, [languagePairs]);
+
+  const chart = useMemo(() => {
+    const days = chartDays(now);
+    const byDay = new Map<string, Record<UsageCategory, number>>();
+    days.forEach(day => byDay.set(day, Object.fromEntries(USAGE_CATEGORIES.map(c => [c, 0])) as Record<UsageCategory, number>));
+    (records || []).forEach(record => {
+      const row = byDay.get(record.day);
+      if (row) row[record.category] = (row[record.category] || 0) + record.totalTokens;
+    });
+    const rows = days.map(day => {
+      const values = byDay.get(day)!;
+      return { day, values, total: USAGE_CATEGORIES.reduce((sum, c) => sum + values[c], 0) };
+    });
+    return { rows, max: Math.max(1, ...rows.map(r => r.total)) };
+  }, [records, now]);
+
+  const monthBreakdown = useMemo(() => {
+    const monthStart = monthStartDay(now);
+    const byCategory = {} as Record<UsageCategory, Totals>;
+    USAGE_CATEGORIES.forEach(c => { byCategory[c] = { tokens: 0, costUsd: 0 }; });
+    const byPair: Record<string, Totals> = {};
+    (records || []).filter(r => r.day >= monthStart).forEach(record => {
+      const category = byCategory[record.category] || (byCategory[record.category] = { tokens: 0, costUsd: 0 });
+      category.tokens += record.totalTokens;
+      category.costUsd += record.costUsd;
+      const pair = byPair[record.pairId] || (byPair[record.pairId] = { tokens: 0, costUsd: 0 });
+      pair.tokens += record.totalTokens;
+      pair.costUsd += record.costUsd;
+    });
+    const pairRows = Object.entries(byPair)
+      .map(([pairId, totals]) => ({ pairId, ...totals }))
+      .sort((a, b) => b.tokens - a.tokens);
+    return { byCategory, pairRows };
+  }, [records, now]);
+
+  const handleClear = async () => {
+    if (!window.confirm(t('usage.clearConfirm'))) return;
+    try {
+      await clearUsageDB();
+    } catch (e) {
+      console.warn('[Usage] Failed to clear usage:', e);
+    }
+    await load();
+  };
+
+  const updateBudget = (patch: Partial<UsageBudgetSettings>) => {
+    updateSetting('usageBudget', { ...budget, ...patch });
+  };
+
+  const limitInput = (field: 'dailyLimitUsd' | 'monthlyLimitUsd', defaultValue: number, label: string) => (
+    <label className="flex items-center gap-2 text-sm text-slate-800">
+      <input
+        type="checkbox"
+        checked={budget[field] !== null}
+        onChange={e => updateBudget({ [field]: e.target.checked ? defaultValue : null })}
+      />
+      <span className="flex-1">{label}</span>
+      <span className="text-slate-500">$</span>
+      <input
+        type="number"
+        min={0}
+        step={0.5}
+        className={inputClass}
+        disabled={budget[field] === null}
+        value={budget[field] ?? ''}
+        onChange={e => updateBudget({ [field]: Math.max(0, Number(e.target.value) || 0) })}
+        aria-label={label}
+      />
+    </label>
+  );
+
+  return createPortal(
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/40 backdrop-blur-sm p-4">
+      <div className="w-full max-w-lg max-h-[90vh] flex flex-col rounded-2xl bg-white shadow-xl border border-slate-200">
+        <div className="flex items-start justify-between px-6 pt-6">
+          <div>
+            <h2 className="text-lg font-semibold text-slate-900">{t('usage.title')}</h2>
+            <p className="text-xs text-slate-500 mt-1">{t('usage.estimateNote')}</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-700" aria-label={t('usage.close')}>
+            <IconXMark className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="px-6 py-4 space-y-5 overflow-y-auto">
+          <section className="space-y-3">
+            <BudgetBar label={t('usage.today')} spent={usageSummary?.today.costUsd ?? 0} limit={budget.dailyLimitUsd} />
+            <BudgetBar label={t('usage.thisMonth')} spent={usageSummary?.month.costUsd ?? 0} limit={budget.monthlyLimitUsd} />
+            {usageSummary && (
+              <p className="text-xs text-slate-600">
+                {t('usage.tokenSummary', {
+                  todayTokens: formatTokens(usageSummary.today.totalTokens),
+                  todayRequests: usageSummary.today.requests,
+                  monthTokens: formatTokens(usageSummary.month.totalTokens),
+                  monthRequests: usageSummary.month.requests,
+                })}
+              </p>
+            )}
+            {exceededBudget && (
+              <p className="text-sm text-rose-600">
+                {t(budget.onExceeded === 'disable' ? 'usage.exceeded.disabled' : 'usage.exceeded.warn', { period: t(`usage.period.${exceededBudget}`) })}
+              </p>
+            )}
+          </section>
+
+          <section className="space-y-2">
+            <h3 className="text-sm font-medium text-slate-900">{t('usage.chartLabel')}</h3>
+            {!records ? (
+              <SmallSpinner className="w-5 h-5 text-slate-400" />
+            ) : (
+              <>
+                <div className="flex items-end gap-px h-24" role="img" aria-label={t('usage.chartLabel')}>
+                  {chart.rows.map(row => (
+                    <div
+                      key={row.day}
+                      className="flex-1 flex flex-col-reverse h-full"
+                      title={`${row.day}: ${formatTokens(row.total)}`}
+                    >
+                      {USAGE_CATEGORIES.map(category => row.values[category] > 0 && (
+                        <div
+                          key={category}
+                          className={CATEGORY_COLORS[category]}
+                          style={{ height: `${(row.values[category] / chart.max) * 100}%` }}
+                        />
+                      ))}
+                    </div>
+                  ))}
+                </div>
+                <div className="flex justify-between text-[10px] text-slate-400">
+                  <span>{chart.rows[0].day}</span>
+                  <span>{chart.rows[chart.rows.length - 1].day}</span>
+                </div>
+                <ul className="grid grid-cols-2 gap-1 text-xs text-slate-700">
+                  {USAGE_CATEGORIES.map(category => (
+                    <li key={category} className="flex items-center gap-2">
+                      <span className={`inline-block w-2 h-2 rounded-full ${CATEGORY_COLORS[category]}`} />
+                      <span className="flex-1">{t(`usage.category.${category}`)}</span>
+                      <span>{formatTokens(monthBreakdown.byCategory[category].tokens)}</span>
+                      <span className="w-14 text-right">{formatUsd(monthBreakdown.byCategory[category].costUsd)}</span>
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+          </section>
+
+          {monthBreakdown.pairRows.length > 0 && (
+            <section className="space-y-2">
+              <h3 className="text-sm font-medium text-slate-900">{t('usage.byPairLabel')}</h3>
+              <table className="w-full text-xs text-slate-700">
+                <thead>
+                  <tr className="text-left text-slate-500">
+                    <th className="font-normal py-1">{t('usage.pair')}</th>
+                    <th className="font-normal py-1 text-right">{t('usage.tokens')}</th>
+                    <th className="font-normal py-1 text-right">{t('usage.cost')}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {monthBreakdown.pairRows.map(row => (
+                    <tr key={row.pairId} className="border-t border-slate-100">
+                      <td className="py-1 pr-2 truncate max-w-[10rem]">{pairNames[row.pairId] || row.pairId || t('usage.noPair')}</td>
+                      <td className="py-1 text-right">{formatTokens(row.tokens)}</td>
+                      <td className="py-1 text-right">{formatUsd(row.costUsd)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </section>
+          )}
+
+          <fieldset className="space-y-2">
+            <legend className="text-sm font-medium text-slate-900 mb-1">{t('usage.budgetLabel')}</legend>
+            {limitInput('dailyLimitUsd', 1, t('usage.dailyLimit'))}
+            {limitInput('monthlyLimitUsd', 10, t('usage.monthlyLimit'))}
+            <label className="flex items-center gap-2 text-sm text-slate-800">
+              <span className="flex-1">{t('usage.onExceeded')}</span>
+              <select
+                value={budget.onExceeded}
+                onChange={e => updateBudget({ onExceeded: e.target.value as UsageBudgetSettings['onExceeded'] })}
+                className="border border-slate-300 rounded-lg px-2 py-1 text-sm text-slate-900 bg-white focus:outline-none focus:border-blue-500"
+              >
+                <option value="warn">{t('usage.onExceeded.warn')}</option>
+                <option value="disable">{t('usage.onExceeded.disable')}</option>
+              </select>
+            </label>
+            <p className="text-xs text-slate-500">{t('usage.budgetHint')}</p>
+          </fieldset>
+        </div>
+
+        <div className="flex justify-between gap-2 px-6 pb-6">
+          <button
+            onClick={handleClear}
+            disabled={!records?.length}
+            className="px-4 py-2 rounded-lg text-sm text-rose-600 hover:bg-rose-50 disabled:opacity-50"
+          >
+            {t('usage.clear')}
+          </button>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg text-sm text-slate-700 hover:bg-slate-100"
+          >
+            {t('usage.close')}
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default UsagePanel;
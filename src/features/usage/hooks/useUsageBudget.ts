@@ -0,0 +1,56 @@
+// Copyright 2025 Roni Tervo
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * useUsageBudget - Keeps `usageSummary` current and enforces the spending budget.
+ *
+ * Responsibilities:
+ * - Re-total usage after every counted request, when the budget changes and as days roll over
+ * - With `onExceeded: 'disable'`, switch image generation off while a budget is exceeded
+ */
+
+import { useEffect } from 'react';
+import { getStoreState, useMaestroStore, selectExpensiveFeaturesBlocked } from '../../../store';
+import {
+  findExceededBudget,
+  loadMonthUsage,
+  resolveUsageBudget,
+  subscribeTokenUsage,
+  summarizeUsage,
+} from '../services/tokenUsage';
+
+const ROLLOVER_CHECK_INTERVAL_MS = 5 * 60 * 1000;
+
+/** Re-reads this month's counters and stores the totals and budget state. */
+export const refreshUsageSummary = async () => {
+  const records = await loadMonthUsage();
+  const { settings, setUsageSummary } = getStoreState();
+  const summary = summarizeUsage(records);
+  setUsageSummary(summary, findExceededBudget(summary, resolveUsageBudget(settings.usageBudget)));
+  return summary;
+};
+
+export const useUsageBudget = () => {
+  const isSettingsLoaded = useMaestroStore(state => state.isSettingsLoaded);
+  const usageBudget = useMaestroStore(state => state.settings.usageBudget);
+  const isBlocked = useMaestroStore(selectExpensiveFeaturesBlocked);
+  const imageGenerationModeEnabled = useMaestroStore(state => state.settings.imageGenerationModeEnabled);
+  const updateSetting = useMaestroStore(state => state.updateSetting);
+
+  useEffect(() => {
+    if (!isSettingsLoaded) return;
+    const refresh = () => { refreshUsageSummary().catch(e => console.warn('[Usage] Failed to total usage:', e)); };
+    refresh();
+    const interval = window.setInterval(refresh, ROLLOVER_CHECK_INTERVAL_MS);
+    const unsubscribe = subscribeTokenUsage(refresh);
+    return () => {
+      window.clearInterval(interval);
+      unsubscribe();
+    };
+  }, [isSettingsLoaded, usageBudget]);
+
+  useEffect(() => {
+    if (isBlocked && imageGenerationModeEnabled) updateSetting('imageGenerationModeEnabled', false);
+  }, [isBlocked, imageGenerationModeEnabled, updateSetting]);
+};
+
+export default useUsageBudget;
@@ -0,0 +1,38 @@
+// Copyright 2025 Roni Tervo
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * Usage Feature - Public API
+ * 
+ * This is the single entry point for token usage and budget functionality.
+ * External code should only import from this file.
+ * 
+ * Owned Store Slice: usageSlice
+ */
+
+// Components
+export { default as UsagePanel } from './components/UsagePanel';
+export { default as UsageBudgetBanner } from './components/UsageBudgetBanner';
+
+// Hooks
+export { useUsageBudget, refreshUsageSummary } from './hooks/useUsageBudget';
+
+// Services
+export {
+  recordTokenUsage,
+  subscribeTokenUsage,
+  summarizeUsage,
+  findExceededBudget,
+  resolveUsageBudget,
+  DEFAULT_USAGE_BUDGET,
+  USAGE_CATEGORIES,
+} from './services/tokenUsage';
+export type { TokenUsageCounts } from './services/tokenUsage';
+export {
+  estimateCostUsd,
+  priceForModel,
+  formatUsd,
+  formatTokens,
+  CACHED_INPUT_PRICE_RATIO,
+  CACHE_STORAGE_PER_MILLION_HOURLY,
+} from './services/usagePricing';
+export type { ModelPrice } from './services/usagePricing';
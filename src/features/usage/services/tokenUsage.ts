@@ -0,0 +1,116 @@
+// Copyright 2025 Roni Tervo
+//
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * Token usage accounting and budgets.
+ *
+ * Responsibilities:
+ * - Count the tokens of every model request that reports usage, under the
+ *   selected language pair, its category and the current local day
+ * - Summarize today and this month, and tell which budget is exceeded
+ * - Notify subscribers after each counted request
+ *
+ * Counting never throws and never delays the request it belongs to.
+ */
+
+import type { UsageBudgetSettings, UsageCategory } from '../../../core/types';
+import { addUsageDB, getUsageSinceDB, toUsageDay, type UsageRecord } from '../../../core/db/usage';
+import { getStoreState, type UsageBudgetPeriod, type UsageSummary, type UsageTotals } from '../../../store';
+import { estimateCostUsd } from './usagePricing';
+
+export const USAGE_CATEGORIES: UsageCategory[] = ['response', 'suggestions', 'image', 'tts', 'live', 'stt', 'other'];
+
+export const DEFAULT_USAGE_BUDGET: UsageBudgetSettings = {
+  dailyLimitUsd: null,
+  monthlyLimitUsd: null,
+  onExceeded: 'warn',
+};
+
+export const resolveUsageBudget = (settings: UsageBudgetSettings | undefined): UsageBudgetSettings => ({
+  ...DEFAULT_USAGE_BUDGET,
+  ...(settings || {}),
+});
+
+/**
+ * Usage as reported by Gemini (`usageMetadata`, generate and live) or mapped
+ * from OpenAI-compatible `usage`. Output defaults to total minus prompt so
+ * thinking tokens, billed as output, are included.
+ */
+export interface TokenUsageCounts {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+  responseTokenCount?: number;
+  totalTokenCount?: number;
+  /** Part of the prompt read from a context cache (billed at a discount). */
+  cachedContentTokenCount?: number;
+}
+
+const count = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : 0);
+
+const listeners = new Set<() => void>();
+let pending: Promise<void> = Promise.resolve();
+
+export const subscribeTokenUsage = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+/** Counts one request; requests without usage are ignored. */
+export const recordTokenUsage = (category: UsageCategory, model: string, usage: TokenUsageCounts | null | undefined) => {
+  if (!usage) return;
+  const inputTokens = count(usage.promptTokenCount);
+  const reportedTotal = count(usage.totalTokenCount);
+  const outputTokens = reportedTotal > 0
+    ? Math.max(0, reportedTotal - inputTokens)
+    : count(usage.candidatesTokenCount) || count(usage.responseTokenCount);
+  const totalTokens = reportedTotal || inputTokens + outputTokens;
+  if (totalTokens === 0) return;
+
+  const increment = {
+    day: toUsageDay(),
+    pairId: getStoreState().settings.selectedLanguagePairId || '',
+    category,
+    model,
+    inputTokens,
+    outputTokens,
+    totalTokens,
+    costUsd: estimateCostUsd(model, inputTokens, outputTokens, count(usage.cachedContentTokenCount)),
+  };
+  // Writes run one at a time so concurrent requests do not overwrite each other's counts.
+  pending = pending
+    .then(() => addUsageDB(increment))
+    .then(() => listeners.forEach(listener => listener()))
+    .catch(e => console.warn('[Usage] Failed to record token usage:', e));
+};
+
+/** First day of the month of `date`, as a usage day. */
+export const monthStartDay = (date: Date = new Date()) => toUsageDay(new Date(date.getFullYear(), date.getMonth(), 1));
+
+const emptyTotals = (): UsageTotals => ({ requests: 0, totalTokens: 0, costUsd: 0 });
+
+const addTo = (totals: UsageTotals, record: UsageRecord) => {
+  totals.requests += record.requests;
+  totals.totalTokens += record.totalTokens;
+  totals.costUsd += record.costUsd;
+};
+
+export const summarizeUsage = (records: UsageRecord[], now: Date = new Date()): UsageSummary => {
+  const today = toUsageDay(now);
+  const monthStart = monthStartDay(now);
+  const summary: UsageSummary = { today: emptyTotals(), month: emptyTotals(), checkedAt: now.getTime() };
+  records.forEach(record => {
+    if (record.day >= monthStart) addTo(summary.month, record);
+    if (record.day === today) addTo(summary.today, record);
+  });
+  return summary;
+};
+
+/** The budget `summary` has reached, daily first; null when within both (or no limits are set). */
+export const findExceededBudget = (summary: UsageSummary, budget: UsageBudgetSettings): UsageBudgetPeriod | null => {
+  if (budget.dailyLimitUsd !== null && summary.today.costUsd >= budget.dailyLimitUsd) return 'daily';
+  if (budget.monthlyLimitUsd !== null && summary.month.costUsd >= budget.monthlyLimitUsd) return 'monthly';
+  return null;
+};
+
+/** This month's records (today is always in the current month). */
+export const loadMonthUsage = (now: Date = new Date()): Promise<UsageRecord[]> => getUsageSinceDB(monthStartDay(now));
@@ -0,0 +1,69 @@
+// Copyright 2025 Roni Tervo
+//
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * Estimated model prices.
+ *
+ * Responsibilities:
+ * - List approximate paid-tier prices (USD per million tokens) of the models the app uses
+ * - Estimate the cost of one request from its token counts, with context-cached
+ *   input at its discounted rate
+ *
+ * These are estimates for budgeting, not billing: prices change, audio and
+ * image tokens are priced as the model's dominant modality, and free-tier
+ * or local models cost nothing. Models without a known price count as free.
+ */
+
+import {
+  AUX_TEXT_MODEL_ID,
+  DEFAULT_TEXT_MODEL_ID,
+  IMAGE_MODEL_ID,
+  LIVE_AUDIO_MODEL_ID,
+  TTS_MODEL_ID,
+} from '../../../core/config/app';
+
+export interface ModelPrice {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+const FLASH_TEXT_PRICE: ModelPrice = { inputPerMillion: 0.5, outputPerMillion: 3 };
+
+// A Map, since the text model ids may be the same model.
+const MODEL_PRICES = new Map<string, ModelPrice>([
+  [DEFAULT_TEXT_MODEL_ID, FLASH_TEXT_PRICE],
+  [AUX_TEXT_MODEL_ID, FLASH_TEXT_PRICE],
+  // Output is image tokens (about 1300 per image).
+  [IMAGE_MODEL_ID, { inputPerMillion: 0.3, outputPerMillion: 30 }],
+  // Output is audio tokens.
+  [TTS_MODEL_ID, { inputPerMillion: 0.5, outputPerMillion: 10 }],
+  // Audio in and out; text turns cost less.
+  [LIVE_AUDIO_MODEL_ID, { inputPerMillion: 3, outputPerMillion: 12 }],
+]);
+
+/** Price of `model`; other Gemini models are priced like Flash, non-Gemini models as free. */
+export const priceForModel = (model: string): ModelPrice | null =>
+  MODEL_PRICES.get(model) ?? (model.startsWith('gemini') ? FLASH_TEXT_PRICE : null);
+
+/** Input read from a context cache is billed at this share of the input price. */
+export const CACHED_INPUT_PRICE_RATIO = 0.1;
+/** Keeping a context cache alive, USD per million cached tokens per hour. */
+export const CACHE_STORAGE_PER_MILLION_HOURLY = 1;
+
+/** `cachedInputTokens` is the part of `inputTokens` served from a context cache. */
+export const estimateCostUsd = (model: string, inputTokens: number, outputTokens: number, cachedInputTokens = 0): number => {
+  const price = priceForModel(model);
+  if (!price) return 0;
+  const cached = Math.min(cachedInputTokens, inputTokens);
+  const input = (inputTokens - cached) + cached * CACHED_INPUT_PRICE_RATIO;
+  return (input * price.inputPerMillion + outputTokens * price.outputPerMillion) / 1_000_000;
+};
+
+export const formatUsd = (value: number): string =>
+  value > 0 && value < 0.01 ? '<$0.01' : `$${value.toFixed(2)}`;
+
+export const formatTokens = (value: number): string => {
+  if (value >= 1_000_000) return `${(value / 1_000_000).toFixed(1)}M`;
+  if (value >= 1_000) return `${(value / 1_000).toFixed(1)}k`;
+  return String(value);
+};
@@ -0,0 +1,185 @@
+// Copyright 2025 Roni Tervo
+//
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * Compressed audio encoding for stored speech.
+ *
+ * Responsibilities:
+ * - Encode 16-bit PCM (live TTS segments, recorded utterances) to Opus in a
+ *   WebM container with WebCodecs `AudioEncoder`
+ * - Fall back to uncompressed WAV when the browser cannot encode Opus or
+ *   cannot play it back, or when encoding fails
+ *
+ * Playback goes through `<audio>` / `decodeAudioData`, which sniff the
+ * container, so WAV clips written by older versions keep working next to
+ * the new WebM ones.
+ */
+
+import { muxOpusWebm, type OpusPacket } from './webm';
+
+export const WAV_MIME_TYPE = 'audio/wav';
+/**
+ * No `codecs=` parameter: stored data URLs are parsed as `data:<type>;base64,`
+ * (`dataUrlToBlob`), and WebM with Opus is what the container sniffing expects.
+ */
+export const OPUS_WEBM_MIME_TYPE = 'audio/webm';
+
+/** Plenty for speech; roughly 1/12 of 24 kHz 16-bit WAV. */
+const OPUS_BITRATE = 32_000;
+/** Frames handed to the encoder per `AudioData`. */
+const ENCODE_SLICE_SECONDS = 1;
+
+export interface EncodedAudio {
+  bytes: Uint8Array;
+  mimeType: string;
+}
+
+const writeAscii = (view: DataView, offset: number, value: string) => {
+  for (let i = 0; i < value.length; i++) {
+    view.setUint8(offset + i, value.charCodeAt(i));
+  }
+};
+
+/** A complete WAV file (44-byte header + little-endian samples). */
+export const pcm16ToWavBytes = (pcm: Int16Array, sampleRate = 24000, numChannels = 1): Uint8Array => {
+  const buffer = new ArrayBuffer(44 + pcm.byteLength);
+  const view = new DataView(buffer);
+
+  writeAscii(view, 0, 'RIFF');
+  view.setUint32(4, 36 + pcm.byteLength, true);
+  writeAscii(view, 8, 'WAVE');
+
+  writeAscii(view, 12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * numChannels * 2, true);
+  view.setUint16(32, numChannels * 2, true);
+  view.setUint16(34, 16, true);
+
+  writeAscii(view, 36, 'data');
+  view.setUint32(40, pcm.byteLength, true);
+
+  const bytes = new Uint8Array(buffer);
+  bytes.set(new Uint8Array(pcm.buffer, pcm.byteOffset, pcm.byteLength), 44);
+  return bytes;
+};
+
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  const len = bytes.byteLength;
+  const chunkSize = 0x8000;
+  for (let i = 0; i < len; i += chunkSize) {
+    binary += String.fromCharCode.apply(null, bytes.subarray(i, Math.min(i + chunkSize, len)) as unknown as number[]);
+  }
+  return btoa(binary);
+};
+
+export const encodedAudioToDataUrl = (audio: EncodedAudio): string =>
+  `data:${audio.mimeType};base64,${bytesToBase64(audio.bytes)}`;
+
+const canPlayOpusWebm = (): boolean => {
+  if (typeof document === 'undefined') return false;
+  try {
+    return document.createElement('audio').canPlayType('audio/webm; codecs="opus"') !== '';
+  } catch {
+    return false;
+  }
+};
+
+const opusConfig = (sampleRate: number, numberOfChannels: number): AudioEncoderConfig => ({
+  codec: 'opus',
+  sampleRate,
+  numberOfChannels,
+  bitrate: OPUS_BITRATE,
+});
+
+const supportMemo = new Map<string, Promise<boolean>>();
+
+/** Whether this browser can both encode and play Opus/WebM for the given input format. */
+export const isOpusEncodingSupported = (sampleRate: number, numberOfChannels = 1): Promise<boolean> => {
+  const memoKey = `${sampleRate}:${numberOfChannels}`;
+  let result = supportMemo.get(memoKey);
+  if (!result) {
+    result = (async () => {
+      if (typeof AudioEncoder === 'undefined' || typeof AudioData === 'undefined') return false;
+      if (!canPlayOpusWebm()) return false;
+      try {
+        const support = await AudioEncoder.isConfigSupported(opusConfig(sampleRate, numberOfChannels));
+        return !!support.supported;
+      } catch {
+        return false;
+      }
+    })();
+    supportMemo.set(memoKey, result);
+  }
+  return result;
+};
+
+const encodeOpusWebm = async (pcm: Int16Array, sampleRate: number, numberOfChannels: number): Promise<Uint8Array> => {
+  const packets: OpusPacket[] = [];
+  let codecPrivate: Uint8Array | undefined;
+  let failure: unknown = null;
+
+  const encoder = new AudioEncoder({
+    output: (chunk, metadata) => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      packets.push({ data, timestampUs: chunk.timestamp, durationUs: chunk.duration ?? undefined });
+      const description = metadata?.decoderConfig?.description;
+      if (description && !codecPrivate) {
+        codecPrivate = ArrayBuffer.isView(description)
+          ? new Uint8Array(description.buffer, description.byteOffset, description.byteLength).slice()
+          : new Uint8Array(description).slice();
+      }
+    },
+    error: (e) => { failure = e; },
+  });
+
+  try {
+    encoder.configure(opusConfig(sampleRate, numberOfChannels));
+    const sliceSamples = sampleRate * ENCODE_SLICE_SECONDS * numberOfChannels;
+    for (let offset = 0; offset < pcm.length; offset += sliceSamples) {
+      const slice = pcm.slice(offset, Math.min(offset + sliceSamples, pcm.length));
+      const audioData = new AudioData({
+        format: 's16',
+        sampleRate,
+        numberOfChannels,
+        numberOfFrames: Math.floor(slice.length / numberOfChannels),
+        timestamp: Math.round((offset / numberOfChannels / sampleRate) * 1_000_000),
+        data: slice,
+      });
+      encoder.encode(audioData);
+      audioData.close();
+    }
+    await encoder.flush();
+  } finally {
+    if (encoder.state !== 'closed') encoder.close();
+  }
+  if (failure) throw failure;
+  if (packets.length === 0) throw new Error('Opus encoder produced no output');
+
+  packets.sort((a, b) => a.timestampUs - b.timestampUs);
+  const blob = muxOpusWebm({ packets, inputSampleRate: sampleRate, numberOfChannels, codecPrivate });
+  return new Uint8Array(await blob.arrayBuffer());
+};
+
+/**
+ * Encodes 16-bit PCM for storage: Opus/WebM when supported, WAV otherwise.
+ * Never rejects; any encoder problem falls back to WAV.
+ */
+export const encodePcm16 = async (pcm: Int16Array, sampleRate = 24000, numberOfChannels = 1): Promise<EncodedAudio> => {
+  if (pcm.length > 0 && await isOpusEncodingSupported(sampleRate, numberOfChannels)) {
+    try {
+      return { bytes: await encodeOpusWebm(pcm, sampleRate, numberOfChannels), mimeType: OPUS_WEBM_MIME_TYPE };
+    } catch (e) {
+      console.warn('[AudioEncoding] Opus encoding failed, storing WAV:', e);
+    }
+  }
+  return { bytes: pcm16ToWavBytes(pcm, sampleRate, numberOfChannels), mimeType: WAV_MIME_TYPE };
+};
+
+/** `encodePcm16` as a data URL, the form messages and the TTS cache store. */
+export const encodePcm16ToDataUrl = async (pcm: Int16Array, sampleRate = 24000, numberOfChannels = 1): Promise<string> =>
+  encodedAudioToDataUrl(await encodePcm16(pcm, sampleRate, numberOfChannels));
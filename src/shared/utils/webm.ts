@@ -0,0 +1,209 @@
+// Copyright 2025 Roni Tervo
+//
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * Minimal WebM writer for a single Opus audio track.
+ *
+ * Responsibilities:
+ * - Wrap encoded Opus packets (e.g. from WebCodecs `AudioEncoder`) in a
+ *   WebM (Matroska) container that `<audio>` elements can play
+ * - Write every element with its exact size: the whole clip is known up
+ *   front, so there is no live/unknown-size mode and no Cues
+ *
+ * Blocks are grouped into clusters of at most 30 s because a block's
+ * timecode is a signed 16-bit offset (ms) from its cluster.
+ */
+
+export interface OpusPacket {
+  data: Uint8Array;
+  /** Presentation time in microseconds. */
+  timestampUs: number;
+  /** Packet duration in microseconds, if the encoder reported it. */
+  durationUs?: number;
+}
+
+export interface OpusWebmInput {
+  packets: OpusPacket[];
+  /** Sample rate of the PCM that was encoded; stored in the OpusHead. */
+  inputSampleRate: number;
+  numberOfChannels: number;
+  /** `OpusHead` from the encoder's decoder config; built when missing. */
+  codecPrivate?: Uint8Array;
+}
+
+const EBML = 0x1a45dfa3;
+const EBML_VERSION = 0x4286;
+const EBML_READ_VERSION = 0x42f7;
+const EBML_MAX_ID_LENGTH = 0x42f2;
+const EBML_MAX_SIZE_LENGTH = 0x42f3;
+const DOC_TYPE = 0x4282;
+const DOC_TYPE_VERSION = 0x4287;
+const DOC_TYPE_READ_VERSION = 0x4285;
+const SEGMENT = 0x18538067;
+const INFO = 0x1549a966;
+const TIMECODE_SCALE = 0x2ad7b1;
+const MUXING_APP = 0x4d80;
+const WRITING_APP = 0x5741;
+const DURATION = 0x4489;
+const TRACKS = 0x1654ae6b;
+const TRACK_ENTRY = 0xae;
+const TRACK_NUMBER = 0xd7;
+const TRACK_UID = 0x73c5;
+const TRACK_TYPE = 0x83;
+const CODEC_ID = 0x86;
+const CODEC_PRIVATE = 0x63a2;
+const SEEK_PRE_ROLL = 0x56bb;
+const AUDIO = 0xe1;
+const SAMPLING_FREQUENCY = 0xb5;
+const CHANNELS = 0x9f;
+const CLUSTER = 0x1f43b675;
+const CLUSTER_TIMECODE = 0xe7;
+const SIMPLE_BLOCK = 0xa3;
+
+const TRACK_TYPE_AUDIO = 2;
+/** Opus always decodes at 48 kHz, whatever the input rate was. */
+const OPUS_OUTPUT_RATE = 48000;
+const OPUS_SEEK_PRE_ROLL_NS = 80_000_000;
+const MAX_CLUSTER_SPAN_MS = 30_000;
+
+const textEncoder = new TextEncoder();
+
+type Part = Uint8Array;
+
+const concat = (parts: Part[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.byteLength, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    out.set(part, offset);
+    offset += part.byteLength;
+  });
+  return out;
+};
+
+/** Big-endian bytes of a non-negative integer, at least one byte. */
+const uintBytes = (value: number): Uint8Array => {
+  const bytes: number[] = [];
+  let rest = Math.floor(value);
+  do {
+    bytes.unshift(rest % 256);
+    rest = Math.floor(rest / 256);
+  } while (rest > 0);
+  return Uint8Array.from(bytes);
+};
+
+/** EBML variable-length size: the shortest length whose all-ones value stays reserved. */
+const sizeBytes = (size: number): Uint8Array => {
+  for (let length = 1; length <= 8; length++) {
+    if (size < 2 ** (7 * length) - 1) {
+      const bytes = new Uint8Array(length);
+      let rest = size;
+      for (let i = length - 1; i >= 0; i--) {
+        bytes[i] = rest % 256;
+        rest = Math.floor(rest / 256);
+      }
+      bytes[0] |= 1 << (8 - length);
+      return bytes;
+    }
+  }
+  throw new Error('WebM element too large');
+};
+
+const element = (id: number, payload: Part | Part[]): Uint8Array => {
+  const body = Array.isArray(payload) ? concat(payload) : payload;
+  return concat([uintBytes(id), sizeBytes(body.byteLength), body]);
+};
+
+const uintElement = (id: number, value: number) => element(id, uintBytes(value));
+
+const stringElement = (id: number, value: string) => element(id, textEncoder.encode(value));
+
+const floatElement = (id: number, value: number) => {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setFloat64(0, value);
+  return element(id, bytes);
+};
+
+/** RFC 7845 identification header, mapping family 0 (mono/stereo). */
+export const buildOpusHead = (numberOfChannels: number, inputSampleRate: number, preSkip = 0): Uint8Array => {
+  const head = new Uint8Array(19);
+  head.set(textEncoder.encode('OpusHead'), 0);
+  const view = new DataView(head.buffer);
+  view.setUint8(8, 1);
+  view.setUint8(9, numberOfChannels);
+  view.setUint16(10, preSkip, true);
+  view.setUint32(12, inputSampleRate, true);
+  view.setInt16(16, 0, true);
+  view.setUint8(18, 0);
+  return head;
+};
+
+const simpleBlock = (packet: OpusPacket, relativeMs: number): Uint8Array => {
+  const header = new Uint8Array(4);
+  header[0] = 0x81; // track number 1 as a one-byte vint
+  new DataView(header.buffer).setInt16(1, relativeMs);
+  header[3] = 0x80; // keyframe: every Opus packet decodes on its own
+  return element(SIMPLE_BLOCK, [header, packet.data]);
+};
+
+/** Builds a complete `.webm` file from Opus packets in presentation order. */
+export const muxOpusWebm = (input: OpusWebmInput): Blob => {
+  const { packets, inputSampleRate, numberOfChannels } = input;
+  const codecPrivate = input.codecPrivate?.byteLength
+    ? input.codecPrivate
+    : buildOpusHead(numberOfChannels, inputSampleRate);
+
+  const header = element(EBML, [
+    uintElement(EBML_VERSION, 1),
+    uintElement(EBML_READ_VERSION, 1),
+    uintElement(EBML_MAX_ID_LENGTH, 4),
+    uintElement(EBML_MAX_SIZE_LENGTH, 8),
+    stringElement(DOC_TYPE, 'webm'),
+    uintElement(DOC_TYPE_VERSION, 4),
+    uintElement(DOC_TYPE_READ_VERSION, 2),
+  ]);
+
+  const last = packets[packets.length - 1];
+  const durationMs = last ? (last.timestampUs + (last.durationUs ?? 20_000)) / 1000 : 0;
+  const info = element(INFO, [
+    uintElement(TIMECODE_SCALE, 1_000_000),
+    stringElement(MUXING_APP, 'Maestro'),
+    stringElement(WRITING_APP, 'Maestro'),
+    floatElement(DURATION, durationMs),
+  ]);
+
+  const tracks = element(TRACKS, element(TRACK_ENTRY, [
+    uintElement(TRACK_NUMBER, 1),
+    uintElement(TRACK_UID, 1),
+    uintElement(TRACK_TYPE, TRACK_TYPE_AUDIO),
+    stringElement(CODEC_ID, 'A_OPUS'),
+    element(CODEC_PRIVATE, codecPrivate),
+    uintElement(SEEK_PRE_ROLL, OPUS_SEEK_PRE_ROLL_NS),
+    element(AUDIO, [
+      floatElement(SAMPLING_FREQUENCY, OPUS_OUTPUT_RATE),
+      uintElement(CHANNELS, numberOfChannels),
+    ]),
+  ]));
+
+  const clusters: Uint8Array[] = [];
+  let clusterStartMs = 0;
+  let blocks: Uint8Array[] = [];
+  const closeCluster = () => {
+    if (blocks.length === 0) return;
+    clusters.push(element(CLUSTER, [uintElement(CLUSTER_TIMECODE, clusterStartMs), ...blocks]));
+    blocks = [];
+  };
+  packets.forEach(packet => {
+    const timeMs = Math.max(0, Math.round(packet.timestampUs / 1000));
+    if (blocks.length === 0) {
+      clusterStartMs = timeMs;
+    } else if (timeMs - clusterStartMs > MAX_CLUSTER_SPAN_MS) {
+      closeCluster();
+      clusterStartMs = timeMs;
+    }
+    blocks.push(simpleBlock(packet, timeMs - clusterStartMs));
+  });
+  closeCluster();
+
+  const segment = element(SEGMENT, [info, tracks, ...clusters]);
+  return new Blob([header as BlobPart, segment as BlobPart], { type: 'audio/webm' });
+};
@@ -0,0 +1,207 @@
+// Copyright 2025 Roni Tervo
+//
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * Minimal ZIP reader/writer built on Blobs.
+ *
+ * Responsibilities:
+ * - Write uncompressed (STORE) archives entry by entry; entry data stays as
+ *   Blob parts, so large media never has to exist as one string in memory
+ * - Read archives lazily via `Blob.slice`, one entry at a time
+ * - Inflate DEFLATE entries (archives re-packed by desktop tools) when the
+ *   browser provides `DecompressionStream`
+ *
+ * No ZIP64: archives and entries are limited to 4 GiB.
+ */
+
+const LOCAL_HEADER_SIG = 0x04034b50;
+const CENTRAL_HEADER_SIG = 0x02014b50;
+const END_OF_CENTRAL_DIR_SIG = 0x06054b50;
+const UTF8_FLAG = 0x0800;
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+const CRC_CHUNK_BYTES = 1 << 20;
+const MAX_UINT32 = 0xffffffff;
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+let crcTable: Uint32Array | null = null;
+const getCrcTable = (): Uint32Array => {
+  if (crcTable) return crcTable;
+  crcTable = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = (c & 1) ? (0xedb88320 ^ (c >>> 1)) : (c >>> 1);
+    crcTable[n] = c >>> 0;
+  }
+  return crcTable;
+};
+
+const updateCrc32 = (crc: number, bytes: Uint8Array): number => {
+  const table = getCrcTable();
+  let c = crc ^ MAX_UINT32;
+  for (let i = 0; i < bytes.length; i++) c = table[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+  return (c ^ MAX_UINT32) >>> 0;
+};
+
+/** CRC-32 of a Blob, read in 1 MiB chunks. */
+export const crc32OfBlob = async (blob: Blob): Promise<number> => {
+  let crc = 0;
+  for (let offset = 0; offset < blob.size; offset += CRC_CHUNK_BYTES) {
+    const chunk = new Uint8Array(await blob.slice(offset, offset + CRC_CHUNK_BYTES).arrayBuffer());
+    crc = updateCrc32(crc, chunk);
+  }
+  return crc;
+};
+
+const toDosDateTime = (date: Date): { time: number; date: number } => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: (Math.max(0, date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+// ============================================================
+// WRITER
+// ============================================================
+
+export interface ZipWriter {
+  /** Appends a file. Names use forward slashes; duplicates are rejected. */
+  add: (name: string, data: Blob | string) => Promise<void>;
+  has: (name: string) => boolean;
+  /** Returns the archive. The writer must not be used afterwards. */
+  finish: (mimeType?: string) => Blob;
+}
+
+export const createZipWriter = (): ZipWriter => {
+  const parts: BlobPart[] = [];
+  const central: ArrayBuffer[] = [];
+  const names = new Set<string>();
+  let offset = 0;
+  const stamp = toDosDateTime(new Date());
+
+  const add = async (name: string, data: Blob | string) => {
+    if (names.has(name)) throw new Error(`Duplicate zip entry: ${name}`);
+    const blob = typeof data === 'string' ? new Blob([data]) : data;
+    if (blob.size > MAX_UINT32 || offset > MAX_UINT32) throw new Error('Archive too large (ZIP64 is not supported)');
+    const nameBytes = new Uint8Array(textEncoder.encode(name));
+    const crc = await crc32OfBlob(blob);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, LOCAL_HEADER_SIG, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(6, UTF8_FLAG, true);
+    local.setUint16(8, METHOD_STORE, true);
+    local.setUint16(10, stamp.time, true);
+    local.setUint16(12, stamp.date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, blob.size, true);
+    local.setUint32(22, blob.size, true);
+    local.setUint16(26, nameBytes.length, true);
+    local.setUint16(28, 0, true);
+
+    const entry = new DataView(new ArrayBuffer(46 + nameBytes.length));
+    entry.setUint32(0, CENTRAL_HEADER_SIG, true);
+    entry.setUint16(4, 20, true);
+    entry.setUint16(6, 20, true);
+    entry.setUint16(8, UTF8_FLAG, true);
+    entry.setUint16(10, METHOD_STORE, true);
+    entry.setUint16(12, stamp.time, true);
+    entry.setUint16(14, stamp.date, true);
+    entry.setUint32(16, crc, true);
+    entry.setUint32(20, blob.size, true);
+    entry.setUint32(24, blob.size, true);
+    entry.setUint16(28, nameBytes.length, true);
+    entry.setUint32(42, offset, true);
+    new Uint8Array(entry.buffer).set(nameBytes, 46);
+
+    parts.push(local.buffer, nameBytes, blob);
+    central.push(entry.buffer);
+    names.add(name);
+    offset += 30 + nameBytes.length + blob.size;
+  };
+
+  const finish = (mimeType = 'application/zip'): Blob => {
+    if (central.length > 0xffff) throw new Error('Too many zip entries (ZIP64 is not supported)');
+    const centralSize = central.reduce((sum, c) => sum + c.byteLength, 0);
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, END_OF_CENTRAL_DIR_SIG, true);
+    end.setUint16(8, central.length, true);
+    end.setUint16(10, central.length, true);
+    end.setUint32(12, centralSize, true);
+    end.setUint32(16, offset, true);
+    return new Blob([...parts, ...central, end.buffer], { type: mimeType });
+  };
+
+  return { add, has: (name) => names.has(name), finish };
+};
+
+// ============================================================
+// READER
+// ============================================================
+
+export interface ZipEntry {
+  name: string;
+  size: number;
+  blob: () => Promise<Blob>;
+  text: () => Promise<string>;
+}
+
+const readBytes = async (file: Blob, start: number, end: number): Promise<DataView> =>
+  new DataView(await file.slice(start, end).arrayBuffer());
+
+const inflateRaw = async (data: Blob): Promise<Blob> => {
+  if (typeof DecompressionStream === 'undefined') {
+    throw new Error('Compressed zip entries are not supported on this device');
+  }
+  const stream = data.stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).blob();
+};
+
+/** True when the Blob starts with a ZIP local file header. */
+export const isZipBlob = async (file: Blob): Promise<boolean> => {
+  if (file.size < 4) return false;
+  return (await readBytes(file, 0, 4)).getUint32(0, true) === LOCAL_HEADER_SIG;
+};
+
+/** Reads the central directory; entry contents are only read when requested. */
+export const readZip = async (file: Blob): Promise<Map<string, ZipEntry>> => {
+  const tailStart = Math.max(0, file.size - (22 + 0xffff));
+  const tail = await readBytes(file, tailStart, file.size);
+  let eocd = -1;
+  for (let i = tail.byteLength - 22; i >= 0; i--) {
+    if (tail.getUint32(i, true) === END_OF_CENTRAL_DIR_SIG) { eocd = i; break; }
+  }
+  if (eocd < 0) throw new Error('Not a zip archive');
+  const count = tail.getUint16(eocd + 10, true);
+  const centralSize = tail.getUint32(eocd + 12, true);
+  const centralOffset = tail.getUint32(eocd + 16, true);
+  const dir = await readBytes(file, centralOffset, centralOffset + centralSize);
+
+  const entries = new Map<string, ZipEntry>();
+  let p = 0;
+  for (let i = 0; i < count; i++) {
+    if (dir.getUint32(p, true) !== CENTRAL_HEADER_SIG) throw new Error('Corrupt zip central directory');
+    const method = dir.getUint16(p + 10, true);
+    const compressedSize = dir.getUint32(p + 20, true);
+    const size = dir.getUint32(p + 24, true);
+    const nameLength = dir.getUint16(p + 28, true);
+    const extraLength = dir.getUint16(p + 30, true);
+    const commentLength = dir.getUint16(p + 32, true);
+    const localOffset = dir.getUint32(p + 42, true);
+    const name = textDecoder.decode(new Uint8Array(dir.buffer, dir.byteOffset + p + 46, nameLength));
+    p += 46 + nameLength + extraLength + commentLength;
+    if (name.endsWith('/')) continue;
+
+    const blob = async (): Promise<Blob> => {
+      const local = await readBytes(file, localOffset, localOffset + 30);
+      if (local.getUint32(0, true) !== LOCAL_HEADER_SIG) throw new Error(`Corrupt zip entry: ${name}`);
+      const dataStart = localOffset + 30 + local.getUint16(26, true) + local.getUint16(28, true);
+      const data = file.slice(dataStart, dataStart + compressedSize);
+      if (method === METHOD_STORE) return data;
+      if (method === METHOD_DEFLATE) return inflateRaw(data);
+      throw new Error(`Unsupported zip compression method ${method} for ${name}`);
+    };
+    entries.set(name, { name, size, blob, text: async () => (await blob()).text() });
+  }
+  return entries;
+};
@@ -20,6 +20,7 @@ export {
 export {
   selectSettings,
   selectSelectedLanguagePair,
+  selectActiveThreadId,
   selectCurrentSystemPromptText,
   selectCurrentReplySuggestionsPromptText,
   selectTargetLanguageDef,
@@ -28,6 +29,7 @@ export {
 
 export {
   selectMessages,
+  selectThreads,
   selectReplySuggestions,
   selectSendPrep,
   selectLatestGroundingChunks,
@@ -43,6 +45,8 @@ export {
   selectSpeakingUtteranceText,
 } from './slices/speechSlice';
 
+export { selectExpensiveFeaturesBlocked } from './slices/usageSlice';
+
 export type {
   MaestroStore,
   SettingsSlice,
@@ -55,4 +59,20 @@ export type {
   LiveSessionState,
   UiSlice,
   DiagnosticsSlice,
+  StorageSlice,
+  StorageStatus,
+  StorageLevel,
+  SearchSlice,
+  MessageJumpTarget,
+  SyncSlice,
+  SyncStatus,
+  SyncPhase,
+  UndoSlice,
+  UndoEntry,
+  UndoToast,
+  ModelsSlice,
+  UsageSlice,
+  UsageSummary,
+  UsageTotals,
+  UsageBudgetPeriod,
 } from './maestroStore';
@@ -26,6 +26,12 @@ import { createReengagementSlice, type ReengagementSlice } from './slices/reenga
 import { createLiveSessionSlice, type LiveSessionSlice } from './slices/liveSessionSlice';
 import { createUiSlice, type UiSlice } from './slices/uiSlice';
 import { createDiagnosticsSlice, type DiagnosticsSlice } from './slices/diagnosticsSlice';
+import { createStorageSlice, type StorageSlice } from './slices/storageSlice';
+import { createSearchSlice, type SearchSlice } from './slices/searchSlice';
+import { createSyncSlice, type SyncSlice } from './slices/syncSlice';
+import { createUndoSlice, type UndoSlice } from './slices/undoSlice';
+import { createModelsSlice, type ModelsSlice } from './slices/modelsSlice';
+import { createUsageSlice, type UsageSlice } from './slices/usageSlice';
 
 /**
  * Combined store type - intersection of all slices
@@ -38,7 +44,13 @@ export type MaestroStore =
   ReengagementSlice & 
   LiveSessionSlice & 
   UiSlice & 
-  DiagnosticsSlice;
+  DiagnosticsSlice & 
+  StorageSlice & 
+  SearchSlice & 
+  SyncSlice & 
+  UndoSlice & 
+  ModelsSlice & 
+  UsageSlice;
 
 /**
  * Create the Zustand store with all slices combined
@@ -57,6 +69,12 @@ export const useMaestroStore = create<MaestroStore>()(
         ...createLiveSessionSlice(...a),
         ...createUiSlice(...a),
         ...createDiagnosticsSlice(...a),
+        ...createStorageSlice(...a),
+        ...createSearchSlice(...a),
+        ...createSyncSlice(...a),
+        ...createUndoSlice(...a),
+        ...createModelsSlice(...a),
+        ...createUsageSlice(...a),
       }),
       {
         name: 'MaestroStore',
@@ -86,6 +104,12 @@ export type { ReengagementSlice, ReengagementPhase } from './slices/reengagement
 export type { LiveSessionSlice, LiveSessionState } from './slices/liveSessionSlice';
 export type { UiSlice } from './slices/uiSlice';
 export type { DiagnosticsSlice } from './slices/diagnosticsSlice';
+export type { StorageSlice, StorageStatus, StorageLevel } from './slices/storageSlice';
+export type { SearchSlice, MessageJumpTarget } from './slices/searchSlice';
+export type { SyncSlice, SyncStatus, SyncPhase } from './slices/syncSlice';
+export type { UndoSlice, UndoEntry, UndoToast } from './slices/undoSlice';
+export type { ModelsSlice } from './slices/modelsSlice';
+export type { UsageSlice, UsageSummary, UsageTotals, UsageBudgetPeriod } from './slices/usageSlice';
 
 // Re-export initialSettings and constants
 export { initialSettings, MAX_VISIBLE_MESSAGES_DEFAULT, allGeneratedLanguagePairs, DEFAULT_LANGUAGE_PAIR_ID } from './slices/settingsSlice';
@@ -7,30 +7,43 @@
  * - Messages array and CRUD operations
  * - Reply suggestions state
  * - Loading states for history (suggestions tracked via tokens)
- * - TTS cache management for messages
  * - History persistence via chatHistory services
+ * - Conversation threads of the selected language pair
  * 
  * Note: Activity state (isSending, isLoadingSuggestions, isCreatingSuggestion) is now
  * managed via activity tokens in uiSlice. Use selectIsSending and related selectors.
  */
 
 import type { StateCreator } from 'zustand';
-import type { ChatMessage, ReplySuggestion, TtsAudioCacheEntry, GroundingChunk } from '../../core/types';
+import type { ChatMessage, ChatThread, ReplySuggestion, GroundingChunk } from '../../core/types';
 import { 
-  getChatHistoryDB, 
+  getChatHistoryPageDB,
+  getOlderChatHistoryDB,
+  HISTORY_PAGE_SIZE,
   safeSaveChatHistoryDB, 
-  getChatMetaDB
+  setHistoryWritesBlocked,
+  getChatMetaDB,
+  setChatMetaDB,
+  getThreadsForPairDB,
+  saveThreadDB,
+  deleteThreadDB,
+  createThreadId,
+  isDefaultThread,
 } from '../../features/chat';
-import { upsertTtsCacheEntries } from '../../features/chat';
 import { isRealChatMessage } from '../../shared/utils/common';
+import { broadcastTabMessage } from '../../core/tabs/tabCoordination';
 import type { MaestroStore } from '../maestroStore';
-
-import { INLINE_CAP_AUDIO } from '../../features/chat/utils/persistence';
+import { selectActiveThreadId } from './settingsSlice';
 
 export interface ChatSlice {
   // State
   messages: ChatMessage[];
   isLoadingHistory: boolean;
+  hasOlderMessages: boolean;
+  isLoadingOlderMessages: boolean;
+  /** Another tab holds the writer lock of this pair: nothing here is saved and sending is blocked. */
+  isReadOnlyTab: boolean;
+  threads: ChatThread[];
   replySuggestions: ReplySuggestion[];
   lastFetchedSuggestionsFor: string | null;
   sendPrep: { active: boolean; label: string; done?: number; total?: number; etaMs?: number } | null;
@@ -40,10 +53,28 @@ export interface ChatSlice {
   attachedImageMimeType: string | null;
   
   // Actions
-  loadHistoryForPair: (pairId: string, t: (key: string) => string) => Promise<void>;
+  loadHistoryForPair: (pairId: string, t: (key: string) => string, threadId?: string) => Promise<void>;
+  loadOlderMessages: () => Promise<number>;
+  reloadActiveThread: () => Promise<void>;
+  setIsReadOnlyTab: (value: boolean) => void;
+  /** Pauses history saves (see `useChatPersistence`) while the DB is replaced underneath. */
+  setIsLoadingHistory: (value: boolean) => void;
+  loadThreadsForPair: (pairId: string) => Promise<void>;
+  selectThread: (threadId: string) => Promise<void>;
+  createThread: (name: string) => Promise<string | null>;
+  renameThread: (threadId: string, name: string) => Promise<void>;
+  setThreadArchived: (threadId: string, archived: boolean) => Promise<void>;
+  deleteThread: (threadId: string) => Promise<void>;
   addMessage: (message: Omit<ChatMessage, 'id' | 'timestamp'>) => string;
   updateMessage: (messageId: string, updates: Partial<ChatMessage>) => void;
+  /** Removes a message on the user's behalf; undoable. */
   deleteMessage: (messageId: string) => void;
+  /** Applies a user edit (e.g. a bookmark summary) to a message; undoable, unlike `updateMessage`. */
+  editMessage: (messageId: string, updates: Partial<ChatMessage>) => void;
+  /** Moves the history bookmark of the active thread and persists it; undoable. */
+  setHistoryBookmark: (messageId: string | null) => void;
+  /** Drops a reply suggestion from the list and from the message that carries it; undoable. */
+  removeReplySuggestion: (suggestion: ReplySuggestion) => void;
   setMessages: (messages: ChatMessage[] | ((prev: ChatMessage[]) => ChatMessage[])) => void;
   setReplySuggestions: (suggestions: ReplySuggestion[] | ((prev: ReplySuggestion[]) => ReplySuggestion[])) => void;
   setLastFetchedSuggestionsFor: (messageId: string | null) => void;
@@ -51,8 +82,6 @@ export interface ChatSlice {
   setLatestGroundingChunks: (chunks: GroundingChunk[] | undefined) => void;
   addImageLoadDuration: (duration: number) => void;
   setAttachedImage: (base64: string | null, mimeType: string | null) => void;
-  upsertMessageTtsCache: (messageId: string, entry: TtsAudioCacheEntry) => void;
-  upsertSuggestionTtsCache: (messageId: string, suggestionIndex: number, entry: TtsAudioCacheEntry) => void;
   
   // Utilities
   trimHistoryByBookmark: (arr: ChatMessage[]) => ChatMessage[];
@@ -67,6 +96,8 @@ export interface ChatSlice {
 
 export const selectMessages = (state: Pick<ChatSlice, 'messages'>) => state.messages;
 
+export const selectThreads = (state: Pick<ChatSlice, 'threads'>) => state.threads;
+
 export const selectReplySuggestions = (state: Pick<ChatSlice, 'replySuggestions'>) => state.replySuggestions;
 
 export const selectSendPrep = (state: Pick<ChatSlice, 'sendPrep'>) => state.sendPrep;
@@ -95,6 +126,10 @@ export const createChatSlice: StateCreator<
   // Initial state
   messages: [],
   isLoadingHistory: true,
+  hasOlderMessages: false,
+  isLoadingOlderMessages: false,
+  isReadOnlyTab: false,
+  threads: [],
   replySuggestions: [],
   lastFetchedSuggestionsFor: null,
   sendPrep: null,
@@ -104,14 +139,30 @@ export const createChatSlice: StateCreator<
   attachedImageMimeType: null,
   
   // Actions
-  loadHistoryForPair: async (pairId: string, t: (key: string) => string) => {
-    set({ isLoadingHistory: true, messages: [], replySuggestions: [] });
+  loadHistoryForPair: async (pairId: string, t: (key: string) => string, threadId?: string) => {
+    set({ isLoadingHistory: true, messages: [], replySuggestions: [], hasOlderMessages: false });
+    const historyKey = threadId || get().settings.selectedThreadIds?.[pairId] || pairId;
     
     try {
-      const history = await getChatHistoryDB(pairId);
+      const page = await getChatHistoryPageDB(historyKey);
+      let history = page.messages;
+      let hasOlderMessages = page.hasMore;
+      let meta: Awaited<ReturnType<typeof getChatMetaDB>> = null;
+      try { meta = await getChatMetaDB(historyKey); } catch { /* ignore meta load errors */ }
+
+      // Keep paging back until the bookmarked message is in memory, since trimming
+      // and the "hidden above" view both depend on finding it.
+      const bookmarkId = meta?.bookmarkMessageId;
+      let guard = 0;
+      while (bookmarkId && hasOlderMessages && !history.some(m => m.id === bookmarkId) && guard++ < 50) {
+        const older = await getOlderChatHistoryDB(historyKey);
+        history = [...older.messages, ...history];
+        hasOlderMessages = older.hasMore;
+      }
       
-      // Clean up interrupted states
-      const cleanedHistory = (history || []).map(msg => {
+      // Clean up interrupted states. A read-only tab leaves them alone: the writer
+      // tab may still be generating those messages.
+      const cleanedHistory = get().isReadOnlyTab ? history : (history || []).map(msg => {
         if (msg.isGeneratingImage || msg.thinking) {
           const newMsg = { ...msg };
           if (newMsg.isGeneratingImage) {
@@ -131,20 +182,10 @@ export const createChatSlice: StateCreator<
       });
       
       const wasCleaned = (history || []).length > 0 && JSON.stringify(history) !== JSON.stringify(cleanedHistory);
-      set({ messages: cleanedHistory });
-      if (wasCleaned) await safeSaveChatHistoryDB(pairId, cleanedHistory);
+      set({ messages: cleanedHistory, hasOlderMessages });
+      if (wasCleaned) await safeSaveChatHistoryDB(historyKey, cleanedHistory);
       
-      // Load chat meta for bookmark
-      try {
-        const meta = await getChatMetaDB(pairId);
-        if (meta && meta.bookmarkMessageId) {
-          get().updateSetting('historyBookmarkMessageId', meta.bookmarkMessageId);
-        } else {
-          get().updateSetting('historyBookmarkMessageId', null);
-        }
-      } catch (e) {
-        // Ignore meta load errors
-      }
+      get().updateSetting('historyBookmarkMessageId', bookmarkId || null);
     } catch (error) {
       console.error("Failed to load history from IndexedDB", error);
       set({ messages: [] });
@@ -152,6 +193,127 @@ export const createChatSlice: StateCreator<
       set({ isLoadingHistory: false });
     }
   },
+
+  loadOlderMessages: async () => {
+    const state = get();
+    const threadId = selectActiveThreadId(state);
+    if (!threadId || state.isLoadingHistory || state.isLoadingOlderMessages || !state.hasOlderMessages) return 0;
+    set({ isLoadingOlderMessages: true });
+    try {
+      const older = await getOlderChatHistoryDB(threadId);
+      if (selectActiveThreadId(get()) !== threadId) return 0;
+      set(s => ({ messages: [...older.messages, ...s.messages], hasOlderMessages: older.hasMore }));
+      return older.messages.length;
+    } catch (error) {
+      console.error("Failed to load older history from IndexedDB", error);
+      return 0;
+    } finally {
+      set({ isLoadingOlderMessages: false });
+    }
+  },
+
+  // Re-reads the open thread after another writer (sync) changed it in the DB,
+  // keeping at least as many messages loaded as before.
+  reloadActiveThread: async () => {
+    const state = get();
+    const threadId = selectActiveThreadId(state);
+    if (!threadId || state.isLoadingHistory) return;
+    try {
+      const page = await getChatHistoryPageDB(threadId, Math.max(HISTORY_PAGE_SIZE, state.messages.length));
+      if (selectActiveThreadId(get()) !== threadId) return;
+      set({ messages: page.messages, hasOlderMessages: page.hasMore });
+    } catch (error) {
+      console.error("Failed to reload history from IndexedDB", error);
+    }
+  },
+
+  setIsReadOnlyTab: (value: boolean) => {
+    setHistoryWritesBlocked(value);
+    set({ isReadOnlyTab: value });
+  },
+
+  setIsLoadingHistory: (value: boolean) => {
+    set({ isLoadingHistory: value });
+  },
+
+  loadThreadsForPair: async (pairId: string) => {
+    try {
+      const threads = await getThreadsForPairDB(pairId);
+      if (get().settings.selectedLanguagePairId !== pairId) return;
+      set({ threads });
+      // The open thread is gone (deleted in another tab, or missing from a replacing import):
+      // fall back to the default thread, whose history the thread id change reloads.
+      const selected = get().settings.selectedThreadIds || {};
+      if (selected[pairId] && !threads.some(th => th.id === selected[pairId])) {
+        const nextSelected = { ...selected };
+        delete nextSelected[pairId];
+        get().updateSetting('selectedThreadIds', nextSelected);
+      }
+    } catch (error) {
+      console.error("Failed to load threads from IndexedDB", error);
+    }
+  },
+
+  selectThread: async (threadId: string) => {
+    const state = get();
+    const pairId = state.settings.selectedLanguagePairId;
+    const currentThreadId = selectActiveThreadId(state);
+    if (!pairId || threadId === currentThreadId) return;
+    if (currentThreadId && !state.isLoadingHistory) {
+      await safeSaveChatHistoryDB(currentThreadId, state.messages);
+    }
+    const nextSelected = { ...(get().settings.selectedThreadIds || {}) };
+    if (threadId === pairId) delete nextSelected[pairId];
+    else nextSelected[pairId] = threadId;
+    get().updateSetting('selectedThreadIds', nextSelected);
+  },
+
+  createThread: async (name: string) => {
+    const pairId = get().settings.selectedLanguagePairId;
+    if (!pairId) return null;
+    const now = Date.now();
+    const thread: ChatThread = { id: createThreadId(pairId), pairId, name: name.trim(), createdAt: now, updatedAt: now };
+    await saveThreadDB(thread);
+    broadcastTabMessage({ type: 'threads-changed', pairId });
+    set(state => ({ threads: [...state.threads, thread] }));
+    await get().selectThread(thread.id);
+    return thread.id;
+  },
+
+  renameThread: async (threadId: string, name: string) => {
+    const thread = get().threads.find(th => th.id === threadId);
+    if (!thread) return;
+    const next: ChatThread = { ...thread, name: name.trim(), updatedAt: Date.now() };
+    await saveThreadDB(next);
+    broadcastTabMessage({ type: 'threads-changed', pairId: thread.pairId });
+    set(state => ({ threads: state.threads.map(th => th.id === threadId ? next : th) }));
+  },
+
+  setThreadArchived: async (threadId: string, archived: boolean) => {
+    const thread = get().threads.find(th => th.id === threadId);
+    if (!thread) return;
+    const next: ChatThread = { ...thread, archived, updatedAt: Date.now() };
+    await saveThreadDB(next);
+    broadcastTabMessage({ type: 'threads-changed', pairId: thread.pairId });
+    set(state => ({ threads: state.threads.map(th => th.id === threadId ? next : th) }));
+    if (archived && selectActiveThreadId(get()) === threadId) {
+      await get().selectThread(thread.pairId);
+    }
+  },
+
+  deleteThread: async (threadId: string) => {
+    const thread = get().threads.find(th => th.id === threadId);
+    if (!thread || isDefaultThread(thread)) return;
+    if (selectActiveThreadId(get()) === threadId) {
+      // Switch away without saving the history that is about to be removed.
+      const nextSelected = { ...(get().settings.selectedThreadIds || {}) };
+      delete nextSelected[thread.pairId];
+      get().updateSetting('selectedThreadIds', nextSelected);
+    }
+    await deleteThreadDB(threadId);
+    broadcastTabMessage({ type: 'threads-changed', pairId: thread.pairId });
+    set(state => ({ threads: state.threads.filter(th => th.id !== threadId) }));
+  },
   
   addMessage: (message: Omit<ChatMessage, 'id' | 'timestamp'>): string => {
     const newMessage = { ...message, id: crypto.randomUUID(), timestamp: Date.now() } as ChatMessage;
@@ -168,9 +330,102 @@ export const createChatSlice: StateCreator<
   },
   
   deleteMessage: (messageId: string) => {
-    set(state => ({
-      messages: state.messages.filter(m => m.id !== messageId)
+    if (get().isReadOnlyTab) return;
+    const messages = get().messages;
+    const index = messages.findIndex(m => m.id === messageId);
+    if (index === -1) return;
+    const removed = messages[index];
+    const nextId = messages[index + 1]?.id;
+    const remove = () => set(state => ({ messages: state.messages.filter(m => m.id !== messageId) }));
+    remove();
+    get().pushUndo({
+      label: 'undo.action.deleteMessage',
+      threadId: selectActiveThreadId(get()),
+      undo: () => set(state => {
+        if (state.messages.some(m => m.id === messageId)) return {};
+        // Put it back before the message that followed it; at the end if that one is gone too.
+        const at = nextId ? state.messages.findIndex(m => m.id === nextId) : -1;
+        const restored = [...state.messages];
+        restored.splice(at === -1 ? restored.length : at, 0, removed);
+        return { messages: restored };
+      }),
+      redo: remove,
+    });
+  },
+
+  editMessage: (messageId: string, updates: Partial<ChatMessage>) => {
+    if (get().isReadOnlyTab) return;
+    const current = get().messages.find(m => m.id === messageId);
+    if (!current) return;
+    const keys = [...Object.keys(updates), 'timestamp'] as Array<keyof ChatMessage>;
+    const previous: Partial<ChatMessage> = {};
+    keys.forEach(key => { (previous as Record<string, unknown>)[key] = current[key]; });
+    get().updateMessage(messageId, updates);
+    const applied: Partial<ChatMessage> = {};
+    const edited = get().messages.find(m => m.id === messageId);
+    keys.forEach(key => { (applied as Record<string, unknown>)[key] = edited?.[key]; });
+    const restore = (values: Partial<ChatMessage>) => set(state => ({
+      messages: state.messages.map(m => (m.id === messageId ? { ...m, ...values } : m)),
     }));
+    get().pushUndo({
+      label: 'undo.action.editMessage',
+      threadId: selectActiveThreadId(get()),
+      undo: () => restore(previous),
+      redo: () => restore(applied),
+    });
+  },
+
+  setHistoryBookmark: (messageId: string | null) => {
+    if (get().isReadOnlyTab) return;
+    const threadId = selectActiveThreadId(get());
+    const previousId = get().settings.historyBookmarkMessageId ?? null;
+    if (previousId === messageId) return;
+    const apply = async (id: string | null) => {
+      get().setSettings(prev => ({ ...prev, historyBookmarkMessageId: id }));
+      if (!threadId) return;
+      try {
+        await setChatMetaDB(threadId, { bookmarkMessageId: id });
+      } catch (e) {
+        console.error(`[Chat] Failed to persist bookmark for threadId=${threadId}, messageId=${id}:`, e);
+      }
+    };
+    apply(messageId);
+    get().pushUndo({
+      label: 'undo.action.moveBookmark',
+      threadId,
+      undo: () => apply(previousId),
+      redo: () => apply(messageId),
+    });
+  },
+
+  removeReplySuggestion: (suggestion: ReplySuggestion) => {
+    if (get().isReadOnlyTab) return;
+    const isSame = (s: ReplySuggestion) => s.target === suggestion.target && s.native === suggestion.native;
+    const listBefore = get().replySuggestions;
+    if (!listBefore.some(isSame)) return;
+    const ownerId = get().lastFetchedSuggestionsFor;
+    const ownerBefore = ownerId ? get().messages.find(m => m.id === ownerId)?.replySuggestions : undefined;
+    // The owning message keeps its suggestions in history, so they are restored from there on reload.
+    const setOwnerSuggestions = (list: ReplySuggestion[] | undefined) => {
+      if (!ownerId || !list) return;
+      set(state => ({
+        messages: state.messages.map(m => (m.id === ownerId ? { ...m, replySuggestions: list } : m)),
+      }));
+    };
+    const remove = () => {
+      set(state => ({ replySuggestions: state.replySuggestions.filter(s => !isSame(s)) }));
+      setOwnerSuggestions(ownerBefore?.filter(s => !isSame(s)));
+    };
+    remove();
+    get().pushUndo({
+      label: 'undo.action.removeSuggestion',
+      threadId: selectActiveThreadId(get()),
+      undo: () => {
+        if (get().lastFetchedSuggestionsFor === ownerId) set({ replySuggestions: listBefore });
+        setOwnerSuggestions(ownerBefore);
+      },
+      redo: remove,
+    });
   },
   
   setMessages: (messagesOrUpdater) => {
@@ -220,50 +475,6 @@ export const createChatSlice: StateCreator<
     set({ attachedImageBase64: base64, attachedImageMimeType: mimeType });
   },
   
-  upsertMessageTtsCache: (messageId: string, entry: TtsAudioCacheEntry) => {
-    if (!entry || typeof entry.audioDataUrl !== 'string' || 
-        entry.audioDataUrl.length === 0 || entry.audioDataUrl.length > INLINE_CAP_AUDIO) {
-      return;
-    }
-    set(state => ({
-      messages: state.messages.map(m => {
-        if (m.id !== messageId) return m;
-        const nextCache = upsertTtsCacheEntries(m.ttsAudioCache, entry);
-        return { ...m, ttsAudioCache: nextCache };
-      })
-    }));
-  },
-  
-  upsertSuggestionTtsCache: (messageId: string, suggestionIndex: number, entry: TtsAudioCacheEntry) => {
-    if (!entry || typeof entry.audioDataUrl !== 'string' || 
-        entry.audioDataUrl.length === 0 || entry.audioDataUrl.length > INLINE_CAP_AUDIO) {
-      return;
-    }
-    set(state => {
-      const newMessages = state.messages.map(m => {
-        if (m.id !== messageId || !Array.isArray(m.replySuggestions)) return m;
-        const nextSuggestions = m.replySuggestions.map((suggestion, idx) => {
-          if (idx !== suggestionIndex) return suggestion;
-          const nextCache = upsertTtsCacheEntries(suggestion.ttsAudioCache, entry);
-          return { ...suggestion, ttsAudioCache: nextCache };
-        });
-        return { ...m, replySuggestions: nextSuggestions };
-      });
-      
-      // Also sync local replySuggestions state when cache is upserted
-      let newSuggestions = state.replySuggestions;
-      if (state.lastFetchedSuggestionsFor === messageId) {
-        newSuggestions = state.replySuggestions.map((suggestion, idx) => {
-          if (idx !== suggestionIndex) return suggestion;
-          const nextCache = upsertTtsCacheEntries(suggestion.ttsAudioCache, entry);
-          return { ...suggestion, ttsAudioCache: nextCache };
-        });
-      }
-      
-      return { messages: newMessages, replySuggestions: newSuggestions };
-    });
-  },
-  
   // Utilities
   trimHistoryByBookmark: (arr: ChatMessage[]): ChatMessage[] => {
     const bm = get().settings.historyBookmarkMessageId;
@@ -0,0 +1,50 @@
+// Copyright 2025 Roni Tervo
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * Models Slice - manages the model provider panel
+ *
+ * Responsibilities:
+ * - Provider panel visibility
+ * - Models cooling down after rate limiting, for the retry banner
+ *
+ * The provider choice itself lives in `settings.llm`.
+ */
+
+import type { StateCreator } from 'zustand';
+import type { ModelCooldown } from '../../core/types';
+import type { MaestroStore } from '../maestroStore';
+
+export interface ModelsSlice {
+  // State
+  showModelsPanel: boolean;
+  modelCooldowns: ModelCooldown[];
+
+  // Actions
+  setShowModelsPanel: (value: boolean) => void;
+  toggleModelsPanel: () => void;
+  setModelCooldowns: (cooldowns: ModelCooldown[]) => void;
+}
+
+export const createModelsSlice: StateCreator<
+  MaestroStore,
+  [['zustand/subscribeWithSelector', never], ['zustand/devtools', never]],
+  [],
+  ModelsSlice
+> = (set) => ({
+  // Initial state
+  showModelsPanel: false,
+  modelCooldowns: [],
+
+  // Actions
+  setShowModelsPanel: (value: boolean) => {
+    set({ showModelsPanel: value });
+  },
+
+  toggleModelsPanel: () => {
+    set(state => ({ showModelsPanel: !state.showModelsPanel }));
+  },
+
+  setModelCooldowns: (cooldowns: ModelCooldown[]) => {
+    set({ modelCooldowns: cooldowns });
+  },
+});
@@ -0,0 +1,58 @@
+// Copyright 2025 Roni Tervo
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * Search Slice - manages message search state
+ *
+ * Responsibilities:
+ * - Search panel visibility
+ * - Pending "jump to message" request for the chat view
+ */
+
+import type { StateCreator } from 'zustand';
+import type { MaestroStore } from '../maestroStore';
+
+export interface MessageJumpTarget {
+  messageId: string;
+  /** Distinguishes repeated jumps to the same message. */
+  requestedAt: number;
+}
+
+export interface SearchSlice {
+  // State
+  showSearchPanel: boolean;
+  messageJumpTarget: MessageJumpTarget | null;
+
+  // Actions
+  setShowSearchPanel: (value: boolean) => void;
+  toggleSearchPanel: () => void;
+  requestMessageJump: (messageId: string) => void;
+  clearMessageJump: () => void;
+}
+
+export const createSearchSlice: StateCreator<
+  MaestroStore,
+  [['zustand/subscribeWithSelector', never], ['zustand/devtools', never]],
+  [],
+  SearchSlice
+> = (set) => ({
+  // Initial state
+  showSearchPanel: false,
+  messageJumpTarget: null,
+
+  // Actions
+  setShowSearchPanel: (value: boolean) => {
+    set({ showSearchPanel: value });
+  },
+
+  toggleSearchPanel: () => {
+    set(state => ({ showSearchPanel: !state.showSearchPanel }));
+  },
+
+  requestMessageJump: (messageId: string) => {
+    set({ messageJumpTarget: { messageId, requestedAt: Date.now() } });
+  },
+
+  clearMessageJump: () => {
+    set({ messageJumpTarget: null });
+  },
+});
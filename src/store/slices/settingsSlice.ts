@@ -84,6 +84,18 @@ export const selectSelectedLanguagePair = (
 ): LanguagePair | undefined =>
   state.languagePairs.find(p => p.id === state.settings.selectedLanguagePairId);
 
+/**
+ * Thread id used for history and meta persistence of the selected pair.
+ * Falls back to the pair's default thread (whose id equals the pair id).
+ */
+export const selectActiveThreadId = (
+  state: Pick<SettingsSlice, 'settings'>
+): string | null => {
+  const pairId = state.settings.selectedLanguagePairId;
+  if (!pairId) return null;
+  return state.settings.selectedThreadIds?.[pairId] || pairId;
+};
+
 export const selectCurrentSystemPromptText = (
   state: Pick<SettingsSlice, 'languagePairs' | 'settings'>
 ): string => selectSelectedLanguagePair(state)?.baseSystemPrompt || '';
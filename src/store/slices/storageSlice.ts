@@ -0,0 +1,59 @@
+// Copyright 2025 Roni Tervo
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * Storage Slice - manages storage usage state
+ *
+ * Responsibilities:
+ * - Storage panel visibility
+ * - Latest usage/quota check and its warning level
+ */
+
+import type { StateCreator } from 'zustand';
+import type { MaestroStore } from '../maestroStore';
+
+export type StorageLevel = 'ok' | 'warning' | 'critical';
+
+export interface StorageStatus {
+  /** Bytes used by the origin; null when the browser cannot estimate. */
+  usage: number | null;
+  quota: number | null;
+  level: StorageLevel;
+  /** A chat history write failed since the app started. */
+  writeFailed: boolean;
+  checkedAt: number;
+}
+
+export interface StorageSlice {
+  // State
+  showStoragePanel: boolean;
+  storageStatus: StorageStatus | null;
+
+  // Actions
+  setShowStoragePanel: (value: boolean) => void;
+  toggleStoragePanel: () => void;
+  setStorageStatus: (status: StorageStatus | null) => void;
+}
+
+export const createStorageSlice: StateCreator<
+  MaestroStore,
+  [['zustand/subscribeWithSelector', never], ['zustand/devtools', never]],
+  [],
+  StorageSlice
+> = (set) => ({
+  // Initial state
+  showStoragePanel: false,
+  storageStatus: null,
+
+  // Actions
+  setShowStoragePanel: (value: boolean) => {
+    set({ showStoragePanel: value });
+  },
+
+  toggleStoragePanel: () => {
+    set(state => ({ showStoragePanel: !state.showStoragePanel }));
+  },
+
+  setStorageStatus: (status: StorageStatus | null) => {
+    set({ storageStatus: status });
+  },
+});
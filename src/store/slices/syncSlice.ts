@@ -0,0 +1,59 @@
+// Copyright 2025 Roni Tervo
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * Sync Slice - manages multi-device sync state
+ *
+ * Responsibilities:
+ * - Sync panel visibility
+ * - Status of the last sync run, shown in the header
+ */
+
+import type { StateCreator } from 'zustand';
+import type { MaestroStore } from '../maestroStore';
+
+export type SyncPhase = 'disabled' | 'idle' | 'syncing' | 'error';
+
+export interface SyncStatus {
+  phase: SyncPhase;
+  lastSyncedAt: number | null;
+  /** Message of the last failure; cleared by the next successful run. */
+  lastError: string | null;
+  /** Records sent and received by the last successful run. */
+  pushed: number;
+  pulled: number;
+}
+
+export interface SyncSlice {
+  // State
+  showSyncPanel: boolean;
+  syncStatus: SyncStatus;
+
+  // Actions
+  setShowSyncPanel: (value: boolean) => void;
+  toggleSyncPanel: () => void;
+  setSyncStatus: (updates: Partial<SyncStatus>) => void;
+}
+
+export const createSyncSlice: StateCreator<
+  MaestroStore,
+  [['zustand/subscribeWithSelector', never], ['zustand/devtools', never]],
+  [],
+  SyncSlice
+> = (set) => ({
+  // Initial state
+  showSyncPanel: false,
+  syncStatus: { phase: 'disabled', lastSyncedAt: null, lastError: null, pushed: 0, pulled: 0 },
+
+  // Actions
+  setShowSyncPanel: (value: boolean) => {
+    set({ showSyncPanel: value });
+  },
+
+  toggleSyncPanel: () => {
+    set(state => ({ showSyncPanel: !state.showSyncPanel }));
+  },
+
+  setSyncStatus: (updates: Partial<SyncStatus>) => {
+    set(state => ({ syncStatus: { ...state.syncStatus, ...updates } }));
+  },
+});
@@ -0,0 +1,119 @@
+// Copyright 2025 Roni Tervo
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * Undo Slice - undo/redo stack for destructive user actions
+ *
+ * Responsibilities:
+ * - Undo and redo stacks of recorded actions (message delete/edit, bookmark
+ *   moves, profile edits, suggestion removal)
+ * - The toast that offers Undo right after an action
+ *
+ * Each entry carries its own `undo`/`redo` that write through the normal
+ * store actions and DB services, so persisted state follows along.
+ */
+
+import type { StateCreator } from 'zustand';
+import type { MaestroStore } from '../maestroStore';
+import { selectActiveThreadId } from './settingsSlice';
+
+/** Entries kept per stack; older ones are dropped. */
+export const UNDO_STACK_LIMIT = 50;
+
+export interface UndoEntry {
+  /** i18n key describing the action, e.g. `undo.action.deleteMessage`. */
+  label: string;
+  /** Thread the action touched; null for global data such as the profile. */
+  threadId: string | null;
+  undo: () => void | Promise<void>;
+  redo: () => void | Promise<void>;
+}
+
+export interface UndoToast {
+  label: string;
+  /** Whether the toast reports an undo (offers Redo) or a fresh action (offers Undo). */
+  kind: 'done' | 'undone';
+  /** Changes on every show so the toast restarts its timer. */
+  shownAt: number;
+}
+
+export interface UndoSlice {
+  // State
+  undoStack: UndoEntry[];
+  redoStack: UndoEntry[];
+  undoToast: UndoToast | null;
+
+  // Actions
+  pushUndo: (entry: UndoEntry) => void;
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+  dismissUndoToast: () => void;
+  clearUndoHistory: () => void;
+}
+
+export const createUndoSlice: StateCreator<
+  MaestroStore,
+  [['zustand/subscribeWithSelector', never], ['zustand/devtools', never]],
+  [],
+  UndoSlice
+> = (set, get) => {
+  // Entries of another thread would act on messages that are no longer loaded.
+  const isApplicable = (entry: UndoEntry) =>
+    entry.threadId === null || entry.threadId === selectActiveThreadId(get());
+
+  let isApplying = false;
+
+  const step = async (direction: 'undo' | 'redo') => {
+    // A read-only tab cannot save what the entry would change.
+    if (isApplying || get().isReadOnlyTab) return;
+    const stack = direction === 'undo' ? get().undoStack : get().redoStack;
+    // Other threads' entries stay put for when their thread is active again.
+    let index = stack.length - 1;
+    while (index >= 0 && !isApplicable(stack[index])) index--;
+    if (index < 0) return;
+    const entry = stack[index];
+    const remaining = stack.filter((_, i) => i !== index);
+    set(direction === 'undo' ? { undoStack: remaining } : { redoStack: remaining });
+    isApplying = true;
+    try {
+      await (direction === 'undo' ? entry.undo() : entry.redo());
+    } catch (e) {
+      console.error('[Undo] Failed to apply', entry.label, e);
+      return;
+    } finally {
+      isApplying = false;
+    }
+    const done = entry;
+    const undoToast: UndoToast = { label: done.label, kind: direction === 'undo' ? 'undone' : 'done', shownAt: Date.now() };
+    set(state => direction === 'undo'
+      ? { redoStack: [...state.redoStack, done].slice(-UNDO_STACK_LIMIT), undoToast }
+      : { undoStack: [...state.undoStack, done].slice(-UNDO_STACK_LIMIT), undoToast });
+  };
+
+  return {
+    // Initial state
+    undoStack: [],
+    redoStack: [],
+    undoToast: null,
+
+    // Actions
+    pushUndo: (entry: UndoEntry) => {
+      set(state => ({
+        undoStack: [...state.undoStack, entry].slice(-UNDO_STACK_LIMIT),
+        redoStack: [],
+        undoToast: { label: entry.label, kind: 'done', shownAt: Date.now() },
+      }));
+    },
+
+    undo: () => step('undo'),
+
+    redo: () => step('redo'),
+
+    dismissUndoToast: () => {
+      set({ undoToast: null });
+    },
+
+    clearUndoHistory: () => {
+      set({ undoStack: [], redoStack: [], undoToast: null });
+    },
+  };
+};
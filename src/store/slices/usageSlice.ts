@@ -0,0 +1,77 @@
+// Copyright 2025 Roni Tervo
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * Usage Slice - manages token usage and budget state
+ *
+ * Responsibilities:
+ * - Usage panel visibility
+ * - Today's and this month's totals, and which budget (if any) is exceeded
+ *
+ * The counters themselves live in IndexedDB (`core/db/usage.ts`); the budget
+ * limits live in `settings.usageBudget`.
+ */
+
+import type { StateCreator } from 'zustand';
+import type { AppSettings } from '../../core/types';
+import type { MaestroStore } from '../maestroStore';
+
+export type UsageBudgetPeriod = 'daily' | 'monthly';
+
+export interface UsageTotals {
+  requests: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+export interface UsageSummary {
+  today: UsageTotals;
+  month: UsageTotals;
+  checkedAt: number;
+}
+
+export interface UsageSlice {
+  // State
+  showUsagePanel: boolean;
+  usageSummary: UsageSummary | null;
+  /** The budget crossed, daily first; null while within budget. */
+  exceededBudget: UsageBudgetPeriod | null;
+
+  // Actions
+  setShowUsagePanel: (value: boolean) => void;
+  toggleUsagePanel: () => void;
+  setUsageSummary: (summary: UsageSummary | null, exceeded: UsageBudgetPeriod | null) => void;
+}
+
+// ============================================================
+// DERIVED SELECTORS
+// ============================================================
+
+/** Whether a crossed budget switches off image generation and live sessions. */
+export const selectExpensiveFeaturesBlocked = (
+  state: Pick<UsageSlice, 'exceededBudget'> & { settings: Pick<AppSettings, 'usageBudget'> }
+): boolean => state.exceededBudget !== null && state.settings.usageBudget?.onExceeded === 'disable';
+
+export const createUsageSlice: StateCreator<
+  MaestroStore,
+  [['zustand/subscribeWithSelector', never], ['zustand/devtools', never]],
+  [],
+  UsageSlice
+> = (set) => ({
+  // Initial state
+  showUsagePanel: false,
+  usageSummary: null,
+  exceededBudget: null,
+
+  // Actions
+  setShowUsagePanel: (value: boolean) => {
+    set({ showUsagePanel: value });
+  },
+
+  toggleUsagePanel: () => {
+    set(state => ({ showUsagePanel: !state.showUsagePanel }));
+  },
+
+  setUsageSummary: (summary: UsageSummary | null, exceeded: UsageBudgetPeriod | null) => {
+    set({ usageSummary: summary, exceededBudget: exceeded });
+  },
+});